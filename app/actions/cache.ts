@@ -0,0 +1,207 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { validateCacheSettings } from '@/lib/cache/status'
+import { callQueryRag, fetchCacheFingerprint } from '@/lib/rag/query-rag'
+import type { QueryCacheEntry, QueryCacheSettings } from '@/lib/types/database'
+
+// MVP: No authentication required (admin tooling)
+
+// Everything except the question embedding
+const ENTRY_COLUMNS =
+  'id, question, answer, sources, role, document_ids, kb_version, fingerprint, curated, pinned, hit_count, last_hit_at, answered_at, created_at, updated_at'
+
+export async function getCacheEntries(): Promise<{ data?: QueryCacheEntry[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('query_cache')
+    .select(ENTRY_COLUMNS)
+    .order('pinned', { ascending: false })
+    .order('hit_count', { ascending: false })
+    .limit(500)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { data: data as QueryCacheEntry[] }
+}
+
+export async function getCacheSettings(): Promise<{ data?: QueryCacheSettings[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.from('query_cache_settings').select('*').order('role')
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { data }
+}
+
+// Current knowledge-base version per role; uncurated entries stamped with an older one are stale
+export async function getKnowledgeBaseVersions(): Promise<{ data?: Record<string, number>; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.from('knowledge_base_versions').select('role, version')
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { data: Object.fromEntries((data || []).map((row) => [row.role, row.version])) }
+}
+
+// Editing an answer promotes it to a curated answer
+export async function updateCachedAnswer(id: string, answer: string) {
+  const trimmed = answer.trim()
+  if (!trimmed) {
+    return { error: 'Answer cannot be empty' }
+  }
+
+  const supabase = await createClient()
+  const { error } = await supabase
+    .from('query_cache')
+    .update({ answer: trimmed, curated: true, answered_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/cache')
+  return { success: true }
+}
+
+export async function setCacheEntryPinned(id: string, pinned: boolean) {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('query_cache').update({ pinned }).eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/cache')
+  return { success: true }
+}
+
+export async function deleteCacheEntry(id: string) {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('query_cache').delete().eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/cache')
+  return { success: true }
+}
+
+export async function updateCacheSettings(
+  role: string,
+  settings: { similarity_threshold: number; ttl_days: number | null }
+) {
+  const invalid = validateCacheSettings(role, settings)
+  if (invalid) {
+    return { error: invalid }
+  }
+
+  const supabase = await createClient()
+  const { error } = await supabase
+    .from('query_cache_settings')
+    .update({ similarity_threshold: settings.similarity_threshold, ttl_days: settings.ttl_days })
+    .eq('role', role)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/cache')
+  return { success: true }
+}
+
+// Fingerprints are hex digests; anything else would end up inside a PostgREST filter
+function isFingerprint(value: string): boolean {
+  return /^[0-9a-f]{8,64}$/.test(value)
+}
+
+export async function getCacheFingerprint(): Promise<{ data?: { fingerprint: string; config: Record<string, unknown> }; error?: string }> {
+  try {
+    return { data: await fetchCacheFingerprint() }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Failed to read the cache fingerprint' }
+  }
+}
+
+// Deletes entries from older fingerprints; curated and pinned entries are kept (re-warm those)
+export async function purgeOutdatedCacheEntries(fingerprint: string) {
+  if (!isFingerprint(fingerprint)) {
+    return { error: 'Invalid fingerprint' }
+  }
+
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('query_cache')
+    .delete()
+    .eq('curated', false)
+    .eq('pinned', false)
+    .or(`fingerprint.is.null,fingerprint.neq.${fingerprint}`)
+    .select('id')
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/cache')
+  return { data: { purged: data?.length ?? 0 } }
+}
+
+// Re-asks the most used outdated questions so their answers are regenerated under the current
+// fingerprint. One at a time to stay under provider rate limits. Answers that are no longer
+// cacheable (abstained, unverified claims) leave the outdated entry in place.
+export async function rewarmOutdatedCacheEntries(fingerprint: string, limit = 20) {
+  if (!isFingerprint(fingerprint)) {
+    return { error: 'Invalid fingerprint' }
+  }
+
+  const supabase = await createClient()
+
+  const { data: entries, error } = await supabase
+    .from('query_cache')
+    .select('id, question, role')
+    .eq('curated', false)
+    .or(`fingerprint.is.null,fingerprint.neq.${fingerprint}`)
+    .order('pinned', { ascending: false })
+    .order('hit_count', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  let warmed = 0
+  let failed = 0
+  for (const entry of entries || []) {
+    try {
+      const response = await callQueryRag(entry.question, { role: entry.role, warmCache: true })
+      await response.json()
+    } catch (queryError) {
+      console.error('[CACHE] Re-warm failed:', queryError instanceof Error ? queryError.message : queryError)
+    }
+
+    const { data: refreshed } = await supabase.from('query_cache').select('fingerprint').eq('id', entry.id).maybeSingle()
+    if (refreshed?.fingerprint === fingerprint) {
+      warmed++
+    } else {
+      failed++
+    }
+  }
+
+  revalidatePath('/admin/cache')
+  return { data: { warmed, failed } }
+}
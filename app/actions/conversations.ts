@@ -0,0 +1,127 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import type { ChatMessage, Conversation } from '@/lib/types/database'
+
+// MVP: No authentication required
+// Conversations are scoped by role only (customers' chats are not stored)
+
+const ROLES = ['business_owner', 'employee', 'customer'] as const
+const MAX_TITLE_LENGTH = 80
+
+function toRole(role?: string): Conversation['role'] {
+  return ROLES.find((r) => r === role) || 'business_owner'
+}
+
+// Default thread title: the first question, shortened
+function titleFromQuestion(question: string) {
+  const title = question.trim().replace(/\s+/g, ' ')
+  return title.length > MAX_TITLE_LENGTH ? title.substring(0, MAX_TITLE_LENGTH - 3) + '...' : title
+}
+
+// Pinned threads first, then most recently active
+export async function listConversations(role?: string): Promise<{ data?: Conversation[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('*, chat_history(count)')
+    .eq('role', toRole(role))
+    .order('pinned', { ascending: false })
+    .order('updated_at', { ascending: false })
+    .limit(100)
+
+  if (error) {
+    console.error('[CONVERSATIONS] List error:', error)
+    return { error: error.message }
+  }
+
+  const conversations = (data || []).map(({ chat_history, ...conversation }) => ({
+    ...conversation,
+    message_count: (chat_history as { count: number }[] | null)?.[0]?.count ?? 0,
+  }))
+
+  return { data: conversations as Conversation[] }
+}
+
+export async function createConversation(role?: string, firstQuestion?: string): Promise<{ data?: Conversation; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({
+      role: toRole(role),
+      ...(firstQuestion?.trim() && { title: titleFromQuestion(firstQuestion) }),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[CONVERSATIONS] Create error:', error)
+    return { error: error.message }
+  }
+
+  return { data: data as Conversation }
+}
+
+export async function renameConversation(id: string, title: string) {
+  const trimmedTitle = title.trim()
+  if (!trimmedTitle) {
+    return { error: 'Title cannot be empty' }
+  }
+
+  const supabase = await createClient()
+  const { error } = await supabase
+    .from('conversations')
+    .update({ title: trimmedTitle.substring(0, MAX_TITLE_LENGTH) })
+    .eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { success: true }
+}
+
+export async function setConversationPinned(id: string, pinned: boolean) {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('conversations').update({ pinned }).eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { success: true }
+}
+
+// Messages are removed with the thread (ON DELETE CASCADE)
+export async function deleteConversation(id: string) {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('conversations').delete().eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { success: true }
+}
+
+// All question/answer pairs of a thread, oldest first
+export async function getConversationMessages(id: string): Promise<{ data?: ChatMessage[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('chat_history')
+    .select('*')
+    .eq('conversation_id', id)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('[CONVERSATIONS] Messages error:', error)
+    return { error: error.message }
+  }
+
+  return { data: data as ChatMessage[] }
+}
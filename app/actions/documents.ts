@@ -2,9 +2,16 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
+import { after } from 'next/server'
+import { buildDocumentPreview, type DocumentPreview } from '@/lib/parsers/preview'
+import type { Chunk, Document } from '@/lib/types/database'
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
 
+// Stage and progress of each document's ingestion job, shown while it is processed
+const INGESTION_JOB_COLUMNS =
+  'stage, status, attempts, max_attempts, next_run_at, last_error, chunks_total, chunks_embedded'
+
 // MVP: No authentication required
 // Documents are stored globally and accessible by all roles
 
@@ -94,76 +101,21 @@ export async function uploadDocument(formData: FormData) {
 
     console.log('[UPLOAD] Document record created:', document.id)
 
-    // Call Edge Functions for processing
-    console.log('[UPLOAD] Starting Edge Function processing pipeline...')
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
-    
-    if (!supabaseUrl || !serviceRoleKey) {
-      console.error('[UPLOAD] Missing Supabase env (URL or SERVICE_ROLE_KEY)')
-      return { error: 'Server configuration error' }
-    }
-
-    try {
-      // STEP 1: Process document (parse + chunk)
-      const processUrl = `${supabaseUrl}/functions/v1/process-document`
-      console.log('[UPLOAD] Step 1: Calling process-document:', processUrl)
-      
-      const processResponse = await fetch(processUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${serviceRoleKey}`,
-          'Content-Type': 'application/octet-stream',
-          'X-Document-ID': document.id,
-          'X-File-Type': file.type,
-        },
-        body: buffer,
-      })
-
-      console.log('[UPLOAD] process-document response status:', processResponse.status)
-
-      if (!processResponse.ok) {
-        const errorText = await processResponse.text()
-        console.error('[UPLOAD] process-document error:', errorText)
-        throw new Error(`Document processing failed (${processResponse.status})`)
-      }
-
-      const processResult = await processResponse.json()
-      console.log('[UPLOAD] ✅ Step 1 complete:', processResult)
-
-      // STEP 2: Generate embeddings
-      const embedUrl = `${supabaseUrl}/functions/v1/generate-embeddings`
-      console.log('[UPLOAD] Step 2: Calling generate-embeddings:', embedUrl)
-      
-      const embedResponse = await fetch(embedUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${serviceRoleKey}`,
-          'X-Document-ID': document.id,
-        },
-      })
-
-      console.log('[UPLOAD] generate-embeddings response status:', embedResponse.status)
+    // Parsing, chunking and embedding run in the background (ingestion-worker), with retries
+    const { error: jobError } = await supabase.from('ingestion_jobs').insert({ document_id: document.id })
 
-      if (!embedResponse.ok) {
-        const errorText = await embedResponse.text()
-        console.error('[UPLOAD] generate-embeddings error:', errorText)
-        throw new Error(`Embedding generation failed (${embedResponse.status})`)
-      }
-
-      const embedResult = await embedResponse.json()
-      console.log('[UPLOAD] ✅ Step 2 complete:', embedResult)
-      console.log('[UPLOAD] ✅✅ Full pipeline complete!')
-    } catch (edgeError) {
-      console.error('[UPLOAD] Edge Function pipeline failed:', edgeError)
-      // Update document status to failed
+    if (jobError) {
+      console.error('[UPLOAD] Queueing ingestion failed:', jobError)
       await supabase
         .from('documents')
-        .update({ status: 'failed' })
+        .update({ status: 'failed', error_message: `Could not queue processing: ${jobError.message}` })
         .eq('id', document.id)
-      throw edgeError
+      throw new Error(`Queueing failed: ${jobError.message}`)
     }
 
+    console.log('[UPLOAD] ✅ Ingestion job queued')
+    after(runIngestionWorker)
+
     revalidatePath('/dashboard')
     revalidatePath('/dashboard/documents')
     return { success: true, data: document }
@@ -181,7 +133,7 @@ export async function getDocuments() {
   // MVP: Get all documents (no user filter)
   const { data, error, count } = await supabase
     .from('documents')
-    .select('*', { count: 'exact' })
+    .select(`*, ingestion_job:ingestion_jobs(${INGESTION_JOB_COLUMNS})`, { count: 'exact' })
     .order('created_at', { ascending: false })
 
   if (error) {
@@ -193,6 +145,67 @@ export async function getDocuments() {
   return { data, count }
 }
 
+// Re-queue a failed document. The job resumes at the stage that failed; documents without
+// a job (failed before the queue existed) start again from parsing.
+export async function retryIngestion(documentId: string) {
+  const supabase = await createClient()
+
+  const { data: job, error: jobError } = await supabase
+    .from('ingestion_jobs')
+    .select('id, status')
+    .eq('document_id', documentId)
+    .maybeSingle()
+
+  if (jobError) {
+    return { error: jobError.message }
+  }
+  if (job?.status === 'running' || job?.status === 'completed') {
+    return { error: `Document is already ${job.status === 'running' ? 'being processed' : 'processed'}` }
+  }
+
+  const { error } = job
+    ? await supabase
+        .from('ingestion_jobs')
+        .update({ status: 'queued', attempts: 0, next_run_at: new Date().toISOString(), last_error: null })
+        .eq('id', job.id)
+    : await supabase.from('ingestion_jobs').insert({ document_id: documentId })
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  await supabase.from('documents').update({ status: 'processing', error_message: null }).eq('id', documentId)
+
+  after(runIngestionWorker)
+
+  revalidatePath('/dashboard/documents')
+  return { success: true }
+}
+
+// Start a worker run right away instead of waiting for the next scheduled one. The worker
+// answers 202 once the run has started, so this does not wait for the run itself
+async function runIngestionWorker() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.error('[INGEST] Missing Supabase env (URL or SERVICE_ROLE_KEY)')
+    return
+  }
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/ingestion-worker`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${serviceRoleKey}` },
+    })
+    if (!response.ok) {
+      console.error('[INGEST] ingestion-worker error:', response.status, await response.text())
+    }
+  } catch (error) {
+    console.error('[INGEST] Could not start ingestion-worker:', error)
+  }
+}
+
 export async function deleteDocument(documentId: string) {
   const supabase = await createClient()
   
@@ -246,3 +259,161 @@ export async function updateDocumentVisibility(documentId: string, field: 'emplo
   revalidatePath('/dashboard/documents')
   return { success: true, data }
 }
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const MAX_TAGS = 20
+const MAX_TAG_LENGTH = 50
+
+// Tags and effective date used by the chat's metadata filters
+export async function updateDocumentMetadata(
+  documentId: string,
+  metadata: { tags?: string[]; effective_date?: string | null }
+) {
+  const updates: Partial<Pick<Document, 'tags' | 'effective_date'>> = {}
+
+  if (metadata.tags !== undefined) {
+    // Lowercase so "HR" and "hr" are one filter value
+    updates.tags = [...new Set(metadata.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))]
+      .map(tag => tag.substring(0, MAX_TAG_LENGTH))
+      .slice(0, MAX_TAGS)
+  }
+
+  if (metadata.effective_date !== undefined) {
+    if (metadata.effective_date !== null && !DATE_PATTERN.test(metadata.effective_date)) {
+      return { error: 'Effective date must be a YYYY-MM-DD date' }
+    }
+    updates.effective_date = metadata.effective_date
+  }
+
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('documents')
+    .update(updates)
+    .eq('id', documentId)
+    .select()
+    .single()
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/dashboard/documents')
+  return { success: true, data }
+}
+
+export interface FilterOptions {
+  documents: Pick<Document, 'id' | 'filename' | 'file_type' | 'tags'>[]
+  tags: string[]
+}
+
+// Documents and tags the chat filter bar offers, limited to what the role can query
+export async function getFilterOptions(role?: string): Promise<{ data?: FilterOptions; error?: string }> {
+  const supabase = await createClient()
+
+  let query = supabase
+    .from('documents')
+    .select('id, filename, file_type, tags')
+    .eq('status', 'completed')
+    .order('filename')
+
+  if (role === 'customer') {
+    query = query.eq('accessible_by_customers', true)
+  } else if (role === 'employee') {
+    query = query.eq('accessible_by_employees', true)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching filter options:', error)
+    return { error: error.message }
+  }
+
+  const documents = data || []
+  const tags = [...new Set(documents.flatMap(doc => doc.tags || []))].sort()
+
+  return { data: { documents, tags } }
+}
+
+const SIGNED_URL_TTL_SECONDS = 60 * 10
+const VIEWER_ROLES = ['business_owner', 'employee', 'customer'] as const
+
+// Mirrors public.document_search_roles (and so query-rag's document selection): business
+// owners see every completed document, employees and customers the ones shared with them
+function canSearchDocument(document: Document, role: typeof VIEWER_ROLES[number]): boolean {
+  if (document.status !== 'completed') return false
+  if (role === 'employee') return document.accessible_by_employees
+  if (role === 'customer') return document.accessible_by_customers
+  return true
+}
+
+export interface DocumentViewerData {
+  document: Document
+  preview: DocumentPreview
+  // The chunk to scroll to and highlight (e.g. from a citation)
+  chunk: Pick<Chunk, 'id' | 'chunk_index' | 'content' | 'metadata'> | null
+}
+
+// Load a stored file for the document viewer. Only documents the role can retrieve are shown;
+// without a known role the viewer falls back to what customers may see.
+export async function getDocumentViewer(
+  documentId: string,
+  role?: string,
+  chunkId?: string
+): Promise<{ data?: DocumentViewerData; error?: string }> {
+  const viewerRole = VIEWER_ROLES.find((r) => r === role) || 'customer'
+  const supabase = await createClient()
+
+  const { data: document, error: docError } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('id', documentId)
+    .single()
+
+  // Hidden documents are reported as missing so their existence is not revealed
+  if (docError || !document || !canSearchDocument(document as Document, viewerRole)) {
+    return { error: 'Document not found' }
+  }
+
+  let chunk: DocumentViewerData['chunk'] = null
+  if (chunkId) {
+    const { data } = await supabase
+      .from('chunks')
+      .select('id, chunk_index, content, metadata')
+      .eq('id', chunkId)
+      .eq('document_id', documentId)
+      .maybeSingle()
+    chunk = data
+  }
+
+  try {
+    let preview: DocumentPreview
+
+    if (document.file_type.includes('pdf')) {
+      // PDFs are rendered page by page in the browser
+      const { data: signed, error: signError } = await supabase.storage
+        .from('documents')
+        .createSignedUrl(document.storage_path, SIGNED_URL_TTL_SECONDS)
+
+      if (signError || !signed) {
+        throw new Error(signError?.message || 'Could not create a download link')
+      }
+      preview = { kind: 'pdf', url: signed.signedUrl }
+    } else {
+      const { data: file, error: downloadError } = await supabase.storage
+        .from('documents')
+        .download(document.storage_path)
+
+      if (downloadError || !file) {
+        throw new Error(downloadError?.message || 'File not found in storage')
+      }
+      preview = await buildDocumentPreview(Buffer.from(await file.arrayBuffer()), document.file_type)
+    }
+
+    return { data: { document: document as Document, preview, chunk } }
+  } catch (error) {
+    console.error('[VIEWER] Failed to load document:', error)
+    return { error: error instanceof Error ? error.message : 'Failed to load document' }
+  }
+}
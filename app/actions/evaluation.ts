@@ -0,0 +1,322 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { callQueryRag, fetchCacheFingerprint, type RetrievalOptions, type VerificationOptions } from '@/lib/rag/query-rag'
+import { evaluateQuestion, summarizeMetrics, type QuestionMetrics, type RetrievedItem } from '@/lib/evaluation/metrics'
+import type { AnswerVerification, ChunkingSettings, EvalQuestion, EvalResult, EvalRun } from '@/lib/types/database'
+
+// MVP: No authentication required (admin tooling)
+
+const ROLES = ['business_owner', 'employee', 'customer'] as const
+
+export interface EvalQuestionInput {
+  question: string
+  role?: string
+  expected_document_ids?: string[]
+  expected_chunk_ids?: string[]
+  expected_facts?: string[]
+  notes?: string
+}
+
+export interface EvalRunInput extends RetrievalOptions {
+  label?: string
+  k?: number
+  // Claim verification behind the groundedness metric (default llm; off skips the metric)
+  claimCheck?: VerificationOptions['mode']
+}
+
+export async function getEvalQuestions(): Promise<{ data?: EvalQuestion[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('eval_questions')
+    .select('*')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { data }
+}
+
+export async function createEvalQuestion(input: EvalQuestionInput) {
+  const question = input.question?.trim()
+  if (!question) {
+    return { error: 'Question cannot be empty' }
+  }
+
+  const expectedDocumentIds = input.expected_document_ids || []
+  const expectedChunkIds = input.expected_chunk_ids || []
+  if (expectedDocumentIds.length === 0 && expectedChunkIds.length === 0) {
+    return { error: 'Select at least one expected document or chunk' }
+  }
+
+  const role = ROLES.find((r) => r === input.role) || 'business_owner'
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('eval_questions')
+    .insert({
+      question,
+      role,
+      expected_document_ids: expectedDocumentIds,
+      expected_chunk_ids: expectedChunkIds,
+      expected_facts: (input.expected_facts || []).map((f) => f.trim()).filter(Boolean),
+      notes: input.notes?.trim() || null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[EVAL] Failed to create question:', error)
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/evaluation')
+  return { data: data as EvalQuestion }
+}
+
+export async function setEvalQuestionActive(id: string, active: boolean) {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('eval_questions').update({ active }).eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/evaluation')
+  return { success: true }
+}
+
+export async function deleteEvalQuestion(id: string) {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('eval_questions').delete().eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/evaluation')
+  return { success: true }
+}
+
+export async function getEvalRuns(): Promise<{ data?: EvalRun[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('eval_runs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(50)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { data }
+}
+
+export async function getEvalResults(runId: string): Promise<{ data?: EvalResult[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('eval_results')
+    .select('*')
+    .eq('run_id', runId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { data }
+}
+
+// Distinct chunking settings of the searchable corpus, most common first. Chunking happens at
+// ingestion time, so a corpus built over several tuning rounds can mix settings.
+async function corpusChunking(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('chunking')
+    .eq('status', 'completed')
+    .not('chunking', 'is', null)
+
+  if (error) {
+    throw new Error(`Failed to read chunking settings: ${error.message}`)
+  }
+
+  const counts = new Map<string, ChunkingSettings & { documents: number }>()
+  for (const { chunking } of (data || []) as Array<{ chunking: ChunkingSettings }>) {
+    const key = `${chunking.size}/${chunking.overlap}`
+    const entry = counts.get(key) || { size: chunking.size, overlap: chunking.overlap, documents: 0 }
+    entry.documents++
+    counts.set(key, entry)
+  }
+  return [...counts.values()].sort((a, b) => b.documents - a.documents)
+}
+
+// Runs every active question through query-rag with the given settings and stores the
+// per-question metrics plus run averages. Questions run one at a time to stay under
+// provider rate limits.
+export async function runEvaluation(input: EvalRunInput = {}): Promise<{ data?: EvalRun; error?: string }> {
+  const supabase = await createClient()
+
+  const { data: questions, error: questionsError } = await supabase
+    .from('eval_questions')
+    .select('*')
+    .eq('active', true)
+    .order('created_at', { ascending: true })
+
+  if (questionsError) {
+    return { error: questionsError.message }
+  }
+
+  if (!questions || questions.length === 0) {
+    return { error: 'No active evaluation questions' }
+  }
+
+  // Everything but the run's own fields is a query-rag retrieval override
+  const { label, k: requestedK, claimCheck, ...retrieval } = input
+  const k = requestedK && requestedK > 0 ? Math.floor(requestedK) : 5
+  // Unsupported claims are flagged, not removed, so the scored answer is the generated one
+  const verification: VerificationOptions = { mode: claimCheck || 'llm', action: 'flag' }
+
+  let chunking: Awaited<ReturnType<typeof corpusChunking>>
+  try {
+    chunking = await corpusChunking(supabase)
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Failed to read chunking settings' }
+  }
+
+  // What query-rag resolves the overrides to, with its environment filling in the rest
+  // (provider and models, planner, rerank, MMR, expansion, ...), so runs that differ only in
+  // Edge Function secrets are still told apart
+  let pipeline: Awaited<ReturnType<typeof fetchCacheFingerprint>>
+  try {
+    pipeline = await fetchCacheFingerprint({ retrieval, verification })
+  } catch (error) {
+    return { error: `Could not read the query-rag configuration: ${error instanceof Error ? error.message : 'unknown error'}` }
+  }
+
+  const config = {
+    // Overrides sent with every question
+    retrieval,
+    pipeline: pipeline.config,
+    fingerprint: pipeline.fingerprint,
+    // Settings the searched documents were chunked with, most common first
+    chunking,
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from('eval_runs')
+    .insert({
+      label: label?.trim() || null,
+      config,
+      k,
+      status: 'running',
+      question_count: questions.length,
+    })
+    .select()
+    .single()
+
+  if (runError || !run) {
+    return { error: runError?.message || 'Failed to create evaluation run' }
+  }
+
+  console.log(`[EVAL] Run ${run.id}: ${questions.length} questions, k=${k}`)
+
+  const scores: QuestionMetrics[] = []
+
+  try {
+    for (const question of questions as EvalQuestion[]) {
+      const started = Date.now()
+      let retrieved: RetrievedItem[] = []
+      let answer = ''
+      let verdicts: AnswerVerification | null = null
+      let errorMessage: string | null = null
+
+      try {
+        const response = await callQueryRag(question.question, {
+          role: question.role,
+          evaluation: true,
+          retrieval,
+          verification,
+        })
+        const result = await response.json()
+
+        if (!response.ok || result.error) {
+          errorMessage = result.error || `Query failed (${response.status})`
+        }
+        retrieved = result.retrieved || []
+        answer = result.answer || ''
+        verdicts = result.verification ?? null
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : 'Query failed'
+      }
+
+      const metrics = evaluateQuestion(question, retrieved, answer, k, verdicts)
+      scores.push(metrics)
+
+      const { error: resultError } = await supabase.from('eval_results').insert({
+        run_id: run.id,
+        question_id: question.id,
+        question: question.question,
+        retrieved,
+        answer,
+        ...metrics,
+        latency_ms: Date.now() - started,
+        error_message: errorMessage,
+      })
+
+      if (resultError) {
+        throw new Error(`Failed to store result: ${resultError.message}`)
+      }
+    }
+
+    const { data: completed, error: updateError } = await supabase
+      .from('eval_runs')
+      .update({
+        status: 'completed',
+        metrics: summarizeMetrics(scores),
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', run.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      throw new Error(updateError.message)
+    }
+
+    revalidatePath('/admin/evaluation')
+    return { data: completed as EvalRun }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Evaluation failed'
+    console.error('[EVAL] Run failed:', errorMessage)
+
+    await supabase
+      .from('eval_runs')
+      .update({ status: 'failed', error_message: errorMessage, completed_at: new Date().toISOString() })
+      .eq('id', run.id)
+
+    revalidatePath('/admin/evaluation')
+    return { error: errorMessage }
+  }
+}
+
+export async function deleteEvalRun(id: string) {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('eval_runs').delete().eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/evaluation')
+  return { success: true }
+}
@@ -0,0 +1,189 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { Faq } from '@/lib/types/database'
+
+// MVP: No authentication required (admin tooling)
+
+export interface FaqInput {
+  question: string
+  // Other phrasings of the question; the canonical question is always matched too
+  variants?: string[]
+  answer: string
+  source_document_ids?: string[]
+  accessible_by_business_owners?: boolean
+  accessible_by_employees?: boolean
+  accessible_by_customers?: boolean
+}
+
+export async function getFaqs(): Promise<{ data?: Faq[]; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('faqs')
+    .select('*, faq_variants(id, faq_id, question, created_at)')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { data }
+}
+
+function normalizeInput(input: FaqInput) {
+  const question = input.question?.trim()
+  const answer = input.answer?.trim()
+  if (!question) return { error: 'Question cannot be empty' }
+  if (!answer) return { error: 'Answer cannot be empty' }
+
+  const seen = new Set<string>()
+  const questions = [question, ...(input.variants || [])]
+    .map((q) => q.trim())
+    .filter((q) => {
+      const key = q.toLowerCase()
+      if (!q || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+
+  return {
+    questions,
+    row: {
+      question,
+      answer,
+      source_document_ids: input.source_document_ids || [],
+      accessible_by_business_owners: input.accessible_by_business_owners ?? true,
+      accessible_by_employees: input.accessible_by_employees ?? true,
+      accessible_by_customers: input.accessible_by_customers ?? true,
+    },
+  }
+}
+
+// Embeds the questions with the generate-embeddings Edge Function, so FAQ variants use the
+// same provider and model as the queries query-rag matches them against
+async function embedQuestions(questions: string[]): Promise<number[][]> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Missing Supabase env (URL or SERVICE_ROLE_KEY)')
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/generate-embeddings`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceRoleKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ texts: questions }),
+  })
+  const result = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(result.error || `generate-embeddings returned ${response.status}`)
+  }
+
+  return result.embeddings
+}
+
+// Replaces the FAQ's variants with freshly embedded ones (query-rag matches on these). The new
+// variants are stored before the old ones are removed, so the FAQ never has none
+async function saveVariants(supabase: Awaited<ReturnType<typeof createClient>>, faqId: string, questions: string[]) {
+  const embeddings = await embedQuestions(questions)
+
+  const { data: inserted, error } = await supabase
+    .from('faq_variants')
+    .insert(questions.map((question, i) => ({ faq_id: faqId, question, embedding: embeddings[i] })))
+    .select('id')
+  if (error || !inserted) throw new Error(error?.message || 'Failed to save variants')
+
+  const { error: deleteError } = await supabase
+    .from('faq_variants')
+    .delete()
+    .eq('faq_id', faqId)
+    .not('id', 'in', `(${inserted.map((variant) => variant.id).join(',')})`)
+  if (deleteError) throw new Error(deleteError.message)
+}
+
+export async function createFaq(input: FaqInput) {
+  const normalized = normalizeInput(input)
+  if ('error' in normalized) {
+    return { error: normalized.error }
+  }
+
+  const supabase = await createClient()
+  const { data, error } = await supabase.from('faqs').insert(normalized.row).select().single()
+
+  if (error || !data) {
+    console.error('[FAQ] Failed to create FAQ:', error)
+    return { error: error?.message || 'Failed to create FAQ' }
+  }
+
+  try {
+    await saveVariants(supabase, data.id, normalized.questions)
+  } catch (variantError) {
+    // An FAQ without embedded variants would never match
+    await supabase.from('faqs').delete().eq('id', data.id)
+    const message = variantError instanceof Error ? variantError.message : 'Failed to embed questions'
+    console.error('[FAQ] Failed to save variants:', message)
+    return { error: message }
+  }
+
+  revalidatePath('/admin/faqs')
+  return { data: data as Faq }
+}
+
+export async function updateFaq(id: string, input: FaqInput) {
+  const normalized = normalizeInput(input)
+  if ('error' in normalized) {
+    return { error: normalized.error }
+  }
+
+  const supabase = await createClient()
+
+  try {
+    // Embed first so a provider failure leaves the FAQ as it was
+    await saveVariants(supabase, id, normalized.questions)
+  } catch (variantError) {
+    const message = variantError instanceof Error ? variantError.message : 'Failed to embed questions'
+    console.error('[FAQ] Failed to save variants:', message)
+    return { error: message }
+  }
+
+  const { error } = await supabase.from('faqs').update(normalized.row).eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/faqs')
+  return { success: true }
+}
+
+export async function setFaqActive(id: string, active: boolean) {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('faqs').update({ active }).eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/faqs')
+  return { success: true }
+}
+
+export async function deleteFaq(id: string) {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from('faqs').delete().eq('id', id)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath('/admin/faqs')
+  return { success: true }
+}
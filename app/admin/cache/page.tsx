@@ -0,0 +1,60 @@
+import { getCacheEntries, getCacheFingerprint, getCacheSettings, getKnowledgeBaseVersions } from '@/app/actions/cache'
+import CacheConsole from '@/components/CacheConsole'
+import { ArrowLeft, HardDrive } from 'lucide-react'
+import Link from 'next/link'
+
+export default async function CachePage() {
+  // MVP: No auth check, open access for admin panel
+  const [entriesResult, settingsResult, versionsResult, fingerprintResult] = await Promise.all([
+    getCacheEntries(),
+    getCacheSettings(),
+    getKnowledgeBaseVersions(),
+    getCacheFingerprint(),
+  ])
+
+  const loadError = entriesResult.error || settingsResult.error || versionsResult.error
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      {/* Header */}
+      <header className="bg-slate-900/50 backdrop-blur-md border-b border-slate-800 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/admin"
+              className="p-2 rounded-lg text-slate-400 hover:text-slate-100 hover:bg-slate-800 transition-colors"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-blue-500/10">
+                <HardDrive className="h-5 w-5 text-blue-400" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold bg-linear-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+                  Query Cache
+                </h1>
+                <p className="text-xs text-slate-500">Cached answers, curation and cache settings</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loadError && (
+          <div className="mb-6 rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+            {loadError} — have the cache migrations been applied?
+          </div>
+        )}
+        <CacheConsole
+          entries={entriesResult.data || []}
+          settings={settingsResult.data || []}
+          versions={versionsResult.data || {}}
+          fingerprint={fingerprintResult.data}
+          fingerprintError={fingerprintResult.error}
+        />
+      </main>
+    </div>
+  )
+}
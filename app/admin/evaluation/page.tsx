@@ -0,0 +1,77 @@
+import { getAllDocuments } from '@/app/actions/admin'
+import { getEvalQuestions, getEvalResults, getEvalRuns } from '@/app/actions/evaluation'
+import EvaluationDashboard from '@/components/EvaluationDashboard'
+import type { Document, EvalResult } from '@/lib/types/database'
+import { ArrowLeft, FlaskConical } from 'lucide-react'
+import Link from 'next/link'
+
+interface PageProps {
+  searchParams: Promise<{ run?: string }>
+}
+
+export default async function EvaluationPage({ searchParams }: PageProps) {
+  // MVP: No auth check, open access for admin panel
+  const params = await searchParams
+
+  const [questionsResult, runsResult, documentsResult] = await Promise.all([
+    getEvalQuestions(),
+    getEvalRuns(),
+    getAllDocuments(),
+  ])
+
+  const runs = runsResult.data || []
+  const selectedRunId = params.run || runs[0]?.id
+
+  let results: EvalResult[] = []
+  if (selectedRunId) {
+    const resultsResult = await getEvalResults(selectedRunId)
+    results = resultsResult.data || []
+  }
+
+  const documents = ((documentsResult.data || []) as Document[]).filter((doc) => doc.status === 'completed')
+  const loadError = questionsResult.error || runsResult.error
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      {/* Header */}
+      <header className="bg-slate-900/50 backdrop-blur-md border-b border-slate-800 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/admin"
+              className="p-2 rounded-lg text-slate-400 hover:text-slate-100 hover:bg-slate-800 transition-colors"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-blue-500/10">
+                <FlaskConical className="h-5 w-5 text-blue-400" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold bg-linear-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+                  Retrieval Evaluation
+                </h1>
+                <p className="text-xs text-slate-500">Golden questions, runs and metrics</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loadError && (
+          <div className="mb-6 rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+            {loadError} — has the evaluation migration been applied?
+          </div>
+        )}
+        <EvaluationDashboard
+          questions={questionsResult.data || []}
+          runs={runs}
+          selectedRunId={selectedRunId}
+          results={results}
+          documents={documents}
+        />
+      </main>
+    </div>
+  )
+}
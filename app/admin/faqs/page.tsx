@@ -0,0 +1,51 @@
+import { getAllDocuments } from '@/app/actions/admin'
+import { getFaqs } from '@/app/actions/faqs'
+import FaqManager from '@/components/FaqManager'
+import type { Document } from '@/lib/types/database'
+import { ArrowLeft, BookOpen } from 'lucide-react'
+import Link from 'next/link'
+
+export default async function FaqsPage() {
+  // MVP: No auth check, open access for admin panel
+  const [faqsResult, documentsResult] = await Promise.all([getFaqs(), getAllDocuments()])
+
+  const documents = ((documentsResult.data || []) as Document[]).filter((doc) => doc.status === 'completed')
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      {/* Header */}
+      <header className="bg-slate-900/50 backdrop-blur-md border-b border-slate-800 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/admin"
+              className="p-2 rounded-lg text-slate-400 hover:text-slate-100 hover:bg-slate-800 transition-colors"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-blue-500/10">
+                <BookOpen className="h-5 w-5 text-blue-400" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold bg-linear-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+                  FAQs
+                </h1>
+                <p className="text-xs text-slate-500">Curated answers that take precedence over generated ones</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {faqsResult.error && (
+          <div className="mb-6 rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+            {faqsResult.error} — has the FAQ migration been applied?
+          </div>
+        )}
+        <FaqManager faqs={faqsResult.data || []} documents={documents} />
+      </main>
+    </div>
+  )
+}
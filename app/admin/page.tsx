@@ -1,5 +1,5 @@
 import { getAllDocuments, getSystemStats } from '@/app/actions/admin'
-import { Users, FileText, Database, MessageSquare, ArrowLeft, Home } from 'lucide-react'
+import { Users, FileText, Database, MessageSquare, ArrowLeft, Home, FlaskConical, HardDrive, BookOpen } from 'lucide-react'
 import Link from 'next/link'
 
 export default async function AdminPage() {
@@ -32,13 +32,36 @@ export default async function AdminPage() {
                 <p className="text-xs text-slate-500">System Management</p>
               </div>
             </div>
-            <Link
-              href="/"
-              className="flex items-center gap-2 text-sm font-medium text-slate-400 hover:text-blue-400 transition-colors px-3 py-2 rounded-lg hover:bg-slate-800/50"
-            >
-              <Home className="w-4 h-4" />
-              Home
-            </Link>
+            <div className="flex items-center gap-2">
+              <Link
+                href="/admin/evaluation"
+                className="flex items-center gap-2 text-sm font-medium text-slate-400 hover:text-blue-400 transition-colors px-3 py-2 rounded-lg hover:bg-slate-800/50"
+              >
+                <FlaskConical className="w-4 h-4" />
+                Evaluation
+              </Link>
+              <Link
+                href="/admin/cache"
+                className="flex items-center gap-2 text-sm font-medium text-slate-400 hover:text-blue-400 transition-colors px-3 py-2 rounded-lg hover:bg-slate-800/50"
+              >
+                <HardDrive className="w-4 h-4" />
+                Cache
+              </Link>
+              <Link
+                href="/admin/faqs"
+                className="flex items-center gap-2 text-sm font-medium text-slate-400 hover:text-blue-400 transition-colors px-3 py-2 rounded-lg hover:bg-slate-800/50"
+              >
+                <BookOpen className="w-4 h-4" />
+                FAQs
+              </Link>
+              <Link
+                href="/"
+                className="flex items-center gap-2 text-sm font-medium text-slate-400 hover:text-blue-400 transition-colors px-3 py-2 rounded-lg hover:bg-slate-800/50"
+              >
+                <Home className="w-4 h-4" />
+                Home
+              </Link>
+            </div>
           </div>
         </div>
       </header>
@@ -51,14 +51,19 @@ export async function POST(request: NextRequest) {
 
     const result = await queryResponse.json()
 
-    // Check if we got a meaningful answer
-    if (!result.answer || result.answer.includes('I don\'t have enough information') || result.sources.length === 0) {
-      return NextResponse.json({ noAnswer: true })
+    // query-rag abstains when its confidence in the answer is below the threshold; curated
+    // FAQ answers may have no linked documents
+    if (!result.answer || result.abstained || (!result.sources?.length && !result.curated)) {
+      return NextResponse.json({ noAnswer: true, confidence: result.confidence })
     }
 
     return NextResponse.json({
       answer: result.answer,
       sources: result.sources,
+      citations: result.citations || [],
+      confidence: result.confidence,
+      verification: result.verification,
+      curated: result.curated,
     })
 
   } catch (error) {
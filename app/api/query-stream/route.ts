@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { callQueryRag, sanitizeFilters, sanitizeHistory, validateQuestion } from '@/lib/rag/query-rag'
+
+// Chat queries from the browser.
+// Proxies query-rag's server-sent events (sources, token, done, error) to the browser.
+export async function POST(request: NextRequest) {
+  try {
+    const { question, role, history, conversationId, filters } = await request.json()
+
+    const validation = validateQuestion(question)
+    if (validation.error || !validation.question) {
+      return NextResponse.json({ error: validation.error }, { status: 400 })
+    }
+
+    // Aborting the browser request (stop button) also aborts the upstream call
+    const upstream = await callQueryRag(validation.question, {
+      role,
+      history: sanitizeHistory(history),
+      conversationId: typeof conversationId === 'string' ? conversationId : undefined,
+      filters: sanitizeFilters(filters),
+      stream: true,
+      signal: request.signal,
+    })
+
+    const contentType = upstream.headers.get('Content-Type') || ''
+
+    // Early exits in query-rag (no documents, no results, errors) still answer with JSON
+    if (!contentType.includes('text/event-stream') || !upstream.body) {
+      const text = await upstream.text()
+      try {
+        return NextResponse.json(JSON.parse(text), { status: upstream.status })
+      } catch {
+        return NextResponse.json(
+          { error: `Query failed (${upstream.status}): ${text}` },
+          { status: upstream.status || 500 }
+        )
+      }
+    }
+
+    return new Response(upstream.body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    })
+  } catch (error) {
+    if (request.signal.aborted) {
+      return new Response(null, { status: 499 })
+    }
+    console.error('[QUERY STREAM] Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to process query' },
+      { status: 500 }
+    )
+  }
+}
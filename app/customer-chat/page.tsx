@@ -2,6 +2,8 @@
 
 import { useState } from 'react'
 import { Send, Loader2, MessageSquare } from 'lucide-react'
+import CitedAnswer from '@/components/CitedAnswer'
+import type { AnswerVerification, Citation } from '@/lib/types/database'
 
 export default function CustomerChatPage() {
   const [question, setQuestion] = useState('')
@@ -13,6 +15,8 @@ export default function CustomerChatPage() {
       chunk_content: string
       relevance_score: number
     }>
+    citations?: Citation[]
+    verification?: AnswerVerification | null
   } | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [showContactForm, setShowContactForm] = useState(false)
@@ -175,7 +179,9 @@ export default function CustomerChatPage() {
 
             <div className="rounded-lg bg-blue-900/30 p-6 shadow-lg border border-blue-700">
               <h3 className="text-sm font-medium text-blue-300 mb-2">Answer</h3>
-              <p className="text-gray-200 whitespace-pre-wrap">{response.answer}</p>
+              <div className="text-gray-200">
+                <CitedAnswer content={response.answer} citations={response.citations} verification={response.verification} role="customer" />
+              </div>
             </div>
 
             {response.sources.length > 0 && (
@@ -0,0 +1,58 @@
+import { getDocumentViewer } from '@/app/actions/documents'
+import DocumentViewer from '@/components/DocumentViewer'
+import { ArrowLeft, FileText } from 'lucide-react'
+import Link from 'next/link'
+
+interface PageProps {
+  params: Promise<{ id: string }>
+  // role: the chat role that opened the document; only documents it can retrieve are shown
+  searchParams: Promise<{ chunk?: string; role?: string }>
+}
+
+export default async function DocumentPage({ params, searchParams }: PageProps) {
+  const { id } = await params
+  const { chunk, role } = await searchParams
+
+  const result = await getDocumentViewer(id, role, chunk)
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      {/* Header */}
+      <header className="bg-slate-900/50 backdrop-blur-md border-b border-slate-800 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/dashboard"
+              className="p-2 rounded-lg text-slate-400 hover:text-slate-100 hover:bg-slate-800 transition-colors"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="p-2 rounded-lg bg-blue-500/10">
+                <FileText className="h-5 w-5 text-blue-400" />
+              </div>
+              <div className="min-w-0">
+                <h1 className="text-xl font-bold bg-linear-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent truncate">
+                  {result.data?.document.filename || 'Document'}
+                </h1>
+                <p className="text-xs text-slate-500">
+                  {result.data?.chunk ? 'Opened at the cited passage' : 'Source document'}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {result.error || !result.data ? (
+          <div className="rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+            {result.error || 'Failed to load document'}
+          </div>
+        ) : (
+          <DocumentViewer preview={result.data.preview} chunk={result.data.chunk} />
+        )}
+      </main>
+    </div>
+  )
+}
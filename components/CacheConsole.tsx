@@ -0,0 +1,353 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { AlertTriangle, Flame, Loader2, Pencil, Pin, PinOff, Save, Trash2 } from 'lucide-react'
+import { entryStatus, isOutdated } from '@/lib/cache/status'
+import type { QueryCacheEntry, QueryCacheSettings } from '@/lib/types/database'
+import {
+  deleteCacheEntry,
+  purgeOutdatedCacheEntries,
+  rewarmOutdatedCacheEntries,
+  setCacheEntryPinned,
+  updateCacheSettings,
+  updateCachedAnswer,
+} from '@/app/actions/cache'
+
+interface CacheConsoleProps {
+  entries: QueryCacheEntry[]
+  settings: QueryCacheSettings[]
+  versions: Record<string, number>
+  // query-rag's current configuration; unavailable when the Edge Function cannot be reached
+  fingerprint?: { fingerprint: string; config: Record<string, unknown> }
+  fingerprintError?: string
+}
+
+type Role = QueryCacheSettings['role']
+
+const ROLES: Array<{ value: Role; label: string }> = [
+  { value: 'business_owner', label: 'Business owner' },
+  { value: 'employee', label: 'Employee' },
+  { value: 'customer', label: 'Customer' },
+]
+
+// Outdated entries re-asked per click
+const REWARM_BATCH = 20
+
+export default function CacheConsole({ entries, settings, versions, fingerprint, fingerprintError }: CacheConsoleProps) {
+  const router = useRouter()
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [role, setRole] = useState<Role>('business_owner')
+  const [now] = useState(() => Date.now())
+
+  // Settings form of the selected role
+  const roleSettings = settings.find((s) => s.role === role)
+  const [threshold, setThreshold] = useState(String(roleSettings?.similarity_threshold ?? 0.85))
+  const [ttlDays, setTtlDays] = useState(roleSettings?.ttl_days ? String(roleSettings.ttl_days) : '')
+  const [isSavingSettings, setIsSavingSettings] = useState(false)
+
+  // Answer editor
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [isSavingAnswer, setIsSavingAnswer] = useState(false)
+
+  // Outdated-fingerprint maintenance
+  const [isPurging, setIsPurging] = useState(false)
+  const [isRewarming, setIsRewarming] = useState(false)
+  const [showConfig, setShowConfig] = useState(false)
+
+  const roleEntries = entries.filter((entry) => entry.role === role)
+  const outdated = entries.filter((entry) => isOutdated(entry, fingerprint?.fingerprint))
+
+  function selectRole(next: Role) {
+    const nextSettings = settings.find((s) => s.role === next)
+    setRole(next)
+    setThreshold(String(nextSettings?.similarity_threshold ?? 0.85))
+    setTtlDays(nextSettings?.ttl_days ? String(nextSettings.ttl_days) : '')
+    setEditingId(null)
+  }
+
+  async function handleSaveSettings() {
+    setIsSavingSettings(true)
+    setError(null)
+
+    const result = await updateCacheSettings(role, {
+      similarity_threshold: Number(threshold),
+      ttl_days: ttlDays.trim() === '' ? null : Number(ttlDays),
+    })
+
+    setIsSavingSettings(false)
+    if (result.error) setError(result.error)
+    router.refresh()
+  }
+
+  function startEditing(entry: QueryCacheEntry) {
+    setEditingId(entry.id)
+    setDraft(entry.answer)
+  }
+
+  async function handleSaveAnswer(id: string) {
+    setIsSavingAnswer(true)
+    setError(null)
+
+    const result = await updateCachedAnswer(id, draft)
+
+    setIsSavingAnswer(false)
+    if (result.error) {
+      setError(result.error)
+      return
+    }
+    setEditingId(null)
+    router.refresh()
+  }
+
+  async function handleTogglePin(entry: QueryCacheEntry) {
+    const result = await setCacheEntryPinned(entry.id, !entry.pinned)
+    if (result.error) setError(result.error)
+    router.refresh()
+  }
+
+  async function handlePurge() {
+    if (!fingerprint) return
+    setIsPurging(true)
+    setError(null)
+    setNotice(null)
+
+    const result = await purgeOutdatedCacheEntries(fingerprint.fingerprint)
+
+    setIsPurging(false)
+    if (result.error) setError(result.error)
+    if (result.data) setNotice(`Purged ${result.data.purged} outdated entr${result.data.purged === 1 ? 'y' : 'ies'}`)
+    router.refresh()
+  }
+
+  async function handleRewarm() {
+    if (!fingerprint) return
+    setIsRewarming(true)
+    setError(null)
+    setNotice(null)
+
+    const result = await rewarmOutdatedCacheEntries(fingerprint.fingerprint, REWARM_BATCH)
+
+    setIsRewarming(false)
+    if (result.error) setError(result.error)
+    if (result.data) {
+      setNotice(
+        `Re-warmed ${result.data.warmed} entr${result.data.warmed === 1 ? 'y' : 'ies'}` +
+          (result.data.failed > 0 ? `; ${result.data.failed} could not be re-cached` : '')
+      )
+    }
+    router.refresh()
+  }
+
+  async function handleDelete(id: string) {
+    const result = await deleteCacheEntry(id)
+    if (result.error) setError(result.error)
+    router.refresh()
+  }
+
+  const inputClass =
+    'w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:border-blue-500 focus:outline-none'
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="flex items-center gap-2 rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="rounded-lg border border-green-500/20 bg-green-500/10 px-4 py-3 text-sm text-green-400">{notice}</div>
+      )}
+
+      {/* Current fingerprint and outdated entries */}
+      <section className="bg-slate-900/50 rounded-xl border border-slate-800 p-6">
+        <h2 className="text-lg font-semibold text-slate-100 mb-1">Fingerprint</h2>
+        <p className="text-sm text-slate-500 mb-4">
+          Answers are cached with a fingerprint of query-rag&apos;s models, prompt version, chunking and retrieval settings,
+          and only served while it matches. Outdated entries can be purged, or re-warmed by asking their questions again
+          (the {REWARM_BATCH} most used per click). Curated answers match any fingerprint; purging keeps pinned entries.
+        </p>
+        {fingerprint ? (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-300">
+              Current: <span className="font-mono text-blue-300">{fingerprint.fingerprint}</span>
+              {' · '}{outdated.length} outdated entr{outdated.length === 1 ? 'y' : 'ies'}
+              <button
+                onClick={() => setShowConfig(!showConfig)}
+                className="ml-3 text-xs text-slate-500 hover:text-slate-300"
+              >
+                {showConfig ? 'Hide configuration' : 'Show configuration'}
+              </button>
+            </p>
+            {showConfig && (
+              <pre className="rounded-lg bg-slate-950 p-3 text-xs text-slate-400 overflow-x-auto">
+                {JSON.stringify(fingerprint.config, null, 2)}
+              </pre>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={handleRewarm}
+                disabled={isRewarming || isPurging || outdated.length === 0}
+                className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isRewarming ? <Loader2 className="h-4 w-4 animate-spin" /> : <Flame className="h-4 w-4" />}
+                {isRewarming ? 'Re-warming...' : 'Re-warm outdated'}
+              </button>
+              <button
+                onClick={handlePurge}
+                disabled={isRewarming || isPurging || outdated.length === 0}
+                className="inline-flex items-center gap-2 rounded-lg border border-slate-700 px-4 py-2 text-sm text-slate-200 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isPurging ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                Purge outdated
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-yellow-400">Could not read the current fingerprint from query-rag: {fingerprintError}</p>
+        )}
+      </section>
+
+      {/* Role tabs */}
+      <div className="flex gap-2">
+        {ROLES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => selectRole(value)}
+            className={`rounded-lg px-4 py-2 text-sm transition-colors ${
+              role === value ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-100'
+            }`}
+          >
+            {label}
+            <span className="ml-2 text-xs opacity-70">{entries.filter((entry) => entry.role === value).length}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Settings of the selected role */}
+      <section className="bg-slate-900/50 rounded-xl border border-slate-800 p-6">
+        <h2 className="text-lg font-semibold text-slate-100 mb-1">Settings</h2>
+        <p className="text-sm text-slate-500 mb-4">
+          A question reuses a cached answer when it is at least this similar to the cached question. Answers older
+          than the TTL are no longer served; curated and pinned answers never expire. Leave the TTL empty to keep
+          answers until their documents change.
+        </p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+          <label className="text-xs text-slate-400">
+            Similarity threshold
+            <input className={inputClass} value={threshold} onChange={(e) => setThreshold(e.target.value)} inputMode="decimal" />
+          </label>
+          <label className="text-xs text-slate-400">
+            TTL (days)
+            <input className={inputClass} value={ttlDays} onChange={(e) => setTtlDays(e.target.value)} placeholder="never" inputMode="numeric" />
+          </label>
+          <button
+            onClick={handleSaveSettings}
+            disabled={isSavingSettings}
+            className="inline-flex items-center justify-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSavingSettings ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save settings
+          </button>
+        </div>
+      </section>
+
+      {/* Cached answers of the selected role */}
+      <section className="bg-slate-900/50 rounded-xl border border-slate-800 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-800">
+          <h2 className="text-lg font-semibold text-slate-100">Cached Answers</h2>
+          <p className="text-xs text-slate-500 mt-1">
+            Editing an answer makes it curated: it is kept when the question is answered again and survives knowledge-base
+            changes, but is still removed when a document it cites is deleted, replaced or re-shared.
+          </p>
+        </div>
+        {roleEntries.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-slate-500">No cached answers for this role.</p>
+        ) : (
+          <div className="divide-y divide-slate-800">
+            {roleEntries.map((entry) => {
+              const status = entryStatus(entry, roleSettings, versions[entry.role], fingerprint?.fingerprint, now)
+              const files = [...new Set((entry.sources || []).map((source) => source.filename).filter(Boolean))]
+              return (
+                <div key={entry.id} className={`px-6 py-4 space-y-2 ${status ? 'opacity-60' : ''}`}>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <p className="text-sm text-slate-200">{entry.question}</p>
+                      <p className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                        {entry.pinned && <span className="rounded bg-blue-500/10 px-1.5 py-0.5 text-blue-300">pinned</span>}
+                        {entry.curated && <span className="rounded bg-green-500/10 px-1.5 py-0.5 text-green-300">curated</span>}
+                        {status && <span className="rounded bg-yellow-500/10 px-1.5 py-0.5 text-yellow-300">{status}</span>}
+                        <span>{entry.hit_count} hit{entry.hit_count === 1 ? '' : 's'}</span>
+                        {entry.last_hit_at && <span>· last {new Date(entry.last_hit_at).toLocaleString()}</span>}
+                        <span>· answered {new Date(entry.answered_at).toLocaleDateString()}</span>
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        onClick={() => startEditing(entry)}
+                        className="p-1 rounded text-slate-500 hover:text-slate-100 hover:bg-slate-800 transition-colors"
+                        title="Edit answer"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleTogglePin(entry)}
+                        className="p-1 rounded text-slate-500 hover:text-blue-400 hover:bg-slate-800 transition-colors"
+                        title={entry.pinned ? 'Unpin' : 'Pin'}
+                      >
+                        {entry.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(entry.id)}
+                        className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800 transition-colors"
+                        title="Delete entry"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {editingId === entry.id ? (
+                    <div className="space-y-2">
+                      <textarea className={inputClass} rows={6} value={draft} onChange={(e) => setDraft(e.target.value)} />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleSaveAnswer(entry.id)}
+                          disabled={isSavingAnswer || !draft.trim()}
+                          className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          {isSavingAnswer ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+                          Save as curated answer
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="rounded-lg px-3 py-1.5 text-xs text-slate-400 hover:bg-slate-800 hover:text-slate-100 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-slate-400 whitespace-pre-wrap line-clamp-4">{entry.answer}</p>
+                  )}
+
+                  {files.length > 0 && (
+                    <p className="flex flex-wrap gap-2 text-xs">
+                      {files.map((file) => (
+                        <span key={file} className="rounded bg-slate-800 px-2 py-0.5 text-slate-400">{file}</span>
+                      ))}
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -1,127 +1,116 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { getChatHistory } from '@/app/actions/rag'
-import { MessageSquare, Clock, ChevronRight } from 'lucide-react'
-
-interface ChatHistoryItem {
-  id: string
-  question: string
-  answer: string
-  sources: Array<{
-    document_id: string
-    filename: string
-    chunk_content: string
-    relevance_score: number
-  }>
-  created_at: string
-}
-
-interface ChatSession {
-  id: string
-  title: string
-  created_at: string
-  items: ChatHistoryItem[]
-}
+import { useCallback, useEffect, useState } from 'react'
+import {
+  deleteConversation,
+  getConversationMessages,
+  listConversations,
+  renameConversation,
+  setConversationPinned,
+} from '@/app/actions/conversations'
+import { MessageSquare, Clock, Pin, PinOff, Pencil, Trash2, Plus } from 'lucide-react'
+import type { ChatMessage, Conversation } from '@/lib/types/database'
 
 interface ChatHistorySidebarProps {
-  onQuestionClick?: (item: ChatHistoryItem) => void
-  refreshTrigger?: number // When this changes, refresh the history
+  role: string // API role: business_owner | employee
+  activeConversationId?: string | null
+  onSelectConversation?: (conversation: Conversation, messages: ChatMessage[]) => void
+  onNewChat?: () => void
+  onConversationDeleted?: (id: string) => void
+  refreshTrigger?: number // When this changes, refresh the list
 }
 
-export default function ChatHistorySidebar({ onQuestionClick, refreshTrigger }: ChatHistorySidebarProps) {
-  const [history, setHistory] = useState<ChatHistoryItem[]>([])
-  const [sessions, setSessions] = useState<ChatSession[]>([])
+export default function ChatHistorySidebar({
+  role,
+  activeConversationId,
+  onSelectConversation,
+  onNewChat,
+  onConversationDeleted,
+  refreshTrigger,
+}: ChatHistorySidebarProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([])
   const [loading, setLoading] = useState(true)
-  const [selectedId, setSelectedId] = useState<string | null>(null)
-  const [expandedSessions, setExpandedSessions] = useState<Set<string>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+  const [openingId, setOpeningId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTitle, setEditTitle] = useState('')
 
-  useEffect(() => {
-    async function loadHistory() {
-      setLoading(true)
-      const result = await getChatHistory()
-      if (result.data) {
-        const items = result.data as ChatHistoryItem[]
-        setHistory(items)
-        const groupedSessions = groupIntoSessions(items)
-        setSessions(groupedSessions)
-      }
-      setLoading(false)
+  const showConversations = useCallback((result: Awaited<ReturnType<typeof listConversations>>) => {
+    if (result.data) {
+      setConversations(result.data)
+      setError(null)
+    } else {
+      setError(result.error || 'Failed to load conversations')
     }
-    loadHistory()
-  }, [refreshTrigger])
-
-  function groupIntoSessions(items: ChatHistoryItem[]): ChatSession[] {
-    if (items.length === 0) return []
-    
-    const sessions: ChatSession[] = []
-    let currentSession: ChatHistoryItem[] = []
-    let lastTime = new Date(items[items.length - 1].created_at).getTime()
-    const SESSION_GAP_MS = 30 * 60 * 1000 // 30 minutes
-    
-    // Process items in reverse chronological order
-    for (let i = items.length - 1; i >= 0; i--) {
-      const itemTime = new Date(items[i].created_at).getTime()
-      const timeDiff = lastTime - itemTime
-      
-      if (timeDiff > SESSION_GAP_MS && currentSession.length > 0) {
-        const firstItem = currentSession[0]
-        const sessionTitle = firstItem.question.substring(0, 40) + (firstItem.question.length > 40 ? '...' : '')
-        sessions.push({
-          id: `session-${currentSession[0].id}`,
-          title: sessionTitle,
-          created_at: firstItem.created_at,
-          items: currentSession
-        })
-        currentSession = []
-      }
-      
-      currentSession.unshift(items[i])
-      lastTime = itemTime
+    setLoading(false)
+  }, [])
+
+  async function refreshConversations() {
+    setLoading(true)
+    showConversations(await listConversations(role))
+  }
+
+  // Reload when the role changes or the parent saved a message (refreshTrigger)
+  useEffect(() => {
+    // Drop a response that arrives after the role changed again
+    let current = true
+    listConversations(role).then((result) => {
+      if (current) showConversations(result)
+    })
+    return () => {
+      current = false
     }
-    
-    // Add the last session
-    if (currentSession.length > 0) {
-      const firstItem = currentSession[0]
-      const sessionTitle = firstItem.question.substring(0, 40) + (firstItem.question.length > 40 ? '...' : '')
-      sessions.unshift({
-        id: `session-${firstItem.id}`,
-        title: sessionTitle,
-        created_at: firstItem.created_at,
-        items: currentSession
-      })
+  }, [role, refreshTrigger, showConversations])
+
+  async function handleOpen(conversation: Conversation) {
+    if (editingId) return
+    setOpeningId(conversation.id)
+    const result = await getConversationMessages(conversation.id)
+    setOpeningId(null)
+    if (result.data) {
+      onSelectConversation?.(conversation, result.data)
+    } else {
+      setError(result.error || 'Failed to load conversation')
     }
-    
-    return sessions
   }
 
-  async function refreshHistory() {
-    setLoading(true)
-    const result = await getChatHistory()
-    if (result.data) {
-      const items = result.data as ChatHistoryItem[]
-      setHistory(items)
-      const groupedSessions = groupIntoSessions(items)
-      setSessions(groupedSessions)
+  async function handleTogglePin(conversation: Conversation) {
+    const result = await setConversationPinned(conversation.id, !conversation.pinned)
+    if (result.error) {
+      setError(result.error)
+      return
     }
-    setLoading(false)
+    await refreshConversations()
   }
 
-  function toggleSession(sessionId: string) {
-    const newExpanded = new Set(expandedSessions)
-    if (newExpanded.has(sessionId)) {
-      newExpanded.delete(sessionId)
-    } else {
-      newExpanded.add(sessionId)
+  function startRename(conversation: Conversation) {
+    setEditingId(conversation.id)
+    setEditTitle(conversation.title)
+  }
+
+  async function submitRename(id: string) {
+    const title = editTitle.trim()
+    setEditingId(null)
+    if (!title) return
+
+    const result = await renameConversation(id, title)
+    if (result.error) {
+      setError(result.error)
+      return
     }
-    setExpandedSessions(newExpanded)
+    setConversations(prev => prev.map(c => (c.id === id ? { ...c, title } : c)))
   }
 
-  function handleQuestionClick(item: ChatHistoryItem) {
-    setSelectedId(item.id)
-    if (onQuestionClick) {
-      onQuestionClick(item)
+  async function handleDelete(conversation: Conversation) {
+    if (!confirm(`Delete "${conversation.title}" and all of its messages?`)) return
+
+    const result = await deleteConversation(conversation.id)
+    if (result.error) {
+      setError(result.error)
+      return
     }
+    setConversations(prev => prev.filter(c => c.id !== conversation.id))
+    onConversationDeleted?.(conversation.id)
   }
 
   function formatTimestamp(timestamp: string) {
@@ -139,9 +128,69 @@ export default function ChatHistorySidebar({ onQuestionClick, refreshTrigger }:
     return date.toLocaleDateString()
   }
 
-  function truncateText(text: string, maxLength: number = 60) {
-    if (text.length <= maxLength) return text
-    return text.substring(0, maxLength) + '...'
+  const pinned = conversations.filter(c => c.pinned)
+  const recent = conversations.filter(c => !c.pinned)
+
+  function renderConversation(conversation: Conversation) {
+    const isActive = conversation.id === activeConversationId
+    const count = conversation.message_count ?? 0
+
+    return (
+      <div
+        key={conversation.id}
+        className={`group flex items-start gap-2 p-3 hover:bg-gray-700/50 transition-colors ${isActive ? 'bg-gray-700' : ''}`}
+      >
+        <MessageSquare className="h-4 w-4 text-gray-400 mt-1 shrink-0" />
+        <div className="flex-1 min-w-0">
+          {editingId === conversation.id ? (
+            <input
+              autoFocus
+              value={editTitle}
+              onChange={(e) => setEditTitle(e.target.value)}
+              onBlur={() => submitRename(conversation.id)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitRename(conversation.id)
+                if (e.key === 'Escape') setEditingId(null)
+              }}
+              className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:border-blue-500"
+            />
+          ) : (
+            <button onClick={() => handleOpen(conversation)} className="w-full text-left">
+              <p className="text-sm text-gray-200 font-medium truncate">{conversation.title}</p>
+              <div className="flex items-center gap-2 mt-1 text-xs text-gray-400">
+                <Clock className="h-3 w-3" />
+                {openingId === conversation.id
+                  ? 'Opening...'
+                  : `${formatTimestamp(conversation.updated_at)} • ${count} message${count !== 1 ? 's' : ''}`}
+              </div>
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+          <button
+            onClick={() => handleTogglePin(conversation)}
+            title={conversation.pinned ? 'Unpin' : 'Pin'}
+            className="p-1 text-gray-400 hover:text-yellow-400"
+          >
+            {conversation.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+          </button>
+          <button
+            onClick={() => startRename(conversation)}
+            title="Rename"
+            className="p-1 text-gray-400 hover:text-blue-400"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={() => handleDelete(conversation)}
+            title="Delete"
+            className="p-1 text-gray-400 hover:text-red-400"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+    )
   }
 
   return (
@@ -153,74 +202,59 @@ export default function ChatHistorySidebar({ onQuestionClick, refreshTrigger }:
             <MessageSquare className="h-5 w-5" />
             Chat History
           </h2>
-          <button
-            onClick={refreshHistory}
-            disabled={loading}
-            className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
-          >
-            Refresh
-          </button>
+          <div className="flex items-center gap-3">
+            {onNewChat && (
+              <button
+                onClick={onNewChat}
+                className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+              >
+                <Plus className="h-3 w-3" />
+                New
+              </button>
+            )}
+            <button
+              onClick={refreshConversations}
+              disabled={loading}
+              className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+            >
+              Refresh
+            </button>
+          </div>
         </div>
         <p className="text-xs text-gray-400">
-          {sessions.length} session{sessions.length !== 1 ? 's' : ''}
+          {conversations.length} conversation{conversations.length !== 1 ? 's' : ''}
         </p>
+        {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
       </div>
 
-      {/* History List */}
+      {/* Conversation List */}
       <div className="flex-1 overflow-y-auto">
-        {loading ? (
+        {loading && conversations.length === 0 ? (
           <div className="p-4 text-center text-gray-400 text-sm">
             Loading history...
           </div>
-        ) : sessions.length === 0 ? (
+        ) : conversations.length === 0 ? (
           <div className="p-4 text-center text-gray-400 text-sm">
             <MessageSquare className="h-12 w-12 mx-auto mb-2 opacity-30" />
             No chat history yet
           </div>
         ) : (
-          <div className="divide-y divide-gray-700">
-            {sessions.map((session) => (
-              <div key={session.id}>
-                {/* Session Header */}
-                <button
-                  onClick={() => toggleSession(session.id)}
-                  className="w-full p-3 text-left hover:bg-gray-700/50 transition-colors flex items-center justify-between"
-                >
-                  <div className="flex items-start gap-2 flex-1 min-w-0">
-                    <MessageSquare className="h-4 w-4 text-gray-400 mt-1 shrink-0" />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm text-gray-200 font-medium wrap-break-word">
-                        {truncateText(session.title)}
-                      </p>
-                      <div className="flex items-center gap-2 mt-1 text-xs text-gray-400">
-                        <Clock className="h-3 w-3" />
-                        {formatTimestamp(session.created_at)} • {session.items.length} message{session.items.length !== 1 ? 's' : ''}
-                      </div>
-                    </div>
-                  </div>
-                  <ChevronRight className={`h-4 w-4 text-gray-400 shrink-0 transition-transform ${expandedSessions.has(session.id) ? 'rotate-90' : ''}`} />
-                </button>
-                
-                {/* Session Items */}
-                {expandedSessions.has(session.id) && (
-                  <div className="bg-gray-800/30 divide-y divide-gray-700">
-                    {session.items.map((item) => (
-                      <button
-                        key={item.id}
-                        onClick={() => handleQuestionClick(item)}
-                        className={`w-full p-2 pl-8 text-left hover:bg-gray-700/50 transition-colors text-xs ${
-                          selectedId === item.id ? 'bg-gray-700' : ''
-                        }`}
-                      >
-                        <p className="text-gray-300 font-medium">{truncateText(item.question, 40)}</p>
-                        <p className="text-gray-500 text-xs mt-1">{formatTimestamp(item.created_at)}</p>
-                      </button>
-                    ))}
-                  </div>
+          <>
+            {pinned.length > 0 && (
+              <>
+                <p className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wider text-gray-500">Pinned</p>
+                <div className="divide-y divide-gray-700">{pinned.map(renderConversation)}</div>
+              </>
+            )}
+            {recent.length > 0 && (
+              <>
+                {pinned.length > 0 && (
+                  <p className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wider text-gray-500">Recent</p>
                 )}
-              </div>
-            ))}
-          </div>
+                <div className="divide-y divide-gray-700">{recent.map(renderConversation)}</div>
+              </>
+            )}
+          </>
         )}
       </div>
     </div>
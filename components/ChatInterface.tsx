@@ -1,36 +1,69 @@
 'use client'
 
-import { queryRAG } from '@/app/actions/rag'
+import { streamRAG, toConversationTurns } from '@/lib/rag/stream'
+import { createConversation } from '@/app/actions/conversations'
 import { useState, useRef, useEffect } from 'react'
-import { Send, Loader2, Bot, User, Copy, Check } from 'lucide-react'
-import type { RAGResponse } from '@/lib/types/database'
+import { Send, Loader2, Bot, User, Copy, Check, Square, Bug, ExternalLink } from 'lucide-react'
+import type { AnswerConfidence, AnswerVerification, Citation, FaqMatchInfo, QueryFilters, QueryPlan, RAGResponse, RetrievalInfo } from '@/lib/types/database'
+import CitedAnswer from './CitedAnswer'
+import QueryDebugPanel from './QueryDebugPanel'
+import QueryFilterBar from './QueryFilterBar'
 
 interface ChatInterfaceProps {
   role?: string
   onQueryComplete?: () => void
   initialHistory?: Message[]
+  // Thread the messages belong to; a new one is created on the first question when unset
+  conversationId?: string | null
+  onConversationCreated?: (id: string) => void
 }
 
-interface Message {
+export interface Message {
   role: 'user' | 'assistant'
   content: string
   sources?: RAGResponse['sources']
+  citations?: Citation[]
   cached?: boolean
   cacheHitSimilarity?: string
+  curated?: boolean
+  faq?: FaqMatchInfo
+  streaming?: boolean
+  stopped?: boolean
+  plan?: QueryPlan
+  retrieval?: RetrievalInfo
+  confidence?: AnswerConfidence
+  abstained?: boolean
+  verification?: AnswerVerification | null
 }
 
-export default function ChatInterface({ role, initialHistory = [] }: ChatInterfaceProps = {}) {
+export default function ChatInterface({
+  role,
+  onQueryComplete,
+  initialHistory = [],
+  conversationId: initialConversationId = null,
+  onConversationCreated,
+}: ChatInterfaceProps = {}) {
   const [question, setQuestion] = useState('')
   const [loading, setLoading] = useState(false)
   const [messages, setMessages] = useState<Message[]>(initialHistory)
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null)
+  const [showDebug, setShowDebug] = useState(false)
+  const [conversationId, setConversationId] = useState<string | null>(initialConversationId)
+  const [filters, setFilters] = useState<QueryFilters>({})
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Convert role for API: 'owner' -> 'business_owner', etc. (query-rag treats no role as business owner)
+  const apiRole = !role || role === 'owner' ? 'business_owner' : role
 
   // Update messages when initialHistory changes
   useEffect(() => {
     setMessages(initialHistory)
   }, [initialHistory])
 
+  useEffect(() => {
+    setConversationId(initialConversationId)
+  }, [initialConversationId])
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }
@@ -49,34 +82,93 @@ export default function ChatInterface({ role, initialHistory = [] }: ChatInterfa
     }
   }
 
+  // Apply an update to the assistant message currently being streamed
+  function updateLastAssistant(update: (msg: Message) => Message) {
+    setMessages(prev => {
+      const last = prev[prev.length - 1]
+      if (!last || last.role !== 'assistant') return prev
+      return [...prev.slice(0, -1), update(last)]
+    })
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
     if (!question.trim() || loading) return
 
     const currentQuestion = question
+    // Thread context for follow-up questions, taken before the new turn is added
+    const history = toConversationTurns(messages, msg => ({
+      role: msg.role,
+      content: msg.content,
+      incomplete: msg.streaming || msg.stopped,
+    }))
     setQuestion('')
     setLoading(true)
 
-    // Add user message immediately
-    setMessages(prev => [...prev, { role: 'user', content: currentQuestion }])
-
-    // Convert role for API: 'owner' -> 'business_owner', etc.
-    const apiRole = role === 'owner' ? 'business_owner' : role
-    const result = await queryRAG(currentQuestion, apiRole)
-
-    if (result.error) {
-      setMessages(prev => [...prev, { role: 'assistant', content: `Error: ${result.error}` }])
-    } else if (result.data) {
-      setMessages(prev => [...prev, { 
-        role: 'assistant', 
-        content: result.data!.answer,
-        sources: result.data!.sources,
-        cached: result.data!.cached,
-        cacheHitSimilarity: result.data!.cacheHitSimilarity
-      }])
+    // Add user message and an empty assistant message that fills in as tokens arrive
+    setMessages(prev => [
+      ...prev,
+      { role: 'user', content: currentQuestion },
+      { role: 'assistant', content: '', streaming: true },
+    ])
+
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    // Customer chats are not stored, everyone else gets a thread on the first question
+    let threadId = conversationId
+    if (!threadId && apiRole !== 'customer') {
+      const created = await createConversation(apiRole, currentQuestion)
+      if (created.data) {
+        threadId = created.data.id
+        setConversationId(threadId)
+        onConversationCreated?.(threadId)
+      } else {
+        console.error('Failed to create conversation:', created.error)
+      }
     }
+    let failed = false
 
+    await streamRAG(
+      { question: currentQuestion, role: apiRole, history, conversationId: threadId ?? undefined, filters },
+      {
+        onSources: sources => updateLastAssistant(msg => ({ ...msg, sources })),
+        onToken: text => updateLastAssistant(msg => ({ ...msg, content: msg.content + text })),
+        onDone: info => updateLastAssistant(msg => ({
+          ...msg,
+          content: info.answer ?? msg.content,
+          // A "not found" answer has no supporting sources
+          sources: info.abstained ? [] : msg.sources,
+          citations: info.citations,
+          confidence: info.confidence,
+          abstained: info.abstained,
+          verification: info.verification,
+          cached: info.cached,
+          cacheHitSimilarity: info.cacheHitSimilarity,
+          curated: info.curated,
+          faq: info.faq,
+          plan: info.plan,
+          retrieval: info.retrieval,
+        })),
+        onError: error => {
+          failed = true
+          updateLastAssistant(msg => ({ ...msg, content: `Error: ${error}` }))
+        },
+      },
+      controller.signal
+    )
+
+    updateLastAssistant(msg => ({ ...msg, streaming: false, stopped: controller.signal.aborted }))
+    abortControllerRef.current = null
     setLoading(false)
+
+    if (!failed && !controller.signal.aborted) {
+      onQueryComplete?.()
+    }
+  }
+
+  function handleStop() {
+    abortControllerRef.current?.abort()
   }
 
   return (
@@ -101,7 +193,21 @@ export default function ChatInterface({ role, initialHistory = [] }: ChatInterfa
                   ? 'bg-blue-600 text-white rounded-tr-sm'
                   : 'bg-gray-800 text-gray-100 border border-gray-700 rounded-tl-sm'
                   }`}>
-                  <p className="whitespace-pre-wrap leading-relaxed">{msg.content}</p>
+                  {msg.streaming && !msg.content ? (
+                    <div className="flex items-center gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+                      <span className="text-gray-400 text-sm">Thinking...</span>
+                    </div>
+                  ) : msg.role === 'assistant' ? (
+                    <CitedAnswer content={msg.content} citations={msg.citations} verification={msg.verification} role={apiRole}>
+                      {msg.streaming && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-gray-400 animate-pulse" />}
+                    </CitedAnswer>
+                  ) : (
+                    <p className="whitespace-pre-wrap leading-relaxed">{msg.content}</p>
+                  )}
+                  {msg.stopped && (
+                    <p className="text-xs text-gray-500 mt-2 italic">Generation stopped</p>
+                  )}
                 </div>
 
                 {/* Copy Button */}
@@ -130,6 +236,29 @@ export default function ChatInterface({ role, initialHistory = [] }: ChatInterfa
                   </div>
                 )}
 
+                {/* Curated FAQ Badge */}
+                {msg.curated && msg.role === 'assistant' && (
+                  <div className="bg-blue-900/30 border border-blue-700/50 rounded-lg p-2 text-xs">
+                    <p className="text-blue-400 font-medium">📌 Curated Answer</p>
+                    {msg.faq && (
+                      <p className="text-blue-300 text-xs mt-1">
+                        FAQ: {msg.faq.question} (match similarity: {msg.faq.similarity})
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Query plan / retrieval settings (debug view) */}
+                {showDebug && msg.role === 'assistant' && (
+                  <QueryDebugPanel
+                    plan={msg.plan}
+                    retrieval={msg.retrieval}
+                    confidence={msg.confidence}
+                    abstained={msg.abstained}
+                    verification={msg.verification}
+                  />
+                )}
+
                 {/* Sources for Assistant Messages */}
                 {msg.sources && msg.sources.length > 0 && (
                   <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50 text-sm max-w-full">
@@ -139,7 +268,22 @@ export default function ChatInterface({ role, initialHistory = [] }: ChatInterfa
                         <div key={sIdx} className="flex items-start gap-2 text-gray-300 bg-gray-900/50 p-2 rounded">
                           <div className="w-1 h-full min-h-3 bg-blue-500 rounded-full shrink-0 mt-1" />
                           <div>
-                            <p className="font-medium text-blue-400 text-xs">{source.filename}</p>
+                            <a
+                              href={`/documents/${source.document_id}?role=${apiRole}${source.chunk_id ? `&chunk=${source.chunk_id}` : ''}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center gap-1 font-medium text-blue-400 text-xs hover:text-blue-300 hover:underline"
+                            >
+                              {source.filename}
+                              <ExternalLink className="w-3 h-3" />
+                            </a>
+                            {source.span && (
+                              <p className="text-[11px] text-gray-500">
+                                Chunks {source.span.from + 1}–{source.span.to + 1}
+                                {source.span.expanded > 0 && ' (expanded)'}
+                                {source.span.section && ` · ${source.span.section}`}
+                              </p>
+                            )}
                             <p className="text-xs text-gray-500 line-clamp-2">{source.chunk_content}</p>
                           </div>
                         </div>
@@ -152,23 +296,31 @@ export default function ChatInterface({ role, initialHistory = [] }: ChatInterfa
           ))
         )}
 
-        {loading && (
-          <div className="flex gap-4">
-            <div className="w-8 h-8 rounded-full bg-purple-600 flex items-center justify-center shrink-0">
-              <Bot className="w-5 h-5 text-white" />
-            </div>
-            <div className="bg-gray-800 rounded-2xl rounded-tl-sm px-6 py-4 border border-gray-700 flex items-center gap-2">
-              <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
-              <span className="text-gray-400 text-sm">Thinking...</span>
-            </div>
-          </div>
-        )}
         <div ref={messagesEndRef} />
       </div>
 
       {/* Input Area */}
       <div className="p-6 bg-gray-900 border-t border-gray-800">
+        <div className="max-w-4xl mx-auto">
+          <QueryFilterBar
+            role={apiRole}
+            filters={filters}
+            onChange={setFilters}
+            disabled={loading}
+          />
+        </div>
         <form onSubmit={handleSubmit} className="max-w-4xl mx-auto relative flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setShowDebug(prev => !prev)}
+            title={showDebug ? 'Hide query debug info' : 'Show query debug info'}
+            className={`p-3 rounded-xl border transition-colors shrink-0 ${showDebug
+              ? 'bg-purple-600/20 border-purple-500/50 text-purple-300'
+              : 'bg-gray-800 border-gray-700 text-gray-500 hover:text-gray-300'
+              }`}
+          >
+            <Bug className="w-5 h-5" />
+          </button>
           <input
             type="text"
             value={question}
@@ -177,13 +329,24 @@ export default function ChatInterface({ role, initialHistory = [] }: ChatInterfa
             className="flex-1 bg-gray-800 text-gray-100 rounded-2xl pl-6 pr-14 py-4 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 placeholder-gray-500 shadow-lg"
             disabled={loading}
           />
-          <button
-            type="submit"
-            disabled={loading || !question.trim()}
-            className="absolute right-3 top-1/2 -translate-y-1/2 p-2 bg-blue-600 text-white rounded-xl hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors shrink-0"
-          >
-            <Send className="w-5 h-5" />
-          </button>
+          {loading ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              title="Stop generating"
+              className="absolute right-3 top-1/2 -translate-y-1/2 p-2 bg-gray-700 text-white rounded-xl hover:bg-gray-600 transition-colors shrink-0"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!question.trim()}
+              className="absolute right-3 top-1/2 -translate-y-1/2 p-2 bg-blue-600 text-white rounded-xl hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors shrink-0"
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,117 @@
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import { ExternalLink, FileText, X } from 'lucide-react'
+import type { AnswerVerification, Citation } from '@/lib/types/database'
+
+interface CitedAnswerProps {
+  content: string
+  citations?: Citation[]
+  // Claims that failed verification are greyed out
+  verification?: AnswerVerification | null
+  // API role of the chat; the document viewer only opens documents this role can retrieve
+  role: string
+  // Rendered after the text (e.g. the streaming cursor)
+  children?: ReactNode
+}
+
+interface Segment {
+  text: string
+  unverified: boolean
+}
+
+// Split the answer at the spans of claims that were not verified as supported
+function segmentAnswer(content: string, verification?: AnswerVerification | null): Segment[] {
+  const spans = (verification?.claims || [])
+    .filter(claim => claim.verdict !== 'supported' && !claim.removed && claim.answer_start !== undefined)
+    .map(claim => [claim.answer_start!, claim.answer_end!] as const)
+    .sort((a, b) => a[0] - b[0])
+
+  const segments: Segment[] = []
+  let cursor = 0
+  for (const [start, end] of spans) {
+    if (start < cursor || end > content.length) continue
+    if (start > cursor) segments.push({ text: content.slice(cursor, start), unverified: false })
+    segments.push({ text: content.slice(start, end), unverified: true })
+    cursor = end
+  }
+  if (cursor < content.length) segments.push({ text: content.slice(cursor), unverified: false })
+  return segments
+}
+
+// Answer text with its [N] markers turned into badges that open the cited passage.
+// Markers without a resolved citation (still streaming, or old answers) stay plain text.
+export default function CitedAnswer({ content, citations = [], verification, role, children }: CitedAnswerProps) {
+  const [openMarker, setOpenMarker] = useState<number | null>(null)
+
+  const byMarker = new Map(citations.map(citation => [citation.marker, citation]))
+  const openCitation = openMarker !== null ? byMarker.get(openMarker) : undefined
+
+  return (
+    <div>
+      <p className="whitespace-pre-wrap leading-relaxed">
+        {segmentAnswer(content, verification).map((segment, segmentIdx) => (
+          <span
+            key={segmentIdx}
+            className={segment.unverified ? 'text-gray-500 decoration-dotted underline underline-offset-4' : undefined}
+            title={segment.unverified ? 'Not verified against the cited sources' : undefined}
+          >
+            {segment.text.split(/(\[\d+\])/g).map((part, idx) => {
+              const marker = part.match(/^\[(\d+)\]$/)
+              const citation = marker ? byMarker.get(Number(marker[1])) : undefined
+              if (!citation) return <span key={idx}>{part}</span>
+
+              return (
+                <button
+                  key={idx}
+                  type="button"
+                  onClick={() => setOpenMarker(openMarker === citation.marker ? null : citation.marker)}
+                  title={citation.filename}
+                  className={`inline-flex items-center justify-center min-w-5 h-5 px-1 mx-0.5 align-text-top rounded text-[10px] font-semibold no-underline transition-colors ${
+                    openMarker === citation.marker
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-blue-500/20 text-blue-300 hover:bg-blue-500/40'
+                  }`}
+                >
+                  {citation.marker}
+                </button>
+              )
+            })}
+          </span>
+        ))}
+        {children}
+      </p>
+
+      {openCitation && (
+        <div className="mt-3 bg-gray-900/70 border border-blue-500/30 rounded-lg p-3 text-sm">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <p className="flex items-center gap-1.5 text-xs font-medium text-blue-400 truncate">
+              <FileText className="w-3 h-3 shrink-0" />
+              [{openCitation.marker}] {openCitation.filename}
+            </p>
+            <button
+              type="button"
+              onClick={() => setOpenMarker(null)}
+              className="text-gray-500 hover:text-gray-300"
+              title="Close"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <blockquote className="border-l-2 border-blue-500 pl-3 text-gray-300 whitespace-pre-wrap">
+            {openCitation.passage}
+          </blockquote>
+          <a
+            href={`/documents/${openCitation.document_id}?role=${role}&chunk=${openCitation.chunk_id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-2 inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 hover:underline"
+          >
+            Open in document
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,29 +3,10 @@
 import { useState, useEffect } from 'react'
 import { Upload, MessageSquare, History, Settings, User, Home } from 'lucide-react'
 import Link from 'next/link'
-import ChatInterface from './ChatInterface'
+import ChatInterface, { type Message } from './ChatInterface'
 import ChatHistorySidebar from './ChatHistorySidebar'
 import KnowledgeBaseClient from './KnowledgeBaseClient'
-import type { Document } from '@/lib/types/database'
-
-interface ChatHistoryItem {
-  id: string
-  question: string
-  answer: string
-  sources: Array<{
-    document_id: string
-    filename: string
-    chunk_content: string
-    relevance_score: number
-  }>
-  created_at: string
-}
-
-interface Message {
-  role: 'user' | 'assistant'
-  content: string
-  sources?: ChatHistoryItem['sources']
-}
+import type { ChatMessage, Conversation, Document } from '@/lib/types/database'
 
 interface DashboardContentProps {
   documents: Document[]
@@ -47,12 +28,36 @@ export default function DashboardContent({ documents, user }: DashboardContentPr
   
   const [role, setRole] = useState<UserRole>(initialRole)
   const [currentView, setCurrentView] = useState<View>('chat')
-  const [selectedChatHistory, setSelectedChatHistory] = useState<ChatHistoryItem | null>(null)
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
+  const [threadMessages, setThreadMessages] = useState<Message[]>([])
   const [refreshTrigger, setRefreshTrigger] = useState(0)
 
-  // When a chat from history is clicked
-  const handleChatHistoryClick = (item: ChatHistoryItem) => {
-    setSelectedChatHistory(item)
+  // When a conversation from history is clicked, load the whole thread into the chat
+  const handleSelectConversation = (conversation: Conversation, rows: ChatMessage[]) => {
+    setActiveConversationId(conversation.id)
+    setThreadMessages(rows.flatMap((row): Message[] => [
+      { role: 'user', content: row.question },
+      {
+        role: 'assistant',
+        content: row.answer,
+        citations: row.metadata?.citations,
+        cached: row.metadata?.cached,
+        plan: row.metadata?.plan,
+        retrieval: row.metadata?.retrieval,
+        confidence: row.metadata?.confidence,
+        abstained: row.metadata?.abstained,
+        verification: row.metadata?.verification,
+      },
+    ]))
+  }
+
+  const handleNewChat = () => {
+    setActiveConversationId(null)
+    setThreadMessages([])
+  }
+
+  const handleConversationDeleted = (id: string) => {
+    if (id === activeConversationId) handleNewChat()
   }
 
   // Update role when user prop changes
@@ -66,6 +71,8 @@ export default function DashboardContent({ documents, user }: DashboardContentPr
   // Reset view when role changes
   const handleRoleChange = (newRole: UserRole) => {
     setRole(newRole)
+    // Threads are per role
+    handleNewChat()
     if (newRole === 'employee' || newRole === 'customer') {
       setCurrentView('chat')
     }
@@ -211,10 +218,10 @@ export default function DashboardContent({ documents, user }: DashboardContentPr
             ) : (
               <ChatInterface 
                 role={role}
-                initialHistory={selectedChatHistory ? [
-                  { role: 'user', content: selectedChatHistory.question },
-                  { role: 'assistant', content: selectedChatHistory.answer, sources: selectedChatHistory.sources }
-                ] : []}
+                initialHistory={threadMessages}
+                conversationId={activeConversationId}
+                onConversationCreated={setActiveConversationId}
+                onQueryComplete={() => setRefreshTrigger(prev => prev + 1)}
               />
             )}
           </div>
@@ -231,7 +238,11 @@ export default function DashboardContent({ documents, user }: DashboardContentPr
             </div>
             <div className="flex-1 overflow-hidden">
               <ChatHistorySidebar 
-                onQuestionClick={handleChatHistoryClick}
+                role={role === 'owner' ? 'business_owner' : role}
+                activeConversationId={activeConversationId}
+                onSelectConversation={handleSelectConversation}
+                onNewChat={handleNewChat}
+                onConversationDeleted={handleConversationDeleted}
                 refreshTrigger={refreshTrigger}
               />
             </div>
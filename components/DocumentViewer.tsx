@@ -0,0 +1,248 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Quote } from 'lucide-react'
+import PdfViewer from '@/components/PdfViewer'
+import type { DocumentViewerData } from '@/app/actions/documents'
+import type { SheetPreview } from '@/lib/parsers/preview'
+import type { ChunkMetadata } from '@/lib/types/database'
+
+type ViewerChunk = NonNullable<DocumentViewerData['chunk']>
+
+interface DocumentViewerProps {
+  preview: DocumentViewerData['preview']
+  chunk: DocumentViewerData['chunk']
+}
+
+const MARK_CLASS = 'bg-yellow-400/30 text-inherit rounded-sm'
+
+function normalise(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+// Wraps the first occurrence of `passage` (whitespace-insensitive) in a <mark> and returns it.
+// Used for HTML previews, where chunk offsets refer to the extracted text, not the markup.
+function highlightPassage(container: HTMLElement, passage: string): HTMLElement | null {
+  // Long chunks rarely survive HTML conversion verbatim; their opening words are enough to locate them
+  const needle = normalise(passage).slice(0, 120)
+  if (!needle) return null
+
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT)
+  // Normalised text of the container, with the source node/offset of every character
+  let flat = ''
+  const positions: { node: Text; offset: number }[] = []
+  let lastWasSpace = true
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text
+    const value = node.data
+    for (let i = 0; i < value.length; i++) {
+      const isSpace = /\s/.test(value[i])
+      if (isSpace && lastWasSpace) continue
+      flat += isSpace ? ' ' : value[i]
+      positions.push({ node, offset: i })
+      lastWasSpace = isSpace
+    }
+    // Block boundaries in the markup act as whitespace
+    if (!lastWasSpace) {
+      flat += ' '
+      positions.push({ node, offset: value.length })
+      lastWasSpace = true
+    }
+  }
+
+  const index = flat.indexOf(needle)
+  if (index === -1) return null
+
+  const start = positions[index]
+  const end = positions[index + needle.length - 1]
+  const range = document.createRange()
+  range.setStart(start.node, start.offset)
+  range.setEnd(end.node, Math.min(end.offset + 1, end.node.data.length))
+
+  const mark = document.createElement('mark')
+  mark.className = MARK_CLASS
+  try {
+    range.surroundContents(mark)
+  } catch {
+    // The passage spans several elements: mark its start only
+    const head = start.node.splitText(start.offset)
+    const wrapper = mark.cloneNode() as HTMLElement
+    head.parentNode?.insertBefore(wrapper, head)
+    wrapper.appendChild(head)
+    return wrapper
+  }
+  return mark
+}
+
+function TextPreview({ text, chunk }: { text: string; chunk: ViewerChunk | null }) {
+  const markRef = useRef<HTMLElement>(null)
+  const meta = chunk?.metadata
+  let start = meta?.start_offset
+  let end = meta?.end_offset
+
+  // Chunks processed before offsets were stored: find the passage by its text
+  if ((start === undefined || end === undefined) && chunk) {
+    const found = text.indexOf(chunk.content.trim().slice(0, 200))
+    if (found !== -1) {
+      start = found
+      end = found + chunk.content.trim().length
+    }
+  }
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [start])
+
+  if (start === undefined || end === undefined) {
+    return <pre className="whitespace-pre-wrap text-sm text-gray-300 font-mono">{text}</pre>
+  }
+
+  return (
+    <pre className="whitespace-pre-wrap text-sm text-gray-300 font-mono">
+      {text.slice(0, start)}
+      <mark ref={markRef} className={MARK_CLASS}>{text.slice(start, end)}</mark>
+      {text.slice(end)}
+    </pre>
+  )
+}
+
+function HtmlPreview({ html, chunk }: { html: string; chunk: ViewerChunk | null }) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || !chunk) return
+    const mark = highlightPassage(container, chunk.content)
+    mark?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [html, chunk])
+
+  return (
+    <div
+      ref={containerRef}
+      className="space-y-3 text-gray-200 leading-relaxed [&_h1]:text-2xl [&_h1]:font-bold [&_h2]:text-xl [&_h2]:font-semibold [&_h3]:font-semibold [&_ul]:list-disc [&_ul]:pl-6 [&_ol]:list-decimal [&_ol]:pl-6 [&_table]:border-collapse [&_td]:border [&_td]:border-gray-700 [&_td]:px-2 [&_td]:py-1"
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  )
+}
+
+// Rows (as indices into sheet.rows) covered by the chunk
+function highlightedRows(sheet: SheetPreview, meta: ChunkMetadata | undefined): Set<number> {
+  const rows = new Set<number>()
+  if (!meta) return rows
+
+  if (meta.row_start !== undefined && meta.row_end !== undefined) {
+    for (let row = meta.row_start; row <= meta.row_end; row++) rows.add(row)
+  } else if (sheet.rowOffsets && meta.start_offset !== undefined && meta.end_offset !== undefined) {
+    sheet.rowOffsets.forEach((offset, row) => {
+      const next = sheet.rowOffsets![row + 1] ?? Infinity
+      if (row > 0 && offset < meta.end_offset! && next > meta.start_offset!) rows.add(row)
+    })
+  }
+  return rows
+}
+
+function SheetsPreview({ sheets, chunk }: { sheets: SheetPreview[]; chunk: ViewerChunk | null }) {
+  const meta = chunk?.metadata
+  const initial = Math.max(0, sheets.findIndex(sheet => sheet.name === meta?.sheet))
+  const [active, setActive] = useState(initial)
+  const firstRowRef = useRef<HTMLTableRowElement>(null)
+
+  const sheet = sheets[active]
+  // Only the cited sheet is highlighted
+  const cited = active === initial && (!meta?.sheet || meta.sheet === sheet?.name)
+  const rows = cited && sheet ? highlightedRows(sheet, meta) : new Set<number>()
+  const firstRow = Math.min(...rows)
+
+  useEffect(() => {
+    firstRowRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [active, firstRow])
+
+  if (!sheet) {
+    return <p className="text-gray-400 text-sm">This spreadsheet is empty.</p>
+  }
+
+  const [header = [], ...body] = sheet.rows
+
+  return (
+    <div>
+      {sheets.length > 1 && (
+        <div className="flex gap-1 mb-3 overflow-x-auto">
+          {sheets.map((s, idx) => (
+            <button
+              key={s.name}
+              onClick={() => setActive(idx)}
+              className={`px-3 py-1.5 rounded-t-lg text-sm whitespace-nowrap transition-colors ${
+                idx === active ? 'bg-gray-700 text-gray-100' : 'text-gray-400 hover:bg-gray-800'
+              }`}
+            >
+              {s.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="overflow-auto border border-gray-700 rounded-lg max-h-[75vh]">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-800 sticky top-0">
+            <tr>
+              <th className="px-2 py-1.5 text-right text-xs text-gray-500 font-normal">#</th>
+              {header.map((cell, idx) => (
+                <th key={idx} className="px-3 py-1.5 text-left text-gray-300 font-medium whitespace-nowrap">
+                  {cell}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {body.map((row, idx) => {
+              const rowNumber = idx + 1
+              const isCited = rows.has(rowNumber)
+              return (
+                <tr
+                  key={rowNumber}
+                  ref={rowNumber === firstRow ? firstRowRef : undefined}
+                  className={isCited ? 'bg-yellow-400/20' : 'hover:bg-gray-800/50'}
+                >
+                  <td className="px-2 py-1 text-right text-xs text-gray-500">{rowNumber}</td>
+                  {row.map((cell, cellIdx) => (
+                    <td key={cellIdx} className="px-3 py-1 text-gray-300 whitespace-nowrap">{cell}</td>
+                  ))}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+// Renders a stored document and scrolls to the cited chunk
+export default function DocumentViewer({ preview, chunk }: DocumentViewerProps) {
+  return (
+    <div className="space-y-6">
+      {chunk && (
+        <div className="bg-gray-800/60 border border-yellow-400/30 rounded-lg p-4">
+          <p className="flex items-center gap-1.5 text-xs font-medium text-yellow-400 mb-2">
+            <Quote className="w-3 h-3" />
+            Cited passage (chunk {chunk.chunk_index + 1})
+          </p>
+          <p className="text-sm text-gray-300 whitespace-pre-wrap line-clamp-6">{chunk.content}</p>
+        </div>
+      )}
+
+      <div className="bg-gray-900 border border-gray-800 rounded-lg p-6">
+        {preview.kind === 'pdf' && (
+          <PdfViewer
+            url={preview.url}
+            highlightStart={chunk?.metadata?.page_start}
+            highlightEnd={chunk?.metadata?.page_end}
+          />
+        )}
+        {preview.kind === 'html' && <HtmlPreview html={preview.html} chunk={chunk} />}
+        {preview.kind === 'sheets' && <SheetsPreview sheets={preview.sheets} chunk={chunk} />}
+        {preview.kind === 'text' && <TextPreview text={preview.text} chunk={chunk} />}
+      </div>
+    </div>
+  )
+}
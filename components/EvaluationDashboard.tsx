@@ -0,0 +1,615 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Loader2, Play, Plus, Trash2, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react'
+import type { Document, EvalQuestion, EvalResult, EvalRun, EvalRunMetrics } from '@/lib/types/database'
+import {
+  createEvalQuestion,
+  deleteEvalQuestion,
+  deleteEvalRun,
+  runEvaluation,
+  setEvalQuestionActive,
+} from '@/app/actions/evaluation'
+
+interface EvaluationDashboardProps {
+  questions: EvalQuestion[]
+  runs: EvalRun[]
+  selectedRunId?: string
+  results: EvalResult[]
+  documents: Document[]
+}
+
+const METRICS: Array<{ key: keyof EvalRunMetrics; label: string }> = [
+  { key: 'recall_at_k', label: 'Recall@k' },
+  { key: 'mrr', label: 'MRR' },
+  { key: 'ndcg', label: 'nDCG' },
+  { key: 'fact_recall', label: 'Fact recall' },
+  { key: 'groundedness', label: 'Groundedness' },
+]
+
+function formatMetric(value: number | null | undefined) {
+  return value === null || value === undefined ? '—' : value.toFixed(3)
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function splitLines(value: string): string[] {
+  return value.split('\n').map((line) => line.trim()).filter(Boolean)
+}
+
+// Settings query-rag resolved for a run: its overrides plus the function's environment
+interface PipelineConfig {
+  generationModel?: string
+  retrieval?: {
+    planner?: string
+    fusion?: string
+    rrfK?: number
+    limit?: number
+    // Auto weighting records both presets instead of one pair
+    weights?: { semantic?: number; keyword?: number }
+    queryExpansion?: { mode: string; paraphrases: number }
+    diversity?: 'off' | { lambda: number; maxPerDocument: number }
+    rerank?: 'off' | { mode: string; topN: number }
+    tableQa?: string
+    expansion?: { mode: string; window: number }
+    contextTokens?: number
+  }
+}
+
+function describePipeline(pipeline: PipelineConfig) {
+  const retrieval = pipeline.retrieval || {}
+  const weights = retrieval.fusion === 'rrf'
+    ? ` k ${retrieval.rrfK}`
+    : retrieval.weights?.semantic !== undefined
+      ? ` (sem ${retrieval.weights.semantic} / kw ${retrieval.weights.keyword})`
+      : ' (auto weights)'
+  const variants = retrieval.queryExpansion && retrieval.queryExpansion.mode !== 'off'
+    ? ` · ${retrieval.queryExpansion.mode}${retrieval.queryExpansion.mode.includes('multi-query') ? ` ×${retrieval.queryExpansion.paraphrases}` : ''}`
+    : ''
+  const mmr = retrieval.diversity && retrieval.diversity !== 'off'
+    ? ` · MMR λ${retrieval.diversity.lambda}${retrieval.diversity.maxPerDocument ? ` max ${retrieval.diversity.maxPerDocument}/doc` : ''}`
+    : ''
+  const rerank = retrieval.rerank && retrieval.rerank !== 'off' ? ` · rerank ${retrieval.rerank.mode} top ${retrieval.rerank.topN}` : ''
+  const expansion = retrieval.expansion && retrieval.expansion.mode !== 'off'
+    ? ` · ${retrieval.expansion.mode}${retrieval.expansion.mode === 'neighbours' ? ` ±${retrieval.expansion.window}` : ''}`
+    : ''
+  const tables = retrieval.tableQa === 'off' ? ' · no sheet QA' : ''
+  return `${pipeline.generationModel} · ${retrieval.fusion} fusion${weights} · ${retrieval.planner} planner${variants} · limit ${retrieval.limit}${mmr}${rerank}${expansion} · ${retrieval.contextTokens} tokens${tables}`
+}
+
+// Runs recorded before the resolved settings were stored only have the request overrides
+function describeOverrides(retrieval: Record<string, number | string | undefined>) {
+  const fusion = retrieval.fusion ? `${retrieval.fusion} fusion` : 'default fusion'
+  const weights =
+    retrieval.semanticWeight !== undefined || retrieval.keywordWeight !== undefined
+      ? ` (sem ${retrieval.semanticWeight ?? '–'} / kw ${retrieval.keywordWeight ?? '–'})`
+      : ''
+  const planner = retrieval.planner ? ` · ${retrieval.planner} planner` : ''
+  const variants = retrieval.queryExpansion && retrieval.queryExpansion !== 'off'
+    ? ` · ${retrieval.queryExpansion}${String(retrieval.queryExpansion).includes('multi-query') ? ` ×${retrieval.multiQueryCount ?? 3}` : ''}`
+    : ''
+  const rerank = retrieval.rerank && retrieval.rerank !== 'off' ? ` · rerank ${retrieval.rerank} top ${retrieval.rerankTopN ?? 8}` : ''
+  const mmr = retrieval.diversity === 'mmr'
+    ? ` · MMR λ${retrieval.mmrLambda ?? 0.5}${retrieval.maxPerDocument ? ` max ${retrieval.maxPerDocument}/doc` : ''}`
+    : ''
+  const expansion = retrieval.expansion && retrieval.expansion !== 'off'
+    ? ` · ${retrieval.expansion}${retrieval.expansion === 'neighbours' ? ` ±${retrieval.expansionWindow ?? 1}` : ''}`
+    : ''
+  const context = retrieval.contextTokens ? ` · ${retrieval.contextTokens} tokens` : ''
+  const tables = retrieval.tableQa === 'off' ? ' · no sheet QA' : ''
+  return `${fusion}${weights}${planner}${variants} · limit ${retrieval.limit ?? 15}${mmr}${rerank}${expansion}${context}${tables}`
+}
+
+function describeConfig(config: Record<string, unknown>) {
+  // Older runs recorded one { size, overlap }; newer ones every setting found in the corpus
+  const chunkingList = (Array.isArray(config.chunking) ? config.chunking : [config.chunking || {}]) as Array<Record<string, number | undefined>>
+  const chunking = chunkingList[0] || {}
+  const mixed = chunkingList.length > 1 ? ` +${chunkingList.length - 1} more` : ''
+  const settings = config.pipeline
+    ? describePipeline(config.pipeline as PipelineConfig)
+    : describeOverrides((config.retrieval || {}) as Record<string, number | string | undefined>)
+  return `${settings} · chunks ${chunking.size ?? '?'}/${chunking.overlap ?? '?'}${mixed}`
+}
+
+export default function EvaluationDashboard({
+  questions,
+  runs,
+  selectedRunId,
+  results,
+  documents,
+}: EvaluationDashboardProps) {
+  const router = useRouter()
+  const [error, setError] = useState<string | null>(null)
+
+  // Run form
+  const [isRunning, setIsRunning] = useState(false)
+  const [runLabel, setRunLabel] = useState('')
+  const [k, setK] = useState('5')
+  const [semanticWeight, setSemanticWeight] = useState('')
+  const [keywordWeight, setKeywordWeight] = useState('')
+  const [limit, setLimit] = useState('')
+  const [fusion, setFusion] = useState<'' | 'rrf' | 'weighted' | 'max' | 'legacy'>('')
+  const [planner, setPlanner] = useState<'' | 'llm' | 'rules'>('')
+  const [queryExpansion, setQueryExpansion] = useState<'' | 'off' | 'hyde' | 'multi-query' | 'hyde+multi-query'>('')
+  const [multiQueryCount, setMultiQueryCount] = useState('')
+  const [rerank, setRerank] = useState<'' | 'off' | 'llm' | 'cross-encoder'>('')
+  const [rerankTopN, setRerankTopN] = useState('')
+  const [diversity, setDiversity] = useState<'' | 'off' | 'mmr'>('')
+  const [mmrLambda, setMmrLambda] = useState('')
+  const [maxPerDocument, setMaxPerDocument] = useState('')
+  const [expansion, setExpansion] = useState<'' | 'off' | 'neighbours' | 'parent'>('')
+  const [expansionWindow, setExpansionWindow] = useState('')
+  const [contextTokens, setContextTokens] = useState('')
+  const [tableQa, setTableQa] = useState<'' | 'llm' | 'off'>('')
+  const [claimCheck, setClaimCheck] = useState<'llm' | 'nli' | 'off'>('llm')
+
+  // Question form
+  const [isSaving, setIsSaving] = useState(false)
+  const [newQuestion, setNewQuestion] = useState('')
+  const [newRole, setNewRole] = useState('business_owner')
+  const [newDocumentIds, setNewDocumentIds] = useState<Set<string>>(new Set())
+  const [newChunkIds, setNewChunkIds] = useState('')
+  const [newFacts, setNewFacts] = useState('')
+
+  const documentNames = new Map(documents.map((doc) => [doc.id, doc.filename]))
+  const activeCount = questions.filter((q) => q.active).length
+  const selectedRun = runs.find((run) => run.id === selectedRunId)
+
+  // Best value per metric across completed runs, for quick comparison
+  const best = Object.fromEntries(
+    METRICS.map(({ key }) => [
+      key,
+      Math.max(...runs.map((run) => run.metrics?.[key] ?? -1)),
+    ])
+  ) as Record<keyof EvalRunMetrics, number>
+
+  async function handleRun() {
+    setIsRunning(true)
+    setError(null)
+
+    const result = await runEvaluation({
+      label: runLabel,
+      k: parseOptionalNumber(k),
+      semanticWeight: parseOptionalNumber(semanticWeight),
+      keywordWeight: parseOptionalNumber(keywordWeight),
+      limit: parseOptionalNumber(limit),
+      fusion: fusion || undefined,
+      planner: planner || undefined,
+      queryExpansion: queryExpansion || undefined,
+      multiQueryCount: parseOptionalNumber(multiQueryCount),
+      rerank: rerank || undefined,
+      rerankTopN: parseOptionalNumber(rerankTopN),
+      diversity: diversity || undefined,
+      mmrLambda: parseOptionalNumber(mmrLambda),
+      maxPerDocument: parseOptionalNumber(maxPerDocument),
+      expansion: expansion || undefined,
+      expansionWindow: parseOptionalNumber(expansionWindow),
+      contextTokens: parseOptionalNumber(contextTokens),
+      tableQa: tableQa || undefined,
+      claimCheck,
+    })
+
+    setIsRunning(false)
+    if (result.error) {
+      setError(result.error)
+    }
+    if (result.data) {
+      setRunLabel('')
+      router.push(`/admin/evaluation?run=${result.data.id}`)
+    }
+    router.refresh()
+  }
+
+  async function handleAddQuestion() {
+    setIsSaving(true)
+    setError(null)
+
+    const result = await createEvalQuestion({
+      question: newQuestion,
+      role: newRole,
+      expected_document_ids: [...newDocumentIds],
+      expected_chunk_ids: splitLines(newChunkIds.replace(/,/g, '\n')),
+      expected_facts: splitLines(newFacts),
+    })
+
+    setIsSaving(false)
+    if (result.error) {
+      setError(result.error)
+      return
+    }
+
+    setNewQuestion('')
+    setNewDocumentIds(new Set())
+    setNewChunkIds('')
+    setNewFacts('')
+    router.refresh()
+  }
+
+  async function handleDeleteQuestion(id: string) {
+    const result = await deleteEvalQuestion(id)
+    if (result.error) setError(result.error)
+    router.refresh()
+  }
+
+  async function handleToggleQuestion(question: EvalQuestion) {
+    const result = await setEvalQuestionActive(question.id, !question.active)
+    if (result.error) setError(result.error)
+    router.refresh()
+  }
+
+  async function handleDeleteRun(id: string) {
+    const result = await deleteEvalRun(id)
+    if (result.error) setError(result.error)
+    router.push('/admin/evaluation')
+    router.refresh()
+  }
+
+  function toggleDocument(id: string) {
+    setNewDocumentIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const inputClass =
+    'w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:border-blue-500 focus:outline-none'
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="flex items-center gap-2 rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Run an evaluation */}
+      <section className="bg-slate-900/50 rounded-xl border border-slate-800 p-6">
+        <h2 className="text-lg font-semibold text-slate-100 mb-1">New Run</h2>
+        <p className="text-sm text-slate-500 mb-4">
+          Runs {activeCount} active question{activeCount === 1 ? '' : 's'} through query-rag without the cache.
+          Leave fields empty to use the configured defaults; weights only apply to weighted and legacy fusion.
+        </p>
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 items-end">
+          <label className="col-span-2 text-xs text-slate-400">
+            Label
+            <input className={inputClass} value={runLabel} onChange={(e) => setRunLabel(e.target.value)} placeholder="e.g. keyword 0.7" />
+          </label>
+          <label className="text-xs text-slate-400">
+            k
+            <input className={inputClass} value={k} onChange={(e) => setK(e.target.value)} inputMode="numeric" />
+          </label>
+          <label className="text-xs text-slate-400">
+            Planner
+            <select className={inputClass} value={planner} onChange={(e) => setPlanner(e.target.value as typeof planner)}>
+              <option value="">Default</option>
+              <option value="llm">LLM</option>
+              <option value="rules">Rules</option>
+            </select>
+          </label>
+          <label className="text-xs text-slate-400">
+            Fusion
+            <select className={inputClass} value={fusion} onChange={(e) => setFusion(e.target.value as typeof fusion)}>
+              <option value="">Default</option>
+              <option value="rrf">RRF</option>
+              <option value="weighted">Weighted</option>
+              <option value="max">Max</option>
+              <option value="legacy">Legacy hybrid</option>
+            </select>
+          </label>
+          <label className="text-xs text-slate-400">
+            Semantic weight
+            <input className={inputClass} value={semanticWeight} onChange={(e) => setSemanticWeight(e.target.value)} placeholder="auto" />
+          </label>
+          <label className="text-xs text-slate-400">
+            Keyword weight
+            <input className={inputClass} value={keywordWeight} onChange={(e) => setKeywordWeight(e.target.value)} placeholder="auto" />
+          </label>
+          <label className="text-xs text-slate-400">
+            Results per search
+            <input className={inputClass} value={limit} onChange={(e) => setLimit(e.target.value)} placeholder="15" />
+          </label>
+          <label className="text-xs text-slate-400">
+            Query variants
+            <select className={inputClass} value={queryExpansion} onChange={(e) => setQueryExpansion(e.target.value as typeof queryExpansion)}>
+              <option value="">Default</option>
+              <option value="off">Off</option>
+              <option value="hyde">HyDE</option>
+              <option value="multi-query">Multi-query</option>
+              <option value="hyde+multi-query">HyDE + multi-query</option>
+            </select>
+          </label>
+          <label className="text-xs text-slate-400">
+            Paraphrases
+            <input className={inputClass} value={multiQueryCount} onChange={(e) => setMultiQueryCount(e.target.value)} placeholder="3" />
+          </label>
+          <label className="text-xs text-slate-400">
+            Rerank
+            <select className={inputClass} value={rerank} onChange={(e) => setRerank(e.target.value as typeof rerank)}>
+              <option value="">Default</option>
+              <option value="off">Off</option>
+              <option value="llm">LLM</option>
+              <option value="cross-encoder">Cross-encoder</option>
+            </select>
+          </label>
+          <label className="text-xs text-slate-400">
+            Rerank top N
+            <input className={inputClass} value={rerankTopN} onChange={(e) => setRerankTopN(e.target.value)} placeholder="8" />
+          </label>
+          <label className="text-xs text-slate-400">
+            Diversification
+            <select className={inputClass} value={diversity} onChange={(e) => setDiversity(e.target.value as typeof diversity)}>
+              <option value="">Default</option>
+              <option value="off">Off</option>
+              <option value="mmr">MMR</option>
+            </select>
+          </label>
+          <label className="text-xs text-slate-400">
+            MMR lambda
+            <input className={inputClass} value={mmrLambda} onChange={(e) => setMmrLambda(e.target.value)} placeholder="0.5" />
+          </label>
+          <label className="text-xs text-slate-400">
+            Max per document
+            <input className={inputClass} value={maxPerDocument} onChange={(e) => setMaxPerDocument(e.target.value)} placeholder="no cap" />
+          </label>
+          <label className="text-xs text-slate-400">
+            Chunk expansion
+            <select className={inputClass} value={expansion} onChange={(e) => setExpansion(e.target.value as typeof expansion)}>
+              <option value="">Default</option>
+              <option value="off">Off</option>
+              <option value="neighbours">Neighbours</option>
+              <option value="parent">Parent section</option>
+            </select>
+          </label>
+          <label className="text-xs text-slate-400">
+            Neighbour window
+            <input className={inputClass} value={expansionWindow} onChange={(e) => setExpansionWindow(e.target.value)} placeholder="1" />
+          </label>
+          <label className="text-xs text-slate-400">
+            Context tokens
+            <input className={inputClass} value={contextTokens} onChange={(e) => setContextTokens(e.target.value)} placeholder="per model" />
+          </label>
+          <label className="text-xs text-slate-400">
+            Spreadsheet QA
+            <select className={inputClass} value={tableQa} onChange={(e) => setTableQa(e.target.value as typeof tableQa)}>
+              <option value="">Default</option>
+              <option value="llm">On</option>
+              <option value="off">Off</option>
+            </select>
+          </label>
+          <label className="text-xs text-slate-400">
+            Claim check
+            <select className={inputClass} value={claimCheck} onChange={(e) => setClaimCheck(e.target.value as typeof claimCheck)}>
+              <option value="llm">LLM</option>
+              <option value="nli">NLI</option>
+              <option value="off">Off (no groundedness)</option>
+            </select>
+          </label>
+        </div>
+        <button
+          onClick={handleRun}
+          disabled={isRunning || activeCount === 0}
+          className="mt-4 inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isRunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+          {isRunning ? 'Running...' : 'Run evaluation'}
+        </button>
+      </section>
+
+      {/* Runs */}
+      <section className="bg-slate-900/50 rounded-xl border border-slate-800 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-800">
+          <h2 className="text-lg font-semibold text-slate-100">Runs</h2>
+        </div>
+        {runs.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-slate-500">No runs yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-800 text-sm">
+              <thead className="bg-slate-900/50 text-xs uppercase tracking-wider text-slate-400">
+                <tr>
+                  <th className="px-4 py-3 text-left">Run</th>
+                  <th className="px-4 py-3 text-left">Settings</th>
+                  <th className="px-4 py-3 text-right">k</th>
+                  {METRICS.map(({ key, label }) => (
+                    <th key={key} className="px-4 py-3 text-right">{label}</th>
+                  ))}
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {runs.map((run) => (
+                  <tr key={run.id} className={run.id === selectedRunId ? 'bg-blue-500/5' : 'hover:bg-slate-800/50'}>
+                    <td className="px-4 py-3">
+                      <Link href={`/admin/evaluation?run=${run.id}`} className="text-slate-200 hover:text-blue-400">
+                        {run.label || 'Untitled run'}
+                      </Link>
+                      <div className="flex items-center gap-1 text-xs text-slate-500">
+                        {run.status === 'completed' && <CheckCircle2 className="h-3 w-3 text-green-400" />}
+                        {run.status === 'failed' && <XCircle className="h-3 w-3 text-red-400" />}
+                        {run.status === 'running' && <Loader2 className="h-3 w-3 animate-spin text-yellow-400" />}
+                        {new Date(run.started_at).toLocaleString()} · {run.question_count} questions
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-slate-400">{describeConfig(run.config)}</td>
+                    <td className="px-4 py-3 text-right text-slate-400">{run.k}</td>
+                    {METRICS.map(({ key }) => {
+                      const value = run.metrics?.[key]
+                      const isBest = value !== null && value !== undefined && runs.length > 1 && value === best[key]
+                      return (
+                        <td key={key} className={`px-4 py-3 text-right font-mono ${isBest ? 'text-green-400' : 'text-slate-300'}`}>
+                          {formatMetric(value)}
+                        </td>
+                      )
+                    })}
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => handleDeleteRun(run.id)}
+                        className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800 transition-colors"
+                        title="Delete run"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Per-question results of the selected run */}
+      {selectedRun && (
+        <section className="bg-slate-900/50 rounded-xl border border-slate-800 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-800">
+            <h2 className="text-lg font-semibold text-slate-100">
+              Results · {selectedRun.label || 'Untitled run'}
+            </h2>
+            {selectedRun.error_message && <p className="text-sm text-red-400 mt-1">{selectedRun.error_message}</p>}
+          </div>
+          <div className="divide-y divide-slate-800">
+            {results.map((result) => (
+              <div key={result.id} className="px-6 py-4">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <p className="text-sm text-slate-200">{result.question}</p>
+                  <div className="flex gap-4 text-xs font-mono text-slate-400">
+                    {METRICS.map(({ key, label }) => (
+                      <span key={key}>
+                        {label} <span className="text-slate-200">{formatMetric(result[key])}</span>
+                      </span>
+                    ))}
+                    <span>{result.latency_ms}ms</span>
+                  </div>
+                </div>
+                {result.error_message && <p className="mt-1 text-xs text-red-400">{result.error_message}</p>}
+                <ol className="mt-2 flex flex-wrap gap-2 text-xs">
+                  {result.retrieved.slice(0, selectedRun.k).map((item, index) => (
+                    <li key={item.chunk_id} className="rounded bg-slate-800 px-2 py-0.5 text-slate-400">
+                      {index + 1}. {item.filename || documentNames.get(item.document_id) || item.document_id.slice(0, 8)}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Golden questions */}
+      <section className="bg-slate-900/50 rounded-xl border border-slate-800 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-800">
+          <h2 className="text-lg font-semibold text-slate-100">Golden Questions</h2>
+        </div>
+
+        <div className="divide-y divide-slate-800">
+          {questions.map((question) => (
+            <div key={question.id} className={`px-6 py-4 flex items-start justify-between gap-4 ${question.active ? '' : 'opacity-50'}`}>
+              <div className="space-y-1">
+                <p className="text-sm text-slate-200">{question.question}</p>
+                <p className="text-xs text-slate-500">
+                  {question.role} ·{' '}
+                  {question.expected_chunk_ids.length > 0
+                    ? `${question.expected_chunk_ids.length} expected chunk(s)`
+                    : question.expected_document_ids.map((id) => documentNames.get(id) || id.slice(0, 8)).join(', ')}
+                </p>
+                {question.expected_facts.length > 0 && (
+                  <p className="text-xs text-slate-500">Facts: {question.expected_facts.join(' · ')}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => handleToggleQuestion(question)}
+                  className="text-xs text-slate-400 hover:text-slate-100 px-2 py-1 rounded hover:bg-slate-800 transition-colors"
+                >
+                  {question.active ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  onClick={() => handleDeleteQuestion(question.id)}
+                  className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800 transition-colors"
+                  title="Delete question"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Add question */}
+        <div className="px-6 py-6 border-t border-slate-800 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              className={`${inputClass} md:col-span-3`}
+              value={newQuestion}
+              onChange={(e) => setNewQuestion(e.target.value)}
+              placeholder="Question, e.g. What was the net profit in Q2 2023?"
+            />
+            <select className={inputClass} value={newRole} onChange={(e) => setNewRole(e.target.value)}>
+              <option value="business_owner">Business owner</option>
+              <option value="employee">Employee</option>
+              <option value="customer">Customer</option>
+            </select>
+          </div>
+
+          <div>
+            <p className="text-xs text-slate-400 mb-2">Expected documents</p>
+            <div className="flex flex-wrap gap-2">
+              {documents.map((doc) => (
+                <button
+                  key={doc.id}
+                  type="button"
+                  onClick={() => toggleDocument(doc.id)}
+                  className={`rounded-full border px-3 py-1 text-xs transition-colors ${
+                    newDocumentIds.has(doc.id)
+                      ? 'border-blue-500 bg-blue-500/10 text-blue-300'
+                      : 'border-slate-700 text-slate-400 hover:border-slate-500'
+                  }`}
+                >
+                  {doc.filename}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <textarea
+              className={inputClass}
+              rows={3}
+              value={newFacts}
+              onChange={(e) => setNewFacts(e.target.value)}
+              placeholder="Expected answer facts, one per line"
+            />
+            <textarea
+              className={inputClass}
+              rows={3}
+              value={newChunkIds}
+              onChange={(e) => setNewChunkIds(e.target.value)}
+              placeholder="Optional: expected chunk ids (stricter than documents)"
+            />
+          </div>
+
+          <button
+            onClick={handleAddQuestion}
+            disabled={isSaving || !newQuestion.trim()}
+            className="inline-flex items-center gap-2 rounded-lg border border-slate-700 px-4 py-2 text-sm text-slate-200 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add question
+          </button>
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,272 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { AlertTriangle, Loader2, Pencil, Plus, Save, Trash2 } from 'lucide-react'
+import type { Document, Faq } from '@/lib/types/database'
+import { createFaq, deleteFaq, setFaqActive, updateFaq } from '@/app/actions/faqs'
+
+interface FaqManagerProps {
+  faqs: Faq[]
+  documents: Document[]
+}
+
+const VISIBILITY = [
+  { key: 'accessible_by_business_owners', label: 'Business owners' },
+  { key: 'accessible_by_employees', label: 'Employees' },
+  { key: 'accessible_by_customers', label: 'Customers' },
+] as const
+
+type Visibility = Record<(typeof VISIBILITY)[number]['key'], boolean>
+
+const ALL_ROLES: Visibility = {
+  accessible_by_business_owners: true,
+  accessible_by_employees: true,
+  accessible_by_customers: true,
+}
+
+function splitLines(value: string): string[] {
+  return value.split('\n').map((line) => line.trim()).filter(Boolean)
+}
+
+export default function FaqManager({ faqs, documents }: FaqManagerProps) {
+  const router = useRouter()
+  const [error, setError] = useState<string | null>(null)
+
+  // FAQ form (new FAQ, or the one being edited)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [question, setQuestion] = useState('')
+  const [variants, setVariants] = useState('')
+  const [answer, setAnswer] = useState('')
+  const [documentIds, setDocumentIds] = useState<Set<string>>(new Set())
+  const [visibility, setVisibility] = useState<Visibility>(ALL_ROLES)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const documentNames = new Map(documents.map((doc) => [doc.id, doc.filename]))
+
+  function resetForm() {
+    setEditingId(null)
+    setQuestion('')
+    setVariants('')
+    setAnswer('')
+    setDocumentIds(new Set())
+    setVisibility(ALL_ROLES)
+  }
+
+  function startEditing(faq: Faq) {
+    setEditingId(faq.id)
+    setQuestion(faq.question)
+    setVariants(
+      (faq.faq_variants || [])
+        .map((variant) => variant.question)
+        .filter((q) => q !== faq.question)
+        .join('\n')
+    )
+    setAnswer(faq.answer)
+    setDocumentIds(new Set(faq.source_document_ids))
+    setVisibility({
+      accessible_by_business_owners: faq.accessible_by_business_owners,
+      accessible_by_employees: faq.accessible_by_employees,
+      accessible_by_customers: faq.accessible_by_customers,
+    })
+  }
+
+  async function handleSave() {
+    setIsSaving(true)
+    setError(null)
+
+    const input = {
+      question,
+      variants: splitLines(variants),
+      answer,
+      source_document_ids: [...documentIds],
+      ...visibility,
+    }
+    const result = editingId ? await updateFaq(editingId, input) : await createFaq(input)
+
+    setIsSaving(false)
+    if (result.error) {
+      setError(result.error)
+      return
+    }
+
+    resetForm()
+    router.refresh()
+  }
+
+  async function handleToggle(faq: Faq) {
+    const result = await setFaqActive(faq.id, !faq.active)
+    if (result.error) setError(result.error)
+    router.refresh()
+  }
+
+  async function handleDelete(id: string) {
+    const result = await deleteFaq(id)
+    if (result.error) setError(result.error)
+    if (editingId === id) resetForm()
+    router.refresh()
+  }
+
+  function toggleDocument(id: string) {
+    setDocumentIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const inputClass =
+    'w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:border-blue-500 focus:outline-none'
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="flex items-center gap-2 rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* FAQ list */}
+      <section className="bg-slate-900/50 rounded-xl border border-slate-800 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-800">
+          <h2 className="text-lg font-semibold text-slate-100">FAQs</h2>
+          <p className="text-xs text-slate-500 mt-1">
+            Questions that match one of an FAQ&apos;s variants closely enough are answered with its answer, word for word,
+            before the query cache and document search are consulted.
+          </p>
+        </div>
+        {faqs.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-slate-500">No FAQs yet.</p>
+        ) : (
+          <div className="divide-y divide-slate-800">
+            {faqs.map((faq) => (
+              <div key={faq.id} className={`px-6 py-4 flex items-start justify-between gap-4 ${faq.active ? '' : 'opacity-50'}`}>
+                <div className="space-y-1">
+                  <p className="text-sm text-slate-200">{faq.question}</p>
+                  <p className="text-sm text-slate-400 whitespace-pre-wrap line-clamp-3">{faq.answer}</p>
+                  <p className="text-xs text-slate-500">
+                    {VISIBILITY.filter(({ key }) => faq[key]).map(({ label }) => label).join(', ') || 'Hidden from every role'}
+                    {' · '}{faq.faq_variants?.length ?? 0} variant{faq.faq_variants?.length === 1 ? '' : 's'}
+                    {' · '}{faq.hit_count} hit{faq.hit_count === 1 ? '' : 's'}
+                  </p>
+                  {faq.source_document_ids.length > 0 && (
+                    <p className="text-xs text-slate-500">
+                      Sources: {faq.source_document_ids.map((id) => documentNames.get(id) || id.slice(0, 8)).join(', ')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => handleToggle(faq)}
+                    className="text-xs text-slate-400 hover:text-slate-100 px-2 py-1 rounded hover:bg-slate-800 transition-colors"
+                  >
+                    {faq.active ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    onClick={() => startEditing(faq)}
+                    className="p-1 rounded text-slate-500 hover:text-slate-100 hover:bg-slate-800 transition-colors"
+                    title="Edit FAQ"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(faq.id)}
+                    className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800 transition-colors"
+                    title="Delete FAQ"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Add / edit FAQ */}
+      <section className="bg-slate-900/50 rounded-xl border border-slate-800 p-6 space-y-3">
+        <h2 className="text-lg font-semibold text-slate-100">{editingId ? 'Edit FAQ' : 'New FAQ'}</h2>
+
+        <input
+          className={inputClass}
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Question, e.g. What is your refund policy?"
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <textarea
+            className={inputClass}
+            rows={5}
+            value={variants}
+            onChange={(e) => setVariants(e.target.value)}
+            placeholder="Other ways to ask it, one per line (e.g. Can I get my money back?)"
+          />
+          <textarea
+            className={inputClass}
+            rows={5}
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder="Answer, exactly as it should be shown"
+          />
+        </div>
+
+        <div>
+          <p className="text-xs text-slate-400 mb-2">Source documents</p>
+          <div className="flex flex-wrap gap-2">
+            {documents.map((doc) => (
+              <button
+                key={doc.id}
+                type="button"
+                onClick={() => toggleDocument(doc.id)}
+                className={`rounded-full border px-3 py-1 text-xs transition-colors ${
+                  documentIds.has(doc.id)
+                    ? 'border-blue-500 bg-blue-500/10 text-blue-300'
+                    : 'border-slate-700 text-slate-400 hover:border-slate-500'
+                }`}
+              >
+                {doc.filename}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4">
+          {VISIBILITY.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={visibility[key]}
+                onChange={(e) => setVisibility((prev) => ({ ...prev, [key]: e.target.checked }))}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !question.trim() || !answer.trim()}
+            className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : editingId ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            {editingId ? 'Save FAQ' : 'Add FAQ'}
+          </button>
+          {editingId && (
+            <button
+              onClick={resetForm}
+              className="rounded-lg px-4 py-2 text-sm text-slate-400 hover:bg-slate-800 hover:text-slate-100 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
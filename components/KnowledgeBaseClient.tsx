@@ -4,10 +4,10 @@ import { useState, useRef, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import {
     Search, FileText, FileSpreadsheet, File, Trash2,
-    Upload, X, CheckCircle2, Loader2, Info, Calendar, HardDrive, AlertTriangle, RefreshCw
+    Upload, X, CheckCircle2, Loader2, Info, Calendar, HardDrive, AlertTriangle, RefreshCw, Tag, RotateCcw
 } from 'lucide-react'
 import type { Document } from '@/lib/types/database'
-import { uploadDocument, deleteDocument } from '@/app/actions/documents'
+import { uploadDocument, deleteDocument, updateDocumentMetadata, retryIngestion } from '@/app/actions/documents'
 
 interface KnowledgeBaseExplorerProps {
     documents: Document[]
@@ -55,11 +55,18 @@ export default function KnowledgeBaseExplorer({ documents }: KnowledgeBaseExplor
             doc.filename.toLowerCase().includes(searchQuery.toLowerCase())
         )
 
+    // Documents still being ingested (or failed), shown with their progress above the grid
+    const ingestingDocs = localDocuments
+        .filter(doc => doc.status !== 'completed')
+        .filter(doc =>
+            doc.filename.toLowerCase().includes(searchQuery.toLowerCase())
+        )
+
     const selectedDoc = documents.find(d => d.id === selectedDocId)
 
     // Auto-refresh
     useEffect(() => {
-        const hasProcessing = localDocuments.some(doc => doc.status === 'processing')
+        const hasProcessing = localDocuments.some(doc => doc.status === 'processing' || doc.status === 'chunks_created')
         if (hasProcessing) {
             const interval = setInterval(() => router.refresh(), 3000)
             return () => clearInterval(interval)
@@ -313,6 +320,15 @@ export default function KnowledgeBaseExplorer({ documents }: KnowledgeBaseExplor
                         </div>
                     )}
 
+                    {ingestingDocs.length > 0 && (
+                        <div className="mb-6 space-y-2">
+                            <h4 className="text-xs font-medium text-slate-500 uppercase">Processing</h4>
+                            {ingestingDocs.map(doc => (
+                                <IngestionProgress key={doc.id} document={doc} onRetried={() => router.refresh()} />
+                            ))}
+                        </div>
+                    )}
+
                     {filteredDocs.length === 0 ? (
                         <div className="h-full flex flex-col items-center justify-center text-slate-500">
                             <File className="w-16 h-16 mb-4 opacity-20" />
@@ -418,6 +434,12 @@ export default function KnowledgeBaseExplorer({ documents }: KnowledgeBaseExplor
                                         </div>
                                     </div>
 
+                                    <DocumentMetadataEditor
+                                        key={selectedDoc.id}
+                                        document={selectedDoc}
+                                        onSaved={() => router.refresh()}
+                                    />
+
                                     <div className="pt-4 border-t border-slate-800">
                                         <label className="text-xs font-medium text-slate-500 uppercase mb-2 block">Access</label>
                                         <div className="space-y-2">
@@ -663,3 +685,168 @@ export default function KnowledgeBaseExplorer({ documents }: KnowledgeBaseExplor
         </div>
     )
 }
+
+// Tags and effective date, used to filter chat retrieval
+function DocumentMetadataEditor({ document, onSaved }: { document: Document; onSaved: () => void }) {
+    const [tags, setTags] = useState<string[]>(document.tags || [])
+    const [tagInput, setTagInput] = useState('')
+    const [effectiveDate, setEffectiveDate] = useState(document.effective_date || '')
+    const [isSaving, setIsSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const isDirty = tags.join(',') !== (document.tags || []).join(',') || effectiveDate !== (document.effective_date || '')
+
+    function addTag() {
+        const tag = tagInput.trim().toLowerCase()
+        if (tag && !tags.includes(tag)) setTags([...tags, tag])
+        setTagInput('')
+    }
+
+    async function handleSave() {
+        setIsSaving(true)
+        setError(null)
+        const result = await updateDocumentMetadata(document.id, { tags, effective_date: effectiveDate || null })
+        setIsSaving(false)
+        if (result.error) {
+            setError(result.error)
+            return
+        }
+        onSaved()
+    }
+
+    return (
+        <div className="pt-4 border-t border-slate-800 space-y-3">
+            <div>
+                <label className="text-xs font-medium text-slate-500 uppercase mb-2 block">Tags</label>
+                <div className="flex flex-wrap gap-1.5 mb-2">
+                    {tags.map(tag => (
+                        <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-xs bg-blue-500/10 border border-blue-500/30 text-blue-300">
+                            <Tag className="w-3 h-3" />
+                            {tag}
+                            <button onClick={() => setTags(tags.filter(t => t !== tag))} className="p-0.5 rounded-full hover:bg-blue-500/20">
+                                <X className="w-3 h-3" />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+                <input
+                    type="text"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' || e.key === ',') {
+                            e.preventDefault()
+                            addTag()
+                        }
+                    }}
+                    onBlur={addTag}
+                    placeholder="Add a tag and press Enter"
+                    className="w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500"
+                />
+            </div>
+            <div>
+                <label className="text-xs font-medium text-slate-500 uppercase mb-2 block">Effective Date</label>
+                <input
+                    type="date"
+                    value={effectiveDate}
+                    onChange={(e) => setEffectiveDate(e.target.value)}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-sm text-slate-200 scheme-dark focus:outline-none focus:border-blue-500"
+                />
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {isDirty && (
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 rounded-lg transition-colors text-sm font-medium"
+                >
+                    {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Save Metadata
+                </button>
+            )}
+        </div>
+    )
+}
+
+const STAGE_LABELS = { parse: 'Parsing', chunk: 'Chunking', embed: 'Embedding', done: 'Done' } as const
+const STAGES = ['parse', 'chunk', 'embed'] as const
+// A due job still unclaimed after this has no worker run coming (the schedule runs every minute)
+const SCHEDULER_GRACE_MS = 90_000
+
+// Stage, embedding progress and retry state of a document's ingestion job
+function IngestionProgress({ document, onRetried }: { document: Document; onRetried: () => void }) {
+    const [isRetrying, setIsRetrying] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [now, setNow] = useState(() => Date.now())
+    const job = document.ingestion_job
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 5000)
+        return () => clearInterval(interval)
+    }, [])
+
+    const failed = document.status === 'failed' || job?.status === 'failed'
+    const stageIndex = job ? STAGES.indexOf(job.stage as typeof STAGES[number]) : -1
+    const embedded = job?.chunks_total ? job.chunks_embedded / job.chunks_total : 0
+    // Parsing and chunking are quick next to embedding, which gets most of the bar
+    const percent = !job ? 0 : job.stage === 'done' ? 100 : job.stage === 'embed' ? 20 + Math.round(embedded * 80) : stageIndex * 10
+    const waiting = (job?.status === 'queued' || job?.status === 'retrying') && now - new Date(job.next_run_at).getTime() > SCHEDULER_GRACE_MS
+
+    async function handleRetry() {
+        setIsRetrying(true)
+        setError(null)
+        const result = await retryIngestion(document.id)
+        setIsRetrying(false)
+        if (result.error) {
+            setError(result.error)
+            return
+        }
+        onRetried()
+    }
+
+    let detail: string
+    if (!job) {
+        detail = failed ? 'Failed' : 'Processing...'
+    } else if (job.status === 'failed') {
+        detail = `${STAGE_LABELS[job.stage]} failed`
+    } else if (waiting) {
+        detail = `${STAGE_LABELS[job.stage]}: waiting for scheduler`
+    } else if (job.status === 'retrying') {
+        detail = `${STAGE_LABELS[job.stage]}: retry ${job.attempts + 1}/${job.max_attempts} at ${new Date(job.next_run_at).toLocaleTimeString()}`
+    } else if (job.stage === 'embed' && job.chunks_total) {
+        detail = `Embedding ${job.chunks_embedded}/${job.chunks_total} chunks`
+    } else {
+        detail = job.status === 'queued' ? `Queued for ${STAGE_LABELS[job.stage].toLowerCase()}` : `${STAGE_LABELS[job.stage]}...`
+    }
+
+    const errorMessage = job?.status === 'failed' || job?.status === 'retrying' ? job.last_error : document.error_message
+
+    return (
+        <div className={`p-3 rounded-lg border ${failed ? 'bg-red-900/10 border-red-900/50' : 'bg-slate-900/50 border-slate-800'}`}>
+            <div className="flex items-center gap-3">
+                {failed
+                    ? <AlertTriangle className="w-4 h-4 text-red-400 shrink-0" />
+                    : <Loader2 className="w-4 h-4 text-blue-400 animate-spin shrink-0" />}
+                <p className="text-sm font-medium truncate flex-1" title={document.filename}>{document.filename}</p>
+                <span className={`text-xs shrink-0 ${failed ? 'text-red-400' : 'text-slate-400'}`}>{detail}</span>
+                {(failed || job?.status === 'retrying') && (
+                    <button
+                        onClick={handleRetry}
+                        disabled={isRetrying}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 rounded transition-colors disabled:opacity-50 shrink-0"
+                    >
+                        {isRetrying ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                        {failed ? 'Retry' : 'Retry now'}
+                    </button>
+                )}
+            </div>
+            {job && !failed && (
+                <div className="mt-2 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+            )}
+            {errorMessage && <p className="mt-2 text-xs text-red-400/80 break-words">{errorMessage}</p>}
+            {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+        </div>
+    )
+}
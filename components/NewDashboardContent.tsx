@@ -1,22 +1,22 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { queryRAG } from '@/app/actions/rag'
-import { Send, Loader2, Bot } from 'lucide-react'
-import type { RAGResponse } from '@/lib/types/database'
+import { useState, useEffect, useRef } from 'react'
+import { streamRAG, toConversationTurns } from '@/lib/rag/stream'
+import { createConversation } from '@/app/actions/conversations'
+import { Send, Loader2, Bot, Square, ExternalLink } from 'lucide-react'
+import type { AnswerVerification, ChatMessage as ChatHistoryRow, Citation, Conversation, QueryFilters, RAGResponse } from '@/lib/types/database'
 import ChatHistorySidebar from './ChatHistorySidebar'
+import CitedAnswer from './CitedAnswer'
+import QueryFilterBar from './QueryFilterBar'
 
-interface ChatHistoryItem {
-  id: string
-  question: string
-  answer: string
-  sources: Array<{
-    document_id: string
-    filename: string
-    chunk_content: string
-    relevance_score: number
-  }>
-  created_at: string
+interface ChatMessage {
+  type: 'user' | 'assistant'
+  content: string
+  sources?: RAGResponse['sources']
+  citations?: Citation[]
+  verification?: AnswerVerification | null
+  streaming?: boolean
+  stopped?: boolean
 }
 
 interface NewDashboardContentProps {
@@ -27,12 +27,11 @@ interface NewDashboardContentProps {
 export default function NewDashboardContent({ userRole, newChatTrigger }: NewDashboardContentProps) {
   const [question, setQuestion] = useState('')
   const [loading, setLoading] = useState(false)
-  const [messages, setMessages] = useState<Array<{
-    type: 'user' | 'assistant'
-    content: string
-    sources?: RAGResponse['sources']
-  }>>([])
+  const [messages, setMessages] = useState<ChatMessage[]>([])
   const [refreshTrigger, setRefreshTrigger] = useState(0)
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [filters, setFilters] = useState<QueryFilters>({})
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   // Log when component mounts/unmounts
   useEffect(() => {
@@ -47,6 +46,9 @@ export default function NewDashboardContent({ userRole, newChatTrigger }: NewDas
     console.log(`🔄 Clearing messages for role: ${userRole}`)
     setMessages([])
     setQuestion('')
+    setConversationId(null)
+    // Other roles see other documents
+    setFilters({})
   }, [userRole])
 
   // Clear messages when New Chat is clicked
@@ -55,42 +57,107 @@ export default function NewDashboardContent({ userRole, newChatTrigger }: NewDas
       console.log('✨ Clearing messages from New Chat button')
       setMessages([])
       setQuestion('')
+      setConversationId(null)
     }
   }, [newChatTrigger])
 
+  // Apply an update to the assistant message currently being streamed
+  function updateLastAssistant(update: (message: ChatMessage) => ChatMessage) {
+    setMessages(prev => {
+      const last = prev[prev.length - 1]
+      if (!last || last.type !== 'assistant') return prev
+      return [...prev.slice(0, -1), update(last)]
+    })
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
-    if (!question.trim()) return
+    if (!question.trim() || loading) return
 
-    // Add user message
+    // Add user message plus an assistant message that fills in as tokens arrive
     const userMessage = question
-    setMessages(prev => [...prev, { type: 'user', content: userMessage }])
+    // Thread context for follow-up questions, taken before the new turn is added
+    const history = toConversationTurns(messages, message => ({
+      role: message.type,
+      content: message.content,
+      incomplete: message.streaming || message.stopped,
+    }))
+    setMessages(prev => [
+      ...prev,
+      { type: 'user', content: userMessage },
+      { type: 'assistant', content: '', streaming: true },
+    ])
     setQuestion('')
     setLoading(true)
 
-    const result = await queryRAG(userMessage)
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    let failed = false
+
+    // Customer chats are not stored, everyone else gets a thread on the first question
+    let threadId = conversationId
+    if (!threadId && userRole !== 'customer') {
+      const created = await createConversation(userRole, userMessage)
+      if (created.data) {
+        threadId = created.data.id
+        setConversationId(threadId)
+      } else {
+        console.error('Failed to create conversation:', created.error)
+      }
+    }
+
+    await streamRAG(
+      { question: userMessage, role: userRole, history, conversationId: threadId ?? undefined, filters },
+      {
+        onSources: sources => updateLastAssistant(message => ({ ...message, sources })),
+        onToken: text => updateLastAssistant(message => ({ ...message, content: message.content + text })),
+        onDone: info => updateLastAssistant(message => ({
+          ...message,
+          content: info.answer ?? message.content,
+          sources: info.abstained ? [] : message.sources,
+          citations: info.citations,
+          verification: info.verification,
+        })),
+        onError: error => {
+          failed = true
+          updateLastAssistant(message => ({ ...message, content: `Error: ${error}` }))
+        },
+      },
+      controller.signal
+    )
+
+    updateLastAssistant(message => ({ ...message, streaming: false, stopped: controller.signal.aborted }))
+    abortControllerRef.current = null
+    setLoading(false)
 
-    if (result.error) {
-      setMessages(prev => [...prev, { type: 'assistant', content: `Error: ${result.error}` }])
-    } else if (result.data) {
-      setMessages(prev => [...prev, { 
-        type: 'assistant', 
-        content: result.data!.answer,
-        sources: result.data!.sources 
-      }])
+    if (!failed && !controller.signal.aborted) {
       // Trigger chat history refresh
       setRefreshTrigger(prev => prev + 1)
     }
+  }
 
-    setLoading(false)
+  function handleStop() {
+    abortControllerRef.current?.abort()
   }
 
-  function handleHistoryClick(item: ChatHistoryItem) {
-    // Load the previous conversation
-    setMessages([
-      { type: 'user', content: item.question },
-      { type: 'assistant', content: item.answer, sources: item.sources }
-    ])
+  function handleSelectConversation(conversation: Conversation, rows: ChatHistoryRow[]) {
+    // Load the whole thread; new questions continue it
+    setConversationId(conversation.id)
+    setMessages(rows.flatMap((row): ChatMessage[] => [
+      { type: 'user', content: row.question },
+      {
+        type: 'assistant',
+        content: row.answer,
+        citations: row.metadata?.citations,
+        verification: row.metadata?.verification,
+      },
+    ]))
+  }
+
+  function handleNewChat() {
+    setConversationId(null)
+    setMessages([])
+    setQuestion('')
   }
 
   // Show chat history only for business owner and employee
@@ -121,7 +188,21 @@ export default function NewDashboardContent({ userRole, newChatTrigger }: NewDas
                       ? 'bg-blue-600 text-white'
                       : 'bg-slate-800 text-gray-200'
                   }`}>
-                    <p className="whitespace-pre-wrap">{message.content}</p>
+                    {message.streaming && !message.content ? (
+                      <Loader2 className="h-5 w-5 animate-spin" />
+                    ) : message.type === 'assistant' ? (
+                      <CitedAnswer
+                        content={message.content}
+                        citations={message.citations}
+                        verification={message.verification}
+                        role={userRole}
+                      />
+                    ) : (
+                      <p className="whitespace-pre-wrap">{message.content}</p>
+                    )}
+                    {message.stopped && (
+                      <p className="text-xs text-gray-500 mt-2 italic">Generation stopped</p>
+                    )}
                     
                     {/* Sources (for assistant messages) */}
                     {message.type === 'assistant' && message.sources && message.sources.length > 0 && (
@@ -130,7 +211,22 @@ export default function NewDashboardContent({ userRole, newChatTrigger }: NewDas
                         <div className="space-y-2">
                           {message.sources.map((source, sourceIdx) => (
                             <div key={sourceIdx} className="text-xs bg-slate-900/50 rounded p-2">
-                              <p className="font-medium text-gray-300">{source.filename}</p>
+                              <a
+                                href={`/documents/${source.document_id}?role=${userRole}${source.chunk_id ? `&chunk=${source.chunk_id}` : ''}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center gap-1 font-medium text-gray-300 hover:text-blue-400 hover:underline"
+                              >
+                                {source.filename}
+                                <ExternalLink className="w-3 h-3" />
+                              </a>
+                              {source.span && (
+                                <span className="ml-2 text-gray-500">
+                                  chunks {source.span.from + 1}–{source.span.to + 1}
+                                  {source.span.expanded > 0 && ' (expanded)'}
+                                  {source.span.section && ` · ${source.span.section}`}
+                                </span>
+                              )}
                               <p className="text-gray-500 mt-1">{source.chunk_content.substring(0, 100)}...</p>
                             </div>
                           ))}
@@ -140,14 +236,6 @@ export default function NewDashboardContent({ userRole, newChatTrigger }: NewDas
                   </div>
                 </div>
               ))}
-
-              {loading && (
-                <div className="flex justify-start">
-                  <div className="bg-slate-800 text-gray-200 rounded-2xl px-6 py-4">
-                    <Loader2 className="h-5 w-5 animate-spin" />
-                  </div>
-                </div>
-              )}
             </div>
           )}
         </div>
@@ -155,6 +243,7 @@ export default function NewDashboardContent({ userRole, newChatTrigger }: NewDas
         {/* Input Area */}
         <div className="border-t border-slate-800 bg-slate-900/50 px-6 py-4">
           <div className="max-w-3xl mx-auto">
+            <QueryFilterBar role={userRole} filters={filters} onChange={setFilters} disabled={loading} />
             <form onSubmit={handleSubmit} className="mb-2">
               <div className="relative">
                 <input
@@ -165,17 +254,24 @@ export default function NewDashboardContent({ userRole, newChatTrigger }: NewDas
                   className="w-full rounded-full border border-slate-700 bg-slate-800 text-gray-200 placeholder-gray-500 pl-6 pr-12 py-3.5 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   disabled={loading}
                 />
-                <button
-                  type="submit"
-                  disabled={loading || !question.trim()}
-                  className="absolute right-2 top-1/2 transform -translate-y-1/2 p-2 rounded-full bg-blue-600 text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  {loading ? (
-                    <Loader2 className="h-5 w-5 animate-spin" />
-                  ) : (
+                {loading ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    title="Stop generating"
+                    className="absolute right-2 top-1/2 transform -translate-y-1/2 p-2 rounded-full bg-slate-600 text-white hover:bg-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                  >
+                    <Square className="h-5 w-5" />
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!question.trim()}
+                    className="absolute right-2 top-1/2 transform -translate-y-1/2 p-2 rounded-full bg-blue-600 text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
                     <Send className="h-5 w-5" />
-                  )}
-                </button>
+                  </button>
+                )}
               </div>
             </form>
             <p className="text-xs text-center text-gray-500">
@@ -189,8 +285,12 @@ export default function NewDashboardContent({ userRole, newChatTrigger }: NewDas
       {showChatHistory && (
         <aside className="w-72 border-l border-slate-800">
           <ChatHistorySidebar 
+            role={userRole}
+            activeConversationId={conversationId}
             refreshTrigger={refreshTrigger} 
-            onQuestionClick={handleHistoryClick}
+            onSelectConversation={handleSelectConversation}
+            onNewChat={handleNewChat}
+            onConversationDeleted={id => id === conversationId && handleNewChat()}
           />
         </aside>
       )}
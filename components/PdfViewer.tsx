@@ -0,0 +1,94 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+
+interface PdfViewerProps {
+  url: string
+  // Pages (1-based) holding the cited chunk
+  highlightStart?: number
+  highlightEnd?: number
+}
+
+const RENDER_SCALE = 1.4
+
+// Renders every page of a PDF to a canvas, outlines the cited pages and scrolls to the first
+export default function PdfViewer({ url, highlightStart, highlightEnd = highlightStart }: PdfViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [pageCount, setPageCount] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const container = containerRef.current
+    if (!container) return
+
+    async function render(target: HTMLDivElement) {
+      try {
+        const pdfjs = await import('pdfjs-dist')
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
+
+        const pdf = await pdfjs.getDocument(url).promise
+        if (cancelled) return
+        setPageCount(pdf.numPages)
+        target.replaceChildren()
+
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+          const page = await pdf.getPage(pageNumber)
+          if (cancelled) return
+
+          const viewport = page.getViewport({ scale: RENDER_SCALE })
+          const cited = highlightStart !== undefined && pageNumber >= highlightStart && pageNumber <= (highlightEnd ?? highlightStart)
+
+          const wrapper = document.createElement('div')
+          wrapper.dataset.page = String(pageNumber)
+          wrapper.className = `relative mx-auto mb-6 shadow-lg ${cited ? 'ring-4 ring-yellow-400/70' : ''}`
+          wrapper.style.width = `${viewport.width}px`
+
+          const label = document.createElement('p')
+          label.className = `absolute -top-5 left-0 text-xs ${cited ? 'text-yellow-400' : 'text-gray-500'}`
+          label.textContent = cited ? `Page ${pageNumber} · cited passage` : `Page ${pageNumber}`
+
+          const canvas = document.createElement('canvas')
+          canvas.width = viewport.width
+          canvas.height = viewport.height
+          canvas.className = 'block bg-white'
+
+          wrapper.append(label, canvas)
+          target.append(wrapper)
+
+          await page.render({ canvas, viewport }).promise
+
+          if (cited && pageNumber === highlightStart) {
+            wrapper.scrollIntoView({ behavior: 'smooth', block: 'start' })
+          }
+        }
+      } catch (err) {
+        console.error('[PDF VIEWER] Render failed:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to render PDF')
+      }
+    }
+
+    render(container)
+    return () => {
+      cancelled = true
+    }
+  }, [url, highlightStart, highlightEnd])
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-4 rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+          {error}
+        </div>
+      )}
+      {pageCount === 0 && !error && (
+        <div className="flex items-center justify-center gap-2 py-12 text-gray-400">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading PDF...
+        </div>
+      )}
+      <div ref={containerRef} className="pt-6" />
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+'use client'
+
+import { Bug } from 'lucide-react'
+import type { AnswerConfidence, AnswerVerification, QueryPlan, RetrievalInfo } from '@/lib/types/database'
+
+interface QueryDebugPanelProps {
+  plan?: QueryPlan
+  retrieval?: RetrievalInfo
+  confidence?: AnswerConfidence
+  abstained?: boolean
+  verification?: AnswerVerification | null
+}
+
+// Shows how query-rag interpreted a question: planner output, retrieval settings, confidence
+// and claim verification
+export default function QueryDebugPanel({ plan, retrieval, confidence, abstained, verification }: QueryDebugPanelProps) {
+  if (!plan && !retrieval && !confidence) return null
+
+  return (
+    <div className="bg-gray-900/60 border border-dashed border-gray-700 rounded-lg p-3 text-xs text-gray-400 space-y-2">
+      <p className="flex items-center gap-1 font-semibold uppercase tracking-wider text-gray-500">
+        <Bug className="w-3 h-3" />
+        Debug
+      </p>
+
+      {plan && (
+        <div className="space-y-1">
+          <p>
+            <span className="text-gray-500">Planner:</span>{' '}
+            <span className="text-gray-300">{plan.method}</span>
+            {plan.fallbackReason && <span className="text-gray-500"> ({plan.fallbackReason})</span>}
+          </p>
+          <p>
+            <span className="text-gray-500">Standalone:</span> <span className="text-gray-300">{plan.standalone}</span>
+          </p>
+          <ol className="list-decimal list-inside space-y-0.5 text-gray-300">
+            {plan.subQueries.map((query, idx) => (
+              <li key={idx}>{query}</li>
+            ))}
+          </ol>
+          {plan.expansions && Object.keys(plan.expansions).length > 0 && (
+            <p>
+              <span className="text-gray-500">Expansions:</span>{' '}
+              {Object.entries(plan.expansions).map(([short, long]) => `${short} → ${long}`).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {retrieval && (
+        <p>
+          <span className="text-gray-500">Retrieval:</span>{' '}
+          {retrieval.fusion} fusion
+          {retrieval.rrfK !== undefined && ` (k=${retrieval.rrfK})`}
+          {retrieval.semanticWeight !== undefined && ` (sem ${retrieval.semanticWeight} / kw ${retrieval.keywordWeight})`}
+          {retrieval.queryExpansion && ` · ${retrieval.queryExpansion}`}
+          {retrieval.diversity && (
+            <>
+              {' · '}MMR λ {retrieval.diversity.lambda}
+              {retrieval.diversity.maxPerDocument > 0 && `, max ${retrieval.diversity.maxPerDocument}/doc`}
+            </>
+          )}
+          {' · '}rerank {retrieval.rerank}
+          {retrieval.rerankTopN !== undefined && ` top ${retrieval.rerankTopN}`}
+          {retrieval.expansion && retrieval.expansion !== 'off' && (
+            <>
+              {' · '}expansion {retrieval.expansion}
+              {retrieval.expansionWindow !== undefined && ` ±${retrieval.expansionWindow}`}
+            </>
+          )}
+          {' · '}{retrieval.chunks} source blocks in context
+          {retrieval.filters && (
+            <>
+              {' · '}filters{' '}
+              {Object.entries(retrieval.filters)
+                .map(([key, value]) => `${key}=${Array.isArray(value) ? value.length : value}`)
+                .join(', ')}
+            </>
+          )}
+        </p>
+      )}
+
+      {retrieval?.queryVariants && retrieval.queryVariants.length > 0 && (
+        <div>
+          <span className="text-gray-500">Query variants:</span>
+          {retrieval.queryVariants.map((variant, i) => (
+            <div key={i} className="pl-3">
+              <p className="text-gray-300">{variant.query}</p>
+              {variant.paraphrases.map((paraphrase, j) => (
+                <p key={j} className="pl-3">≈ {paraphrase}</p>
+              ))}
+              {variant.hyde && <p className="pl-3 italic line-clamp-2">HyDE: {variant.hyde}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {retrieval?.context && (
+        <div>
+          <p>
+            <span className="text-gray-500">Context:</span>{' '}
+            {retrieval.context.tokensUsed}/{retrieval.context.tokenBudget} tokens
+            {' · '}{retrieval.context.candidates} candidates
+            {retrieval.context.merged > 0 && ` · ${retrieval.context.merged} merged`}
+            {retrieval.context.expanded > 0 && ` · ${retrieval.context.expanded} expanded`}
+            {retrieval.context.duplicates > 0 && ` · ${retrieval.context.duplicates} duplicates`}
+            {retrieval.context.dropped.length > 0 && (
+              <span className="text-yellow-400"> · {retrieval.context.dropped.length} dropped</span>
+            )}
+          </p>
+          {retrieval.context.dropped.map(chunk => (
+            <p key={chunk.chunk_id} className="pl-3">
+              dropped {chunk.filename} ({chunk.tokens} tokens)
+            </p>
+          ))}
+        </div>
+      )}
+
+      {retrieval?.tables && retrieval.tables.length > 0 && (
+        <div>
+          <span className="text-gray-500">Table aggregations:</span>
+          {retrieval.tables.map((table, i) => (
+            <p key={i} className="pl-3">
+              {table.filename} / {table.sheet}: {table.query} ({table.rows} rows{table.groups > 1 && `, ${table.groups} groups`})
+            </p>
+          ))}
+        </div>
+      )}
+
+      {confidence && (
+        <p>
+          <span className="text-gray-500">Confidence:</span>{' '}
+          <span className={abstained ? 'text-yellow-400' : 'text-gray-300'}>{confidence.score.toFixed(2)}</span>
+          {' '}(retrieval {confidence.retrieval.toFixed(2)}
+          {confidence.groundedness !== null && `, self-check ${confidence.groundedness.toFixed(2)}`}
+          ; threshold {confidence.threshold.toFixed(2)})
+          {abstained && <span className="text-yellow-400"> · abstained</span>}
+        </p>
+      )}
+
+      {verification && (
+        <p>
+          <span className="text-gray-500">Verification:</span>{' '}
+          {verification.claims.filter(claim => claim.verdict === 'supported').length}/{verification.claims.length} claims
+          supported ({verification.method}, {verification.action})
+          {verification.claims.some(claim => claim.removed) && (
+            <span className="text-yellow-400">
+              {' · '}{verification.claims.filter(claim => claim.removed).length} removed
+            </span>
+          )}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,242 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Filter, X } from 'lucide-react'
+import { getFilterOptions, type FilterOptions } from '@/app/actions/documents'
+import type { QueryFilters } from '@/lib/types/database'
+
+interface QueryFilterBarProps {
+  role?: string
+  filters: QueryFilters
+  onChange: (filters: QueryFilters) => void
+  disabled?: boolean
+}
+
+// File type choices and the MIME types they stand for (see uploadDocument's allowed types)
+const FILE_TYPE_GROUPS = [
+  { label: 'PDF', mimeTypes: ['application/pdf'] },
+  { label: 'Word', mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'] },
+  {
+    label: 'Spreadsheet',
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+      'text/csv',
+    ],
+  },
+  { label: 'Text', mimeTypes: ['text/plain'] },
+]
+
+type DateKey = 'uploadedFrom' | 'uploadedTo' | 'effectiveFrom' | 'effectiveTo'
+
+const DATE_FIELDS: { label: string; from: DateKey; to: DateKey }[] = [
+  { label: 'Uploaded', from: 'uploadedFrom', to: 'uploadedTo' },
+  { label: 'Effective', from: 'effectiveFrom', to: 'effectiveTo' },
+]
+
+function toggle(list: string[] | undefined, values: string[]): string[] | undefined {
+  const current = list || []
+  const active = values.every(v => current.includes(v))
+  const next = active ? current.filter(v => !values.includes(v)) : [...new Set([...current, ...values])]
+  return next.length > 0 ? next : undefined
+}
+
+// Drop empty keys so an empty filter object means "no filters"
+function compact(filters: QueryFilters): QueryFilters {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))
+  ) as QueryFilters
+}
+
+function dateRangeLabel(from?: string, to?: string): string {
+  if (from && to) return `${from} – ${to}`
+  return from ? `from ${from}` : `until ${to}`
+}
+
+export default function QueryFilterBar({ role, filters, onChange, disabled = false }: QueryFilterBarProps) {
+  const [open, setOpen] = useState(false)
+  const [options, setOptions] = useState<FilterOptions>({ documents: [], tags: [] })
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    getFilterOptions(role).then(result => {
+      if (!cancelled && result.data) setOptions(result.data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [role])
+
+  // Close the panel on outside clicks
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const update = (changes: Partial<QueryFilters>) => onChange(compact({ ...filters, ...changes }))
+
+  const documentName = (id: string) => options.documents.find(doc => doc.id === id)?.filename || 'Unknown document'
+
+  const chips: { key: string; label: string; onRemove: () => void }[] = [
+    ...(filters.documentIds || []).map(id => ({
+      key: `doc-${id}`,
+      label: documentName(id),
+      onRemove: () => update({ documentIds: toggle(filters.documentIds, [id]) }),
+    })),
+    ...FILE_TYPE_GROUPS
+      .filter(group => group.mimeTypes.every(type => filters.fileTypes?.includes(type)))
+      .map(group => ({
+        key: `type-${group.label}`,
+        label: group.label,
+        onRemove: () => update({ fileTypes: toggle(filters.fileTypes, group.mimeTypes) }),
+      })),
+    ...(filters.tags || []).map(tag => ({
+      key: `tag-${tag}`,
+      label: `#${tag}`,
+      onRemove: () => update({ tags: toggle(filters.tags, [tag]) }),
+    })),
+    ...DATE_FIELDS
+      .filter(field => filters[field.from] || filters[field.to])
+      .map(field => ({
+        key: `date-${field.label}`,
+        label: `${field.label} ${dateRangeLabel(filters[field.from], filters[field.to])}`,
+        onRemove: () => update({ [field.from]: undefined, [field.to]: undefined }),
+      })),
+  ]
+
+  const chipClass = (active: boolean) =>
+    `px-2.5 py-1 rounded-full text-xs border transition-colors ${active
+      ? 'bg-blue-600/20 border-blue-500/50 text-blue-300'
+      : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+    }`
+
+  return (
+    <div ref={panelRef} className="relative flex flex-wrap items-center gap-2 mb-2">
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        disabled={disabled}
+        className="flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs border border-slate-700 bg-slate-800 text-slate-400 hover:text-slate-200 disabled:opacity-50 transition-colors"
+      >
+        <Filter className="w-3.5 h-3.5" />
+        {chips.length > 0 ? 'Filters' : 'Add filter'}
+      </button>
+
+      {chips.map(chip => (
+        <span
+          key={chip.key}
+          className="flex items-center gap-1 pl-2.5 pr-1.5 py-1 rounded-full text-xs bg-blue-600/20 border border-blue-500/50 text-blue-300 max-w-56"
+        >
+          <span className="truncate">{chip.label}</span>
+          <button
+            type="button"
+            onClick={chip.onRemove}
+            disabled={disabled}
+            title="Remove filter"
+            className="p-0.5 rounded-full hover:bg-blue-500/30"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+
+      {chips.length > 1 && (
+        <button
+          type="button"
+          onClick={() => onChange({})}
+          disabled={disabled}
+          className="text-xs text-slate-500 hover:text-slate-300"
+        >
+          Clear all
+        </button>
+      )}
+
+      {open && (
+        <div className="absolute bottom-full left-0 mb-2 w-96 max-w-[calc(100vw-3rem)] z-20 rounded-xl border border-slate-700 bg-slate-900 shadow-xl p-4 space-y-4 text-sm">
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">File types</h4>
+            <div className="flex flex-wrap gap-1.5">
+              {FILE_TYPE_GROUPS.map(group => (
+                <button
+                  key={group.label}
+                  type="button"
+                  onClick={() => update({ fileTypes: toggle(filters.fileTypes, group.mimeTypes) })}
+                  className={chipClass(group.mimeTypes.every(type => filters.fileTypes?.includes(type)))}
+                >
+                  {group.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {options.tags.length > 0 && (
+            <div>
+              <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">Tags</h4>
+              <div className="flex flex-wrap gap-1.5">
+                {options.tags.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => update({ tags: toggle(filters.tags, [tag]) })}
+                    className={chipClass(filters.tags?.includes(tag) ?? false)}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {DATE_FIELDS.map(field => (
+            <div key={field.label}>
+              <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">{field.label} date</h4>
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={filters[field.from] || ''}
+                  max={filters[field.to]}
+                  onChange={(e) => update({ [field.from]: e.target.value || undefined })}
+                  className="flex-1 rounded-lg border border-slate-700 bg-slate-800 px-2 py-1 text-xs text-slate-200 scheme-dark"
+                />
+                <span className="text-slate-500 text-xs">to</span>
+                <input
+                  type="date"
+                  value={filters[field.to] || ''}
+                  min={filters[field.from]}
+                  onChange={(e) => update({ [field.to]: e.target.value || undefined })}
+                  className="flex-1 rounded-lg border border-slate-700 bg-slate-800 px-2 py-1 text-xs text-slate-200 scheme-dark"
+                />
+              </div>
+            </div>
+          ))}
+
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">Documents</h4>
+            {options.documents.length === 0 ? (
+              <p className="text-xs text-slate-500">No documents available</p>
+            ) : (
+              <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+                {options.documents.map(doc => (
+                  <label key={doc.id} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={filters.documentIds?.includes(doc.id) ?? false}
+                      onChange={() => update({ documentIds: toggle(filters.documentIds, [doc.id]) })}
+                      className="accent-blue-500"
+                    />
+                    <span className="truncate">{doc.filename}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
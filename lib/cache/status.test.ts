@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { QueryCacheEntry, QueryCacheSettings } from '@/lib/types/database'
+import { entryStatus, isOutdated, validateCacheSettings } from './status'
+
+const NOW = Date.parse('2024-12-01T00:00:00Z')
+const FINGERPRINT = '0123456789abcdef'
+
+function entry(fields: Partial<QueryCacheEntry> = {}): QueryCacheEntry {
+  return {
+    id: 'e1',
+    question: 'How long do refunds take?',
+    answer: 'Refunds take 14 days [1].',
+    sources: [],
+    role: 'customer',
+    document_ids: ['d1'],
+    kb_version: 3,
+    fingerprint: FINGERPRINT,
+    curated: false,
+    pinned: false,
+    hit_count: 0,
+    answered_at: '2024-11-28T00:00:00Z',
+    created_at: '2024-11-28T00:00:00Z',
+    updated_at: '2024-11-28T00:00:00Z',
+    ...fields,
+  }
+}
+
+const SETTINGS: QueryCacheSettings = { role: 'customer', similarity_threshold: 0.85, ttl_days: 7, updated_at: '2024-11-01T00:00:00Z' }
+
+describe('isOutdated', () => {
+  it('is false for the current fingerprint', () => {
+    assert.equal(isOutdated(entry(), FINGERPRINT), false)
+  })
+
+  it('is true for another fingerprint or none', () => {
+    assert.equal(isOutdated(entry({ fingerprint: 'fedcba9876543210' }), FINGERPRINT), true)
+    assert.equal(isOutdated(entry({ fingerprint: null }), FINGERPRINT), true)
+  })
+
+  it('never marks curated answers', () => {
+    assert.equal(isOutdated(entry({ curated: true, fingerprint: null }), FINGERPRINT), false)
+  })
+
+  it('is false while the current fingerprint is unknown', () => {
+    assert.equal(isOutdated(entry({ fingerprint: null }), undefined), false)
+  })
+})
+
+describe('entryStatus', () => {
+  it('is null for a served entry', () => {
+    assert.equal(entryStatus(entry(), SETTINGS, 3, FINGERPRINT, NOW), null)
+  })
+
+  it('is outdated before stale or expired', () => {
+    const old = entry({ fingerprint: null, kb_version: 1, answered_at: '2024-01-01T00:00:00Z' })
+    assert.equal(entryStatus(old, SETTINGS, 3, FINGERPRINT, NOW), 'outdated')
+  })
+
+  it('is stale when the role\'s documents changed after the answer', () => {
+    assert.equal(entryStatus(entry({ kb_version: 2 }), SETTINGS, 3, FINGERPRINT, NOW), 'stale')
+  })
+
+  it('is expired past the role\'s TTL', () => {
+    assert.equal(entryStatus(entry({ answered_at: '2024-11-20T00:00:00Z' }), SETTINGS, 3, FINGERPRINT, NOW), 'expired')
+  })
+
+  it('is served on the last day of the TTL', () => {
+    assert.equal(entryStatus(entry({ answered_at: '2024-11-24T00:00:00Z' }), SETTINGS, 3, FINGERPRINT, NOW), null)
+  })
+
+  it('never expires pinned entries or entries of roles without a TTL', () => {
+    const old = entry({ answered_at: '2024-01-01T00:00:00Z' })
+    assert.equal(entryStatus({ ...old, pinned: true }, SETTINGS, 3, FINGERPRINT, NOW), null)
+    assert.equal(entryStatus(old, { ...SETTINGS, ttl_days: null }, 3, FINGERPRINT, NOW), null)
+    assert.equal(entryStatus(old, undefined, 3, FINGERPRINT, NOW), null)
+  })
+
+  it('still marks pinned entries stale', () => {
+    assert.equal(entryStatus(entry({ pinned: true, kb_version: 2 }), SETTINGS, 3, FINGERPRINT, NOW), 'stale')
+  })
+
+  it('serves curated answers whatever their age, version or fingerprint', () => {
+    const curated = entry({ curated: true, fingerprint: null, kb_version: 1, answered_at: '2024-01-01T00:00:00Z' })
+    assert.equal(entryStatus(curated, SETTINGS, 3, FINGERPRINT, NOW), null)
+  })
+
+  it('skips the version check when the role has no version yet', () => {
+    assert.equal(entryStatus(entry({ kb_version: 2 }), SETTINGS, undefined, FINGERPRINT, NOW), null)
+  })
+})
+
+describe('validateCacheSettings', () => {
+  it('accepts a threshold in (0, 1] and a TTL in whole days or none', () => {
+    assert.equal(validateCacheSettings('employee', { similarity_threshold: 1, ttl_days: 30 }), null)
+    assert.equal(validateCacheSettings('customer', { similarity_threshold: 0.8, ttl_days: null }), null)
+  })
+
+  it('rejects unknown roles', () => {
+    assert.equal(validateCacheSettings('admin', { similarity_threshold: 0.85, ttl_days: null }), 'Unknown role: admin')
+  })
+
+  it('rejects thresholds outside (0, 1]', () => {
+    for (const similarity_threshold of [0, 1.2, NaN]) {
+      assert.equal(
+        validateCacheSettings('customer', { similarity_threshold, ttl_days: null }),
+        'Similarity threshold must be between 0 and 1',
+        String(similarity_threshold)
+      )
+    }
+  })
+
+  it('rejects TTLs that are not a positive number of whole days', () => {
+    for (const ttl_days of [0, -3, 1.5]) {
+      assert.equal(
+        validateCacheSettings('customer', { similarity_threshold: 0.85, ttl_days }),
+        'TTL must be a whole number of days, or empty for no expiry',
+        String(ttl_days)
+      )
+    }
+  })
+})
@@ -0,0 +1,49 @@
+// Serving rules of cached answers, shared by the cache console and its server actions
+// entryStatus mirrors find_similar_cached_queries, so the console shows why an entry is no
+// longer served without asking the database.
+
+import type { QueryCacheEntry, QueryCacheSettings } from '@/lib/types/database'
+
+export type CacheEntryStatus = 'outdated' | 'stale' | 'expired'
+
+const ROLES = ['business_owner', 'employee', 'customer'] as const
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Generated with another query-rag configuration (curated answers are kept regardless)
+export function isOutdated(entry: QueryCacheEntry, fingerprint: string | undefined): boolean {
+  return !entry.curated && fingerprint !== undefined && entry.fingerprint !== fingerprint
+}
+
+// Why an entry is no longer served, or null while it is
+export function entryStatus(
+  entry: QueryCacheEntry,
+  settings: QueryCacheSettings | undefined,
+  version: number | undefined,
+  fingerprint: string | undefined,
+  now: number
+): CacheEntryStatus | null {
+  if (entry.curated) return null
+  if (isOutdated(entry, fingerprint)) return 'outdated'
+  if (version !== undefined && entry.kb_version !== version) return 'stale'
+  if (!entry.pinned && settings?.ttl_days && new Date(entry.answered_at).getTime() < now - settings.ttl_days * DAY_MS) {
+    return 'expired'
+  }
+  return null
+}
+
+// Error message for invalid per-role settings, or null
+export function validateCacheSettings(
+  role: string,
+  settings: Pick<QueryCacheSettings, 'similarity_threshold' | 'ttl_days'>
+): string | null {
+  if (!ROLES.some((r) => r === role)) {
+    return `Unknown role: ${role}`
+  }
+  if (!(settings.similarity_threshold > 0 && settings.similarity_threshold <= 1)) {
+    return 'Similarity threshold must be between 0 and 1'
+  }
+  if (settings.ttl_days !== null && !(Number.isInteger(settings.ttl_days) && settings.ttl_days > 0)) {
+    return 'TTL must be a whole number of days, or empty for no expiry'
+  }
+  return null
+}
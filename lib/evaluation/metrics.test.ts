@@ -0,0 +1,180 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { AnswerVerification, ClaimVerdict } from '@/lib/types/database'
+import {
+  documentRanking,
+  evaluateQuestion,
+  factRecall,
+  groundedness,
+  ndcgAtK,
+  recallAtK,
+  reciprocalRank,
+  summarizeMetrics,
+} from './metrics'
+
+function assertClose(actual: number | null, expected: number) {
+  assert.ok(actual !== null && Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`)
+}
+
+describe('recallAtK', () => {
+  it('is 1 when every relevant item is in the top k', () => {
+    assert.equal(recallAtK(['a', 'b', 'c'], ['a', 'b'], 2), 1)
+  })
+
+  it('counts relevant items below the cut-off as missed', () => {
+    assert.equal(recallAtK(['a', 'b', 'c'], ['a', 'c'], 2), 0.5)
+  })
+
+  it('is 0 for an empty ranking', () => {
+    assert.equal(recallAtK([], ['a'], 5), 0)
+  })
+
+  it('is null without judgements', () => {
+    assert.equal(recallAtK(['a'], [], 5), null)
+  })
+})
+
+describe('reciprocalRank', () => {
+  it('uses the first relevant item', () => {
+    assert.equal(reciprocalRank(['x', 'y', 'a', 'b'], ['b', 'a']), 1 / 3)
+  })
+
+  it('is 0 when nothing relevant is retrieved', () => {
+    assert.equal(reciprocalRank(['x', 'y'], ['a']), 0)
+  })
+
+  it('is null without judgements', () => {
+    assert.equal(reciprocalRank(['a'], []), null)
+  })
+})
+
+describe('ndcgAtK', () => {
+  it('is 1 for an ideal ranking', () => {
+    assert.equal(ndcgAtK(['a', 'b', 'x'], ['a', 'b'], 3), 1)
+  })
+
+  it('discounts hits after non-relevant items', () => {
+    const ideal = 1 + 1 / Math.log2(3)
+    assertClose(ndcgAtK(['x', 'a', 'b'], ['a', 'b'], 3), (1 / Math.log2(3) + 1 / Math.log2(4)) / ideal)
+  })
+
+  it('only needs as many hits as k allows for a perfect score', () => {
+    assert.equal(ndcgAtK(['a', 'b'], ['a', 'b', 'c'], 2), 1)
+  })
+
+  it('ignores hits outside k', () => {
+    assert.equal(ndcgAtK(['x', 'y', 'a'], ['a'], 2), 0)
+  })
+
+  it('is null without judgements', () => {
+    assert.equal(ndcgAtK(['a'], [], 3), null)
+  })
+})
+
+describe('factRecall', () => {
+  it('matches facts verbatim after normalisation', () => {
+    assert.equal(factRecall('Revenue was $1.2M in Q3.', ['revenue was $1.2m']), 1)
+  })
+
+  it('accepts a fact when most of its words are in the answer', () => {
+    assert.equal(factRecall('The refund window is 30 days from delivery', ['refund window 30 days']), 1)
+  })
+
+  it('is the share of facts stated', () => {
+    assert.equal(factRecall('Revenue grew 12%', ['revenue grew 12%', 'margin fell to 8%']), 0.5)
+  })
+
+  it('never counts a fact without words', () => {
+    assert.equal(factRecall('Anything at all', ['...']), 0)
+  })
+
+  it('is null without expected facts', () => {
+    assert.equal(factRecall('Anything', []), null)
+  })
+})
+
+describe('groundedness', () => {
+  function verification(...claims: Array<Pick<ClaimVerdict, 'verdict' | 'removed'>>): AnswerVerification {
+    return { method: 'llm', action: 'flag', claims: claims.map((claim) => ({ text: 'claim', markers: [], score: null, ...claim })) }
+  }
+
+  it('is the share of claims judged supported', () => {
+    assert.equal(groundedness(verification({ verdict: 'supported' }, { verdict: 'unsupported' })), 0.5)
+  })
+
+  it('counts claims the verifier could not judge as not supported', () => {
+    assert.equal(groundedness(verification({ verdict: 'supported' }, { verdict: 'unknown' })), 0.5)
+  })
+
+  it('leaves out claims removed from the answer', () => {
+    assert.equal(groundedness(verification({ verdict: 'supported' }, { verdict: 'unsupported', removed: true })), 1)
+  })
+
+  it('is null when the answer was not verified or makes no claims', () => {
+    assert.equal(groundedness(null), null)
+    assert.equal(groundedness(verification()), null)
+    assert.equal(groundedness(verification({ verdict: 'unsupported', removed: true })), null)
+  })
+})
+
+describe('evaluateQuestion', () => {
+  const retrieved = [
+    { chunk_id: 'c1', document_id: 'd1' },
+    { chunk_id: 'c2', document_id: 'd1' },
+    { chunk_id: 'c3', document_id: 'd2' },
+  ]
+
+  it('ranks documents by their best chunk', () => {
+    assert.deepEqual(documentRanking(retrieved), ['d1', 'd2'])
+  })
+
+  it('judges documents when the question has no expected chunks', () => {
+    const metrics = evaluateQuestion(
+      { expected_document_ids: ['d2'], expected_chunk_ids: [], expected_facts: [] },
+      retrieved,
+      '',
+      2
+    )
+    assert.equal(metrics.recall_at_k, 1)
+    assert.equal(metrics.mrr, 0.5)
+  })
+
+  it('prefers chunk judgements', () => {
+    const metrics = evaluateQuestion(
+      { expected_document_ids: ['d2'], expected_chunk_ids: ['c3'], expected_facts: [] },
+      retrieved,
+      '',
+      2
+    )
+    assert.equal(metrics.recall_at_k, 0)
+    assert.equal(metrics.mrr, 1 / 3)
+    assert.equal(metrics.fact_recall, null)
+    assert.equal(metrics.groundedness, null)
+  })
+
+  it('scores the answer against the facts and the claim verdicts', () => {
+    const metrics = evaluateQuestion(
+      { expected_document_ids: ['d1'], expected_chunk_ids: [], expected_facts: ['refunds take 14 days'] },
+      retrieved,
+      'Refunds take 14 days [1].',
+      5,
+      { method: 'llm', action: 'flag', claims: [{ text: 'Refunds take 14 days [1].', markers: [1], verdict: 'supported', score: 0.9 }] }
+    )
+    assert.equal(metrics.fact_recall, 1)
+    assert.equal(metrics.groundedness, 1)
+  })
+})
+
+describe('summarizeMetrics', () => {
+  it('averages each metric over the questions that have it', () => {
+    const summary = summarizeMetrics([
+      { recall_at_k: 1, mrr: 1, ndcg: null, fact_recall: 0.5, groundedness: 1 },
+      { recall_at_k: 0, mrr: null, ndcg: null, fact_recall: 1, groundedness: 0.5 },
+    ])
+    assert.deepEqual(summary, { recall_at_k: 0.5, mrr: 1, ndcg: null, fact_recall: 0.75, groundedness: 0.75 })
+  })
+
+  it('is all null for a run without questions', () => {
+    assert.deepEqual(summarizeMetrics([]), { recall_at_k: null, mrr: null, ndcg: null, fact_recall: null, groundedness: null })
+  })
+})
@@ -0,0 +1,140 @@
+// Retrieval and answer quality metrics for the evaluation suite
+// Rankings are ids (chunk or document ids) in retrieval order; relevance is binary.
+// Functions return null when a question has no judgements for that metric, and
+// averages skip nulls so unlabeled questions do not drag a run down.
+
+import type { AnswerVerification } from '@/lib/types/database'
+
+export interface RetrievedItem {
+  chunk_id: string
+  document_id: string
+  filename?: string
+  score?: number
+}
+
+export interface QuestionJudgements {
+  expected_document_ids: string[]
+  expected_chunk_ids: string[]
+  expected_facts: string[]
+}
+
+export interface QuestionMetrics {
+  recall_at_k: number | null
+  mrr: number | null
+  ndcg: number | null
+  fact_recall: number | null
+  groundedness: number | null
+}
+
+export function recallAtK(ranking: string[], relevant: string[], k: number): number | null {
+  if (relevant.length === 0) return null
+  const topK = new Set(ranking.slice(0, k))
+  return relevant.filter((id) => topK.has(id)).length / relevant.length
+}
+
+export function reciprocalRank(ranking: string[], relevant: string[]): number | null {
+  if (relevant.length === 0) return null
+  const relevantSet = new Set(relevant)
+  const position = ranking.findIndex((id) => relevantSet.has(id))
+  return position === -1 ? 0 : 1 / (position + 1)
+}
+
+export function ndcgAtK(ranking: string[], relevant: string[], k: number): number | null {
+  if (relevant.length === 0) return null
+  const relevantSet = new Set(relevant)
+
+  const dcg = ranking
+    .slice(0, k)
+    .reduce((sum, id, i) => sum + (relevantSet.has(id) ? 1 / Math.log2(i + 2) : 0), 0)
+
+  let idealDcg = 0
+  for (let i = 0; i < Math.min(k, relevant.length); i++) {
+    idealDcg += 1 / Math.log2(i + 2)
+  }
+
+  return dcg / idealDcg
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}.,%€$]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function tokens(text: string): string[] {
+  return normalize(text)
+    .split(' ')
+    .map((t) => t.replace(/^[.,]+|[.,]+$/g, ''))
+    .filter(Boolean)
+}
+
+// Share of expected facts the answer states. A fact counts when it appears verbatim
+// (after normalisation) or when at least 80% of its words appear in the answer. Whether the
+// rest of the answer is backed by the sources is measured by groundedness.
+export function factRecall(answer: string, facts: string[]): number | null {
+  if (facts.length === 0) return null
+  const normalizedAnswer = normalize(answer)
+  const answerTokens = new Set(tokens(answer))
+
+  const supported = facts.filter((fact) => {
+    if (normalizedAnswer.includes(normalize(fact))) return true
+    const factTokens = tokens(fact)
+    if (factTokens.length === 0) return false
+    return factTokens.filter((t) => answerTokens.has(t)).length / factTokens.length >= 0.8
+  })
+
+  return supported.length / facts.length
+}
+
+// Share of the answer's claims that claim verification judged supported by the sources they
+// cite (or by all sources when they cite none). Needs no expected facts, so it covers every
+// sentence of the answer; null when the answer was not verified or makes no claims.
+export function groundedness(verification: AnswerVerification | null | undefined): number | null {
+  const claims = (verification?.claims || []).filter((claim) => !claim.removed)
+  if (claims.length === 0) return null
+  return claims.filter((claim) => claim.verdict === 'supported').length / claims.length
+}
+
+// Document-level rankings keep the first (best) position of each document
+export function documentRanking(retrieved: RetrievedItem[]): string[] {
+  return [...new Set(retrieved.map((r) => r.document_id))]
+}
+
+export function evaluateQuestion(
+  judgements: QuestionJudgements,
+  retrieved: RetrievedItem[],
+  answer: string,
+  k: number,
+  verification?: AnswerVerification | null
+): QuestionMetrics {
+  // Chunk-level judgements are stricter, so prefer them when the question has them
+  const useChunks = judgements.expected_chunk_ids.length > 0
+  const ranking = useChunks ? retrieved.map((r) => r.chunk_id) : documentRanking(retrieved)
+  const relevant = useChunks ? judgements.expected_chunk_ids : judgements.expected_document_ids
+
+  return {
+    recall_at_k: recallAtK(ranking, relevant, k),
+    mrr: reciprocalRank(ranking, relevant),
+    ndcg: ndcgAtK(ranking, relevant, k),
+    fact_recall: factRecall(answer, judgements.expected_facts),
+    groundedness: groundedness(verification),
+  }
+}
+
+function mean(values: Array<number | null>): number | null {
+  const present = values.filter((v): v is number => v !== null)
+  if (present.length === 0) return null
+  return present.reduce((sum, v) => sum + v, 0) / present.length
+}
+
+export function summarizeMetrics(results: QuestionMetrics[]): QuestionMetrics {
+  return {
+    recall_at_k: mean(results.map((r) => r.recall_at_k)),
+    mrr: mean(results.map((r) => r.mrr)),
+    ndcg: mean(results.map((r) => r.ndcg)),
+    fact_recall: mean(results.map((r) => r.fact_recall)),
+    groundedness: mean(results.map((r) => r.groundedness)),
+  }
+}
@@ -0,0 +1,72 @@
+import mammoth from 'mammoth'
+import * as XLSX from 'xlsx'
+
+// Renderable form of an uploaded file for the document viewer.
+// PDFs are rendered in the browser from a signed storage URL instead.
+
+export interface SheetPreview {
+  name: string
+  // rows[0] is the header row; rows[n] is "ROW n" in the chunk text
+  rows: string[][]
+  // CSV only: offset of each row's line in the extracted text (to match chunk offsets)
+  rowOffsets?: number[]
+}
+
+export type DocumentPreview =
+  | { kind: 'pdf'; url: string }
+  | { kind: 'html'; html: string }
+  | { kind: 'sheets'; sheets: SheetPreview[] }
+  | { kind: 'text'; text: string }
+
+function toRows(worksheet: XLSX.WorkSheet, blankrows: boolean): string[][] {
+  // Same options as process-document so row numbers line up with the chunks
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '', blankrows })
+  return rows.map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell))))
+}
+
+function csvPreview(text: string): DocumentPreview {
+  const workbook = XLSX.read(text, { type: 'string' })
+  const rows = toRows(workbook.Sheets[workbook.SheetNames[0]], true)
+
+  // One row per line unless cells contain quoted newlines; only then are offsets reliable
+  const lines = text.split('\n')
+  const rowOffsets: number[] = []
+  let offset = 0
+  for (const line of lines) {
+    rowOffsets.push(offset)
+    offset += line.length + 1
+  }
+
+  return {
+    kind: 'sheets',
+    sheets: [{ name: 'CSV', rows, ...(rowOffsets.length >= rows.length && { rowOffsets }) }],
+  }
+}
+
+// Non-PDF files only (see getDocumentViewer)
+export async function buildDocumentPreview(buffer: Buffer, fileType: string): Promise<DocumentPreview> {
+  const lowerType = fileType.toLowerCase()
+
+  if (lowerType.includes('wordprocessingml')) {
+    const result = await mammoth.convertToHtml({ buffer })
+    return { kind: 'html', html: result.value }
+  }
+
+  if (lowerType.includes('csv')) {
+    return csvPreview(buffer.toString('utf-8'))
+  }
+
+  if (lowerType.includes('sheet') || lowerType.includes('excel')) {
+    const workbook = XLSX.read(buffer, { type: 'buffer' })
+    return {
+      kind: 'sheets',
+      sheets: workbook.SheetNames.map(name => ({ name, rows: toRows(workbook.Sheets[name], false) })),
+    }
+  }
+
+  if (lowerType.includes('text')) {
+    return { kind: 'text', text: buffer.toString('utf-8') }
+  }
+
+  throw new Error(`Preview not supported for ${fileType}`)
+}
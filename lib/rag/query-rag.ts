@@ -0,0 +1,185 @@
+// Server-side helpers for calling the query-rag Edge Function
+// Shared by the streaming route handler and the evaluation and cache actions
+
+import type { ConversationTurn, QueryFilters } from '@/lib/types/database'
+
+const MAX_QUESTION_LENGTH = 5000
+// query-rag only uses the last few turns; trim before sending the request
+const MAX_HISTORY_TURNS = 3
+const MAX_HISTORY_ANSWER_LENGTH = 2000
+
+export function validateQuestion(question: unknown): { question?: string; error?: string } {
+  if (!question || typeof question !== 'string') {
+    return { error: 'Question must be a valid string' }
+  }
+
+  const trimmedQuestion = question.trim()
+
+  if (trimmedQuestion.length === 0) {
+    return { error: 'Question cannot be empty' }
+  }
+
+  if (trimmedQuestion.length > MAX_QUESTION_LENGTH) {
+    return { error: `Question is too long (maximum ${MAX_QUESTION_LENGTH} characters)` }
+  }
+
+  return { question: trimmedQuestion }
+}
+
+// Drop malformed turns from client input and keep the most recent ones
+export function sanitizeHistory(history: unknown): ConversationTurn[] {
+  if (!Array.isArray(history)) return []
+
+  return history
+    .filter((turn): turn is ConversationTurn =>
+      typeof turn?.question === 'string' && typeof turn?.answer === 'string' && turn.question.trim().length > 0
+    )
+    .slice(-MAX_HISTORY_TURNS)
+    .map(turn => ({
+      question: turn.question.trim().substring(0, MAX_QUESTION_LENGTH),
+      answer: turn.answer.trim().substring(0, MAX_HISTORY_ANSWER_LENGTH),
+    }))
+}
+
+// Keep only the known filter keys from client input; query-rag validates the values
+export function sanitizeFilters(filters: unknown): QueryFilters | undefined {
+  if (!filters || typeof filters !== 'object' || Array.isArray(filters)) return undefined
+
+  const input = filters as Record<string, unknown>
+  const lists = ['documentIds', 'fileTypes', 'tags'] as const
+  const dates = ['uploadedFrom', 'uploadedTo', 'effectiveFrom', 'effectiveTo'] as const
+  const result: QueryFilters = {}
+
+  for (const key of lists) {
+    const value = input[key]
+    if (Array.isArray(value) && value.length > 0) {
+      result[key] = value.filter((v): v is string => typeof v === 'string')
+    }
+  }
+  for (const key of dates) {
+    const value = input[key]
+    if (typeof value === 'string' && value) result[key] = value
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined
+}
+
+// Overrides for query-rag's retrieval heuristics (used by the evaluation runner)
+export interface RetrievalOptions {
+  semanticWeight?: number
+  keywordWeight?: number
+  limit?: number
+  fusion?: 'rrf' | 'weighted' | 'max' | 'legacy'
+  planner?: 'llm' | 'rules'
+  rrfK?: number
+  queryExpansion?: 'off' | 'hyde' | 'multi-query' | 'hyde+multi-query'
+  multiQueryCount?: number
+  diversity?: 'off' | 'mmr'
+  mmrLambda?: number
+  maxPerDocument?: number
+  rerank?: 'off' | 'llm' | 'cross-encoder'
+  rerankTopN?: number
+  tableQa?: 'llm' | 'off'
+  // Token budget for the answer context
+  contextTokens?: number
+  expansion?: 'off' | 'neighbours' | 'parent'
+  expansionWindow?: number
+}
+
+// Overrides for query-rag's answer confidence check
+export interface ConfidenceOptions {
+  // 0-1; answers scoring below it are replaced by a "not found" answer
+  threshold?: number
+  selfCheck?: 'llm' | 'off'
+}
+
+// Overrides for query-rag's post-generation claim verification
+export interface VerificationOptions {
+  mode?: 'off' | 'llm' | 'nli'
+  action?: 'flag' | 'remove'
+}
+
+export interface QueryRagOptions {
+  role?: string
+  stream?: boolean
+  signal?: AbortSignal
+  retrieval?: RetrievalOptions
+  confidence?: ConfidenceOptions
+  verification?: VerificationOptions
+  // Restrict retrieval to matching documents
+  filters?: QueryFilters
+  // Earlier turns of the chat thread, used to resolve follow-up questions
+  history?: ConversationTurn[]
+  // Thread the answer is saved to (query-rag loads its recent turns when no history is sent)
+  conversationId?: string
+  // Skip the cache and chat history, and return the full ranked retrieval
+  evaluation?: boolean
+  // Answer from scratch and replace the cached answer; nothing is saved to chat history
+  warmCache?: boolean
+}
+
+export async function callQueryRag(question: string, options: QueryRagOptions = {}): Promise<Response> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Server configuration error')
+  }
+
+  return fetch(`${supabaseUrl}/functions/v1/query-rag`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceRoleKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      question,
+      // For MVP, pass role info for document access filtering
+      customerMode: options.role === 'customer',
+      employeeMode: options.role === 'employee',
+      stream: options.stream ?? false,
+      retrieval: options.retrieval,
+      confidence: options.confidence,
+      verification: options.verification,
+      filters: options.filters,
+      history: options.history,
+      conversationId: options.conversationId,
+      evaluation: options.evaluation ?? false,
+      warmCache: options.warmCache ?? false,
+    }),
+    signal: options.signal,
+  })
+}
+
+// Fingerprint of query-rag's current configuration, with the settings it resolved from the
+// given overrides and its environment; cached answers with another one are outdated
+export async function fetchCacheFingerprint(
+  options: Pick<QueryRagOptions, 'retrieval' | 'confidence' | 'verification'> = {}
+): Promise<{ fingerprint: string; config: Record<string, unknown> }> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Server configuration error')
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/query-rag`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceRoleKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      describeCache: true,
+      retrieval: options.retrieval,
+      confidence: options.confidence,
+      verification: options.verification,
+    }),
+  })
+  const result = await response.json()
+
+  if (!response.ok || !result.fingerprint) {
+    throw new Error(result.error || `query-rag returned ${response.status}`)
+  }
+  return result
+}
@@ -0,0 +1,173 @@
+// Browser-side reader for /api/query-stream
+// Parses the server-sent events emitted by query-rag and hands them to callbacks
+
+import type {
+  AnswerConfidence,
+  AnswerVerification,
+  Citation,
+  ConversationTurn,
+  FaqMatchInfo,
+  QueryFilters,
+  QueryPlan,
+  RAGResponse,
+  RetrievalInfo,
+} from '@/lib/types/database'
+
+export interface StreamDoneInfo {
+  // Final answer with validated citation markers (replaces the streamed text)
+  answer?: string
+  citations?: Citation[]
+  confidence?: AnswerConfidence
+  abstained?: boolean
+  verification?: AnswerVerification | null
+  cached?: boolean
+  cacheHitSimilarity?: string
+  curated?: boolean
+  faq?: FaqMatchInfo
+  retrieval?: RetrievalInfo
+  plan?: QueryPlan
+}
+
+export interface StreamRAGHandlers {
+  onSources?: (sources: RAGResponse['sources']) => void
+  onToken?: (text: string) => void
+  onDone?: (info: StreamDoneInfo) => void
+  onError?: (error: string) => void
+}
+
+export interface StreamRAGRequest {
+  question: string
+  role?: string
+  // Earlier turns of the thread so follow-ups ("what about Q3?") can be resolved
+  history?: ConversationTurn[]
+  conversationId?: string
+  filters?: QueryFilters
+}
+
+// Completed question/answer pairs from a chat thread, oldest first. Skips answers that
+// failed or were stopped, since they would only mislead the rewrite.
+export function toConversationTurns<T>(
+  messages: T[],
+  read: (message: T) => { role: 'user' | 'assistant'; content: string; incomplete?: boolean }
+): ConversationTurn[] {
+  const turns: ConversationTurn[] = []
+  for (let i = 0; i + 1 < messages.length; i++) {
+    const question = read(messages[i])
+    const answer = read(messages[i + 1])
+    if (question.role !== 'user' || answer.role !== 'assistant') continue
+    if (answer.incomplete || !answer.content || answer.content.startsWith('Error:')) continue
+    turns.push({ question: question.content, answer: answer.content })
+    i++
+  }
+  return turns
+}
+
+// Resolves when the stream has finished, failed or been aborted via `signal`
+export async function streamRAG(
+  request: StreamRAGRequest,
+  handlers: StreamRAGHandlers,
+  signal?: AbortSignal
+): Promise<void> {
+  let response: Response
+  try {
+    response = await fetch('/api/query-stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    })
+  } catch (error) {
+    if (signal?.aborted) return
+    handlers.onError?.(error instanceof Error ? error.message : 'Failed to process query')
+    return
+  }
+
+  const contentType = response.headers.get('Content-Type') || ''
+
+  // Non-streaming answers (errors, "no documents", ...) arrive as a single JSON body
+  if (!contentType.includes('text/event-stream') || !response.body) {
+    try {
+      const result = await response.json()
+      if (result.error && !result.answer) {
+        handlers.onError?.(result.error)
+        return
+      }
+      handlers.onSources?.(result.sources || [])
+      if (result.answer) handlers.onToken?.(result.answer)
+      handlers.onDone?.({
+        citations: result.citations,
+        confidence: result.confidence,
+        abstained: result.abstained,
+        verification: result.verification,
+        cached: result.cached,
+        cacheHitSimilarity: result.cacheHitSimilarity,
+        curated: result.curated,
+        faq: result.faq,
+        retrieval: result.retrieval,
+        plan: result.plan,
+      })
+    } catch {
+      handlers.onError?.(`Query failed (${response.status})`)
+    }
+    return
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        dispatchEvent(buffer.slice(0, boundary), handlers)
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) return
+    handlers.onError?.(error instanceof Error ? error.message : 'Stream interrupted')
+  }
+}
+
+function dispatchEvent(rawEvent: string, handlers: StreamRAGHandlers) {
+  let event = 'message'
+  let data = ''
+
+  for (const line of rawEvent.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim()
+    else if (line.startsWith('data:')) data += line.slice(5).trim()
+  }
+
+  if (!data) return
+
+  let payload: Record<string, unknown>
+  try {
+    payload = JSON.parse(data)
+  } catch {
+    console.warn('[STREAM] Could not parse event data:', data)
+    return
+  }
+
+  switch (event) {
+    case 'sources':
+      handlers.onSources?.((payload.sources as RAGResponse['sources']) || [])
+      break
+    case 'token':
+      handlers.onToken?.(String(payload.text ?? ''))
+      break
+    case 'done':
+      handlers.onDone?.(payload as StreamDoneInfo)
+      break
+    case 'error':
+      handlers.onError?.(String(payload.error ?? 'Unknown error'))
+      break
+  }
+}
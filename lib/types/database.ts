@@ -19,19 +19,73 @@ export interface Document {
   accessible_by_business_owners: boolean
   accessible_by_employees: boolean
   accessible_by_customers: boolean
+  tags: string[]
+  // Date the content applies from (YYYY-MM-DD)
+  effective_date: string | null
+  // Settings the chunk stage used; null for documents chunked before they were recorded
+  chunking?: ChunkingSettings | null
+  // Loaded with getDocuments; null for documents ingested before the job queue
+  ingestion_job?: IngestionJobProgress | null
   created_at: string
   updated_at: string
 }
 
+export interface ChunkingSettings {
+  size: number
+  overlap: number
+}
+
+// Queued parse → chunk → embed run of a document, drained by the ingestion-worker Edge Function
+export interface IngestionJob {
+  id: string
+  document_id: string
+  // Stage to run next
+  stage: 'parse' | 'chunk' | 'embed' | 'done'
+  status: 'queued' | 'running' | 'retrying' | 'failed' | 'completed'
+  // Attempts of the current stage
+  attempts: number
+  max_attempts: number
+  next_run_at: string
+  locked_at: string | null
+  last_error: string | null
+  chunks_total: number | null
+  chunks_embedded: number
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export type IngestionJobProgress = Pick<
+  IngestionJob,
+  'stage' | 'status' | 'attempts' | 'max_attempts' | 'next_run_at' | 'last_error' | 'chunks_total' | 'chunks_embedded'
+>
+
 export interface Chunk {
   id: string
   document_id: string
   content: string
   chunk_index: number
-  metadata: Record<string, unknown>
+  metadata: ChunkMetadata
   created_at: string
 }
 
+// Where a chunk came from in the original file (written by process-document; '{}' for
+// chunks created before locations were recorded)
+export interface ChunkMetadata {
+  // Offsets of the chunk's own text in the extracted document text
+  start_offset?: number
+  end_offset?: number
+  // PDF pages (1-based)
+  page_start?: number
+  page_end?: number
+  // Nearest heading before the chunk (text, PDF and DOCX)
+  section?: string
+  // Spreadsheet sheet and data rows (ROW n, header excluded)
+  sheet?: string
+  row_start?: number
+  row_end?: number
+}
+
 export interface Embedding {
   id: string
   chunk_id: string
@@ -45,9 +99,30 @@ export interface ChatMessage {
   question: string
   answer: string
   sources: string[] // document IDs
+  conversation_id: string | null
+  role: 'business_owner' | 'employee' | 'customer' | null
+  metadata?: {
+    retrieval?: RetrievalInfo
+    plan?: QueryPlan
+    citations?: Citation[]
+    confidence?: AnswerConfidence
+    abstained?: boolean
+    verification?: AnswerVerification | null
+    cached?: boolean
+  }
   created_at: string
 }
 
+export interface Conversation {
+  id: string
+  role: 'business_owner' | 'employee' | 'customer'
+  title: string
+  pinned: boolean
+  created_at: string
+  updated_at: string
+  message_count?: number
+}
+
 export interface UploadedFile {
   file: File
   preview?: string
@@ -55,12 +130,265 @@ export interface UploadedFile {
 
 export interface RAGResponse {
   answer: string
+  // In prompt order: citation marker [N] refers to sources[N - 1]
   sources: Array<{
+    chunk_id?: string
     document_id: string
     filename: string
     chunk_content: string
     relevance_score: number
+    // Computed spreadsheet aggregate: the sheet and rows it was computed from
+    table?: { sheet: string; rows: number[] }
+    // Chunks (0-based chunk_index) a merged or expanded source covers
+    span?: SourceSpan
   }>
+  citations?: Citation[]
+  // Not set on cache hits (only confident answers are cached)
+  confidence?: AnswerConfidence
+  // True when confidence was below the threshold and the answer is a "not found" message
+  abstained?: boolean
+  // Per-claim verdicts of the optional hallucination guard (VERIFY_MODE)
+  verification?: AnswerVerification | null
   cached?: boolean
   cacheHitSimilarity?: string
+  // Answered word for word from a curated FAQ; sources are its linked documents
+  curated?: boolean
+  faq?: FaqMatchInfo
+  retrieval?: RetrievalInfo
+  plan?: QueryPlan
+}
+
+// The FAQ a curated answer came from
+export interface FaqMatchInfo {
+  id: string
+  question: string
+  similarity: string
+}
+
+// How sure query-rag is that the answer is supported by the documents (all scores 0-1)
+export interface AnswerConfidence {
+  score: number
+  retrieval: number
+  // LLM self-check of groundedness; null when disabled or it failed
+  groundedness: number | null
+  threshold: number
+  method: 'retrieval' | 'retrieval+self-check'
+}
+
+// Verdict for one sentence of an answer, checked against the sources it cites
+export interface ClaimVerdict {
+  text: string
+  // Span in the answer text; absent for removed claims
+  answer_start?: number
+  answer_end?: number
+  markers: number[]
+  verdict: 'supported' | 'unsupported' | 'unknown'
+  score: number | null
+  removed?: boolean
+}
+
+export interface AnswerVerification {
+  method: 'llm' | 'nli'
+  // flag: unsupported claims stay in the answer; remove: they were cut from it
+  action: 'flag' | 'remove'
+  claims: ClaimVerdict[]
+}
+
+// An inline [N] marker in an answer, resolved to the chunk and passage it cites
+export interface Citation {
+  marker: number
+  chunk_id: string
+  document_id: string
+  filename: string
+  // Claim span in the answer text
+  answer_start: number
+  answer_end: number
+  // Passage span in the chunk content
+  chunk_start: number
+  chunk_end: number
+  passage: string
+}
+
+// One earlier question/answer pair of the current chat thread
+export interface ConversationTurn {
+  question: string
+  answer: string
+}
+
+// Search queries query-rag derived from the question (LLM planner or rule-based fallback)
+export interface QueryPlan {
+  standalone: string
+  subQueries: string[]
+  method: 'llm' | 'rules'
+  expansions?: Record<string, string>
+  fallbackReason?: string
+}
+
+// How query-rag retrieved the context for an answer
+export interface RetrievalInfo {
+  fusion: 'rrf' | 'weighted' | 'max' | 'legacy'
+  rrfK?: number
+  semanticWeight?: number
+  keywordWeight?: number
+  weighting?: string
+  limit: number
+  // HyDE passages / paraphrases searched next to each query (absent when off)
+  queryExpansion?: 'hyde' | 'multi-query' | 'hyde+multi-query'
+  queryVariants?: Array<{ query: string; paraphrases: string[]; hyde?: string }>
+  // MMR diversification of the candidate pool (absent when off)
+  diversity?: { lambda: number; maxPerDocument: number }
+  rerank: 'off' | 'llm' | 'cross-encoder'
+  rerankTopN?: number
+  expansion?: 'off' | 'neighbours' | 'parent'
+  expansionWindow?: number
+  // Source blocks in the prompt (adjacent chunks merged)
+  chunks: number
+  filters?: QueryFilters
+  // Spreadsheet aggregations run for analytical questions
+  tables?: TableAggregation[]
+  context?: ContextReport
+}
+
+export interface SourceSpan {
+  from: number
+  to: number
+  // Surrounding chunks added by context expansion
+  expanded: number
+  // Heading or sheet of the matched chunk
+  section?: string
+}
+
+// How the ranked chunks were packed into the prompt's token budget
+export interface ContextReport {
+  tokenBudget: number
+  tokensUsed: number
+  candidates: number
+  blocks: number
+  merged: number
+  expanded: number
+  duplicates: number
+  // Chunks left out because the budget was spent
+  dropped: Array<{ chunk_id: string; filename: string; tokens: number }>
+}
+
+export interface TableAggregation {
+  filename: string
+  sheet: string
+  // Readable form of the aggregation, e.g. 'SUM(Sales) where Region = West'
+  query: string
+  groups: number
+  rows: number
+}
+
+// Metadata filters that narrow retrieval; dates are inclusive YYYY-MM-DD
+export interface QueryFilters {
+  documentIds?: string[]
+  // MIME types, e.g. 'application/pdf'
+  fileTypes?: string[]
+  // Documents with any of these tags
+  tags?: string[]
+  uploadedFrom?: string
+  uploadedTo?: string
+  effectiveFrom?: string
+  effectiveTo?: string
+}
+
+export interface EvalQuestion {
+  id: string
+  question: string
+  role: 'business_owner' | 'employee' | 'customer'
+  expected_document_ids: string[]
+  expected_chunk_ids: string[]
+  expected_facts: string[]
+  notes?: string
+  active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface EvalRunMetrics {
+  recall_at_k: number | null
+  mrr: number | null
+  ndcg: number | null
+  fact_recall: number | null
+  groundedness: number | null
+}
+
+export interface EvalRun {
+  id: string
+  label?: string
+  config: Record<string, unknown>
+  k: number
+  status: 'running' | 'completed' | 'failed'
+  metrics?: EvalRunMetrics
+  question_count: number
+  error_message?: string
+  started_at: string
+  completed_at?: string
+}
+
+export interface EvalResult extends EvalRunMetrics {
+  id: string
+  run_id: string
+  question_id?: string
+  question: string
+  retrieved: Array<{ chunk_id: string; document_id: string; filename?: string; score?: number }>
+  answer?: string
+  latency_ms?: number
+  error_message?: string
+  created_at: string
+}
+
+export interface QueryCacheEntry {
+  id: string
+  question: string
+  answer: string
+  sources: RAGResponse['sources']
+  role: 'business_owner' | 'employee' | 'customer'
+  document_ids: string[]
+  kb_version: number
+  // query-rag configuration the answer was generated with; null = cached before fingerprints
+  fingerprint: string | null
+  // Answer edited by an admin: kept over newly generated answers, never expires
+  curated: boolean
+  // Never expires and wins over unpinned matches
+  pinned: boolean
+  hit_count: number
+  last_hit_at?: string
+  answered_at: string
+  created_at: string
+  updated_at: string
+}
+
+export interface QueryCacheSettings {
+  role: 'business_owner' | 'employee' | 'customer'
+  // Minimum question similarity (0-1] for a cached answer to be reused
+  similarity_threshold: number
+  // Days until an uncurated, unpinned answer expires; null = never
+  ttl_days: number | null
+  updated_at: string
+}
+
+export interface FaqVariant {
+  id: string
+  faq_id: string
+  question: string
+  created_at: string
+}
+
+export interface Faq {
+  id: string
+  // Canonical question (also stored as a variant)
+  question: string
+  answer: string
+  source_document_ids: string[]
+  accessible_by_business_owners: boolean
+  accessible_by_employees: boolean
+  accessible_by_customers: boolean
+  active: boolean
+  hit_count: number
+  last_hit_at?: string
+  created_at: string
+  updated_at: string
+  faq_variants?: FaqVariant[]
 }
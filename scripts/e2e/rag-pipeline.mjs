@@ -0,0 +1,341 @@
+#!/usr/bin/env node
+/**
+ * End-to-end harness for the RAG pipeline
+ * ingestion-worker (process-document → generate-embeddings) → query-rag, against a local Supabase
+ * (Postgres + pgvector) using the deterministic "fake" LLM provider.
+ *
+ * Setup (once per session):
+ *   npx supabase init                           # first time only
+ *   npx supabase start
+ *   npx supabase db reset                       # applies supabase/migrations
+ *   echo "LLM_PROVIDER=fake" > supabase/functions/.env.e2e
+ *   npx supabase functions serve --env-file supabase/functions/.env.e2e
+ *
+ * Run:
+ *   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=<from supabase status> npm run test:e2e
+ *
+ * Pass --keep to leave the fixture documents in the database for inspection.
+ */
+
+import assert from 'node:assert/strict'
+import { readFile } from 'node:fs/promises'
+import { createClient } from '@supabase/supabase-js'
+
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL || 'http://127.0.0.1:54321'
+const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
+const KEEP = process.argv.includes('--keep')
+
+// Every fixture document is stored with this prefix so runs can clean up after themselves
+const PREFIX = 'e2e-'
+
+const FIXTURES = [
+  { file: 'payroll-policy.txt', customers: false },
+  { file: 'financial-report-2023.txt', customers: false, tags: ['finance'] },
+  { file: 'project-alpha-requirements.txt', customers: true },
+]
+
+const QUESTIONS = {
+  payday: 'When is payday?',
+  multiPart:
+    'When is payday AND what is my net profit in Q2 2023 AND what is the requirements for Project Alpha?',
+  streamed: 'Which languages must the customer portal support?',
+  unanswerable: 'What is the dress code for the annual ski trip?',
+}
+
+if (!SERVICE_ROLE_KEY) {
+  console.error('❌ SUPABASE_SERVICE_ROLE_KEY is required (see `npx supabase status`)')
+  process.exit(1)
+}
+
+const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+})
+
+const results = []
+
+async function step(name, fn) {
+  const started = Date.now()
+  try {
+    await fn()
+    results.push({ name, ok: true })
+    console.log(`  ✅ ${name} (${Date.now() - started}ms)`)
+  } catch (error) {
+    results.push({ name, ok: false })
+    console.error(`  ❌ ${name}\n     ${error.message.split('\n').join('\n     ')}`)
+  }
+}
+
+async function callFunction(name, { headers = {}, body }) {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${SERVICE_ROLE_KEY}`, ...headers },
+    body,
+  })
+  if (!response.ok) {
+    throw new Error(`${name} failed (${response.status}): ${(await response.text()).substring(0, 300)}`)
+  }
+  return response
+}
+
+// Drain the queue and wait for the run, instead of the background run uploads start
+function runWorker() {
+  return callFunction('ingestion-worker', { body: JSON.stringify({ wait: true }) })
+}
+
+async function query(question, extra = {}) {
+  const response = await callFunction('query-rag', {
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ question, ...extra }),
+  })
+  return response.json()
+}
+
+// Collect the SSE events emitted by query-rag in stream mode
+async function queryStream(question) {
+  const response = await callFunction('query-rag', {
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ question, stream: true }),
+  })
+  assert.match(response.headers.get('content-type') || '', /text\/event-stream/)
+
+  const events = []
+  for (const block of (await response.text()).split('\n\n')) {
+    const event = block.match(/^event: (.+)$/m)?.[1]
+    const data = block.match(/^data: (.+)$/m)?.[1]
+    if (event && data) events.push({ event, data: JSON.parse(data) })
+  }
+  return events
+}
+
+async function cleanup() {
+  const { data: documents } = await supabase.from('documents').select('storage_path').like('filename', `${PREFIX}%`)
+  if (documents?.length) {
+    await supabase.storage.from('documents').remove(documents.map((d) => d.storage_path))
+  }
+
+  const { error: docError } = await supabase.from('documents').delete().like('filename', `${PREFIX}%`)
+  if (docError) throw new Error(`Cleanup of documents failed: ${docError.message}`)
+
+  const { error: cacheError } = await supabase.from('query_cache').delete().in('question', Object.values(QUESTIONS))
+  if (cacheError) throw new Error(`Cleanup of query_cache failed: ${cacheError.message}`)
+}
+
+// Store a file and queue it, like uploadDocument does
+async function enqueue(filename, buffer, fileType, extra = {}) {
+  const storagePath = `e2e/${filename}`
+  const { error: uploadError } = await supabase.storage
+    .from('documents')
+    .upload(storagePath, buffer, { contentType: fileType, upsert: true })
+  if (uploadError) throw new Error(`Storage upload failed: ${uploadError.message}`)
+
+  const { data: document, error } = await supabase
+    .from('documents')
+    .insert({
+      filename: `${PREFIX}${filename}`,
+      file_type: fileType,
+      file_size: buffer.byteLength,
+      storage_path: storagePath,
+      status: 'processing',
+      user_id: null,
+      accessible_by_business_owners: true,
+      accessible_by_employees: true,
+      ...extra,
+    })
+    .select()
+    .single()
+  if (error) throw new Error(`Document insert failed: ${error.message}`)
+
+  const { error: jobError } = await supabase.from('ingestion_jobs').insert({ document_id: document.id })
+  if (jobError) throw new Error(`Queueing failed: ${jobError.message}`)
+
+  return document
+}
+
+async function jobOf(documentId) {
+  const { data } = await supabase.from('ingestion_jobs').select('*').eq('document_id', documentId).single()
+  return data
+}
+
+async function ingest(fixture) {
+  const buffer = await readFile(new URL(`./fixtures/${fixture.file}`, import.meta.url))
+  const document = await enqueue(fixture.file, buffer, 'text/plain', {
+    accessible_by_customers: fixture.customers,
+    tags: fixture.tags ?? [],
+  })
+
+  const { processed } = await (await runWorker()).json()
+  const stages = processed.filter((p) => p.documentId === document.id).map((p) => `${p.stage}:${p.outcome}`)
+  assert.deepEqual(stages, ['parse:chunk', 'chunk:embed', 'embed:done'], `worker ran ${stages.join(', ')}`)
+
+  const { count: chunkCount } = await supabase
+    .from('chunks')
+    .select('id', { count: 'exact', head: true })
+    .eq('document_id', document.id)
+  assert.ok(chunkCount > 0, 'process-document stored no chunks')
+
+  const { count: embeddingCount } = await supabase
+    .from('embeddings')
+    .select('id, chunks!inner(document_id)', { count: 'exact', head: true })
+    .eq('chunks.document_id', document.id)
+  assert.equal(embeddingCount, chunkCount, 'embedding rows do not match chunk rows')
+
+  const job = await jobOf(document.id)
+  assert.equal(job.status, 'completed')
+  assert.equal(job.chunks_total, chunkCount)
+  assert.equal(job.chunks_embedded, chunkCount)
+  assert.equal(job.parsed_text, null, 'parsed text kept after completion')
+
+  const { data: status } = await supabase.from('documents').select('status').eq('id', document.id).single()
+  assert.equal(status?.status, 'completed')
+
+  return { ...document, chunkCount }
+}
+
+function sourceFiles(sources = []) {
+  return new Set(sources.map((s) => s.filename))
+}
+
+async function main() {
+  console.log(`🚀 RAG pipeline e2e against ${SUPABASE_URL}\n`)
+  await cleanup()
+
+  console.log('📄 Ingestion')
+  for (const fixture of FIXTURES) {
+    await step(`ingest ${fixture.file}`, () => ingest(fixture))
+  }
+
+  await step('unsupported file fails its job without retries', async () => {
+    const document = await enqueue('archive.zip', Buffer.from('not a document'), 'application/zip')
+    await runWorker()
+
+    const job = await jobOf(document.id)
+    assert.equal(job.status, 'failed')
+    assert.equal(job.stage, 'parse')
+    assert.equal(job.attempts, 1, `retried ${job.attempts - 1} time(s)`)
+
+    const { data } = await supabase.from('documents').select('status, error_message').eq('id', document.id).single()
+    assert.equal(data?.status, 'failed')
+    assert.match(data?.error_message ?? '', /Unsupported file type/)
+  })
+
+  await step('re-queued embed stage resumes without re-chunking', async () => {
+    const { data: document } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('filename', `${PREFIX}payroll-policy.txt`)
+      .single()
+    const { data: chunks } = await supabase.from('chunks').select('id').eq('document_id', document.id).order('chunk_index')
+
+    // Simulate an embed stage that stopped halfway
+    await supabase.from('embeddings').delete().eq('chunk_id', chunks[chunks.length - 1].id)
+    await supabase.from('ingestion_jobs').update({ stage: 'embed', status: 'queued', attempts: 0 }).eq('document_id', document.id)
+
+    const { processed } = await (await runWorker()).json()
+    const stages = processed.filter((p) => p.documentId === document.id).map((p) => p.stage)
+    assert.deepEqual(stages, ['embed'])
+
+    const { data: after } = await supabase.from('chunks').select('id, embeddings(id)').eq('document_id', document.id)
+    assert.deepEqual(after.map((c) => c.id).sort(), chunks.map((c) => c.id).sort(), 'chunks were recreated')
+    assert.ok(after.every((c) => c.embeddings.length === 1), 'chunks without exactly one embedding')
+  })
+
+  console.log('\n💬 Retrieval and answers')
+  await step('single question retrieves the payroll policy', async () => {
+    const result = await query(QUESTIONS.payday)
+    assert.equal(result.success, true, result.error)
+    assert.ok(!result.cached, 'first answer should not come from the cache')
+    assert.ok(sourceFiles(result.sources).has(`${PREFIX}payroll-policy.txt`), 'payroll policy not in sources')
+    assert.match(result.answer, /25th/)
+  })
+
+  await step('answered question is confident', async () => {
+    const result = await query(QUESTIONS.payday, { evaluation: true })
+    assert.equal(result.abstained, false)
+    assert.ok(result.confidence?.score >= result.confidence?.threshold, `low confidence: ${JSON.stringify(result.confidence)}`)
+  })
+
+  await step('question without an answer in the documents abstains', async () => {
+    const result = await query(QUESTIONS.unanswerable)
+    assert.equal(result.abstained, true, `answered with confidence ${JSON.stringify(result.confidence)}`)
+    assert.ok(!result.cached)
+  })
+
+  await step('repeated question is served from the cache', async () => {
+    const result = await query(QUESTIONS.payday)
+    assert.equal(result.cached, true, 'second answer was not cached')
+    assert.ok(sourceFiles(result.sources).has(`${PREFIX}payroll-policy.txt`))
+  })
+
+  await step('changing a source document\'s permissions invalidates its cached answers', async () => {
+    const setCustomerAccess = async (accessible) => {
+      const { error } = await supabase
+        .from('documents')
+        .update({ accessible_by_customers: accessible })
+        .eq('filename', `${PREFIX}payroll-policy.txt`)
+      if (error) throw new Error(`Permission update failed: ${error.message}`)
+    }
+
+    await setCustomerAccess(true)
+    try {
+      const result = await query(QUESTIONS.payday)
+      assert.ok(!result.cached, 'answer quoting a re-shared document came from the cache')
+    } finally {
+      await setCustomerAccess(false)
+    }
+  })
+
+  // Regression: the Q2 2023 report used to drop out of multi-part questions
+  await step('multi-part question retrieves every relevant document', async () => {
+    const result = await query(QUESTIONS.multiPart)
+    assert.equal(result.success, true, result.error)
+    const files = sourceFiles(result.sources)
+    for (const fixture of FIXTURES) {
+      assert.ok(files.has(`${PREFIX}${fixture.file}`), `${fixture.file} missing from sources: ${[...files].join(', ')}`)
+    }
+    assert.ok(
+      result.sources.some((s) => s.chunk_content.includes('Q2 2023')),
+      'no Q2 2023 chunk among the sources'
+    )
+  })
+
+  await step('customer mode only sees customer documents', async () => {
+    const result = await query(QUESTIONS.multiPart, { customerMode: true })
+    const files = sourceFiles(result.sources)
+    assert.ok(files.has(`${PREFIX}project-alpha-requirements.txt`), 'customer document missing from sources')
+    for (const fixture of FIXTURES.filter((f) => !f.customers)) {
+      assert.ok(!files.has(`${PREFIX}${fixture.file}`), `${fixture.file} leaked into customer sources`)
+    }
+  })
+
+  await step('tag filter restricts retrieval to tagged documents', async () => {
+    const result = await query(QUESTIONS.multiPart, { filters: { tags: ['finance'] } })
+    const files = sourceFiles(result.sources)
+    assert.ok(files.has(`${PREFIX}financial-report-2023.txt`), 'tagged document missing from sources')
+    assert.equal(files.size, 1, `untagged documents in sources: ${[...files].join(', ')}`)
+    assert.deepEqual(result.retrieval?.filters, { tags: ['finance'] })
+    assert.ok(!result.cached, 'filtered answer should not come from the cache')
+  })
+
+  await step('stream mode emits sources, tokens and done', async () => {
+    const events = await queryStream(QUESTIONS.streamed)
+    const names = events.map((e) => e.event)
+    assert.equal(names[0], 'sources')
+    assert.equal(names[names.length - 1], 'done', `stream ended with ${names[names.length - 1]}`)
+    assert.ok(names.includes('token'), 'no token events')
+
+    const answer = events.filter((e) => e.event === 'token').map((e) => e.data.text).join('')
+    assert.match(answer, /German/)
+    assert.equal(events[events.length - 1].data.cached, false)
+  })
+
+  if (!KEEP) await cleanup()
+
+  const failed = results.filter((r) => !r.ok)
+  console.log(`\n${failed.length === 0 ? '✅' : '❌'} ${results.length - failed.length}/${results.length} checks passed`)
+  process.exit(failed.length === 0 ? 0 : 1)
+}
+
+main().catch((error) => {
+  console.error('❌ Harness error:', error)
+  process.exit(1)
+})
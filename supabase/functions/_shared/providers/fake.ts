@@ -0,0 +1,105 @@
+// Deterministic offline provider for local development and the end-to-end harness
+// Embeddings are hashed bag-of-words vectors, so texts sharing words score as similar.
+// Answers are templated from the prompt: the context sentences that best match the question.
+
+import type { LLMProvider, ProviderConfig } from './types.ts'
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'for', 'from', 'how', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'our', 'the', 'this', 'to', 'was', 'we', 'what', 'when', 'which',
+  'who', 'why', 'with', 'you', 'your',
+])
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (token) => token.length > 1 && !STOPWORDS.has(token)
+  )
+}
+
+// 32-bit FNV-1a
+function hash(token: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array(dimensions).fill(0)
+  for (const token of tokenize(text)) {
+    const h = hash(token)
+    // Top bit picks the sign so unrelated collisions tend to cancel out
+    vector[h % dimensions] += h & 0x80000000 ? -1 : 1
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return norm === 0 ? vector : vector.map((v) => v / norm)
+}
+
+// Pick the question (last "Question:" line) and the best-matching context sentences,
+// citing each with the number of the "[Source N - filename]" block it came from
+export function templateAnswer(prompt: string): string {
+  const questionMatch = [...prompt.matchAll(/^Question:\s*(.+)$/gm)].pop()
+  const question = questionMatch?.[1]?.trim() ?? ''
+  const questionTokens = new Set(tokenize(question))
+
+  const context = questionMatch ? prompt.slice(0, questionMatch.index) : prompt
+  const blocks = [...context.matchAll(/^\[Source (\d+)[^\]]*\]\n([\s\S]*?)(?=^\[Source \d+|(?![\s\S]))/gm)]
+  const sections = blocks.length > 0
+    ? blocks.map((block) => ({ source: Number(block[1]), text: block[2] }))
+    : [{ source: 0, text: context }]
+
+  const sentences = sections.flatMap(({ source, text }) =>
+    (text.match(/[^.!?\n]+[.!?]?/g) || [])
+      .map((sentence) => sentence.trim())
+      .filter((sentence) => sentence.length > 10 && !sentence.startsWith('[Source'))
+      .map((sentence) => ({ sentence, source }))
+  )
+
+  const ranked = sentences
+    .map((s) => ({
+      ...s,
+      score: tokenize(s.sentence).filter((token) => questionTokens.has(token)).length,
+    }))
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3)
+
+  if (ranked.length === 0) {
+    return "I don't have enough information to answer that question."
+  }
+
+  const cited = ranked.map((s) => (s.source > 0 ? `${s.sentence} [${s.source}]` : s.sentence))
+  return `Based on the provided context: ${cited.join(' ')}`
+}
+
+export function createFakeProvider(config: ProviderConfig): LLMProvider {
+  const dimensions = config.embeddingDimensions || 768
+  const generate = async (prompt: string, options: { json?: boolean } = {}) =>
+    options.json ? '{}' : templateAnswer(prompt)
+
+  return {
+    name: 'fake',
+    embeddingModel: config.embeddingModel || 'fake-hashed-bow',
+    generationModel: config.generationModel || 'fake-template',
+
+    async embed(text) {
+      return hashEmbedding(text, dimensions)
+    },
+
+    async embedBatch(texts) {
+      return texts.map((text) => hashEmbedding(text, dimensions))
+    },
+
+    generate,
+
+    async *generateStream(prompt, options) {
+      const answer = await generate(prompt, options)
+      for (const word of answer.split(/(?<=\s)/)) {
+        yield word
+      }
+    },
+  }
+}
@@ -0,0 +1,80 @@
+// Google Gemini provider (text-embedding-004 + gemini-2.5-flash by default)
+
+import { GoogleGenerativeAI } from 'npm:@google/generative-ai@0.24.1'
+import { ProviderError, type GenerateOptions, type LLMProvider, type ProviderConfig } from './types.ts'
+
+// batchEmbedContents accepts at most 100 requests per call
+const MAX_BATCH_SIZE = 100
+
+export function createGeminiProvider(config: ProviderConfig): LLMProvider {
+  if (!config.apiKey) {
+    throw new ProviderError('Missing GEMINI_API_KEY for the gemini provider', 'gemini')
+  }
+
+  const genAI = new GoogleGenerativeAI(config.apiKey)
+  const embeddingModel = config.embeddingModel || 'text-embedding-004'
+  const generationModel = config.generationModel || 'gemini-2.5-flash'
+
+  const embedder = genAI.getGenerativeModel({ model: `models/${embeddingModel.replace(/^models\//, '')}` })
+  const generator = genAI.getGenerativeModel({ model: generationModel })
+
+  function request(prompt: string, options: GenerateOptions = {}) {
+    return {
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+        responseMimeType: options.json ? 'application/json' : undefined,
+      },
+    }
+  }
+
+  return {
+    name: 'gemini',
+    embeddingModel,
+    generationModel,
+
+    async embed(text) {
+      const result = await wrap(() => embedder.embedContent(text))
+      return result.embedding.values
+    },
+
+    async embedBatch(texts) {
+      const vectors: number[][] = []
+      for (let i = 0; i < texts.length; i += MAX_BATCH_SIZE) {
+        const batch = texts.slice(i, i + MAX_BATCH_SIZE)
+        const result = await wrap(() =>
+          embedder.batchEmbedContents({
+            requests: batch.map((text) => ({ content: { role: 'user', parts: [{ text }] } })),
+          })
+        )
+        vectors.push(...result.embeddings.map((e) => e.values))
+      }
+      return vectors
+    },
+
+    async generate(prompt, options) {
+      const result = await wrap(() => generator.generateContent(request(prompt, options)))
+      return result.response.text()
+    },
+
+    async *generateStream(prompt, options) {
+      const result = await wrap(() => generator.generateContentStream(request(prompt, options)))
+      for await (const chunk of result.stream) {
+        const text = chunk.text()
+        if (text) yield text
+      }
+    },
+  }
+}
+
+// The SDK throws plain errors with the HTTP status in the message ("[429 Too Many Requests]")
+async function wrap<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call()
+  } catch (error) {
+    const message = (error as Error)?.message ?? String(error)
+    const status = Number(message.match(/\[(\d{3})[ \]]/)?.[1]) || undefined
+    throw new ProviderError(`Gemini request failed: ${message}`, 'gemini', status)
+  }
+}
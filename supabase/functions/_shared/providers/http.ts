@@ -0,0 +1,55 @@
+// Small fetch helpers for HTTP-based providers (OpenAI-compatible, Ollama)
+
+import { ProviderError } from './types.ts'
+
+export async function postJson(
+  provider: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    })
+  } catch (error) {
+    throw new ProviderError(`${provider} request to ${url} failed: ${(error as Error).message}`, provider)
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new ProviderError(
+      `${provider} request failed (${response.status}): ${errorText.substring(0, 300)}`,
+      provider,
+      response.status
+    )
+  }
+
+  return response
+}
+
+// Yield complete lines from a streamed response body (SSE and NDJSON both use lines)
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    let newline = buffer.indexOf('\n')
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim()
+      buffer = buffer.slice(newline + 1)
+      if (line) yield line
+      newline = buffer.indexOf('\n')
+    }
+  }
+
+  if (buffer.trim()) yield buffer.trim()
+}
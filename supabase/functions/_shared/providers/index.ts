@@ -0,0 +1,96 @@
+// Provider selection for the Edge Functions
+//
+// Configure with Edge Function secrets:
+//   LLM_PROVIDER          gemini | openai | ollama | fake (default: gemini)
+//   EMBEDDING_PROVIDER    same options, defaults to LLM_PROVIDER
+//   LLM_MODEL             generation model override
+//   EMBEDDING_MODEL       embedding model override
+//   EMBEDDING_DIMENSIONS  vector size to request from models that can shorten their output
+//                         (OpenAI text-embedding-3-* are asked for 768 unless set)
+//   GEMINI_API_KEY        for gemini
+//   OPENAI_API_KEY        for openai (optional for local OpenAI-compatible servers)
+//   OPENAI_BASE_URL       defaults to https://api.openai.com/v1
+//   OLLAMA_BASE_URL       defaults to http://localhost:11434
+//
+// "fake" needs no network or keys: deterministic hashed embeddings and templated answers.
+
+import { createFakeProvider } from './fake.ts'
+import { createGeminiProvider } from './gemini.ts'
+import { createOllamaProvider } from './ollama.ts'
+import { createOpenAIProvider } from './openai.ts'
+import { EMBEDDING_DIMENSIONS, ProviderError, type LLMProvider, type ProviderConfig } from './types.ts'
+
+export { EMBEDDING_DIMENSIONS, ProviderError }
+export type { GenerateOptions, LLMProvider } from './types.ts'
+
+type ProviderName = 'gemini' | 'openai' | 'ollama' | 'fake'
+
+const factories: Record<ProviderName, (config: ProviderConfig) => LLMProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  ollama: createOllamaProvider,
+  fake: createFakeProvider,
+}
+
+function env(name: string): string | undefined {
+  return Deno.env.get(name) || undefined
+}
+
+function createProvider(name: string, models: Pick<ProviderConfig, 'embeddingModel' | 'generationModel'>): LLMProvider {
+  const factory = factories[name as ProviderName]
+  if (!factory) {
+    throw new ProviderError(`Unknown provider "${name}". Use one of: ${Object.keys(factories).join(', ')}`, name)
+  }
+
+  const credentials: Record<ProviderName, ProviderConfig> = {
+    gemini: { apiKey: env('GEMINI_API_KEY') },
+    openai: { apiKey: env('OPENAI_API_KEY'), baseUrl: env('OPENAI_BASE_URL') },
+    ollama: { baseUrl: env('OLLAMA_BASE_URL') },
+    fake: {},
+  }
+
+  const dimensions = env('EMBEDDING_DIMENSIONS')
+
+  return factory({
+    ...credentials[name as ProviderName],
+    ...models,
+    embeddingDimensions: dimensions ? Number(dimensions) : undefined,
+  })
+}
+
+// Rejects vectors that don't fit the database column. Padding or truncating them would store
+// embeddings that are not comparable with the rest, so a wrong model has to be fixed instead.
+export function checkEmbedding(provider: LLMProvider, values: number[]): number[] {
+  if (values.length === EMBEDDING_DIMENSIONS) return values
+
+  throw new ProviderError(
+    `${provider.embeddingModel} returned ${values.length}-dimensional embeddings, but the database stores ${EMBEDDING_DIMENSIONS}. ` +
+      `Use a ${EMBEDDING_DIMENSIONS}-dimensional embedding model, or set EMBEDDING_DIMENSIONS=${EMBEDDING_DIMENSIONS} if the model can shorten its output.`,
+    provider.name,
+    undefined,
+    true
+  )
+}
+
+// Returns one provider object that embeds with EMBEDDING_PROVIDER and generates with
+// LLM_PROVIDER. Throws a ProviderError when the selected provider is misconfigured.
+export function getLLMProvider(): LLMProvider {
+  const generationName = env('LLM_PROVIDER') || 'gemini'
+  const embeddingName = env('EMBEDDING_PROVIDER') || generationName
+
+  const generator = createProvider(generationName, { generationModel: env('LLM_MODEL') })
+  const embedder =
+    embeddingName === generationName && !env('EMBEDDING_MODEL')
+      ? generator
+      : createProvider(embeddingName, { embeddingModel: env('EMBEDDING_MODEL') })
+
+  return {
+    name: embedder === generator ? generator.name : `${generator.name}+${embedder.name}`,
+    embeddingModel: embedder.embeddingModel,
+    generationModel: generator.generationModel,
+    embed: async (text) => checkEmbedding(embedder, await embedder.embed(text)),
+    embedBatch: async (texts) => (await embedder.embedBatch(texts)).map((values) => checkEmbedding(embedder, values)),
+    generate: (prompt, options) => generator.generate(prompt, options),
+    generateStream: (prompt, options) => generator.generateStream(prompt, options),
+  }
+}
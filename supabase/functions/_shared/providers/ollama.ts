@@ -0,0 +1,64 @@
+// Local Ollama-style provider (http://localhost:11434 by default)
+// nomic-embed-text produces 768-dimensional vectors, matching our embeddings column
+
+import { postJson, readLines } from './http.ts'
+import type { GenerateOptions, LLMProvider, ProviderConfig } from './types.ts'
+
+export function createOllamaProvider(config: ProviderConfig): LLMProvider {
+  const baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/$/, '')
+  const embeddingModel = config.embeddingModel || 'nomic-embed-text'
+  const generationModel = config.generationModel || 'llama3.1'
+
+  function generateBody(prompt: string, options: GenerateOptions = {}, stream = false) {
+    return {
+      model: generationModel,
+      prompt,
+      stream,
+      format: options.json ? 'json' : undefined,
+      options: {
+        temperature: options.temperature,
+        num_predict: options.maxOutputTokens,
+      },
+    }
+  }
+
+  async function embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await postJson('ollama', `${baseUrl}/api/embed`, {
+      model: embeddingModel,
+      input: texts,
+    })
+    const result = await response.json()
+    return result.embeddings as number[][]
+  }
+
+  return {
+    name: 'ollama',
+    embeddingModel,
+    generationModel,
+
+    async embed(text) {
+      const [vector] = await embedBatch([text])
+      return vector
+    },
+
+    embedBatch,
+
+    async generate(prompt, options) {
+      const response = await postJson('ollama', `${baseUrl}/api/generate`, generateBody(prompt, options))
+      const result = await response.json()
+      return result.response ?? ''
+    },
+
+    // Ollama streams newline-delimited JSON objects: { response, done }
+    async *generateStream(prompt, options) {
+      const response = await postJson('ollama', `${baseUrl}/api/generate`, generateBody(prompt, options, true))
+      if (!response.body) return
+
+      for await (const line of readLines(response.body)) {
+        const chunk = JSON.parse(line)
+        if (chunk.response) yield chunk.response
+        if (chunk.done) break
+      }
+    },
+  }
+}
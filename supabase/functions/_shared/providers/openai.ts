@@ -0,0 +1,79 @@
+// OpenAI-compatible provider
+// Works with api.openai.com and any server exposing /v1/embeddings + /v1/chat/completions
+// (vLLM, LM Studio, LocalAI, llama.cpp server, Azure-style gateways, ...)
+
+import { postJson, readLines } from './http.ts'
+import { EMBEDDING_DIMENSIONS, type GenerateOptions, type LLMProvider, type ProviderConfig } from './types.ts'
+
+export function createOpenAIProvider(config: ProviderConfig): LLMProvider {
+  const baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '')
+  const embeddingModel = config.embeddingModel || 'text-embedding-3-small'
+  const generationModel = config.generationModel || 'gpt-4o-mini'
+  // text-embedding-3-* return 1536+ dimensions unless asked to shorten them to the vector(768)
+  // column. Other OpenAI-compatible servers may reject the parameter, so for other models it is
+  // only sent when EMBEDDING_DIMENSIONS is set
+  const dimensions = config.embeddingDimensions ?? (embeddingModel.startsWith('text-embedding-3') ? EMBEDDING_DIMENSIONS : undefined)
+  // Local servers usually don't need a key
+  const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}
+
+  function chatBody(prompt: string, options: GenerateOptions = {}, stream = false) {
+    return {
+      model: generationModel,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: options.temperature,
+      max_tokens: options.maxOutputTokens,
+      response_format: options.json ? { type: 'json_object' } : undefined,
+      stream,
+    }
+  }
+
+  async function embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await postJson(
+      'openai',
+      `${baseUrl}/embeddings`,
+      {
+        model: embeddingModel,
+        input: texts,
+        dimensions,
+      },
+      headers
+    )
+    const result = await response.json()
+    return (result.data as Array<{ index: number; embedding: number[] }>)
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding)
+  }
+
+  return {
+    name: 'openai',
+    embeddingModel,
+    generationModel,
+
+    async embed(text) {
+      const [vector] = await embedBatch([text])
+      return vector
+    },
+
+    embedBatch,
+
+    async generate(prompt, options) {
+      const response = await postJson('openai', `${baseUrl}/chat/completions`, chatBody(prompt, options), headers)
+      const result = await response.json()
+      return result.choices?.[0]?.message?.content ?? ''
+    },
+
+    async *generateStream(prompt, options) {
+      const response = await postJson('openai', `${baseUrl}/chat/completions`, chatBody(prompt, options, true), headers)
+      if (!response.body) return
+
+      for await (const line of readLines(response.body)) {
+        if (!line.startsWith('data:')) continue
+        const data = line.slice(5).trim()
+        if (data === '[DONE]') break
+
+        const text = JSON.parse(data).choices?.[0]?.delta?.content
+        if (text) yield text
+      }
+    },
+  }
+}
@@ -0,0 +1,49 @@
+// Provider abstraction shared by all Edge Functions
+// Every LLM / embedding backend (Gemini, OpenAI-compatible, Ollama, ...) implements this
+
+// Must match the vector(768) columns in embeddings / query_cache
+export const EMBEDDING_DIMENSIONS = 768
+
+export interface GenerateOptions {
+  temperature?: number
+  maxOutputTokens?: number
+  // Ask the model for a JSON object (used for planning, judging, reranking)
+  json?: boolean
+}
+
+export interface LLMProvider {
+  name: string
+  embeddingModel: string
+  generationModel: string
+  embed(text: string): Promise<number[]>
+  embedBatch(texts: string[]): Promise<number[][]>
+  generate(prompt: string, options?: GenerateOptions): Promise<string>
+  generateStream(prompt: string, options?: GenerateOptions): AsyncIterable<string>
+}
+
+export interface ProviderConfig {
+  apiKey?: string
+  baseUrl?: string
+  embeddingModel?: string
+  generationModel?: string
+  embeddingDimensions?: number
+}
+
+// Thrown for non-2xx responses so callers can tell rate limits from hard failures
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public status?: number,
+    // Set for misconfigurations (e.g. a wrong embedding size) that no retry can fix
+    public permanent = false
+  ) {
+    super(message)
+    this.name = 'ProviderError'
+  }
+
+  get retryable(): boolean {
+    if (this.permanent) return false
+    return this.status === undefined || this.status === 429 || this.status >= 500
+  }
+}
@@ -0,0 +1,9 @@
+// Unit test helper: the tests run under Node, where modules that read Edge Function
+// secrets at call time find no Deno global. stubEnv installs a Deno.env backed by the
+// returned Map, so a test can set and clear secrets between cases.
+
+export function stubEnv(values: Record<string, string> = {}): Map<string, string> {
+  const env = new Map(Object.entries(values))
+  Object.assign(globalThis, { Deno: { env: { get: (key: string) => env.get(key) } } })
+  return env
+}
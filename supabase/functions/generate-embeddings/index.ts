@@ -1,15 +1,21 @@
 // Supabase Edge Function: generate-embeddings
 // ✅ ARCHITECTURE: Separation of concerns
-// RESPONSIBILITY: Generate vector embeddings for document chunks using Gemini API
+// RESPONSIBILITY: Generate vector embeddings for document chunks using the configured embedding provider
 // Works on chunks created by process-document function
-// Queries document by ID and embeds all unembedded chunks
+// Queries document by ID and embeds all unembedded chunks, storing each batch as it goes,
+// so a retry by the ingestion worker resumes after the last stored batch.
+// A JSON body of { texts } embeds those texts instead and returns the vectors, so curated FAQ
+// questions are embedded with the same provider and model as the queries they are matched to
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { GoogleGenerativeAI } from 'npm:@google/generative-ai@^0.24.1'
+import { getLLMProvider, ProviderError } from '../_shared/providers/index.ts'
 
 console.log('✅ generate-embeddings initialized')
 
+// Chunks sent to the provider per embedBatch call
+const EMBEDDING_BATCH_SIZE = 20
+
 serve(async (req: Request) => {
   if (req.method !== 'POST') {
     return new Response('Method not allowed', { status: 405 })
@@ -18,6 +24,10 @@ serve(async (req: Request) => {
   const documentId = req.headers.get('X-Document-ID')
 
   try {
+    if (!documentId && req.headers.get('Content-Type')?.includes('application/json')) {
+      return await embedTexts(req)
+    }
+
     if (!documentId) {
       console.error('❌ Missing document ID in header')
       return new Response(
@@ -28,20 +38,19 @@ serve(async (req: Request) => {
 
     console.log(`🤖 Generating embeddings for document: ${documentId}`)
 
-    // Initialize Supabase and Gemini
+    // Initialize Supabase and the embedding provider
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const geminiKey = Deno.env.get('GEMINI_API_KEY')!
 
     const supabase = createClient(supabaseUrl, supabaseKey)
-    const genAI = new GoogleGenerativeAI(geminiKey)
-    const model = genAI.getGenerativeModel({ model: 'models/text-embedding-004' })
+    const llm = getLLMProvider()
+    console.log(`🔌 Embedding provider: ${llm.name} (${llm.embeddingModel})`)
 
-    // ✅ NEW: Get all chunks for this specific document that DON'T have embeddings yet
+    // Step 1: Get the chunks of this document that don't have embeddings yet
     console.log('📦 Step 1: Fetching unembedded chunks from database...')
-    const { data: chunks, error: fetchError } = await supabase
+    const { data: allChunks, error: fetchError } = await supabase
       .from('chunks')
-      .select('id, content, chunk_index')
+      .select('id, content, chunk_index, embeddings(id)')
       .eq('document_id', documentId)
       .order('chunk_index')
 
@@ -49,59 +58,46 @@ serve(async (req: Request) => {
       throw new Error(`Failed to fetch chunks: ${fetchError.message}`)
     }
 
-    if (!chunks || chunks.length === 0) {
+    if (!allChunks || allChunks.length === 0) {
       console.warn(`⚠️  No chunks found for document ${documentId}`)
       throw new Error('No chunks found for this document')
     }
 
-    console.log(`✅ Found ${chunks.length} chunks to embed`)
-
-    // ✅ Step 2: Generate embeddings in batch
-    console.log('🔢 Step 2: Generating embeddings from Gemini...')
-    const embeddings: { chunk_id: string; embedding: number[] }[] = []
-
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i]
-      console.log(`  → Embedding chunk ${i + 1}/${chunks.length} (chunk_index: ${chunk.chunk_index})`)
-
-      try {
-        const result = await model.embedContent(chunk.content)
-        const embedding = result.embedding.values
+    const chunks = allChunks.filter((chunk) => chunk.embeddings.length === 0)
+    let embedded = allChunks.length - chunks.length
+    console.log(`✅ Found ${chunks.length} chunks to embed (${embedded} already embedded)`)
 
-        embeddings.push({
-          chunk_id: chunk.id,
-          embedding: embedding,
-        })
-      } catch (embeddingError) {
-        console.error(`  ❌ Failed to embed chunk ${chunk.id}:`, embeddingError)
-        throw new Error(`Embedding generation failed for chunk ${i}: ${embeddingError}`)
-      }
-    }
+    // Step 2: Generate and store embeddings batch by batch
+    console.log(`🔢 Step 2: Generating embeddings with ${llm.embeddingModel}...`)
+    for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE)
+      console.log(`  → Embedding chunks ${i + 1}-${i + batch.length}/${chunks.length}`)
 
-    console.log(`✅ Generated ${embeddings.length} embeddings`)
-
-    // ✅ Step 3: Store embeddings in database
-    console.log('💾 Step 3: Storing embeddings in database...')
-    for (let i = 0; i < embeddings.length; i++) {
-      const { chunk_id, embedding } = embeddings[i]
+      const vectors = await llm.embedBatch(batch.map((chunk) => chunk.content))
 
       const { error: insertError } = await supabase
         .from('embeddings')
-        .insert({
-          chunk_id: chunk_id,
-          embedding: JSON.stringify(embedding),
-        })
+        .insert(batch.map((chunk, j) => ({
+          chunk_id: chunk.id,
+          embedding: JSON.stringify(vectors[j]),
+        })))
 
       if (insertError) {
-        console.error(`❌ Failed to store embedding for chunk ${chunk_id}:`, insertError)
-        throw new Error(`Failed to store embedding: ${insertError.message}`)
+        console.error(`❌ Failed to store embeddings for chunks ${i}-${i + batch.length - 1}:`, insertError)
+        throw new Error(`Failed to store embeddings: ${insertError.message}`)
       }
+
+      embedded += batch.length
+      await supabase
+        .from('ingestion_jobs')
+        .update({ chunks_total: allChunks.length, chunks_embedded: embedded })
+        .eq('document_id', documentId)
     }
 
-    console.log(`✅ Successfully stored all ${embeddings.length} embeddings`)
+    console.log(`✅ Stored ${chunks.length} embeddings (${embedded}/${allChunks.length} chunks embedded)`)
 
-    // ✅ Step 4: Update document status to completed
-    console.log('📝 Step 4: Updating document status to completed...')
+    // ✅ Step 3: Update document status to completed
+    console.log('📝 Step 3: Updating document status to completed...')
     const { error: updateError } = await supabase
       .from('documents')
       .update({ status: 'completed' })
@@ -118,7 +114,8 @@ serve(async (req: Request) => {
       JSON.stringify({
         success: true,
         documentId,
-        embeddingsGenerated: embeddings.length,
+        embeddingsGenerated: chunks.length,
+        chunksEmbedded: embedded,
         status: 'completed',
       }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -127,26 +124,38 @@ serve(async (req: Request) => {
   } catch (error) {
     console.error('❌ Embedding generation error:', error)
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-
-    // Update document status to failed
-    try {
-      if (documentId) {
-        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-        const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-        const supabase = createClient(supabaseUrl, supabaseKey)
-
-        await supabase
-          .from('documents')
-          .update({ status: 'failed', error_message: errorMessage })
-          .eq('id', documentId)
-      }
-    } catch {
-      console.error('❌ Failed to update document status on error')
-    }
+    // Rate limits and provider outages are retried by the ingestion worker; other provider
+    // rejections (bad API key, unknown model) are not
+    const retryable = !(error instanceof ProviderError) || error.retryable
 
     return new Response(
-      JSON.stringify({ error: errorMessage }),
+      JSON.stringify({ error: errorMessage, retryable }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
     )
   }
 })
+
+// Embed the texts of a { texts: string[] } body and return the vectors in the same order
+async function embedTexts(req: Request): Promise<Response> {
+  const { texts } = await req.json().catch(() => ({}))
+
+  if (!Array.isArray(texts) || texts.length === 0 || !texts.every((text) => typeof text === 'string')) {
+    return new Response(
+      JSON.stringify({ error: 'texts must be a non-empty array of strings' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const llm = getLLMProvider()
+  console.log(`🔢 Embedding ${texts.length} text(s) with ${llm.name} (${llm.embeddingModel})`)
+
+  const embeddings: number[][] = []
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    embeddings.push(...await llm.embedBatch(texts.slice(i, i + EMBEDDING_BATCH_SIZE)))
+  }
+
+  return new Response(
+    JSON.stringify({ embeddings, model: llm.embeddingModel }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  )
+}
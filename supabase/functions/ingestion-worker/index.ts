@@ -0,0 +1,200 @@
+// Supabase Edge Function: ingestion-worker
+// ✅ ARCHITECTURE: Separation of concerns
+// RESPONSIBILITY: Drain the ingestion_jobs queue. Claims the next due job, runs its current
+// stage (parse and chunk in process-document, embed in generate-embeddings) and moves it to
+// the next stage, or schedules a retry of the same stage with exponential backoff (retry.ts).
+// Invoked after every upload and on a schedule (see README), which picks up the retries.
+// Answers 202 right away and drains in the background, so callers are not held open for the
+// whole run; a body of { "wait": true } waits for the run and returns what it processed.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { failureMessage, retryDelaySeconds, shouldRetry } from './retry.ts'
+
+// Supabase Edge Runtime global: keeps the function alive for work after the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
+
+console.log('✅ ingestion-worker initialized')
+
+type Stage = 'parse' | 'chunk' | 'embed'
+
+interface ClaimedJob {
+  id: string
+  document_id: string
+  stage: Stage
+  attempts: number
+  max_attempts: number
+}
+
+const STAGE_FUNCTIONS: Record<Stage, string> = {
+  parse: 'process-document',
+  chunk: 'process-document',
+  embed: 'generate-embeddings',
+}
+
+const NEXT_STAGE: Record<Stage, Stage | 'done'> = {
+  parse: 'chunk',
+  chunk: 'embed',
+  embed: 'done',
+}
+
+// No new job is claimed after this, to finish within the Edge Function wall-clock limit
+const RUN_BUDGET_MS = 100_000
+// A running job locked for longer than this belonged to a worker that died
+const LEASE_SECONDS = 600
+
+serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const { wait } = await req.json().catch(() => ({}))
+
+    if (wait !== true) {
+      EdgeRuntime.waitUntil(
+        drainQueue(supabase, supabaseUrl, supabaseKey).catch(error => console.error('❌ Ingestion worker error:', error))
+      )
+      return new Response(
+        JSON.stringify({ success: true, started: true }),
+        { status: 202, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const processed = await drainQueue(supabase, supabaseUrl, supabaseKey)
+
+    return new Response(
+      JSON.stringify({ success: true, processed }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('❌ Ingestion worker error:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+// Claim and run due jobs until the queue is empty or the run budget is spent
+async function drainQueue(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  serviceRoleKey: string
+): Promise<{ documentId: string; stage: Stage; outcome: string }[]> {
+  const started = Date.now()
+  const processed: { documentId: string; stage: Stage; outcome: string }[] = []
+
+  while (Date.now() - started < RUN_BUDGET_MS) {
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_ingestion_job', {
+      p_lease_seconds: LEASE_SECONDS,
+    })
+
+    if (claimError) {
+      throw new Error(`Failed to claim a job: ${claimError.message}`)
+    }
+
+    const job = (claimed as ClaimedJob[] | null)?.[0]
+    if (!job) break
+
+    console.log(`🔧 Document ${job.document_id}: ${job.stage} (attempt ${job.attempts}/${job.max_attempts})`)
+    const outcome = await runStage(supabase, supabaseUrl, serviceRoleKey, job)
+    processed.push({ documentId: job.document_id, stage: job.stage, outcome })
+  }
+
+  console.log(`✅ Processed ${processed.length} stage(s) in ${Date.now() - started}ms`)
+  return processed
+}
+
+// Run one stage of a claimed job and record the result; returns the outcome for the response
+async function runStage(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  job: ClaimedJob
+): Promise<string> {
+  let errorMessage: string
+  let retryable = true
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/${STAGE_FUNCTIONS[job.stage]}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${serviceRoleKey}`,
+        'X-Document-ID': job.document_id,
+        'X-Stage': job.stage,
+      },
+    })
+    const result = await response.json().catch(() => ({}))
+
+    if (response.ok) {
+      await advance(supabase, job)
+      return NEXT_STAGE[job.stage]
+    }
+
+    errorMessage = result.error || `${STAGE_FUNCTIONS[job.stage]} returned ${response.status}`
+    retryable = result.retryable !== false
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Unknown error'
+  }
+
+  console.error(`❌ ${job.stage} failed for ${job.document_id}: ${errorMessage}`)
+
+  if (!shouldRetry(job, retryable)) {
+    await supabase
+      .from('ingestion_jobs')
+      .update({ status: 'failed', locked_at: null, last_error: errorMessage })
+      .eq('id', job.id)
+
+    await supabase
+      .from('documents')
+      .update({ status: 'failed', error_message: failureMessage(job.stage, job.attempts, errorMessage) })
+      .eq('id', job.document_id)
+
+    return 'failed'
+  }
+
+  const delaySeconds = retryDelaySeconds(job.attempts)
+  await supabase
+    .from('ingestion_jobs')
+    .update({
+      status: 'retrying',
+      locked_at: null,
+      last_error: errorMessage,
+      next_run_at: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+    })
+    .eq('id', job.id)
+
+  return 'retrying'
+}
+
+// Queue the job's next stage, or complete it after the embed stage
+async function advance(supabase: SupabaseClient, job: ClaimedJob) {
+  const next = NEXT_STAGE[job.stage]
+
+  const update = next === 'done'
+    ? {
+        stage: 'done',
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        // The chunks are stored; the parsed text is no longer needed
+        parsed_text: null,
+        page_starts: null,
+      }
+    : { stage: next, status: 'queued', attempts: 0, next_run_at: new Date().toISOString() }
+
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update({ ...update, locked_at: null, last_error: null })
+    .eq('id', job.id)
+
+  if (error) {
+    throw new Error(`Failed to advance job ${job.id}: ${error.message}`)
+  }
+}
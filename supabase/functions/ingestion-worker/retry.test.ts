@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { failureMessage, retryDelaySeconds, shouldRetry } from './retry.ts'
+
+// random() values giving the shortest, unjittered and longest delay
+const SHORTEST = () => 0
+const EXACT = () => 0.5
+const LONGEST = () => 1
+
+describe('shouldRetry', () => {
+  it('retries while the job has attempts left', () => {
+    assert.equal(shouldRetry({ attempts: 1, max_attempts: 5 }, true), true)
+    assert.equal(shouldRetry({ attempts: 4, max_attempts: 5 }, true), true)
+  })
+
+  it('gives up once the last attempt failed', () => {
+    assert.equal(shouldRetry({ attempts: 5, max_attempts: 5 }, true), false)
+  })
+
+  it('gives up when attempts went past the limit', () => {
+    // A lowered max_attempts, or a lease that expired mid-run and was claimed again
+    assert.equal(shouldRetry({ attempts: 7, max_attempts: 5 }, true), false)
+  })
+
+  it('never retries errors the stage marks as not retryable', () => {
+    assert.equal(shouldRetry({ attempts: 1, max_attempts: 5 }, false), false)
+  })
+
+  it('never retries a job allowed a single attempt', () => {
+    assert.equal(shouldRetry({ attempts: 1, max_attempts: 1 }, true), false)
+  })
+})
+
+describe('retryDelaySeconds', () => {
+  it('doubles from 30 seconds with every failed attempt', () => {
+    assert.deepEqual([1, 2, 3, 4].map((attempts) => retryDelaySeconds(attempts, EXACT)), [30, 60, 120, 240])
+  })
+
+  it('is capped at 30 minutes', () => {
+    assert.equal(retryDelaySeconds(7, EXACT), 1800)
+    assert.equal(retryDelaySeconds(40, EXACT), 1800)
+  })
+
+  it('varies by at most 20% either way', () => {
+    assert.equal(Math.round(retryDelaySeconds(2, SHORTEST)), 48)
+    assert.equal(Math.round(retryDelaySeconds(2, LONGEST)), 72)
+    assert.equal(Math.round(retryDelaySeconds(40, LONGEST)), 2160)
+  })
+
+  it('treats a job that never counted an attempt like its first failure', () => {
+    assert.equal(retryDelaySeconds(0, EXACT), 30)
+  })
+
+  it('uses Math.random by default', () => {
+    const delay = retryDelaySeconds(1)
+    assert.ok(delay >= 24 && delay <= 36, String(delay))
+  })
+})
+
+describe('failureMessage', () => {
+  it('names the stage, the attempts and the error', () => {
+    assert.equal(failureMessage('embed', 5, 'rate limited'), 'embed failed after 5 attempts: rate limited')
+  })
+
+  it('uses the singular for a single attempt', () => {
+    assert.equal(failureMessage('parse', 1, 'Unsupported file type'), 'parse failed after 1 attempt: Unsupported file type')
+  })
+})
@@ -0,0 +1,31 @@
+// Retry policy of the ingestion queue
+// A failed stage is retried after 30s, 60s, 120s, ... (capped at 30 minutes) until the job
+// has used max_attempts; a stage that reports its error as not retryable (e.g. an
+// unsupported file) fails the document right away.
+
+export interface JobAttempts {
+  // Attempts made at the current stage, including the one that just failed
+  attempts: number
+  max_attempts: number
+}
+
+const RETRY_BASE_SECONDS = 30
+const RETRY_MAX_SECONDS = 30 * 60
+// Delays vary by ±20%
+const JITTER = 0.2
+
+export function shouldRetry(job: JobAttempts, retryable: boolean): boolean {
+  return retryable && job.attempts < job.max_attempts
+}
+
+// Seconds until the next attempt. Jitter spreads out retries of documents that hit the same
+// rate limit together; `random` is Math.random outside tests.
+export function retryDelaySeconds(attempts: number, random: () => number = Math.random): number {
+  const delay = Math.min(RETRY_BASE_SECONDS * 2 ** (Math.max(attempts, 1) - 1), RETRY_MAX_SECONDS)
+  return delay * (1 - JITTER + random() * 2 * JITTER)
+}
+
+// error_message of a document whose job gave up
+export function failureMessage(stage: string, attempts: number, error: string): string {
+  return `${stage} failed after ${attempts === 1 ? '1 attempt' : `${attempts} attempts`}: ${error}`
+}
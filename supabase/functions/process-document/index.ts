@@ -1,40 +1,64 @@
 // Supabase Edge Function for processing documents
 // FOCUSED RESPONSIBILITY: Parse files and create text chunks ONLY
 // ✅ ARCHITECTURE: Separation of concerns
-// - This function: Parse + Chunk only
+// - This function: Parse + Chunk only, one stage per request (X-Stage: parse | chunk)
 // - generate-embeddings: Embedding generation only
+// - ingestion-worker: Runs the stages of queued documents, with retries
 // - query-rag: Query handling and answers only
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { default as pdfParse } from 'npm:pdf-parse@1.1.1'
 import mammoth from 'npm:mammoth@1.8.0'
-import * as XLSX from 'npm:xlsx@0.18.5'
+import type { WorkBook } from 'xlsx'
+import { cellText, extractTables, readWorkbook, sheetRows, storeTables } from './tables.ts'
 
 console.log('✅ process-document Edge Function initialized')
 
+// Chunking settings (override with the CHUNK_SIZE / CHUNK_OVERLAP secrets when tuning retrieval)
+const CHUNK_SIZE = Number(Deno.env.get('CHUNK_SIZE')) || 1000
+const CHUNK_OVERLAP = Number(Deno.env.get('CHUNK_OVERLAP')) || 200
+const CHUNK_INSERT_BATCH_SIZE = 100
+
+// Where a chunk came from, so the document viewer can open the original at that spot
+interface ChunkMetadata {
+  // Text/PDF/DOCX: offsets of the chunk's own text (overlap excluded) in the extracted text
+  start_offset?: number
+  end_offset?: number
+  // PDF: 1-based pages the chunk spans
+  page_start?: number
+  page_end?: number
+  // Text/PDF/DOCX: nearest heading before the chunk (parent section for retrieval expansion)
+  section?: string
+  // Spreadsheets: sheet name and data row numbers (ROW n, header row excluded)
+  sheet?: string
+  row_start?: number
+  row_end?: number
+}
+
+interface TextChunk {
+  content: string
+  metadata: ChunkMetadata
+}
+
 serve(async (req: Request) => {
   // Only accept POST requests
   if (req.method !== 'POST') {
     return new Response('Method not allowed', { status: 405 })
   }
 
-  try {
-    const documentId = req.headers.get('X-Document-ID')
-    const fileType = req.headers.get('X-File-Type')
-    
-    console.log(`📄 Processing document: ${documentId}, type: ${fileType}`)
+  const documentId = req.headers.get('X-Document-ID')
+  const stage = req.headers.get('X-Stage')
 
-    if (!documentId) {
+  try {
+    if (!documentId || (stage !== 'parse' && stage !== 'chunk')) {
       return new Response(
-        JSON.stringify({ error: 'Missing document ID' }),
+        JSON.stringify({ error: 'Missing document ID or stage (X-Stage: parse | chunk)' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       )
     }
 
-    // Read file buffer
-    const buffer = await req.arrayBuffer()
-    console.log(`📦 Received ${buffer.byteLength} bytes`)
+    console.log(`📄 Processing document: ${documentId}, stage: ${stage}`)
 
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')
@@ -46,183 +70,337 @@ serve(async (req: Request) => {
 
     const supabase = createClient(supabaseUrl, supabaseKey)
 
-    // STEP 1: Parse document text
-    console.log('🔍 Step 1: Parsing document...')
-    let text: string
-
-    if (fileType?.includes('pdf')) {
-      const pdfData = await pdfParse(new Uint8Array(buffer))
-      text = pdfData.text
-      console.log(`✅ Extracted ${text.length} characters from PDF`)
-    } else if (fileType?.includes('wordprocessingml')) {
-      // DOCX file
-      const result = await mammoth.extractRawText({ buffer: new Uint8Array(buffer) })
-      text = result.value
-      console.log(`✅ Extracted ${text.length} characters from DOCX`)
-    } else if (fileType?.includes('text') || fileType?.includes('plain') || fileType?.includes('csv')) {
-      text = new TextDecoder().decode(buffer)
-      console.log(`✅ Read ${text.length} characters from text/CSV file`)
-    } else if (fileType?.includes('spreadsheet') || fileType?.includes('sheet') || fileType?.includes('excel')) {
-      // Parse Excel files as STRUCTURED DATA (inspired by Pandas DataFrame approach)
-      try {
-        const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array' })
-        let excelText = ''
-
-        // Process all sheets with structured data extraction
-        for (const sheetName of workbook.SheetNames) {
-          const worksheet = workbook.Sheets[sheetName]
-          
-          // Convert sheet to JSON to preserve structure (like Pandas DataFrame)
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-            header: 1, // Keep as array of arrays
-            defval: '', // Default empty cells to empty string
-            blankrows: false // Skip blank rows
-          })
-
-          if (!jsonData || jsonData.length === 0) {
-            console.warn(`Sheet "${sheetName}" is empty, skipping...`)
-            continue
-          }
+    const result = stage === 'parse'
+      ? await parseDocument(supabase, documentId)
+      : await chunkDocument(supabase, documentId)
 
-          // Build structured text representation
-          excelText += `\n\n=== SHEET: ${sheetName} ===\n`
-          
-          // Get headers (first row)
-          const headers = jsonData[0] as any[]
-          if (!headers || headers.length === 0) {
-            console.warn(`Sheet "${sheetName}" has no headers, skipping...`)
-            continue
-          }
+    return new Response(
+      JSON.stringify({ success: true, documentId, stage, ...result }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
 
-          excelText += `COLUMNS: ${headers.join(' | ')}\n`
-          excelText += `${'='.repeat(80)}\n`
-
-          // Process data rows (skip header row)
-          for (let i = 1; i < jsonData.length; i++) {
-            const row = jsonData[i] as any[]
-            
-            // Create row text with column labels for better semantic understanding
-            const rowParts: string[] = []
-            for (let j = 0; j < headers.length; j++) {
-              const header = headers[j]
-              const value = row[j] !== undefined && row[j] !== null ? row[j] : ''
-              rowParts.push(`${header}: ${value}`)
-            }
-            
-            excelText += `ROW ${i}: ${rowParts.join(', ')}\n`
-          }
-        }
+  } catch (error) {
+    console.error(`❌ ${stage ?? 'Processing'} error:`, error)
+    
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    // The ingestion worker retries the stage unless the file itself cannot be processed
+    const retryable = !(error instanceof ContentError)
 
-        if (excelText.trim().length === 0) {
-          throw new Error('No content found in Excel file - all sheets are empty')
-        }
+    return new Response(
+      JSON.stringify({ error: errorMessage, retryable }),
+      { status: retryable ? 500 : 422, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+})
 
-        text = excelText
-        console.log(`✅ Extracted ${text.length} characters from Excel file (${workbook.SheetNames.length} sheet(s) with structured data)`)
-      } catch (excelError) {
-        console.error('Excel parsing error:', excelError)
-        throw new Error('Failed to parse Excel file. Please ensure it contains readable data.')
-      }
-    } else {
-      throw new Error(`Unsupported file type: ${fileType}`)
-    }
+// The file cannot be processed as uploaded (unsupported, empty or unreadable); retrying won't help
+class ContentError extends Error {}
+
+// Parse stage: extract the text of the stored file into the document's ingestion job
+async function parseDocument(supabase: SupabaseClient, documentId: string) {
+  const { data: document, error: docError } = await supabase
+    .from('documents')
+    .select('file_type, storage_path')
+    .eq('id', documentId)
+    .single()
 
-    if (!text || text.trim().length === 0) {
-      throw new Error('No text could be extracted from document')
+  if (docError || !document) {
+    throw new Error(`Document not found: ${docError?.message ?? documentId}`)
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from('documents')
+    .download(document.storage_path)
+
+  if (downloadError || !file) {
+    throw new Error(`Failed to download ${document.storage_path}: ${downloadError?.message ?? 'file not found'}`)
+  }
+
+  const buffer = await file.arrayBuffer()
+  const fileType: string = document.file_type
+  console.log(`📦 Downloaded ${buffer.byteLength} bytes`)
+
+  console.log('🔍 Step 1: Parsing document...')
+  // Spreadsheets are read once, for the text and for the typed tables
+  const isSpreadsheet = !fileType.includes('csv') &&
+    (fileType.includes('spreadsheet') || fileType.includes('sheet') || fileType.includes('excel'))
+  let workbook: WorkBook | null = null
+  if (isSpreadsheet) {
+    try {
+      workbook = readWorkbook(buffer)
+    } catch (excelError) {
+      console.error('Excel parsing error:', excelError)
+      throw new ContentError('Failed to parse Excel file. Please ensure it contains readable data.')
     }
+  }
 
-    // STEP 2: Chunk text into manageable pieces
-    console.log('✂️ Step 2: Chunking text...')
-    const chunks = chunkText(text)
-    console.log(`✅ Created ${chunks.length} chunks`)
+  const { text, pageStarts } = workbook ? { text: extractSpreadsheetText(workbook), pageStarts: null } : await extractText(buffer, fileType)
 
-    if (chunks.length === 0) {
-      throw new Error('Failed to create text chunks')
+  if (!text || text.trim().length === 0) {
+    throw new ContentError('No text could be extracted from document')
+  }
+
+  // Spreadsheets are also stored as typed tables for aggregation questions.
+  // A failure here only costs structured answers; the text is still chunked.
+  let tablesStored = 0
+  if (workbook) {
+    try {
+      const tables = extractTables(workbook)
+      const rowCount = await storeTables(supabase, documentId, tables)
+      tablesStored = tables.length
+      console.log(`✅ Stored ${tables.length} table(s) with ${rowCount} typed rows`)
+    } catch (tableError) {
+      console.error('⚠️ Storing spreadsheet tables failed:', (tableError as Error).message)
     }
+  }
 
-    // Step 3: Store chunks in database (embeddings will be generated separately)
-    console.log('💾 Step 3: Storing chunks in database...')
-    for (let i = 0; i < chunks.length; i++) {
-      const { data: chunk, error: chunkError } = await supabase
-        .from('chunks')
-        .insert({
-          document_id: documentId,
-          content: chunks[i],
-          chunk_index: i,
-        })
-        .select()
-        .single()
-
-      if (chunkError) {
-        console.error(`❌ Chunk insert error at index ${i}:`, chunkError)
-        throw new Error(`Failed to store chunk ${i}: ${chunkError.message}`)
-      }
+  const { error: saveError } = await supabase
+    .from('ingestion_jobs')
+    .update({ parsed_text: text, page_starts: pageStarts })
+    .eq('document_id', documentId)
+
+  if (saveError) {
+    throw new Error(`Failed to save parsed text: ${saveError.message}`)
+  }
+
+  console.log(`✅ Document ${documentId} parsed (${text.length} characters)`)
+  return { characters: text.length, tablesStored }
+}
+
+// Chunk stage: split the parsed text and replace the document's chunks
+async function chunkDocument(supabase: SupabaseClient, documentId: string) {
+  const { data: job, error: jobError } = await supabase
+    .from('ingestion_jobs')
+    .select('parsed_text, page_starts')
+    .eq('document_id', documentId)
+    .single()
+
+  if (jobError || !job?.parsed_text) {
+    throw new Error(`No parsed text for document ${documentId}; run the parse stage first`)
+  }
+
+  const text: string = job.parsed_text
+  const pageStarts: number[] | null = job.page_starts
+
+  console.log('✂️ Step 2: Chunking text...')
+  const chunks = chunkText(text, CHUNK_SIZE, CHUNK_OVERLAP)
+  if (pageStarts) {
+    for (const chunk of chunks) {
+      chunk.metadata.page_start = pageAt(pageStarts, chunk.metadata.start_offset ?? 0)
+      chunk.metadata.page_end = pageAt(pageStarts, Math.max(0, (chunk.metadata.end_offset ?? 1) - 1))
     }
+  }
+  const headings = findHeadings(text)
+  for (const chunk of chunks) {
+    const section = sectionAt(headings, chunk.metadata.start_offset)
+    if (section) chunk.metadata.section = section
+  }
+  console.log(`✅ Created ${chunks.length} chunks (size: ${CHUNK_SIZE}, overlap: ${CHUNK_OVERLAP})`)
+
+  if (chunks.length === 0) {
+    throw new ContentError('Failed to create text chunks')
+  }
 
-    console.log(`✅ Successfully stored all ${chunks.length} chunks`)
+  // Chunks of an earlier, interrupted attempt are replaced (their embeddings cascade)
+  const { error: clearError } = await supabase.from('chunks').delete().eq('document_id', documentId)
+  if (clearError) {
+    throw new Error(`Failed to clear old chunks: ${clearError.message}`)
+  }
 
-    // Step 4: Update document status to chunks_created (embedding generation happens next)
-    console.log('📝 Step 4: Updating document status to chunks_created...')
-    const { error: updateError } = await supabase
-      .from('documents')
-      .update({ status: 'chunks_created' })
-      .eq('id', documentId)
+  // Store chunks (embeddings are generated by the embed stage)
+  console.log('💾 Step 3: Storing chunks in database...')
+  for (let i = 0; i < chunks.length; i += CHUNK_INSERT_BATCH_SIZE) {
+    const batch = chunks.slice(i, i + CHUNK_INSERT_BATCH_SIZE).map((chunk, j) => ({
+      document_id: documentId,
+      content: chunk.content,
+      chunk_index: i + j,
+      metadata: chunk.metadata,
+    }))
+    const { error: chunkError } = await supabase.from('chunks').insert(batch)
 
-    if (updateError) {
-      throw new Error(`Failed to update document status: ${updateError.message}`)
+    if (chunkError) {
+      console.error(`❌ Chunk insert error at index ${i}:`, chunkError)
+      throw new Error(`Failed to store chunks ${i}-${i + batch.length - 1}: ${chunkError.message}`)
     }
+  }
 
-    console.log(`✅ Document ${documentId} parsed and chunked successfully`)
-    console.log(`📊 Status update: chunks_created (embeddings will be generated next)`)
+  console.log(`✅ Successfully stored all ${chunks.length} chunks`)
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        documentId,
-        chunksStored: chunks.length,
-        nextStep: 'embeddings will be generated by generate-embeddings function',
-      }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } }
-    )
+  console.log('📝 Step 4: Updating document status to chunks_created...')
+  // The chunking settings are kept with the document so evaluation runs can report them
+  const chunking = { size: CHUNK_SIZE, overlap: CHUNK_OVERLAP }
+  const { error: updateError } = await supabase
+    .from('documents')
+    .update({ status: 'chunks_created', chunking })
+    .eq('id', documentId)
 
-  } catch (error) {
-    console.error('❌ Processing error:', error)
-    
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    
-    // Try to update document status to failed
-    try {
-      const documentId = req.headers.get('X-Document-ID')
-      if (documentId) {
-        const supabaseUrl = Deno.env.get('SUPABASE_URL')
-        const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-        
-        if (supabaseUrl && supabaseKey) {
-          const supabase = createClient(supabaseUrl, supabaseKey)
-          await supabase
-            .from('documents')
-            .update({
-              status: 'failed',
-              error_message: errorMessage,
-            })
-            .eq('id', documentId)
+  if (updateError) {
+    throw new Error(`Failed to update document status: ${updateError.message}`)
+  }
+
+  await supabase
+    .from('ingestion_jobs')
+    .update({ chunks_total: chunks.length, chunks_embedded: 0 })
+    .eq('document_id', documentId)
+
+  console.log(`✅ Document ${documentId} chunked (embeddings are generated next)`)
+  return { chunksStored: chunks.length, chunking }
+}
+
+// Text of the file; for PDFs also the offset where each page starts
+async function extractText(buffer: ArrayBuffer, fileType: string): Promise<{ text: string; pageStarts: number[] | null }> {
+  let text: string
+  // PDF only: offset in `text` where each page starts
+  let pageStarts: number[] | null = null
+
+  if (fileType.includes('pdf')) {
+    // Render pages ourselves (same text layout as pdf-parse's default) to know the page boundaries
+    const pageTexts: string[] = []
+    await pdfParse(new Uint8Array(buffer), {
+      pagerender: async (pageData: any) => {
+        const content = await pageData.getTextContent()
+        let lastY: number | undefined
+        let pageText = ''
+        for (const item of content.items) {
+          pageText += lastY === undefined || lastY === item.transform[5] ? item.str : '\n' + item.str
+          lastY = item.transform[5]
         }
+        pageTexts.push(pageText)
+        return pageText
+      },
+    })
+
+    pageStarts = []
+    text = ''
+    for (const pageText of pageTexts) {
+      if (text) text += '\n\n'
+      pageStarts.push(text.length)
+      text += pageText
+    }
+    console.log(`✅ Extracted ${text.length} characters from PDF (${pageTexts.length} pages)`)
+  } else if (fileType.includes('wordprocessingml')) {
+    // DOCX file
+    const result = await mammoth.extractRawText({ buffer: new Uint8Array(buffer) })
+    text = result.value
+    console.log(`✅ Extracted ${text.length} characters from DOCX`)
+  } else if (fileType.includes('text') || fileType.includes('plain') || fileType.includes('csv')) {
+    text = new TextDecoder().decode(buffer)
+    console.log(`✅ Read ${text.length} characters from text/CSV file`)
+  } else {
+    throw new ContentError(`Unsupported file type: ${fileType}`)
+  }
+
+
+  return { text, pageStarts }
+}
+
+// Parse Excel files as STRUCTURED DATA (inspired by Pandas DataFrame approach)
+function extractSpreadsheetText(workbook: WorkBook): string {
+  let excelText = ''
+
+  // Process all sheets with structured data extraction
+  for (const sheetName of workbook.SheetNames) {
+    // Array of arrays, like a Pandas DataFrame (same rows as the typed tables)
+    const jsonData = sheetRows(workbook, sheetName)
+
+    if (jsonData.length === 0) {
+      console.warn(`Sheet "${sheetName}" is empty, skipping...`)
+      continue
+    }
+
+    // Build structured text representation
+    excelText += `\n\n=== SHEET: ${sheetName} ===\n`
+
+    // Get headers (first row)
+    const headers = jsonData[0]
+    if (!headers || headers.length === 0) {
+      console.warn(`Sheet "${sheetName}" has no headers, skipping...`)
+      continue
+    }
+
+    excelText += `COLUMNS: ${headers.map(cellText).join(' | ')}\n`
+    excelText += `${'='.repeat(80)}\n`
+
+    // Process data rows (skip header row)
+    for (let i = 1; i < jsonData.length; i++) {
+      const row = jsonData[i]
+
+      // Create row text with column labels for better semantic understanding
+      const rowParts: string[] = []
+      for (let j = 0; j < headers.length; j++) {
+        rowParts.push(`${cellText(headers[j])}: ${cellText(row[j])}`)
       }
-    } catch (updateError) {
-      console.error('Failed to update document status:', updateError)
+
+      excelText += `ROW ${i}: ${rowParts.join(', ')}\n`
     }
+  }
 
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
+  if (excelText.trim().length === 0) {
+    throw new ContentError('No content found in Excel file - all sheets are empty')
+  }
+
+  console.log(`✅ Extracted ${excelText.length} characters from Excel file (${workbook.SheetNames.length} sheet(s) with structured data)`)
+  return excelText
+}
+
+// 1-based page containing the given offset of the extracted PDF text
+function pageAt(pageStarts: number[], offset: number): number {
+  let page = 1
+  for (let i = 0; i < pageStarts.length && pageStarts[i] <= offset; i++) {
+    page = i + 1
+  }
+  return page
+}
+
+// Lines that look like headings: markdown "#", numbered ("2.1 Leave policy", "Section 4"),
+// ALL CAPS, or a short Title Case line on its own. Spreadsheet text is skipped (sheets are
+// their own sections).
+function findHeadings(text: string): { offset: number; title: string }[] {
+  if (text.includes('=== SHEET:')) return []
+
+  const headings: { offset: number; title: string }[] = []
+  let offset = 0
+  let previousBlank = true
+  for (const line of text.split('\n')) {
+    const title = line.trim().replace(/^#{1,6}\s+/, '')
+    const words = title.split(/\s+/)
+    const isHeading = title.length >= 3 && title.length <= 80 && /[a-z]/i.test(title) && !/[.,;]$/.test(title) && (
+      /^#{1,6}\s/.test(line.trim()) ||
+      /^((\d+\.)+\d*|\d+|[IVX]+\.|(chapter|section|article|part)\s+[\dIVX]+)\s+\S/i.test(title) ||
+      (title === title.toUpperCase() && /[A-Z]{3}/.test(title)) ||
+      (previousBlank && words.length <= 8 && words.every(w => /^[A-Z0-9&(]/.test(w) || /^(a|an|and|at|by|for|in|of|on|or|the|to|with)$/.test(w)))
     )
+    if (isHeading) headings.push({ offset: offset + line.indexOf(title), title: title.replace(/:$/, '') })
+    previousBlank = title.length === 0
+    offset += line.length + 1
   }
-})
+  return headings
+}
+
+// Title of the last heading at or before the given offset
+function sectionAt(headings: { offset: number; title: string }[], offset: number | undefined): string | undefined {
+  if (offset === undefined) return undefined
+  let section: string | undefined
+  for (let i = 0; i < headings.length && headings[i].offset <= offset; i++) {
+    section = headings[i].title
+  }
+  return section
+}
+
+// Sheet name and ROW n range of a spreadsheet chunk
+function spreadsheetMetadata(chunk: string): ChunkMetadata {
+  const sheet = chunk.match(/^=== SHEET: (.+?) ===/m)?.[1]
+  const rows = [...chunk.matchAll(/^ROW (\d+):/gm)].map(m => Number(m[1]))
+  return {
+    ...(sheet && { sheet }),
+    ...(rows.length > 0 && { row_start: Math.min(...rows), row_end: Math.max(...rows) }),
+  }
+}
 
 // Helper function to intelligently chunk text
 // Implements semantic chunking for spreadsheets (inspired by P&G case study)
-function chunkText(text: string, maxChunkSize = 1000, overlap = 200): string[] {
-  const chunks: string[] = []
+function chunkText(text: string, maxChunkSize = 1000, overlap = 200): TextChunk[] {
+  const chunks: TextChunk[] = []
   
   // Detect if this is spreadsheet data
   const isSpreadsheetData = text.includes('=== SHEET:')
@@ -231,6 +409,9 @@ function chunkText(text: string, maxChunkSize = 1000, overlap = 200): string[] {
     // SPREADSHEET-SPECIFIC CHUNKING STRATEGY
     // Split by sheets first, then chunk each sheet intelligently
     const sheetSections = text.split(/(?==== SHEET:)/g).filter(s => s.trim().length > 0)
+    const pushChunk = (content: string) => {
+      chunks.push({ content: content.trim(), metadata: spreadsheetMetadata(content) })
+    }
     
     for (const section of sheetSections) {
       const lines = section.split('\n').filter(l => l.trim().length > 0)
@@ -266,7 +447,7 @@ function chunkText(text: string, maxChunkSize = 1000, overlap = 200): string[] {
         if (line.startsWith('ROW')) {
           // If adding this row exceeds max size, save current chunk
           if (currentChunk.length + line.length > maxChunkSize && rowCount > 0) {
-            chunks.push(currentChunk.trim())
+            pushChunk(currentChunk)
             // Start new chunk with headers
             currentChunk = sheetHeader + '\n' + columnInfo + '\n' + line + '\n'
             rowCount = 1
@@ -281,57 +462,74 @@ function chunkText(text: string, maxChunkSize = 1000, overlap = 200): string[] {
       
       // Save last chunk for this sheet
       if (currentChunk.trim().length > sheetHeader.length + columnInfo.length) {
-        chunks.push(currentChunk.trim())
+        pushChunk(currentChunk)
       }
     }
     
-    return chunks.filter(c => c.length > 0)
+    return chunks.filter(c => c.content.length > 0)
   }
   
   // REGULAR TEXT/PDF CHUNKING STRATEGY
-  // For non-spreadsheet data, split by sentences for prose
-  let parts: string[] = []
-  
-  // For regular text/PDFs, split by sentences
-  parts = text.match(/[^.!?\n]+[.!?\n]+/g) || [text]
+  // For non-spreadsheet data, split by sentences for prose.
+  // Offsets track each chunk's own text in `text` (overlap words are not counted).
+  const matches = [...text.matchAll(/[^.!?\n]+[.!?\n]+/g)]
+  const parts = matches.length > 0
+    ? matches.map(m => ({ text: m[0], index: m.index! }))
+    : [{ text, index: 0 }]
   
   let currentChunk = ''
+  let currentStart = 0
+  let currentEnd = 0
+
+  const pushChunk = (content: string, start: number, end: number) => {
+    chunks.push({ content: content.trim(), metadata: { start_offset: start, end_offset: end } })
+  }
   
   for (const part of parts) {
-    const trimmedPart = part.trim()
+    const trimmedPart = part.text.trim()
     if (!trimmedPart) continue
+    const partStart = part.index + part.text.indexOf(trimmedPart)
+    const partEnd = partStart + trimmedPart.length
     
     // If this part alone is larger than maxChunkSize, split it further
     if (trimmedPart.length > maxChunkSize) {
       // Save current chunk if it has content
       if (currentChunk.trim().length > 0) {
-        chunks.push(currentChunk.trim())
+        pushChunk(currentChunk, currentStart, currentEnd)
       }
       
       // Split large part into smaller pieces
-      const largeChunks = splitLargeText(trimmedPart, maxChunkSize)
-      chunks.push(...largeChunks)
+      let cursor = partStart
+      for (const piece of splitLargeText(trimmedPart, maxChunkSize)) {
+        const pieceStart = Math.max(cursor, text.indexOf(piece, cursor))
+        pushChunk(piece, pieceStart, pieceStart + piece.length)
+        cursor = pieceStart + piece.length
+      }
       currentChunk = ''
     } else if ((currentChunk + ' ' + trimmedPart).length > maxChunkSize && currentChunk.length > 0) {
       // Current chunk would exceed size, save it
-      chunks.push(currentChunk.trim())
+      pushChunk(currentChunk, currentStart, currentEnd)
       
       // Add overlap for context continuity
       const words = currentChunk.split(/\s+/)
       const overlapWords = words.slice(-Math.floor(overlap / 5))
       currentChunk = overlapWords.join(' ') + ' ' + trimmedPart
+      currentStart = partStart
+      currentEnd = partEnd
     } else {
       // Add to current chunk
+      if (!currentChunk) currentStart = partStart
       currentChunk += (currentChunk ? ' ' : '') + trimmedPart
+      currentEnd = partEnd
     }
   }
   
   // Don't forget the last chunk
   if (currentChunk.trim().length > 0) {
-    chunks.push(currentChunk.trim())
+    pushChunk(currentChunk, currentStart, currentEnd)
   }
   
-  return chunks.filter(c => c.length > 0)
+  return chunks.filter(c => c.content.length > 0)
 }
 
 // Helper to split very large text blocks
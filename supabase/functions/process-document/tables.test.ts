@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import * as XLSX from 'xlsx'
+import { cellText, extractTables, readWorkbook, sheetRows } from './tables.ts'
+
+// Write the rows as an .xlsx file and read it back the way process-document does
+function workbookOf(rows: unknown[][]): XLSX.WorkBook {
+  const book = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows), 'Sales')
+  const file = XLSX.write(book, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer
+  return readWorkbook(file)
+}
+
+function column(values: unknown[]) {
+  const [table] = extractTables(workbookOf([['Value'], ...values.map(value => [value])]))
+  return { type: table.columns[0].type, values: table.rows.map(row => row.data.value) }
+}
+
+describe('extractTables', () => {
+  it('types plain numbers', () => {
+    assert.deepEqual(column([12, 3.5, -1]), { type: 'number', values: [12, 3.5, -1] })
+  })
+
+  it('parses thousands separators, currency and percent signs', () => {
+    assert.deepEqual(column(['1,200', '$350', '-1,234.50', '12%']), { type: 'number', values: [1200, 350, -1234.5, 12] })
+  })
+
+  it('reads accounting negatives in parentheses', () => {
+    assert.deepEqual(column(['(350)', '($1,200)', '40']), { type: 'number', values: [-350, -1200, 40] })
+  })
+
+  it('keeps unbalanced parentheses as text', () => {
+    assert.deepEqual(column(['(350', '40']), { type: 'text', values: ['(350', '40'] })
+    assert.deepEqual(column(['350)', '40']), { type: 'text', values: ['350)', '40'] })
+  })
+
+  it('rejects a sign inside accounting parentheses', () => {
+    assert.deepEqual(column(['(-350)', '40']), { type: 'text', values: ['(-350)', '40'] })
+  })
+
+  it('writes date cells as YYYY-MM-DD', () => {
+    assert.deepEqual(column([new Date(Date.UTC(2024, 0, 31)), new Date(Date.UTC(2024, 1, 29))]), {
+      type: 'date',
+      values: ['2024-01-31', '2024-02-29'],
+    })
+  })
+
+  it('types ISO date strings as dates', () => {
+    assert.deepEqual(column(['2024-03-01', '2024-03-02T10:00:00Z']), { type: 'date', values: ['2024-03-01', '2024-03-02'] })
+  })
+
+  it('types booleans', () => {
+    assert.deepEqual(column([true, 'FALSE']), { type: 'boolean', values: [true, false] })
+  })
+
+  it('stores placeholders as empty cells without letting them decide the type', () => {
+    assert.deepEqual(column([5, 'n/a', '-']), { type: 'number', values: [5, null, null] })
+  })
+
+  it('types a column of placeholders only as text', () => {
+    assert.deepEqual(column(['n/a', '-']), { type: 'text', values: [null, null] })
+  })
+
+  it('types mixed values as text', () => {
+    assert.deepEqual(column(['12', 'twelve']), { type: 'text', values: ['12', 'twelve'] })
+  })
+
+  it('numbers rows like the text chunks and keys columns in snake_case', () => {
+    const [table] = extractTables(workbookOf([['Region', 'Net Revenue', 'Net Revenue'], ['North', 10, 1], [], ['South', 20, 2]]))
+    assert.deepEqual(table.columns.map(c => c.key), ['region', 'net_revenue', 'net_revenue_2'])
+    assert.deepEqual(table.rows.map(row => [row.row_number, row.data.region]), [[1, 'North'], [2, 'South']])
+  })
+
+  it('keys unnamed and numeric headers so they stay valid identifiers', () => {
+    const [table] = extractTables(workbookOf([['', '2024 Sales'], ['a', 1]]))
+    assert.deepEqual(table.columns.map(c => [c.key, c.name]), [['column_1', 'column_1'], ['c_2024_sales', '2024 Sales']])
+  })
+
+  it('skips sheets without data rows', () => {
+    assert.deepEqual(extractTables(workbookOf([['Region', 'Sales']])), [])
+  })
+})
+
+describe('cellText', () => {
+  it('writes date cells as dates, not serial numbers', () => {
+    const workbook = workbookOf([['Day', 'Sales'], [new Date(Date.UTC(2024, 6, 4)), 100]])
+    const [, row] = sheetRows(workbook, 'Sales')
+    assert.deepEqual(row.map(cellText), ['2024-07-04', '100'])
+  })
+
+  it('writes empty cells as empty text', () => {
+    assert.equal(cellText(undefined), '')
+    assert.equal(cellText(null), '')
+  })
+})
@@ -0,0 +1,194 @@
+// Typed tables from spreadsheet sheets
+// Next to the flattened "ROW n: Header: value" text, every sheet is stored as a table
+// (document_tables / document_table_rows) with inferred column types, so query-rag can
+// aggregate over all rows of a sheet (see aggregate_document_table).
+
+import * as XLSX from 'xlsx'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type ColumnType = 'number' | 'date' | 'boolean' | 'text'
+
+export interface TableColumn {
+  // Stable snake_case identifier used in row data and aggregation specs
+  key: string
+  // Header as written in the sheet
+  name: string
+  type: ColumnType
+}
+
+export interface SheetTable {
+  sheet: string
+  columns: TableColumn[]
+  // row_number matches the ROW n lines of the sheet's text chunks
+  rows: { row_number: number; data: Record<string, string | number | boolean | null> }[]
+}
+
+// Rows stored per sheet; larger sheets are still searchable as text chunks
+const MAX_ROWS = 50000
+const INSERT_BATCH_SIZE = 500
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+// Placeholders treated as empty cells
+const EMPTY_VALUES = new Set(['', '-', '—', 'n/a', 'na', 'null', 'none'])
+// 1234, -1,234.50, $1,200, 12%; accounting negatives like (350) are unwrapped first
+const NUMBER_PATTERN = /^[-+]?[$€£]?\s?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?%?$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ][\d:.]+Z?)?$/
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && EMPTY_VALUES.has(value.trim().toLowerCase()))
+}
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string') return null
+  const text = value.trim()
+  // Both parentheses or neither: "(350" is not a number
+  const negative = text.startsWith('(') && text.endsWith(')')
+  const body = negative ? text.slice(1, -1).trim() : text
+  if (!NUMBER_PATTERN.test(body) || (negative && /^[-+]/.test(body))) return null
+  const parsed = Number(body.replace(/[$€£,%\s]/g, ''))
+  if (!Number.isFinite(parsed)) return null
+  return negative ? -parsed : parsed
+}
+
+function parseDate(value: unknown): string | null {
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    // Date cells can be a few seconds off midnight; round to the nearest day
+    return new Date(Math.round(value.getTime() / MS_PER_DAY) * MS_PER_DAY).toISOString().slice(0, 10)
+  }
+  if (typeof value === 'string' && DATE_PATTERN.test(value.trim()) && !Number.isNaN(Date.parse(value.trim()))) {
+    return value.trim().slice(0, 10)
+  }
+  return null
+}
+
+function parseBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value
+  if (typeof value !== 'string') return null
+  const text = value.trim().toLowerCase()
+  return text === 'true' ? true : text === 'false' ? false : null
+}
+
+// A column gets a type only when every non-empty cell parses as it
+function inferType(values: unknown[]): ColumnType {
+  const present = values.filter(v => !isEmpty(v))
+  if (present.length === 0) return 'text'
+  if (present.every(v => parseDate(v) !== null)) return 'date'
+  if (present.every(v => parseNumber(v) !== null)) return 'number'
+  if (present.every(v => parseBoolean(v) !== null)) return 'boolean'
+  return 'text'
+}
+
+function convert(value: unknown, type: ColumnType): string | number | boolean | null {
+  if (isEmpty(value)) return null
+  switch (type) {
+    case 'number': return parseNumber(value)
+    case 'date': return parseDate(value)
+    case 'boolean': return parseBoolean(value)
+    default: return value instanceof Date ? parseDate(value) : String(value).trim()
+  }
+}
+
+function columnKeys(headers: unknown[]): string[] {
+  const used = new Set<string>()
+  return headers.map((header, i) => {
+    const slug = String(header ?? '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .substring(0, 50) || `column_${i + 1}`
+    const base = /^\d/.test(slug) ? `c_${slug}` : slug
+    let key = base
+    for (let n = 2; used.has(key); n++) key = `${base}_${n}`
+    used.add(key)
+    return key
+  })
+}
+
+// Parse a spreadsheet once for both the text extraction in index.ts and the tables.
+// Date cells come back as Date objects, so both show them as dates, not serial numbers.
+export function readWorkbook(buffer: ArrayBuffer): XLSX.WorkBook {
+  return XLSX.read(new Uint8Array(buffer), { type: 'array', cellDates: true })
+}
+
+// Rows of a sheet as arrays of cell values, header row first, blank rows skipped. The ROW n
+// numbering of the text chunks and the row_number of the tables both count these rows.
+export function sheetRows(workbook: XLSX.WorkBook, sheetName: string): unknown[][] {
+  return XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+    header: 1,
+    defval: '',
+    blankrows: false,
+  }) as unknown[][]
+}
+
+// Cell value as written into the text chunks (dates as YYYY-MM-DD, like the tables)
+export function cellText(value: unknown): string {
+  if (value instanceof Date) return parseDate(value) ?? ''
+  return value === undefined || value === null ? '' : String(value)
+}
+
+// Read every sheet with a header row as a typed table
+export function extractTables(workbook: XLSX.WorkBook): SheetTable[] {
+  const tables: SheetTable[] = []
+
+  for (const sheetName of workbook.SheetNames) {
+    const jsonData = sheetRows(workbook, sheetName)
+
+    const headers = jsonData[0]
+    if (!headers || headers.length === 0 || jsonData.length < 2) continue
+
+    const keys = columnKeys(headers)
+    const dataRows = jsonData.slice(1, MAX_ROWS + 1)
+    const columns: TableColumn[] = headers.map((header, j) => ({
+      key: keys[j],
+      name: String(header ?? '').trim() || keys[j],
+      type: inferType(dataRows.map(row => row[j])),
+    }))
+
+    tables.push({
+      sheet: sheetName,
+      columns,
+      rows: dataRows.map((row, i) => ({
+        row_number: i + 1,
+        data: Object.fromEntries(columns.map((column, j) => [column.key, convert(row[j], column.type)])),
+      })),
+    })
+
+    if (jsonData.length - 1 > MAX_ROWS) {
+      console.warn(`Sheet "${sheetName}" has ${jsonData.length - 1} rows, only the first ${MAX_ROWS} are stored as a table`)
+    }
+  }
+
+  return tables
+}
+
+// Replace the document's tables (reprocessing) with the extracted ones
+export async function storeTables(supabase: SupabaseClient, documentId: string, tables: SheetTable[]): Promise<number> {
+  const { error: deleteError } = await supabase.from('document_tables').delete().eq('document_id', documentId)
+  if (deleteError) throw new Error(`Failed to clear old tables: ${deleteError.message}`)
+
+  let rowCount = 0
+  for (const table of tables) {
+    const { data: stored, error: tableError } = await supabase
+      .from('document_tables')
+      .insert({
+        document_id: documentId,
+        sheet_name: table.sheet,
+        columns: table.columns,
+        row_count: table.rows.length,
+      })
+      .select('id')
+      .single()
+
+    if (tableError) throw new Error(`Failed to store table "${table.sheet}": ${tableError.message}`)
+
+    for (let i = 0; i < table.rows.length; i += INSERT_BATCH_SIZE) {
+      const batch = table.rows.slice(i, i + INSERT_BATCH_SIZE).map(row => ({ table_id: stored.id, ...row }))
+      const { error: rowsError } = await supabase.from('document_table_rows').insert(batch)
+      if (rowsError) throw new Error(`Failed to store rows of "${table.sheet}": ${rowsError.message}`)
+    }
+    rowCount += table.rows.length
+  }
+
+  return rowCount
+}
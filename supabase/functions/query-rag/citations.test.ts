@@ -0,0 +1,124 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolveCitations, type CitableChunk } from "./citations.ts";
+
+function chunk(id: string, content: string): CitableChunk {
+  return { chunk_id: id, document_id: `doc-${id}`, filename: `${id}.txt`, content };
+}
+
+const SOURCES = [chunk("a", "Alpha."), chunk("b", "Beta.")];
+
+// Answer text and the markers that survived validation
+function cite(raw: string, chunks: (CitableChunk | undefined)[] = SOURCES) {
+  const { answer, citations } = resolveCitations(raw, chunks);
+  return { answer, markers: citations.map((c) => c.marker) };
+}
+
+describe("resolveCitations", () => {
+  describe("markers", () => {
+    it("keeps a plain marker", () => {
+      assert.deepEqual(cite("Alpha is first [1]."), { answer: "Alpha is first [1].", markers: [1] });
+    });
+
+    it("splits a list into one marker per source", () => {
+      assert.deepEqual(cite("Both apply [1, 2]."), { answer: "Both apply [1][2].", markers: [1, 2] });
+    });
+
+    it("reads the Source prefix the prompt headers use", () => {
+      assert.deepEqual(cite("Beta is second [Source 2]."), { answer: "Beta is second [2].", markers: [2] });
+      assert.deepEqual(cite("Both apply [Sources 1 and 2]."), { answer: "Both apply [1][2].", markers: [1, 2] });
+    });
+
+    it("merges a source listed twice", () => {
+      assert.deepEqual(cite("Alpha is first [1, 1]."), { answer: "Alpha is first [1].", markers: [1] });
+    });
+
+    it("drops a marker of a source that was not in the prompt, with the space before it", () => {
+      assert.deepEqual(cite("Gamma is third [3]."), { answer: "Gamma is third.", markers: [] });
+      assert.deepEqual(cite("Nothing is zeroth [0]."), { answer: "Nothing is zeroth.", markers: [] });
+    });
+
+    it("keeps the known numbers of a list", () => {
+      assert.deepEqual(cite("Both apply [2, 5]."), { answer: "Both apply [2].", markers: [2] });
+    });
+
+    it("drops markers of sources that could not be restored", () => {
+      assert.deepEqual(cite("Alpha [1]. Beta [2].", [undefined, SOURCES[1]]), { answer: "Alpha. Beta [2].", markers: [2] });
+    });
+
+    it("leaves an answer without markers alone", () => {
+      assert.deepEqual(cite("  No sources needed.  "), { answer: "No sources needed.", markers: [] });
+    });
+
+    it("has nothing to resolve against an empty source list", () => {
+      assert.deepEqual(cite("Alpha is first [1].", []), { answer: "Alpha is first.", markers: [] });
+    });
+  });
+
+  describe("claims", () => {
+    it("attaches each marker to the sentence before it", () => {
+      const { answer, citations } = resolveCitations(
+        "Refunds take 14 days [1]. Shipping is free [2].",
+        [chunk("a", "Refunds take 14 days."), chunk("b", "Shipping is free.")]
+      );
+      assert.deepEqual(citations.map((c) => answer.slice(c.answer_start, c.answer_end)), ["Refunds take 14 days", "Shipping is free"]);
+    });
+
+    it("gives adjacent markers the same claim", () => {
+      const { citations } = resolveCitations("Both apply [1][2].", SOURCES);
+      assert.equal(citations[0].answer_start, citations[1].answer_start);
+      assert.equal(citations[0].answer_end, citations[1].answer_end);
+    });
+
+    it("attaches a marker after the period to the sentence it closes", () => {
+      const { answer, citations } = resolveCitations("Alpha is first. [1] Beta is second. [2]", SOURCES);
+      assert.deepEqual(citations.map((c) => answer.slice(c.answer_start, c.answer_end)), ["Alpha is first.", "Beta is second."]);
+    });
+
+    it("uses the line before the marker in a list", () => {
+      const { answer, citations } = resolveCitations("Policies:\n- Alpha applies [1]\n- Beta applies [2]", SOURCES);
+      assert.deepEqual(citations.map((c) => answer.slice(c.answer_start, c.answer_end)), ["- Alpha applies", "- Beta applies"]);
+    });
+  });
+
+  describe("passages", () => {
+    function passageOf(answer: string, content: string) {
+      const [citation] = resolveCitations(answer, [chunk("a", content)]).citations;
+      assert.equal(content.slice(citation.chunk_start, citation.chunk_end), citation.passage);
+      return citation.passage;
+    }
+
+    it("picks the best-matching sentence of the chunk", () => {
+      assert.equal(
+        passageOf("Refunds take 14 days [1].", "Shipping is free. Refunds take 14 days after the return arrives. Contact support."),
+        "Refunds take 14 days after the return arrives."
+      );
+    });
+
+    it("keeps the first sentence of a tie", () => {
+      assert.equal(passageOf("Refunds are free [1].", "Refunds are quick. Refunds are simple."), "Refunds are quick.");
+    });
+
+    it("does not end a sentence at a decimal point", () => {
+      assert.equal(
+        passageOf("Revenue was $1.2M in Q3 [1].", "Costs were flat. Revenue was $1.2M in Q3, up from $0.9M. Margins improved."),
+        "Revenue was $1.2M in Q3, up from $0.9M."
+      );
+    });
+
+    it("ends sentences at line breaks", () => {
+      assert.equal(
+        passageOf("The office opens at 9am [1].", "Opening hours\nThe office opens at 9am\nClosed on Sundays"),
+        "The office opens at 9am"
+      );
+    });
+
+    it("falls back to the start of the chunk when nothing matches", () => {
+      assert.equal(passageOf("Unrelated claim here [1].", "Nothing in common."), "Nothing in common.");
+    });
+
+    it("cuts the fallback passage at 300 characters", () => {
+      assert.equal(passageOf("Unrelated claim here [1].", "x".repeat(500)).length, 300);
+    });
+  });
+});
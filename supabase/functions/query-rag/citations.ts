@@ -0,0 +1,134 @@
+// Inline citations for query-rag answers
+// The prompt numbers the context blocks "[Source N - filename]" and asks the model to cite
+// them as [N]. After generation the markers are validated against the chunks that were
+// actually in the prompt and resolved to the chunk, the claim they support (span in the
+// answer) and the best-matching passage inside the chunk (span in the chunk content).
+
+export interface CitableChunk {
+  chunk_id: string;
+  document_id: string;
+  filename: string;
+  content: string;
+}
+
+export interface Citation {
+  // N of the [N] marker (1-based position in the prompt's sources)
+  marker: number;
+  chunk_id: string;
+  document_id: string;
+  filename: string;
+  // Claim the marker is attached to, as offsets into the final answer text
+  answer_start: number;
+  answer_end: number;
+  // Cited passage, as offsets into the chunk content
+  chunk_start: number;
+  chunk_end: number;
+  passage: string;
+}
+
+// [1], [1, 2], [Source 1], [Sources 1 and 2] (with the whitespace before it)
+const MARKER = /([ \t]*)\[(?:sources?\s*)?(\d+(?:\s*(?:,|and|&)\s*\d+)*)\]/gi;
+const NORMALISED_MARKER = /\[(\d+)\]/g;
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "was", "were", "with", "that", "this", "from", "have", "has",
+  "not", "but", "you", "your", "our", "its", "all", "any", "can", "will", "per", "each",
+]);
+const MAX_FALLBACK_PASSAGE = 300;
+// A sentence ends at . ! or ? followed by whitespace or the end of the text (as in
+// splitClaims), so decimals ("$1.2M") and dotted names ("v2.1", "acme.com") stay inside it
+const SENTENCE = /(?:[^.!?\n]|[.!?](?!\s|$))+[.!?]?/g;
+
+function tokens(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z0-9äöüß]+/g) || []).filter((t) => t.length > 2 && !STOPWORDS.has(t))
+  );
+}
+
+// Rewrite every marker as [N][M] with only numbers that exist; drop markers with none
+function normaliseMarkers(answer: string, chunks: (CitableChunk | undefined)[]): string {
+  return answer
+    .replace(MARKER, (_match, space: string, numbers: string) => {
+      const valid = [...new Set(numbers.split(/\s*(?:,|and|&)\s*/i).map(Number))]
+        .filter((n) => Number.isInteger(n) && n >= 1 && chunks[n - 1] !== undefined);
+      return valid.length > 0 ? space + valid.map((n) => `[${n}]`).join("") : "";
+    })
+    .trim();
+}
+
+// The sentence (or line) that ends right before the marker
+function claimSpan(answer: string, markerIndex: number): [number, number] {
+  let end = markerIndex;
+  while (end > 0 && /\s/.test(answer[end - 1])) end--;
+
+  let start = 0;
+  const boundary = /[.!?\]]\s+|\n+/g;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(answer)) !== null) {
+    const after = match.index + match[0].length;
+    if (after >= end) break;
+    // The claim's own closing period is not a boundary
+    if (match.index < end - 1) start = after;
+  }
+
+  return [start, Math.max(start, end)];
+}
+
+// Best-matching sentence of the chunk for the claim (token overlap)
+function passageSpan(content: string, claim: string): [number, number] {
+  const claimTokens = tokens(claim);
+  let best: [number, number] | null = null;
+  let bestScore = 0;
+
+  for (const match of content.matchAll(SENTENCE)) {
+    const sentence = match[0];
+    const score = [...tokens(sentence)].filter((t) => claimTokens.has(t)).length;
+    if (score > bestScore) {
+      bestScore = score;
+      const leading = sentence.length - sentence.trimStart().length;
+      const start = match.index! + leading;
+      best = [start, start + sentence.trim().length];
+    }
+  }
+
+  return best ?? [0, Math.min(content.length, MAX_FALLBACK_PASSAGE)];
+}
+
+// `chunks` are in prompt order, so chunks[N - 1] is "[Source N]". Missing entries (e.g. a
+// cached answer whose chunk was deleted since) make their markers invalid.
+export function resolveCitations(
+  rawAnswer: string,
+  chunks: (CitableChunk | undefined)[]
+): { answer: string; citations: Citation[] } {
+  const answer = normaliseMarkers(rawAnswer, chunks);
+
+  const citations: Citation[] = [];
+  let previousMarkerEnd = -1;
+  let previousClaim: [number, number] = [0, 0];
+
+  for (const match of answer.matchAll(NORMALISED_MARKER)) {
+    const marker = Number(match[1]);
+    const chunk = chunks[marker - 1];
+    if (!chunk) continue;
+
+    // Adjacent markers ("[1][2]") support the same claim
+    const adjacent = previousMarkerEnd >= 0 && answer.slice(previousMarkerEnd, match.index).trim() === "";
+    const [answerStart, answerEnd] = adjacent ? previousClaim : claimSpan(answer, match.index!);
+    previousMarkerEnd = match.index! + match[0].length;
+    previousClaim = [answerStart, answerEnd];
+
+    const [chunkStart, chunkEnd] = passageSpan(chunk.content, answer.slice(answerStart, answerEnd));
+    citations.push({
+      marker,
+      chunk_id: chunk.chunk_id,
+      document_id: chunk.document_id,
+      filename: chunk.filename,
+      answer_start: answerStart,
+      answer_end: answerEnd,
+      chunk_start: chunkStart,
+      chunk_end: chunkEnd,
+      passage: chunk.content.slice(chunkStart, chunkEnd),
+    });
+  }
+
+  return { answer, citations };
+}
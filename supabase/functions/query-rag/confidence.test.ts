@@ -0,0 +1,150 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { LLMProvider } from "../_shared/providers/index.ts";
+import { stubEnv } from "../_shared/test-env.ts";
+import { resolveConfidenceSettings, retrievalConfidence, scoreAnswer } from "./confidence.ts";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+const env = stubEnv();
+
+afterEach(() => env.clear());
+
+const QUESTION = "What is the refund policy?";
+const ON_TOPIC = "Our refund policy allows returns within 30 days.";
+const OFF_TOPIC = "The office is closed on public holidays.";
+
+function chunk(content: string, fields: Partial<RetrievedChunk> = {}): RetrievedChunk {
+  return {
+    chunk_id: content,
+    content,
+    document_id: "doc",
+    filename: "policy.pdf",
+    combined_score: 0,
+    similarity: 0,
+    search_type: "hybrid",
+    ...fields,
+  };
+}
+
+function assertClose(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+}
+
+function judge(reply: unknown): LLMProvider {
+  return {
+    generate: () => (reply instanceof Error ? Promise.reject(reply) : Promise.resolve(JSON.stringify(reply))),
+  } as unknown as LLMProvider;
+}
+
+describe("resolveConfidenceSettings", () => {
+  it("defaults to a 0.35 threshold with the LLM self-check", () => {
+    assert.deepEqual(resolveConfidenceSettings(), { threshold: 0.35, selfCheck: "llm" });
+  });
+
+  it("reads CONFIDENCE_THRESHOLD and CONFIDENCE_SELF_CHECK", () => {
+    env.set("CONFIDENCE_THRESHOLD", "0.5");
+    env.set("CONFIDENCE_SELF_CHECK", "off");
+    assert.deepEqual(resolveConfidenceSettings(), { threshold: 0.5, selfCheck: "off" });
+  });
+
+  it("prefers request overrides", () => {
+    env.set("CONFIDENCE_THRESHOLD", "0.5");
+    env.set("CONFIDENCE_SELF_CHECK", "off");
+    assert.deepEqual(resolveConfidenceSettings({ threshold: 0, selfCheck: "llm" }), { threshold: 0, selfCheck: "llm" });
+  });
+
+  it("clamps the threshold to 0-1 and ignores one that is not a number", () => {
+    assert.equal(resolveConfidenceSettings({ threshold: 1.4 }).threshold, 1);
+    env.set("CONFIDENCE_THRESHOLD", "strict");
+    assert.equal(resolveConfidenceSettings().threshold, 0.35);
+  });
+
+  it("ignores unknown self-check modes", () => {
+    env.set("CONFIDENCE_SELF_CHECK", "nli");
+    assert.equal(resolveConfidenceSettings({ selfCheck: "always" }).selfCheck, "llm");
+  });
+});
+
+describe("retrievalConfidence", () => {
+  it("is 0 without chunks", () => {
+    assert.equal(retrievalConfidence(QUESTION, []), 0);
+  });
+
+  it("is 1 for a strong match containing every key term", () => {
+    assert.equal(retrievalConfidence(QUESTION, [chunk(ON_TOPIC, { similarity: 0.7 })]), 1);
+  });
+
+  it("scales similarity linearly between 0.2 and 0.7", () => {
+    assertClose(retrievalConfidence(QUESTION, [chunk(ON_TOPIC, { similarity: 0.45 })]), 0.75);
+    assertClose(retrievalConfidence(QUESTION, [chunk(ON_TOPIC, { similarity: 0.1 })]), 0.5);
+  });
+
+  it("halves the score when no key term is found", () => {
+    assertClose(retrievalConfidence(QUESTION, [chunk(OFF_TOPIC, { similarity: 0.7 })]), 0.5);
+  });
+
+  it("only looks at the best 3 chunks", () => {
+    const weak = [1, 2, 3].map((i) => chunk(`${OFF_TOPIC} ${i}`, { similarity: 0.2 }));
+    assertClose(retrievalConfidence(QUESTION, [...weak, chunk(ON_TOPIC, { similarity: 0.7 })]), 0);
+  });
+
+  it("reads an LLM rerank score on its 0-10 scale", () => {
+    assertClose(retrievalConfidence(QUESTION, [chunk(ON_TOPIC, { similarity: 0.7, rerank_score: 1 })], "llm"), 0.55);
+    assertClose(retrievalConfidence(QUESTION, [chunk(ON_TOPIC, { rerank_score: 8 })], "llm"), 0.9);
+  });
+
+  it("uses a cross-encoder score as-is, clamped to 0-1", () => {
+    assertClose(retrievalConfidence(QUESTION, [chunk(ON_TOPIC, { rerank_score: 0.4 })], "cross-encoder"), 0.7);
+    assertClose(retrievalConfidence(QUESTION, [chunk(ON_TOPIC, { rerank_score: 3.2 })], "cross-encoder"), 1);
+    assertClose(retrievalConfidence(QUESTION, [chunk(ON_TOPIC, { rerank_score: -2 })], "cross-encoder"), 0.5);
+  });
+
+  it("ignores rerank scores when reranking is off", () => {
+    assert.equal(retrievalConfidence(QUESTION, [chunk(ON_TOPIC, { similarity: 0.7, rerank_score: 1 })], "off"), 1);
+  });
+
+  it("falls back to similarity when no top chunk has a rerank score", () => {
+    assertClose(retrievalConfidence(QUESTION, [chunk(ON_TOPIC, { similarity: 0.45 })], "llm"), 0.75);
+  });
+
+  it("counts a computed table source as strong evidence", () => {
+    const chunks = [chunk("Refund policy totals: 1200", { search_type: "table" }), chunk(OFF_TOPIC, { similarity: 0.2 })];
+    assertClose(retrievalConfidence(QUESTION, chunks), 0.9);
+  });
+
+  it("does not let table sources take the top chunk slots", () => {
+    const tables = ["Sum of refunds: 1200", "Count of refunds: 12", "Average refund: 100"].map((text) => chunk(text, { search_type: "table" }));
+    assert.equal(retrievalConfidence(QUESTION, [...tables, chunk(ON_TOPIC, { similarity: 0.7 })]), 1);
+  });
+
+  it("counts full coverage for a question without key terms", () => {
+    assertClose(retrievalConfidence("What is it?", [chunk(OFF_TOPIC, { similarity: 0.45 })]), 0.75);
+  });
+});
+
+describe("scoreAnswer", () => {
+  const LLM_CHECK = { threshold: 0.35, selfCheck: "llm" as const };
+
+  it("weighs the self-check 60% against retrieval", async () => {
+    const confidence = await scoreAnswer(judge({ score: 5 }), QUESTION, "answer", "context", 1, LLM_CHECK);
+    assert.deepEqual(confidence, { score: 0.7, retrieval: 1, groundedness: 0.5, threshold: 0.35, method: "retrieval+self-check" });
+  });
+
+  it("uses retrieval alone when the self-check is off", async () => {
+    const llm = { generate: () => assert.fail("LLM called") } as unknown as LLMProvider;
+    const confidence = await scoreAnswer(llm, QUESTION, "answer", "context", 0.456, { ...LLM_CHECK, selfCheck: "off" });
+    assert.deepEqual(confidence, { score: 0.46, retrieval: 0.46, groundedness: null, threshold: 0.35, method: "retrieval" });
+  });
+
+  it("uses retrieval alone when the self-check fails or returns no score", async () => {
+    for (const reply of [new Error("timeout"), { verdict: "fine" }, { score: "high" }]) {
+      const confidence = await scoreAnswer(judge(reply), QUESTION, "answer", "context", 0.8, LLM_CHECK);
+      assert.equal(confidence.method, "retrieval");
+      assert.equal(confidence.score, 0.8);
+    }
+  });
+
+  it("clamps the self-check to 0-10", async () => {
+    assert.equal((await scoreAnswer(judge({ score: 14 }), QUESTION, "answer", "context", 0, LLM_CHECK)).groundedness, 1);
+  });
+});
@@ -0,0 +1,177 @@
+// Answer confidence and abstention for query-rag
+// The score combines two signals:
+//   retrieval   how well the best chunks match the question: their semantic similarity
+//               (or rerank score) and the share of the question's key terms they contain;
+//               exact aggregates computed from spreadsheets count as strong evidence
+//   self-check  the LLM's own 0-10 judgment of whether the answer is supported by the
+//               context and actually answers the question (skipped when off or unusable)
+// Below the threshold the answer is replaced by NOT_FOUND_ANSWER and flagged `abstained`,
+// so callers (e.g. the customer chat's contact form) do not have to parse answer text.
+
+import type { LLMProvider } from "../_shared/providers/index.ts";
+import type { RerankMode } from "./rerank.ts";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+export type SelfCheckMode = "llm" | "off";
+
+export interface ConfidenceOptions {
+  // 0-1, below which query-rag abstains (defaults to CONFIDENCE_THRESHOLD)
+  threshold?: number;
+  // "llm" | "off" (defaults to CONFIDENCE_SELF_CHECK, then llm)
+  selfCheck?: string;
+}
+
+export interface ConfidenceSettings {
+  threshold: number;
+  selfCheck: SelfCheckMode;
+}
+
+export interface AnswerConfidence {
+  // Combined score (0-1) compared against the threshold
+  score: number;
+  retrieval: number;
+  // null when the self-check was off or failed
+  groundedness: number | null;
+  threshold: number;
+  method: "retrieval" | "retrieval+self-check";
+}
+
+export const NOT_FOUND_ANSWER =
+  "I could not find an answer to this question in the available documents.";
+
+const DEFAULT_THRESHOLD = 0.35;
+// Weight of the self-check in the combined score when it is available
+const SELF_CHECK_WEIGHT = 0.6;
+// Cosine similarities between these bounds are mapped linearly onto 0-1
+const SIMILARITY_FLOOR = 0.2;
+const SIMILARITY_CEILING = 0.7;
+// Best chunks considered for the retrieval signal
+const TOP_CHUNKS = 3;
+// Evidence of a computed spreadsheet source (tables.ts): it has no similarity, but it was
+// computed from the rows the question asks about
+const TABLE_SOURCE_EVIDENCE = 0.8;
+// Characters of context shown to the self-check
+const MAX_CONTEXT_CHARS = 8000;
+
+const QUESTION_STOPWORDS = new Set([
+  "the", "and", "for", "are", "was", "were", "with", "that", "this", "from", "have", "has",
+  "not", "but", "you", "your", "our", "its", "all", "any", "can", "will", "what", "when",
+  "where", "which", "who", "whom", "why", "how", "does", "did", "is", "there", "about",
+  "tell", "please", "give", "much", "many", "should", "would", "could", "into", "than",
+]);
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function resolveConfidenceSettings(overrides: ConfidenceOptions = {}): ConfidenceSettings {
+  const requested = typeof overrides.threshold === "number"
+    ? overrides.threshold
+    : Number(Deno.env.get("CONFIDENCE_THRESHOLD") || DEFAULT_THRESHOLD);
+  const threshold = Number.isFinite(requested) ? clamp01(requested) : DEFAULT_THRESHOLD;
+
+  const envMode = Deno.env.get("CONFIDENCE_SELF_CHECK");
+  const isMode = (value: unknown): value is SelfCheckMode => value === "llm" || value === "off";
+  const selfCheck = isMode(overrides.selfCheck) ? overrides.selfCheck : isMode(envMode) ? envMode : "llm";
+
+  return { threshold, selfCheck };
+}
+
+function keyTerms(question: string): string[] {
+  return [
+    ...new Set(
+      (question.toLowerCase().match(/[a-z0-9äöüß]+/g) || [])
+        .filter((t) => t.length > 2 && !QUESTION_STOPWORDS.has(t))
+        // Crude plural folding so "languages" matches "language"
+        .map((t) => (t.length > 4 && t.endsWith("s") ? t.slice(0, -1) : t))
+    ),
+  ];
+}
+
+// Rerank score on a 0-1 scale: the LLM judges 0-10, cross-encoders (TEI, Cohere, Jina) return
+// 0-1 relevance scores
+function rerankEvidence(score: number, mode: RerankMode): number {
+  return clamp01(mode === "llm" ? score / 10 : score);
+}
+
+// Chunk-level evidence for the question, independent of the fusion strategy's score scale.
+// `rerankMode` is the mode that produced the chunks' rerank scores.
+export function retrievalConfidence(question: string, chunks: RetrievedChunk[], rerankMode: RerankMode = "off"): number {
+  if (chunks.length === 0) return 0;
+  const tableSources = chunks.filter((c) => c.search_type === "table");
+  const top = chunks.filter((c) => c.search_type !== "table").slice(0, TOP_CHUNKS);
+
+  const rerankScores = rerankMode === "off"
+    ? []
+    : top.map((c) => c.rerank_score).filter((s): s is number => typeof s === "number").map((s) => rerankEvidence(s, rerankMode));
+  let similarity = 0;
+  if (rerankScores.length > 0) {
+    similarity = Math.max(...rerankScores);
+  } else if (top.length > 0) {
+    similarity = clamp01((Math.max(...top.map((c) => c.similarity || 0)) - SIMILARITY_FLOOR) / (SIMILARITY_CEILING - SIMILARITY_FLOOR));
+  }
+  if (tableSources.length > 0) similarity = Math.max(similarity, TABLE_SOURCE_EVIDENCE);
+
+  const terms = keyTerms(question);
+  const text = [...tableSources, ...top].map((c) => c.content.toLowerCase()).join("\n");
+  const coverage = terms.length > 0 ? terms.filter((t) => text.includes(t)).length / terms.length : 1;
+
+  return clamp01((similarity + coverage) / 2);
+}
+
+// LLM judgment (0-1) of how well the answer is supported; null when unusable
+async function selfCheck(llm: LLMProvider, question: string, answer: string, context: string): Promise<number | null> {
+  const prompt = `You are checking an answer produced by a document question-answering system.
+Judge the answer ONLY against the context below.
+
+Context:
+${context.substring(0, MAX_CONTEXT_CHARS)}
+
+Question: ${question}
+
+Answer: ${answer}
+
+Score from 0 to 10:
+10 = the answer fully answers the question and every claim is supported by the context
+5 = the answer is partly supported or only answers part of the question
+0 = the answer is not supported by the context, or it says the information is not available
+
+Respond with JSON only: {"score": 7}`;
+
+  try {
+    const raw = await llm.generate(prompt, { json: true, temperature: 0 });
+    const parsed = JSON.parse(raw.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+    const score = Number(parsed.score);
+    if (parsed.score === undefined || !Number.isFinite(score)) return null;
+    return clamp01(score / 10);
+  } catch (error) {
+    console.error("⚠️ Confidence self-check failed:", (error as Error).message);
+    return null;
+  }
+}
+
+export async function scoreAnswer(
+  llm: LLMProvider,
+  question: string,
+  answer: string,
+  context: string,
+  retrieval: number,
+  settings: ConfidenceSettings
+): Promise<AnswerConfidence> {
+  const groundedness = settings.selfCheck === "llm" ? await selfCheck(llm, question, answer, context) : null;
+  const score = groundedness === null
+    ? retrieval
+    : (1 - SELF_CHECK_WEIGHT) * retrieval + SELF_CHECK_WEIGHT * groundedness;
+
+  return {
+    score: round(score),
+    retrieval: round(retrieval),
+    groundedness: groundedness === null ? null : round(groundedness),
+    threshold: settings.threshold,
+    method: groundedness === null ? "retrieval" : "retrieval+self-check",
+  };
+}
@@ -0,0 +1,199 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolveCitations } from "./citations.ts";
+import { estimateTokens, formatContext, packContext, remapCitations, restoreBlocks, sourceSpan } from "./context.ts";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+function chunk(id: string, content: string, fields: Partial<RetrievedChunk> = {}): RetrievedChunk {
+  return {
+    chunk_id: id,
+    content,
+    document_id: "doc",
+    filename: "policy.pdf",
+    combined_score: 0,
+    similarity: 0.5,
+    search_type: "hybrid",
+    ...fields,
+  };
+}
+
+// Consecutive chunks of one document; process-document repeats the end of a chunk
+// ("thirty days from delivery.") at the start of the next one
+const FIRST = chunk("c0", "Returns are accepted in store. The refund window is thirty days from delivery.", { chunk_index: 0 });
+const SECOND = chunk("c1", "thirty days from delivery. Store credit never expires and can be used online.", { chunk_index: 1 });
+const OTHER = chunk("x", "Shipping is free for orders over fifty dollars.", { document_id: "other", chunk_index: 4 });
+const MERGED =
+  "Returns are accepted in store. The refund window is thirty days from delivery. Store credit never expires and can be used online.";
+
+const BUDGET = { tokenBudget: 8000 };
+
+describe("estimateTokens", () => {
+  it("is 0 for empty text", () => {
+    assert.equal(estimateTokens(""), 0);
+  });
+
+  it("uses ~4 characters per token for long words", () => {
+    assert.equal(estimateTokens("a".repeat(400)), 100);
+  });
+
+  it("counts short words at 1.3 tokens each", () => {
+    assert.equal(estimateTokens("abcd efgh"), 3);
+  });
+});
+
+describe("packContext", () => {
+  it("packs nothing from no chunks", () => {
+    const { blocks, report } = packContext([], BUDGET);
+    assert.deepEqual(blocks, []);
+    assert.equal(report.tokensUsed, 0);
+  });
+
+  it("merges the next chunk without the repeated overlap", () => {
+    const { blocks, report } = packContext([FIRST, SECOND, OTHER], BUDGET);
+    assert.deepEqual(blocks.map((b) => b.content), [MERGED, OTHER.content]);
+    assert.equal(report.merged, 1);
+    assert.deepEqual(blocks[0].parts.map((p) => p.chunk_id), ["c0", "c1"]);
+    assert.deepEqual(sourceSpan(blocks[0]), { from: 0, to: 1, expanded: 0 });
+  });
+
+  it("merges the previous chunk in front of a block", () => {
+    const { blocks } = packContext([SECOND, FIRST], BUDGET);
+    assert.deepEqual(blocks.map((b) => b.content), [MERGED]);
+    assert.deepEqual(blocks[0].parts.map((p) => p.chunk_id), ["c0", "c1"]);
+    // The block keeps the chunk that was retrieved first
+    assert.equal(blocks[0].chunk_id, "c1");
+  });
+
+  it("keeps neighbouring indexes of different documents apart", () => {
+    const { blocks } = packContext([FIRST, chunk("d1", "Another file.", { document_id: "other", chunk_index: 1 })], BUDGET);
+    assert.equal(blocks.length, 2);
+  });
+
+  it("skips chunks whose text is already in the context", () => {
+    const { blocks, report } = packContext([OTHER, chunk("copy", ` ${OTHER.content.toUpperCase()} `)], BUDGET);
+    assert.equal(blocks.length, 1);
+    assert.equal(report.duplicates, 1);
+  });
+
+  it("skips empty chunks", () => {
+    const { blocks, report } = packContext([chunk("blank", "  \n "), OTHER], BUDGET);
+    assert.deepEqual(blocks.map((b) => b.chunk_id), ["x"]);
+    assert.equal(report.duplicates, 1);
+  });
+
+  it("always keeps the best block and drops what does not fit", () => {
+    const { blocks, report } = packContext([FIRST, OTHER], { tokenBudget: 10 });
+    assert.deepEqual(blocks.map((b) => b.chunk_id), ["c0"]);
+    assert.deepEqual(report.dropped.map((d) => d.chunk_id), ["x"]);
+    assert.ok(report.tokensUsed > report.tokenBudget);
+  });
+
+  it("reports a merge that does not fit as dropped and leaves the block unchanged", () => {
+    const firstOnly = packContext([FIRST], BUDGET).report.tokensUsed;
+    const { blocks, report } = packContext([FIRST, SECOND], { tokenBudget: firstOnly });
+    assert.equal(blocks[0].content, FIRST.content);
+    assert.equal(blocks[0].parts.length, 1);
+    assert.deepEqual(report.dropped.map((d) => d.chunk_id), ["c1"]);
+  });
+
+  it("never merges into a computed table source", () => {
+    const table = chunk("t", "Sum of refunds: 1200", { search_type: "table" });
+    const { blocks } = packContext([table, chunk("c5", "Refunds by month.", { chunk_index: 5 })], BUDGET);
+    assert.equal(blocks.length, 2);
+  });
+
+  it("adds expansion chunks to their hit's block", () => {
+    const { blocks, report } = packContext([FIRST, { ...SECOND, expanded_from: "c0" }], BUDGET);
+    assert.deepEqual(blocks.map((b) => b.content), [MERGED]);
+    assert.equal(report.expanded, 1);
+    assert.equal(report.merged, 0);
+    assert.deepEqual(sourceSpan(blocks[0]), { from: 0, to: 1, expanded: 1 });
+  });
+
+  it("drops expansion chunks whose hit is not in the context", () => {
+    const { blocks, report } = packContext([OTHER, chunk("n", "Neighbour text.", { chunk_index: 9, expanded_from: "gone" })], BUDGET);
+    assert.equal(blocks.length, 1);
+    assert.equal(report.expanded, 0);
+    assert.deepEqual(report.dropped, []);
+  });
+});
+
+describe("formatContext", () => {
+  it("numbers the blocks as prompt sources", () => {
+    const { blocks } = packContext([FIRST, OTHER], BUDGET);
+    assert.equal(
+      formatContext(blocks),
+      `[Source 1 - policy.pdf]\n${FIRST.content}\n\n---\n\n[Source 2 - policy.pdf]\n${OTHER.content}`
+    );
+  });
+});
+
+describe("remapCitations", () => {
+  const { blocks } = packContext([FIRST, SECOND], BUDGET);
+
+  function cite(answer: string) {
+    const [citation] = remapCitations(resolveCitations(answer, blocks).citations, blocks);
+    return citation;
+  }
+
+  it("points a passage in the first chunk of a block at that chunk", () => {
+    const citation = cite("The refund window is thirty days [1].");
+    assert.equal(citation.chunk_id, "c0");
+    assert.equal(FIRST.content.slice(citation.chunk_start, citation.chunk_end), citation.passage);
+  });
+
+  it("points a passage in a merged chunk at that chunk, with offsets into its own content", () => {
+    const citation = cite("Store credit never expires [1].");
+    assert.equal(citation.chunk_id, "c1");
+    assert.equal(SECOND.content.slice(citation.chunk_start, citation.chunk_end), citation.passage);
+  });
+
+  it("leaves citations of single-chunk blocks alone", () => {
+    const { blocks: single } = packContext([OTHER], BUDGET);
+    const { citations } = resolveCitations("Shipping is free [1].", single);
+    assert.deepEqual(remapCitations(citations, single), citations);
+  });
+});
+
+describe("restoreBlocks", () => {
+  const contents = new Map([[FIRST.chunk_id, FIRST.content], [SECOND.chunk_id, SECOND.content], [OTHER.chunk_id, OTHER.content]]);
+  const source = { document_id: "doc", filename: "policy.pdf" };
+
+  it("rebuilds a merged block, so a cache hit cites the chunk holding the passage", () => {
+    const [block] = restoreBlocks([{ ...source, chunk_id: "c0", span: { from: 0, to: 1 }, chunk_ids: ["c0", "c1"] }], contents);
+    assert.equal(block?.content, MERGED);
+
+    const [citation] = remapCitations(resolveCitations("Store credit never expires [1].", [block]).citations, [block]);
+    assert.equal(citation.chunk_id, "c1");
+    assert.equal(SECOND.content.slice(citation.chunk_start, citation.chunk_end), citation.passage);
+  });
+
+  it("resolves computed table sources against their stored content, not the row chunk", () => {
+    const computed = "Computed from sheet \"Sales\" of sales.xlsx over all 40 rows:\nResult: 1200 (40 matching rows)";
+    const [block] = restoreBlocks(
+      [{ ...source, chunk_id: "x", table: { sheet: "Sales", rows: [1, 2] }, content: computed }],
+      contents
+    );
+    const { citations } = resolveCitations("Total refunds were 1200 [1].", [block]);
+    assert.equal(citations[0].chunk_id, "x");
+    assert.match(citations[0].passage, /Result: 1200/);
+  });
+
+  it("keeps single-chunk sources cached before chunk lists were stored", () => {
+    const [block] = restoreBlocks([{ ...source, chunk_id: "x" }], contents);
+    assert.equal(block?.content, OTHER.content);
+  });
+
+  it("drops sources it cannot rebuild", () => {
+    const blocks = restoreBlocks(
+      [
+        { ...source, chunk_id: "c0", chunk_ids: ["c0", "deleted"] },
+        { ...source, chunk_id: "c0", span: { from: 0, to: 1 } },
+        { ...source, chunk_id: "x", table: { sheet: "Sales", rows: [] } },
+        { ...source },
+      ],
+      contents
+    );
+    assert.deepEqual(blocks, [undefined, undefined, undefined, undefined]);
+  });
+});
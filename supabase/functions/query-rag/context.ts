@@ -0,0 +1,325 @@
+// Context packing for the answer prompt
+// Turns the ranked chunks into the numbered "[Source N]" blocks of the prompt:
+//   - exact duplicates, and chunks whose text is already in a block, are skipped
+//   - adjacent chunks of the same document (chunk_index n and n + 1) are merged into one
+//     block, without the overlap process-document repeats at the start of every chunk
+//   - chunks added by context expansion (expansion.ts) only ever join their hit's block
+//   - blocks are added in rank order until the token budget is spent; the rest is dropped
+//     and reported
+// Token counts are estimates (no tokenizer runs in the Edge Function), deliberately on
+// the high side so the budget is not exceeded.
+//
+// Budget: request override, then CONTEXT_TOKEN_BUDGET, then a default for the generation
+// model. CONTEXT_TOKEN_BUDGET is either a number or per-model budgets matched by model
+// name prefix, e.g. "gemini-2.0-flash=24000,llama3=4000,*=8000".
+
+import type { CitableChunk, Citation } from "./citations.ts";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+export interface ContextSettings {
+  tokenBudget: number;
+}
+
+// A chunk that went into a block, with its span in the block content
+interface BlockPart {
+  chunk_id: string;
+  chunk_index?: number;
+  start: number;
+  end: number;
+  // Characters cut from the start of the chunk (overlap, repeated sheet header)
+  offset: number;
+  // Added by context expansion rather than matched by search
+  expanded?: boolean;
+}
+
+export interface ContextBlock extends RetrievedChunk {
+  parts: BlockPart[];
+  tokens: number;
+}
+
+export interface ContextReport {
+  tokenBudget: number;
+  tokensUsed: number;
+  candidates: number;
+  blocks: number;
+  // Matched chunks folded into an adjacent chunk's block
+  merged: number;
+  // Surrounding chunks added by context expansion
+  expanded: number;
+  duplicates: number;
+  dropped: Array<{ chunk_id: string; filename: string; tokens: number }>;
+}
+
+// Defaults by generation model (first match wins)
+const MODEL_BUDGETS: Array<[RegExp, number]> = [
+  [/gemini/i, 24000],
+  [/gpt-4o|gpt-4\.1|gpt-5|^o\d/i, 16000],
+  [/llama|mistral|qwen|phi|gemma/i, 6000],
+];
+const DEFAULT_BUDGET = 8000;
+// Smallest and largest budgets accepted from configuration
+const MIN_BUDGET = 500;
+const MAX_BUDGET = 200000;
+// Overlap between consecutive chunks is ~200 characters (CHUNK_OVERLAP)
+const MIN_OVERLAP = 20;
+const MAX_OVERLAP = 1000;
+const SEPARATOR = "\n\n---\n\n";
+
+// ~4 characters per token for English prose, more for numbers and short words
+export function estimateTokens(text: string): number {
+  const words = text.match(/\S+/g)?.length ?? 0;
+  return Math.ceil(Math.max(text.length / 4, words * 1.3));
+}
+
+function parseBudget(value: unknown): number | undefined {
+  const budget = Number(value);
+  return Number.isFinite(budget) && budget > 0 ? Math.min(MAX_BUDGET, Math.max(MIN_BUDGET, Math.floor(budget))) : undefined;
+}
+
+function configuredBudget(model: string): number | undefined {
+  const raw = Deno.env.get("CONTEXT_TOKEN_BUDGET")?.trim();
+  if (!raw) return undefined;
+  if (/^\d+$/.test(raw)) return parseBudget(raw);
+
+  let fallback: number | undefined;
+  for (const entry of raw.split(",")) {
+    const [name, value] = entry.split("=").map((s) => s.trim());
+    if (!name || !value) continue;
+    if (name === "*") fallback = parseBudget(value);
+    else if (model.toLowerCase().startsWith(name.toLowerCase())) return parseBudget(value);
+  }
+  return fallback;
+}
+
+export function resolveContextSettings(model: string, overrides: { tokenBudget?: unknown } = {}): ContextSettings {
+  const tokenBudget = parseBudget(overrides.tokenBudget)
+    ?? configuredBudget(model)
+    ?? MODEL_BUDGETS.find(([pattern]) => pattern.test(model))?.[1]
+    ?? DEFAULT_BUDGET;
+  return { tokenBudget };
+}
+
+function normalise(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+// Length of the longest suffix of `a` that is also a prefix of `b`
+function overlapLength(a: string, b: string): number {
+  for (let k = Math.min(a.length, b.length, MAX_OVERLAP); k >= MIN_OVERLAP; k--) {
+    if (a.endsWith(b.slice(0, k))) return k;
+  }
+  return 0;
+}
+
+// Sheet header and COLUMNS lines every spreadsheet chunk starts with
+function sheetHeader(content: string): string {
+  const match = content.match(/^=== SHEET: .+? ===\nCOLUMNS: .*\n/);
+  return match ? match[0] : "";
+}
+
+// Text of `next` that is not already at the end of `previous`, how much of `next` was cut,
+// and what joins the two
+function continuation(previous: string, next: string): { text: string; offset: number; joiner: string } {
+  const header = sheetHeader(next);
+  if (header && previous.startsWith(header)) {
+    return { text: next.slice(header.length), offset: header.length, joiner: "\n" };
+  }
+  const overlap = overlapLength(previous, next);
+  if (overlap === 0) return { text: next, offset: 0, joiner: "\n" };
+  const text = next.slice(overlap).replace(/^\s+/, "");
+  return { text, offset: next.length - text.length, joiner: " " };
+}
+
+function partOf(chunk: RetrievedChunk): Pick<BlockPart, "chunk_id" | "chunk_index" | "expanded"> {
+  return { chunk_id: chunk.chunk_id, chunk_index: chunk.chunk_index, ...(chunk.expanded_from && { expanded: true }) };
+}
+
+function blockHeader(block: RetrievedChunk, n: number): string {
+  return `[Source ${n} - ${block.filename}]\n`;
+}
+
+// Merge `chunk` (the block's next chunk) into the end of the block
+function appendTo(block: ContextBlock, chunk: RetrievedChunk): void {
+  const { text, offset, joiner } = continuation(block.content, chunk.content);
+  const start = block.content.length + joiner.length;
+  block.content += joiner + text;
+  block.parts.push({ ...partOf(chunk), start, end: block.content.length, offset });
+}
+
+// Merge `chunk` (the block's previous chunk) into the start of the block
+function prependTo(block: ContextBlock, chunk: RetrievedChunk): void {
+  const { text, offset, joiner } = continuation(chunk.content, block.content);
+  // Parts already in the block move right; the first one loses what `chunk` now covers
+  const shift = chunk.content.length + joiner.length - offset;
+  block.parts = [
+    { ...partOf(chunk), start: 0, end: chunk.content.length, offset: 0 },
+    ...block.parts.map((part, i) => ({
+      ...part,
+      start: i === 0 ? chunk.content.length + joiner.length : part.start + shift,
+      end: part.end + shift,
+      offset: i === 0 ? part.offset + offset : part.offset,
+    })),
+  ];
+  block.content = chunk.content + joiner + text;
+}
+
+// Pack ranked chunks into prompt blocks within the token budget
+export function packContext(chunks: RetrievedChunk[], settings: ContextSettings): { blocks: ContextBlock[]; report: ContextReport } {
+  const blocks: ContextBlock[] = [];
+  let tokensUsed = 0;
+  let merged = 0;
+  let expanded = 0;
+  let duplicates = 0;
+  const dropped: ContextReport["dropped"] = [];
+
+  for (const chunk of chunks) {
+    const text = normalise(chunk.content);
+    if (!text || blocks.some((block) => normalise(block.content).includes(text))) {
+      duplicates++;
+      continue;
+    }
+
+    // Next or previous chunk of a block already in the context (computed table sources have no index)
+    const index = chunk.chunk_index;
+    const neighbour = index === undefined ? undefined : blocks.find((block) => {
+      if (block.document_id !== chunk.document_id || block.search_type === "table") return false;
+      const first = block.parts[0].chunk_index;
+      const last = block.parts[block.parts.length - 1].chunk_index;
+      return last === index - 1 || first === index + 1;
+    });
+
+    if (neighbour) {
+      const before = { content: neighbour.content, parts: [...neighbour.parts] };
+      if (neighbour.parts[neighbour.parts.length - 1].chunk_index === index! - 1) appendTo(neighbour, chunk);
+      else prependTo(neighbour, chunk);
+
+      const cost = estimateTokens(neighbour.content) - estimateTokens(before.content);
+      if (tokensUsed + cost <= settings.tokenBudget) {
+        neighbour.tokens += cost;
+        tokensUsed += cost;
+        if (chunk.expanded_from) expanded++;
+        else merged++;
+      } else {
+        neighbour.content = before.content;
+        neighbour.parts = before.parts;
+        // Only matched chunks are reported; expansion simply stops at the budget
+        if (!chunk.expanded_from) dropped.push({ chunk_id: chunk.chunk_id, filename: chunk.filename, tokens: cost });
+      }
+      continue;
+    }
+    // Expansion chunk whose hit did not make it into the context
+    if (chunk.expanded_from) continue;
+
+    // The best block always goes in, even when it alone exceeds the budget
+    const tokens = estimateTokens(blockHeader(chunk, blocks.length + 1) + SEPARATOR) + estimateTokens(chunk.content);
+    if (tokensUsed + tokens > settings.tokenBudget && blocks.length > 0) {
+      dropped.push({ chunk_id: chunk.chunk_id, filename: chunk.filename, tokens });
+      continue;
+    }
+
+    blocks.push({
+      ...chunk,
+      parts: [{ ...partOf(chunk), start: 0, end: chunk.content.length, offset: 0 }],
+      tokens,
+    });
+    tokensUsed += tokens;
+  }
+
+  return {
+    blocks,
+    report: {
+      tokenBudget: settings.tokenBudget,
+      tokensUsed,
+      candidates: chunks.length,
+      blocks: blocks.length,
+      merged,
+      expanded,
+      duplicates,
+      dropped,
+    },
+  };
+}
+
+// Chunks a merged block covers, for the source list (chunk_index is 0-based)
+export function sourceSpan(block: ContextBlock): { from: number; to: number; expanded: number; section?: string } {
+  const indexes = block.parts.map((part) => part.chunk_index ?? 0);
+  return {
+    from: Math.min(...indexes),
+    to: Math.max(...indexes),
+    expanded: block.parts.filter((part) => part.expanded).length,
+    ...(block.section && { section: block.section }),
+  };
+}
+
+// A prompt source as stored with a cached answer (sourcesData in index.ts)
+export interface CachedSource {
+  chunk_id?: string;
+  document_id: string;
+  filename: string;
+  // Every chunk of a merged block, in block order
+  chunk_ids?: string[];
+  span?: unknown;
+  // Computed spreadsheet sources are not stored chunks, so they keep their content
+  table?: RetrievedChunk["table"];
+  content?: string;
+}
+
+// Rebuild the prompt blocks of a cached answer from its sources and the chunks as they are now,
+// so its [N] markers resolve to the chunk and passage they cited when it was generated. Sources
+// that cannot be rebuilt (chunk deleted, cached before chunk ids or table contents were stored)
+// are undefined, which drops their markers.
+export function restoreBlocks(sources: CachedSource[], contents: Map<string, string>): (ContextBlock | undefined)[] {
+  return sources.map((source) => {
+    if (!source.chunk_id) return undefined;
+    const base = {
+      chunk_id: source.chunk_id,
+      document_id: source.document_id,
+      filename: source.filename,
+      combined_score: 0,
+      similarity: 0,
+      tokens: 0,
+    };
+
+    if (source.table) {
+      if (source.content === undefined) return undefined;
+      return {
+        ...base,
+        content: source.content,
+        search_type: "table",
+        table: source.table,
+        parts: [{ chunk_id: source.chunk_id, start: 0, end: source.content.length, offset: 0 }],
+      };
+    }
+
+    const chunkIds = source.chunk_ids ?? (source.span ? [] : [source.chunk_id]);
+    if (chunkIds.length === 0 || chunkIds.some((id) => !contents.has(id))) return undefined;
+
+    const [first, ...rest] = chunkIds.map((id) => ({ chunk_id: id, content: contents.get(id)! }));
+    const block: ContextBlock = {
+      ...base,
+      content: first.content,
+      search_type: "cached",
+      parts: [{ chunk_id: first.chunk_id, start: 0, end: first.content.length, offset: 0 }],
+    };
+    for (const chunk of rest) appendTo(block, { ...base, ...chunk, search_type: "cached" });
+    return block;
+  });
+}
+
+export function formatContext(blocks: ContextBlock[]): string {
+  return blocks.map((block, i) => `${blockHeader(block, i + 1)}${block.content}`).join(SEPARATOR);
+}
+
+// Citations resolved against merged blocks point at the chunk holding the cited passage,
+// with the passage offsets translated into that chunk's own content
+export function remapCitations(citations: Citation[], blocks: ((CitableChunk & { parts?: BlockPart[] }) | undefined)[]): Citation[] {
+  return citations.map((citation) => {
+    const parts = blocks[citation.marker - 1]?.parts;
+    if (!parts || parts.length < 2) return citation;
+
+    const part = parts.find((p) => citation.chunk_start >= p.start && citation.chunk_start < p.end) ?? parts[0];
+    const chunkStart = citation.chunk_start - part.start + part.offset;
+    const chunkEnd = Math.min(citation.chunk_end, part.end) - part.start + part.offset;
+    return { ...citation, chunk_id: part.chunk_id, chunk_start: chunkStart, chunk_end: chunkEnd };
+  });
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stubEnv } from "../_shared/test-env.ts";
+import { diversifyChunks, resolveDiversitySettings, type DiversitySettings } from "./diversity.ts";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+const env = stubEnv();
+
+afterEach(() => env.clear());
+
+function chunk(id: string, document_id: string, combined_score: number, content = id): RetrievedChunk {
+  return { chunk_id: id, content, document_id, filename: `${document_id}.pdf`, combined_score, similarity: 0, search_type: "hybrid" };
+}
+
+// Answers the embeddings lookup with the given vectors, or fails it
+function fakeSupabase(embeddings: Record<string, number[]> | Error): SupabaseClient {
+  const result = embeddings instanceof Error
+    ? { data: null, error: embeddings }
+    : { data: Object.entries(embeddings).map(([chunk_id, vector]) => ({ chunk_id, embedding: JSON.stringify(vector) })), error: null };
+  return { from: () => ({ select: () => ({ in: () => Promise.resolve(result) }) }) } as unknown as SupabaseClient;
+}
+
+const MMR: DiversitySettings = { mode: "mmr", lambda: 0.5, maxPerDocument: 0 };
+
+const ids = (chunks: RetrievedChunk[]) => chunks.map((c) => c.chunk_id);
+
+describe("resolveDiversitySettings", () => {
+  it("is off with lambda 0.5 and no cap without configuration", () => {
+    assert.deepEqual(resolveDiversitySettings(), { mode: "off", lambda: 0.5, maxPerDocument: 0 });
+  });
+
+  it("reads DIVERSITY_MODE, MMR_LAMBDA and MMR_MAX_PER_DOCUMENT", () => {
+    env.set("DIVERSITY_MODE", "mmr");
+    env.set("MMR_LAMBDA", "0.7");
+    env.set("MMR_MAX_PER_DOCUMENT", "3");
+    assert.deepEqual(resolveDiversitySettings(), { mode: "mmr", lambda: 0.7, maxPerDocument: 3 });
+  });
+
+  it("prefers request overrides, including a lambda of 0", () => {
+    env.set("MMR_LAMBDA", "0.7");
+    assert.deepEqual(resolveDiversitySettings({ mode: "mmr", lambda: 0, maxPerDocument: 2.9 }), { mode: "mmr", lambda: 0, maxPerDocument: 2 });
+  });
+
+  it("clamps lambda to 0-1 and treats a negative cap as no cap", () => {
+    assert.deepEqual(resolveDiversitySettings({ mode: "mmr", lambda: 3, maxPerDocument: -1 }), { mode: "mmr", lambda: 1, maxPerDocument: 0 });
+  });
+
+  it("ignores unknown modes and a lambda that is not a number", () => {
+    env.set("MMR_LAMBDA", "high");
+    assert.deepEqual(resolveDiversitySettings({ mode: "dpp" }), { mode: "off", lambda: 0.5, maxPerDocument: 0 });
+  });
+});
+
+describe("diversifyChunks", () => {
+  const pool = [chunk("a", "d1", 1), chunk("a-copy", "d1", 0.9), chunk("b", "d2", 0.5)];
+  const vectors = { "a": [1, 0], "a-copy": [1, 0], "b": [0, 1] };
+  const diversify = (chunks: RetrievedChunk[], settings: DiversitySettings) => diversifyChunks(fakeSupabase(vectors), chunks, settings);
+
+  it("returns an empty pool unchanged", async () => {
+    assert.deepEqual(await diversify([], MMR), []);
+  });
+
+  it("keeps the fused order when off", async () => {
+    assert.deepEqual(ids(await diversify(pool, { ...MMR, mode: "off" })), ["a", "a-copy", "b"]);
+  });
+
+  it("ranks by relevance only with lambda 1", async () => {
+    assert.deepEqual(ids(await diversify(pool, { ...MMR, lambda: 1 })), ["a", "a-copy", "b"]);
+  });
+
+  it("moves a near-duplicate of a picked chunk down", async () => {
+    assert.deepEqual(ids(await diversify(pool, MMR)), ["a", "b", "a-copy"]);
+  });
+
+  it("keeps the fused order of chunks with tied scores", async () => {
+    const tied = [chunk("x", "d1", 0.4), chunk("y", "d2", 0.4), chunk("z", "d3", 0.4)];
+    assert.deepEqual(ids(await diversifyChunks(fakeSupabase({ x: [1, 0], y: [0, 1], z: [1, 1] }), tied, { ...MMR, lambda: 1 })), ["x", "y", "z"]);
+  });
+
+  it("caps the chunks of each document", async () => {
+    const chunks = [chunk("d1-1", "d1", 1), chunk("d1-2", "d1", 0.9), chunk("d1-3", "d1", 0.8), chunk("d2-1", "d2", 0.1)];
+    assert.deepEqual(ids(await diversify(chunks, { ...MMR, lambda: 1, maxPerDocument: 2 })), ["d1-1", "d1-2", "d2-1"]);
+  });
+
+  it("keeps the best chunk when the cap would drop a whole single-document pool", async () => {
+    const chunks = [chunk("d1-1", "d1", 1), chunk("d1-2", "d1", 0.9), chunk("d1-3", "d1", 0.8)];
+    assert.deepEqual(ids(await diversify(chunks, { ...MMR, maxPerDocument: 1 })), ["d1-1"]);
+  });
+
+  it("compares words when the embeddings cannot be loaded", async () => {
+    const chunks = [
+      chunk("a", "d1", 1, "refund window thirty days delivery"),
+      chunk("a-copy", "d1", 0.9, "refund window thirty days delivery"),
+      chunk("b", "d2", 0.5, "store credit never expires"),
+    ];
+    assert.deepEqual(ids(await diversifyChunks(fakeSupabase(new Error("offline")), chunks, MMR)), ["a", "b", "a-copy"]);
+  });
+});
@@ -0,0 +1,143 @@
+// Optional diversification of the merged candidate pool (maximal marginal relevance)
+// Without it, one long document can fill every slot with near-identical overlapping chunks.
+// MMR re-orders the pool greedily, each time picking the chunk with the best
+//   lambda * relevance - (1 - lambda) * (highest similarity to an already picked chunk)
+// Relevance is the fused (or hybrid_search) score scaled to 0..1 within the pool; similarity
+// is the cosine of the stored chunk embeddings, or word overlap for chunks without one.
+// A per-document cap then keeps at most N chunks of any one file.
+//
+// Modes:
+//   off  keep the fused order (default)
+//   mmr  diversify with MMR_LAMBDA (0..1, 1 = relevance only) and MMR_MAX_PER_DOCUMENT (0 = no cap)
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+export type DiversityMode = "off" | "mmr";
+
+export interface DiversitySettings {
+  mode: DiversityMode;
+  lambda: number;
+  maxPerDocument: number;
+}
+
+const DIVERSITY_MODES: DiversityMode[] = ["off", "mmr"];
+const DEFAULT_LAMBDA = 0.5;
+
+export function isDiversityMode(value: unknown): value is DiversityMode {
+  return DIVERSITY_MODES.includes(value as DiversityMode);
+}
+
+// Environment defaults (DIVERSITY_MODE, MMR_LAMBDA, MMR_MAX_PER_DOCUMENT), overridable per request
+export function resolveDiversitySettings(
+  overrides: { mode?: unknown; lambda?: unknown; maxPerDocument?: unknown } = {}
+): DiversitySettings {
+  const envMode = Deno.env.get("DIVERSITY_MODE");
+  const mode = isDiversityMode(overrides.mode) ? overrides.mode : isDiversityMode(envMode) ? envMode : "off";
+
+  const envLambda = Deno.env.get("MMR_LAMBDA");
+  const requestedLambda = typeof overrides.lambda === "number" ? overrides.lambda : envLambda ? Number(envLambda) : NaN;
+  const lambda = Number.isFinite(requestedLambda) ? Math.min(1, Math.max(0, requestedLambda)) : DEFAULT_LAMBDA;
+
+  const requestedCap = typeof overrides.maxPerDocument === "number"
+    ? overrides.maxPerDocument
+    : Number(Deno.env.get("MMR_MAX_PER_DOCUMENT"));
+  const maxPerDocument = requestedCap > 0 ? Math.floor(requestedCap) : 0;
+
+  return { mode, lambda, maxPerDocument };
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+}
+
+// Jaccard overlap of the chunks' words
+function wordOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// pgvector columns come back from PostgREST as "[0.1,0.2,...]"
+async function chunkEmbeddings(supabase: SupabaseClient, chunkIds: string[]): Promise<Map<string, number[]>> {
+  const { data, error } = await supabase.from("embeddings").select("chunk_id, embedding").in("chunk_id", chunkIds);
+  if (error) throw new Error(error.message);
+
+  const embeddings = new Map<string, number[]>();
+  for (const row of data || []) {
+    const vector = typeof row.embedding === "string" ? JSON.parse(row.embedding) : row.embedding;
+    if (Array.isArray(vector)) embeddings.set(row.chunk_id, vector);
+  }
+  return embeddings;
+}
+
+export async function diversifyChunks(
+  supabase: SupabaseClient,
+  chunks: RetrievedChunk[],
+  settings: DiversitySettings
+): Promise<RetrievedChunk[]> {
+  if (settings.mode === "off" || chunks.length < 2) return chunks;
+
+  let embeddings = new Map<string, number[]>();
+  try {
+    embeddings = await chunkEmbeddings(supabase, chunks.map((c) => c.chunk_id));
+  } catch (error) {
+    console.error("⚠️ Loading chunk embeddings for MMR failed, comparing words instead:", (error as Error).message);
+  }
+
+  const scores = chunks.map((c) => c.combined_score ?? c.similarity ?? 0);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const relevance = scores.map((s) => (max === min ? 1 : (s - min) / (max - min)));
+  const words = chunks.map((c) => wordSet(c.content));
+
+  const similarity = (i: number, j: number): number => {
+    const a = embeddings.get(chunks[i].chunk_id);
+    const b = embeddings.get(chunks[j].chunk_id);
+    return a && b ? cosine(a, b) : wordOverlap(words[i], words[j]);
+  };
+
+  const remaining = new Set(chunks.map((_, i) => i));
+  // Highest similarity of each remaining chunk to the picked ones
+  const redundancy = chunks.map(() => 0);
+  const perDocument = new Map<string, number>();
+  const picked: RetrievedChunk[] = [];
+
+  while (remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const i of remaining) {
+      const score = settings.lambda * relevance[i] - (1 - settings.lambda) * redundancy[i];
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+    remaining.delete(best);
+
+    const documentId = chunks[best].document_id;
+    const count = perDocument.get(documentId) ?? 0;
+    if (settings.maxPerDocument > 0 && count >= settings.maxPerDocument) continue;
+    perDocument.set(documentId, count + 1);
+    picked.push(chunks[best]);
+
+    for (const i of remaining) {
+      redundancy[i] = Math.max(redundancy[i], similarity(i, best));
+    }
+  }
+
+  return picked;
+}
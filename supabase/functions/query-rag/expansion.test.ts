@@ -0,0 +1,128 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stubEnv } from "../_shared/test-env.ts";
+import { expandChunks, resolveExpansionSettings } from "./expansion.ts";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+const env = stubEnv();
+
+afterEach(() => env.clear());
+
+interface Row {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  metadata: { section?: string; sheet?: string } | null;
+}
+
+// chunks table answering .eq() / .in() filters from memory
+function fakeSupabase(rows: Row[] | Error): SupabaseClient {
+  const query = (filters: Array<(row: Row) => boolean>) => ({
+    eq: (column: keyof Row, value: unknown) => query([...filters, (row) => row[column] === value]),
+    in: (column: keyof Row, values: unknown[]) => query([...filters, (row) => values.includes(row[column])]),
+    then: (resolve: (result: unknown) => void) =>
+      resolve(rows instanceof Error ? { data: null, error: rows } : { data: rows.filter((row) => filters.every((f) => f(row))), error: null }),
+  });
+  return { from: () => ({ select: () => query([]) }) } as unknown as SupabaseClient;
+}
+
+function row(document_id: string, chunk_index: number, section?: string): Row {
+  return { id: `${document_id}-${chunk_index}`, document_id, chunk_index, content: `${document_id} chunk ${chunk_index}`, metadata: section ? { section } : null };
+}
+
+function hit(id: string, fields: Partial<RetrievedChunk> = {}): RetrievedChunk {
+  return { chunk_id: id, content: id, document_id: id.split("-")[0], filename: "guide.pdf", combined_score: 1, similarity: 0.8, search_type: "hybrid", ...fields };
+}
+
+const ids = (chunks: RetrievedChunk[]) => chunks.map((c) => c.chunk_id);
+
+describe("resolveExpansionSettings", () => {
+  it("is off with a window of 1 without configuration", () => {
+    assert.deepEqual(resolveExpansionSettings(), { mode: "off", window: 1 });
+  });
+
+  it("reads CONTEXT_EXPANSION and CONTEXT_WINDOW", () => {
+    env.set("CONTEXT_EXPANSION", "parent");
+    env.set("CONTEXT_WINDOW", "2");
+    assert.deepEqual(resolveExpansionSettings(), { mode: "parent", window: 2 });
+  });
+
+  it("prefers request overrides and caps the window at 5", () => {
+    env.set("CONTEXT_EXPANSION", "parent");
+    assert.deepEqual(resolveExpansionSettings({ mode: "neighbours", window: 12 }), { mode: "neighbours", window: 5 });
+  });
+
+  it("ignores unknown modes and non-positive windows", () => {
+    assert.deepEqual(resolveExpansionSettings({ mode: "document", window: -1 }), { mode: "off", window: 1 });
+  });
+});
+
+describe("expandChunks", () => {
+  const doc = [row("d", 0, "Intro"), row("d", 1, "Refunds"), row("d", 2, "Refunds"), row("d", 3, "Refunds"), row("d", 4, "Shipping")];
+
+  it("returns the chunks unchanged when off", async () => {
+    const chunks = [hit("d-2")];
+    assert.equal(await expandChunks(fakeSupabase(doc), chunks, { mode: "off", window: 1 }), chunks);
+  });
+
+  it("adds the window on both sides and fills in the hits' chunk_index and section", async () => {
+    const expanded = await expandChunks(fakeSupabase(doc), [hit("d-2")], { mode: "neighbours", window: 1 });
+    assert.deepEqual(ids(expanded), ["d-2", "d-1", "d-3"]);
+    assert.equal(expanded[0].chunk_index, 2);
+    assert.equal(expanded[0].section, "Refunds");
+    assert.deepEqual(expanded.slice(1).map((c) => c.expanded_from), ["d-2", "d-2"]);
+  });
+
+  it("stops at the start of the document", async () => {
+    const expanded = await expandChunks(fakeSupabase(doc), [hit("d-0")], { mode: "neighbours", window: 2 });
+    assert.deepEqual(ids(expanded), ["d-0", "d-1", "d-2"]);
+  });
+
+  it("orders expansions nearest first, then by the rank of their hit", async () => {
+    const other = [row("e", 5), row("e", 6), row("e", 7)];
+    const expanded = await expandChunks(fakeSupabase([...doc, ...other]), [hit("e-6"), hit("d-2")], { mode: "neighbours", window: 2 });
+    assert.deepEqual(ids(expanded), ["e-6", "d-2", "e-5", "e-7", "d-1", "d-3", "d-0", "d-4"]);
+  });
+
+  it("adds no chunk twice and never re-adds a hit", async () => {
+    const expanded = await expandChunks(fakeSupabase(doc), [hit("d-1"), hit("d-3")], { mode: "neighbours", window: 1 });
+    assert.deepEqual(ids(expanded), ["d-1", "d-3", "d-0", "d-2", "d-4"]);
+    assert.equal(expanded.find((c) => c.chunk_id === "d-2")?.expanded_from, "d-1");
+  });
+
+  it("expands a hit to its section in parent mode, and not across the section boundary", async () => {
+    const expanded = await expandChunks(fakeSupabase(doc), [hit("d-2")], { mode: "parent", window: 1 });
+    assert.deepEqual(ids(expanded), ["d-2", "d-1", "d-3"]);
+  });
+
+  it("goes past the window in parent mode, up to 4 chunks each way", async () => {
+    const long = Array.from({ length: 12 }, (_, i) => row("p", i, "Terms"));
+    const expanded = await expandChunks(fakeSupabase(long), [hit("p-6")], { mode: "parent", window: 1 });
+    assert.deepEqual(ids(expanded).sort(), ["p-10", "p-2", "p-3", "p-4", "p-5", "p-6", "p-7", "p-8", "p-9"]);
+  });
+
+  it("treats spreadsheet chunks of one sheet as a section", async () => {
+    const sheet = [0, 1, 2].map((i) => ({ ...row("x", i), metadata: { sheet: i < 2 ? "Sales" : "Costs" } }));
+    const expanded = await expandChunks(fakeSupabase(sheet), [hit("x-0")], { mode: "parent", window: 1 });
+    assert.deepEqual(ids(expanded), ["x-0", "x-1"]);
+    assert.equal(expanded[0].section, "Sales");
+  });
+
+  it("falls back to the neighbour window for hits without a section", async () => {
+    const plain = [row("n", 0), row("n", 1), row("n", 2), row("n", 3)];
+    const expanded = await expandChunks(fakeSupabase(plain), [hit("n-1")], { mode: "parent", window: 1 });
+    assert.deepEqual(ids(expanded), ["n-1", "n-0", "n-2"]);
+  });
+
+  it("never expands computed table sources", async () => {
+    const table = hit("d-2", { table: { sheet: "Sales", rows: [1] } });
+    assert.deepEqual(await expandChunks(fakeSupabase(doc), [table], { mode: "neighbours", window: 1 }), [table]);
+  });
+
+  it("keeps the matched chunks when the lookup fails", async () => {
+    const chunks = [hit("d-2")];
+    assert.equal(await expandChunks(fakeSupabase(new Error("timeout")), chunks, { mode: "neighbours", window: 1 }), chunks);
+  });
+});
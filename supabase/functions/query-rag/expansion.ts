@@ -0,0 +1,147 @@
+// Optional expansion of retrieved chunks before generation
+// Search matches on ~1000-character chunks, which often cut off the sentence before or after
+// the passage that matters. Expansion adds the surrounding chunks of every hit; the context
+// packer (context.ts) merges them into the hit's source block, within the token budget.
+//
+// Modes:
+//   off         answer from the matched chunks only (default)
+//   neighbours  chunk_index - window .. chunk_index + window of the same document
+//   parent      the hit's section: neighbours on both sides while they share its heading
+//               (metadata.section) or sheet, at most PARENT_RADIUS chunks each way; hits
+//               without a recorded section fall back to the neighbour window
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+export type ExpansionMode = "off" | "neighbours" | "parent";
+
+export interface ExpansionSettings {
+  mode: ExpansionMode;
+  // Chunks added on each side of a hit in neighbours mode
+  window: number;
+}
+
+interface ChunkRow {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  metadata: { section?: string; sheet?: string } | null;
+}
+
+const EXPANSION_MODES: ExpansionMode[] = ["off", "neighbours", "parent"];
+const DEFAULT_WINDOW = 1;
+const MAX_WINDOW = 5;
+const PARENT_RADIUS = 4;
+
+export function isExpansionMode(value: unknown): value is ExpansionMode {
+  return EXPANSION_MODES.includes(value as ExpansionMode);
+}
+
+// Environment defaults (CONTEXT_EXPANSION, CONTEXT_WINDOW), overridable per request
+export function resolveExpansionSettings(overrides: { mode?: unknown; window?: unknown } = {}): ExpansionSettings {
+  const envMode = Deno.env.get("CONTEXT_EXPANSION");
+  const mode = isExpansionMode(overrides.mode) ? overrides.mode : isExpansionMode(envMode) ? envMode : "off";
+
+  const requestedWindow = typeof overrides.window === "number" ? overrides.window : Number(Deno.env.get("CONTEXT_WINDOW"));
+  const window = requestedWindow > 0 ? Math.min(MAX_WINDOW, Math.floor(requestedWindow)) : DEFAULT_WINDOW;
+
+  return { mode, window };
+}
+
+function sectionOf(row: ChunkRow): string | undefined {
+  return row.metadata?.section ?? row.metadata?.sheet;
+}
+
+// The ranked chunks with their chunk_index filled in, followed by the expansion chunks
+// (nearest first, then by the rank of their hit). Computed table sources are not expanded.
+export async function expandChunks(
+  supabase: SupabaseClient,
+  chunks: RetrievedChunk[],
+  settings: ExpansionSettings
+): Promise<RetrievedChunk[]> {
+  const hits = chunks.filter((c) => !c.table);
+  if (settings.mode === "off" || hits.length === 0) return chunks;
+
+  try {
+    // hybrid_search does not return chunk_index
+    const { data: hitRows, error } = await supabase
+      .from("chunks")
+      .select("id, document_id, chunk_index, content, metadata")
+      .in("id", hits.map((c) => c.chunk_id));
+    if (error) throw new Error(error.message);
+
+    const hitById = new Map<string, ChunkRow>((hitRows || []).map((row: ChunkRow) => [row.id, row]));
+    const radius = settings.mode === "parent" ? Math.max(PARENT_RADIUS, settings.window) : settings.window;
+
+    const wanted = new Map<string, Set<number>>();
+    for (const row of hitById.values()) {
+      const indexes = wanted.get(row.document_id) ?? new Set<number>();
+      for (let d = -radius; d <= radius; d++) {
+        if (d !== 0 && row.chunk_index + d >= 0) indexes.add(row.chunk_index + d);
+      }
+      wanted.set(row.document_id, indexes);
+    }
+
+    const rowsByDocument = new Map<string, Map<number, ChunkRow>>();
+    for (const [documentId, indexes] of wanted) {
+      const { data, error: rowsError } = await supabase
+        .from("chunks")
+        .select("id, document_id, chunk_index, content, metadata")
+        .eq("document_id", documentId)
+        .in("chunk_index", [...indexes]);
+      if (rowsError) throw new Error(rowsError.message);
+      rowsByDocument.set(documentId, new Map((data || []).map((row: ChunkRow) => [row.chunk_index, row])));
+    }
+
+    const included = new Set(chunks.map((c) => c.chunk_id));
+    const expansions: Array<{ chunk: RetrievedChunk; distance: number; rank: number }> = [];
+
+    hits.forEach((hit, rank) => {
+      const hitRow = hitById.get(hit.chunk_id);
+      if (!hitRow) return;
+      const rows = rowsByDocument.get(hitRow.document_id);
+      const section = sectionOf(hitRow);
+      const parent = settings.mode === "parent" && section !== undefined;
+      const limit = parent ? radius : settings.window;
+
+      for (const direction of [-1, 1]) {
+        for (let distance = 1; distance <= limit; distance++) {
+          const row = rows?.get(hitRow.chunk_index + direction * distance);
+          if (!row || (parent && sectionOf(row) !== section)) break;
+          if (included.has(row.id)) continue;
+          included.add(row.id);
+          expansions.push({
+            chunk: {
+              chunk_id: row.id,
+              content: row.content,
+              document_id: row.document_id,
+              chunk_index: row.chunk_index,
+              filename: hit.filename,
+              combined_score: 0,
+              similarity: 0,
+              search_type: "expansion",
+              expanded_from: hit.chunk_id,
+            },
+            distance,
+            rank,
+          });
+        }
+      }
+    });
+
+    // Adjacent chunks merge one step at a time, so all distance-1 chunks go before distance 2
+    expansions.sort((a, b) => a.distance - b.distance || a.rank - b.rank);
+
+    const ranked = chunks.map((c) => {
+      const row = hitById.get(c.chunk_id);
+      if (!row) return c;
+      const section = sectionOf(row);
+      return { ...c, chunk_index: row.chunk_index, ...(section && { section }) };
+    });
+    return [...ranked, ...expansions.map((e) => e.chunk)];
+  } catch (error) {
+    console.error(`⚠️ Context expansion (${settings.mode}) failed, using matched chunks only:`, (error as Error).message);
+    return chunks;
+  }
+}
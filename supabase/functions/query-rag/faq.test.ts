@@ -0,0 +1,89 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stubEnv } from "../_shared/test-env.ts";
+import { type FaqMatch, faqSources, matchFaq, resolveFaqThreshold } from "./faq.ts";
+
+const env = stubEnv();
+
+afterEach(() => env.clear());
+
+const FAQ: FaqMatch = {
+  id: "faq-1",
+  question: "How long do refunds take?",
+  answer: "Refunds reach your account within 14 days.",
+  matched_question: "when do I get my money back",
+  similarity: 0.91,
+  documents: [
+    { document_id: "d1", filename: "returns.pdf", preview: "Refund policy" },
+    { document_id: "d2", filename: "faq.docx", preview: null },
+  ],
+};
+
+// Records the match_faq call and answers it with the given result
+function fakeSupabase(result: { data: FaqMatch[] | null; error: { message: string } | null }) {
+  const calls: Array<[string, Record<string, unknown>]> = [];
+  const supabase = {
+    rpc: (name: string, args: Record<string, unknown>) => {
+      calls.push([name, args]);
+      return Promise.resolve(result);
+    },
+  } as unknown as SupabaseClient;
+  return { supabase, calls };
+}
+
+describe("resolveFaqThreshold", () => {
+  it("defaults to 0.85", () => {
+    assert.equal(resolveFaqThreshold(), 0.85);
+  });
+
+  it("reads FAQ_SIMILARITY_THRESHOLD", () => {
+    env.set("FAQ_SIMILARITY_THRESHOLD", "0.9");
+    assert.equal(resolveFaqThreshold(), 0.9);
+  });
+
+  it("accepts a threshold of exactly 1", () => {
+    env.set("FAQ_SIMILARITY_THRESHOLD", "1");
+    assert.equal(resolveFaqThreshold(), 1);
+  });
+
+  it("ignores thresholds outside (0, 1]", () => {
+    for (const value of ["0", "-0.2", "1.5", "high"]) {
+      env.set("FAQ_SIMILARITY_THRESHOLD", value);
+      assert.equal(resolveFaqThreshold(), 0.85, value);
+    }
+  });
+});
+
+describe("matchFaq", () => {
+  it("asks match_faq for the single best FAQ of the role at the threshold", async () => {
+    const { supabase, calls } = fakeSupabase({ data: [FAQ], error: null });
+    assert.equal(await matchFaq(supabase, [0.1, 0.2], "customer", 0.85), FAQ);
+    assert.deepEqual(calls, [
+      ["match_faq", { query_embedding: [0.1, 0.2], role_filter: "customer", similarity_threshold: 0.85, limit_count: 1 }],
+    ]);
+  });
+
+  it("is null when no FAQ reaches the threshold", async () => {
+    assert.equal(await matchFaq(fakeSupabase({ data: [], error: null }).supabase, [0.1], "customer", 0.85), null);
+    assert.equal(await matchFaq(fakeSupabase({ data: null, error: null }).supabase, [0.1], "customer", 0.85), null);
+  });
+
+  it("is null when matching fails, so the question is answered as usual", async () => {
+    const { supabase } = fakeSupabase({ data: null, error: { message: "function match_faq does not exist" } });
+    assert.equal(await matchFaq(supabase, [0.1], "customer", 0.85), null);
+  });
+});
+
+describe("faqSources", () => {
+  it("lists the linked documents with the match similarity", () => {
+    assert.deepEqual(faqSources(FAQ), [
+      { document_id: "d1", filename: "returns.pdf", chunk_content: "Refund policy", relevance_score: 0.91 },
+      { document_id: "d2", filename: "faq.docx", chunk_content: "", relevance_score: 0.91 },
+    ]);
+  });
+
+  it("is empty for an FAQ without documents", () => {
+    assert.deepEqual(faqSources({ ...FAQ, documents: [] }), []);
+  });
+});
@@ -0,0 +1,54 @@
+// Curated FAQ answers
+// Before the query cache and the RAG pipeline, the question is matched against the variants
+// of every active FAQ the role may see (match_faq). A match at FAQ_SIMILARITY_THRESHOLD
+// (default 0.85) or above is answered with the FAQ's canonical answer, word for word; its
+// sources are the linked documents the role can currently search.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface FaqMatch {
+  id: string;
+  question: string;
+  answer: string;
+  // The variant the question matched
+  matched_question: string;
+  similarity: number;
+  documents: Array<{ document_id: string; filename: string; preview: string | null }>;
+}
+
+const DEFAULT_THRESHOLD = 0.85;
+
+export function resolveFaqThreshold(): number {
+  const threshold = Number(Deno.env.get("FAQ_SIMILARITY_THRESHOLD"));
+  return threshold > 0 && threshold <= 1 ? threshold : DEFAULT_THRESHOLD;
+}
+
+// The best matching FAQ, or null (also when matching fails: the question is answered as usual)
+export async function matchFaq(
+  supabase: SupabaseClient,
+  embedding: number[],
+  role: string,
+  threshold: number
+): Promise<FaqMatch | null> {
+  const { data, error } = await supabase.rpc("match_faq", {
+    query_embedding: embedding,
+    role_filter: role,
+    similarity_threshold: threshold,
+    limit_count: 1,
+  });
+  if (error) {
+    console.error("⚠️ FAQ matching failed, answering without FAQs:", error.message);
+    return null;
+  }
+  return data?.[0] ?? null;
+}
+
+// Linked documents in the shape of answer sources (no chunk: they link to the whole document)
+export function faqSources(faq: FaqMatch) {
+  return faq.documents.map((doc) => ({
+    document_id: doc.document_id,
+    filename: doc.filename,
+    chunk_content: doc.preview ?? "",
+    relevance_score: faq.similarity,
+  }));
+}
@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { describeFilters, normalizeFilters, toRpcFilters } from "./filters.ts";
+
+const DOC_ID = "3f2b8c1e-9a4d-4e6f-8b2a-1c3d5e7f9a0b";
+
+describe("normalizeFilters", () => {
+  it("is null for a body that is not an object", () => {
+    assert.equal(normalizeFilters("pdf"), null);
+    assert.equal(normalizeFilters(null), null);
+  });
+
+  it("is null when nothing usable is left", () => {
+    assert.equal(normalizeFilters({}), null);
+    assert.equal(normalizeFilters({ tags: [], uploadedFrom: "yesterday" }), null);
+  });
+
+  it("keeps valid document ids only", () => {
+    assert.deepEqual(normalizeFilters({ documentIds: [DOC_ID, "not-a-uuid", 42] }), { documentIds: [DOC_ID] });
+  });
+
+  it("trims and de-duplicates lists", () => {
+    assert.deepEqual(normalizeFilters({ tags: [" hr ", "hr", "", "finance"] }), { tags: ["hr", "finance"] });
+  });
+
+  it("ignores a list given as a single string", () => {
+    assert.equal(normalizeFilters({ fileTypes: "application/pdf" }), null);
+  });
+
+  it("keeps at most 100 values per list", () => {
+    const tags = Array.from({ length: 150 }, (_, i) => `tag-${i}`);
+    assert.equal(normalizeFilters({ tags })?.tags?.length, 100);
+  });
+
+  it("keeps YYYY-MM-DD dates only", () => {
+    assert.deepEqual(
+      normalizeFilters({ uploadedFrom: "2024-01-31", uploadedTo: "2024-02-30x", effectiveFrom: "2024-13-01", effectiveTo: "31.01.2024" }),
+      { uploadedFrom: "2024-01-31" }
+    );
+  });
+
+  it("drops unknown keys", () => {
+    assert.deepEqual(normalizeFilters({ owner: "me", tags: ["hr"] }), { tags: ["hr"] });
+  });
+});
+
+describe("toRpcFilters", () => {
+  it("maps to the snake_case keys of p_filters", () => {
+    assert.deepEqual(
+      toRpcFilters({ documentIds: [DOC_ID], fileTypes: ["application/pdf"], tags: ["hr"], uploadedFrom: "2024-01-01", effectiveTo: "2024-12-31" }),
+      { document_ids: [DOC_ID], file_types: ["application/pdf"], tags: ["hr"], uploaded_from: "2024-01-01", effective_to: "2024-12-31" }
+    );
+  });
+
+  it("is empty without filters", () => {
+    assert.deepEqual(toRpcFilters(null), {});
+    assert.deepEqual(toRpcFilters({}), {});
+  });
+});
+
+describe("describeFilters", () => {
+  it("lists every filter for the logs", () => {
+    assert.equal(describeFilters({ tags: ["hr", "finance"], uploadedTo: "2024-06-30" }), "tags=hr|finance, uploadedTo=2024-06-30");
+  });
+
+  it("is empty without filters", () => {
+    assert.equal(describeFilters({}), "");
+  });
+});
@@ -0,0 +1,73 @@
+// Metadata filters for query-rag retrieval
+// Requests may narrow the search to specific documents, file types, tags and upload or
+// effective-date ranges. The filters are applied inside the retrieval RPCs (p_filters, see
+// document_matches_filters) on top of the role-based document selection.
+
+export interface QueryFilters {
+  documentIds?: string[];
+  // MIME types, e.g. "application/pdf"
+  fileTypes?: string[];
+  // Documents with any of these tags
+  tags?: string[];
+  // Inclusive YYYY-MM-DD dates
+  uploadedFrom?: string;
+  uploadedTo?: string;
+  effectiveFrom?: string;
+  effectiveTo?: string;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_VALUES = 100;
+
+function stringList(value: unknown, pattern?: RegExp): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const list = [...new Set(value.filter((v): v is string => typeof v === "string").map((v) => v.trim()))]
+    .filter((v) => v.length > 0 && (!pattern || pattern.test(v)))
+    .slice(0, MAX_VALUES);
+  return list.length > 0 ? list : undefined;
+}
+
+function date(value: unknown): string | undefined {
+  return typeof value === "string" && DATE.test(value) && !Number.isNaN(Date.parse(value)) ? value : undefined;
+}
+
+// Drop malformed values; null when nothing usable is left
+export function normalizeFilters(raw: unknown): QueryFilters | null {
+  if (!raw || typeof raw !== "object") return null;
+  const input = raw as Record<string, unknown>;
+
+  const filters: QueryFilters = {
+    documentIds: stringList(input.documentIds, UUID),
+    fileTypes: stringList(input.fileTypes),
+    tags: stringList(input.tags),
+    uploadedFrom: date(input.uploadedFrom),
+    uploadedTo: date(input.uploadedTo),
+    effectiveFrom: date(input.effectiveFrom),
+    effectiveTo: date(input.effectiveTo),
+  };
+
+  const entries = Object.entries(filters).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as QueryFilters) : null;
+}
+
+// The p_filters object the retrieval RPCs expect (snake_case keys, absent = no restriction)
+export function toRpcFilters(filters: QueryFilters | null): Record<string, unknown> {
+  if (!filters) return {};
+  const rpc: Record<string, unknown> = {
+    document_ids: filters.documentIds,
+    file_types: filters.fileTypes,
+    tags: filters.tags,
+    uploaded_from: filters.uploadedFrom,
+    uploaded_to: filters.uploadedTo,
+    effective_from: filters.effectiveFrom,
+    effective_to: filters.effectiveTo,
+  };
+  return Object.fromEntries(Object.entries(rpc).filter(([, value]) => value !== undefined));
+}
+
+export function describeFilters(filters: QueryFilters): string {
+  return Object.entries(filters)
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join("|") : value}`)
+    .join(", ");
+}
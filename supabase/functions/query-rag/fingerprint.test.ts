@@ -0,0 +1,83 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { LLMProvider } from "../_shared/providers/index.ts";
+import { stubEnv } from "../_shared/test-env.ts";
+import { cacheFingerprint, PROMPT_VERSION } from "./fingerprint.ts";
+
+const env = stubEnv();
+
+function provider(generationModel = "gemini-2.5-flash"): LLMProvider {
+  return { name: "gemini", embeddingModel: "text-embedding-004", generationModel } as LLMProvider;
+}
+
+async function withEnv(key: string, value: string, run: () => Promise<void>) {
+  env.set(key, value);
+  try {
+    await run();
+  } finally {
+    env.delete(key);
+  }
+}
+
+describe("cacheFingerprint", () => {
+  let baseline: string;
+
+  before(async () => {
+    baseline = (await cacheFingerprint(provider())).hash;
+  });
+
+  it("is stable for the same pipeline", async () => {
+    assert.equal((await cacheFingerprint(provider())).hash, baseline);
+    assert.match(baseline, /^[0-9a-f]{16}$/);
+  });
+
+  it("records the prompt version", async () => {
+    assert.equal((await cacheFingerprint(provider())).config.promptVersion, PROMPT_VERSION);
+  });
+
+  it("does not change when an override repeats the default", async () => {
+    assert.equal((await cacheFingerprint(provider(), {}, { selfCheck: "llm" }, { mode: "off" })).hash, baseline);
+  });
+
+  it("changes with the generation model", async () => {
+    assert.notEqual((await cacheFingerprint(provider("gemini-2.5-pro"))).hash, baseline);
+  });
+
+  it("changes with the hybrid weights", async () => {
+    assert.notEqual((await cacheFingerprint(provider(), { semanticWeight: 0.9, keywordWeight: 0.1 })).hash, baseline);
+  });
+
+  it("changes with the rerank mode", async () => {
+    assert.notEqual((await cacheFingerprint(provider(), { rerank: "llm" })).hash, baseline);
+  });
+
+  it("changes with the context budget", async () => {
+    assert.notEqual((await cacheFingerprint(provider(), { contextTokens: 2000 })).hash, baseline);
+  });
+
+  it("changes with the abstention threshold", async () => {
+    const { hash, config } = await cacheFingerprint(provider(), {}, { threshold: 0.6 });
+    assert.notEqual(hash, baseline);
+    assert.deepEqual(config.confidence, { threshold: 0.6, selfCheck: "llm" });
+  });
+
+  it("changes with the self-check mode", async () => {
+    assert.notEqual((await cacheFingerprint(provider(), {}, { selfCheck: "off" })).hash, baseline);
+  });
+
+  it("changes with the verification mode", async () => {
+    assert.notEqual((await cacheFingerprint(provider(), {}, {}, { mode: "nli" })).hash, baseline);
+  });
+
+  it("changes with the chunking settings", async () => {
+    await withEnv("CHUNK_SIZE", "500", async () => {
+      assert.notEqual((await cacheFingerprint(provider())).hash, baseline);
+    });
+  });
+
+  it("changes with the threshold secret", async () => {
+    await withEnv("CONFIDENCE_THRESHOLD", "0.5", async () => {
+      assert.notEqual((await cacheFingerprint(provider())).hash, baseline);
+    });
+  });
+});
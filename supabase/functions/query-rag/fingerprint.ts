@@ -0,0 +1,75 @@
+// Cache fingerprint
+// A cached answer is only valid for the pipeline that produced it. The fingerprint hashes
+// the models, the answer prompt version, the chunking settings and the resolved retrieval,
+// confidence and verification settings; answers are cached with it and only served while it
+// is unchanged, so a new model, prompt, retrieval tuning or abstention threshold stops old
+// answers from being served.
+//
+// Bump PROMPT_VERSION whenever the answer prompt (STEP 6 in index.ts) changes.
+
+import type { LLMProvider } from "../_shared/providers/index.ts";
+import { resolveConfidenceSettings, type ConfidenceOptions } from "./confidence.ts";
+import { resolveContextSettings } from "./context.ts";
+import { resolveDiversitySettings } from "./diversity.ts";
+import { resolveExpansionSettings } from "./expansion.ts";
+import { AUTO_WEIGHTS, resolveRetrievalSettings, type RetrievalOptions } from "./options.ts";
+import { resolvePlannerMode } from "./planner.ts";
+import { resolveRerankSettings } from "./rerank.ts";
+import { resolveTableQaMode } from "./tables.ts";
+import { resolveQueryExpansionSettings } from "./variants.ts";
+import { resolveVerificationSettings, type VerificationOptions } from "./verification.ts";
+
+export const PROMPT_VERSION = "2024-11-26.1";
+
+export interface CacheFingerprint {
+  hash: string;
+  config: Record<string, unknown>;
+}
+
+export async function cacheFingerprint(
+  llm: LLMProvider,
+  retrieval: RetrievalOptions = {},
+  confidence: ConfidenceOptions = {},
+  verification: VerificationOptions = {}
+): Promise<CacheFingerprint> {
+  // Weights only depend on the question when the caller sets none
+  const settings = resolveRetrievalSettings("", retrieval);
+  const rerank = resolveRerankSettings({ mode: retrieval.rerank, topN: retrieval.rerankTopN });
+  const diversity = resolveDiversitySettings({
+    mode: retrieval.diversity,
+    lambda: retrieval.mmrLambda,
+    maxPerDocument: retrieval.maxPerDocument,
+  });
+
+  const config = {
+    provider: llm.name,
+    embeddingModel: llm.embeddingModel,
+    generationModel: llm.generationModel,
+    promptVersion: PROMPT_VERSION,
+    chunking: {
+      size: Number(Deno.env.get("CHUNK_SIZE")) || 1000,
+      overlap: Number(Deno.env.get("CHUNK_OVERLAP")) || 200,
+    },
+    retrieval: {
+      planner: resolvePlannerMode(retrieval.planner),
+      fusion: settings.fusion,
+      rrfK: settings.rrfK,
+      limit: settings.limit,
+      weights: settings.weighting === "custom"
+        ? { semantic: settings.semanticWeight, keyword: settings.keywordWeight }
+        : AUTO_WEIGHTS,
+      queryExpansion: resolveQueryExpansionSettings({ mode: retrieval.queryExpansion, paraphrases: retrieval.multiQueryCount }),
+      diversity: diversity.mode === "off" ? "off" : diversity,
+      rerank: rerank.mode === "off" ? "off" : rerank,
+      tableQa: resolveTableQaMode(retrieval.tableQa),
+      expansion: resolveExpansionSettings({ mode: retrieval.expansion, window: retrieval.expansionWindow }),
+      contextTokens: resolveContextSettings(llm.generationModel, { tokenBudget: retrieval.contextTokens }).tokenBudget,
+    },
+    confidence: resolveConfidenceSettings(confidence),
+    verification: resolveVerificationSettings(verification),
+  };
+
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(config)));
+  const hash = [...new Uint8Array(digest)].slice(0, 8).map((b) => b.toString(16).padStart(2, "0")).join("");
+  return { hash, config };
+}
@@ -0,0 +1,131 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fuseResults, fuseVariantResults, isFusionStrategy, type FusionOptions } from "./fusion.ts";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+function chunk(id: string, similarity: number, keyword_score?: number): RetrievedChunk {
+  return {
+    chunk_id: id,
+    content: id,
+    document_id: "doc",
+    filename: "doc.txt",
+    combined_score: 0,
+    similarity,
+    keyword_score,
+    search_type: "semantic",
+  };
+}
+
+const RRF: FusionOptions = { strategy: "rrf", semanticWeight: 0.5, keywordWeight: 0.5, rrfK: 60 };
+const WEIGHTED: FusionOptions = { ...RRF, strategy: "weighted" };
+const MAX: FusionOptions = { ...RRF, strategy: "max" };
+
+const ids = (chunks: RetrievedChunk[]) => chunks.map((c) => c.chunk_id);
+
+describe("isFusionStrategy", () => {
+  it("accepts the four strategies only", () => {
+    assert.deepEqual(["rrf", "weighted", "max", "legacy", "RRF", undefined].map(isFusionStrategy), [true, true, true, true, false, false]);
+  });
+});
+
+describe("fuseResults", () => {
+  it("is empty when both searches found nothing", () => {
+    assert.deepEqual(fuseResults([], [], RRF), []);
+  });
+
+  it("keeps a single list's order when the other search found nothing", () => {
+    assert.deepEqual(ids(fuseResults([], [chunk("k1", 0, 5), chunk("k2", 0, 2)], RRF)), ["k1", "k2"]);
+    assert.deepEqual(ids(fuseResults([chunk("v1", 0.9), chunk("v2", 0.4)], [], WEIGHTED)), ["v1", "v2"]);
+  });
+
+  it("rrf ranks a chunk found by both searches above either list's top hit", () => {
+    const fused = fuseResults([chunk("a", 0.9), chunk("both", 0.8)], [chunk("k", 0, 5), chunk("both", 0, 4)], RRF);
+    assert.deepEqual(ids(fused), ["both", "a", "k"]);
+    assert.equal(fused[0].combined_score, 1 / 62 + 1 / 62);
+  });
+
+  it("rrf uses ranks, not raw scores", () => {
+    assert.deepEqual(ids(fuseResults([chunk("a", 0.31), chunk("b", 0.3)], [chunk("c", 0, 100)], RRF)), ["a", "c", "b"]);
+  });
+
+  it("rrf keeps the vector result first when both top hits tie", () => {
+    const fused = fuseResults([chunk("v", 0.9)], [chunk("k", 0, 3)], RRF);
+    assert.deepEqual(ids(fused), ["v", "k"]);
+    assert.equal(fused[0].combined_score, fused[1].combined_score);
+  });
+
+  it("a smaller rrfK favours the top of each list more", () => {
+    const vector = [chunk("a", 0.9), chunk("x", 0.8), chunk("both", 0.7)];
+    const keyword = [chunk("k", 0, 9), chunk("y", 0, 8), chunk("both", 0, 7)];
+    assert.equal(ids(fuseResults(vector, keyword, RRF))[0], "both");
+    assert.equal(ids(fuseResults(vector, keyword, { ...RRF, rrfK: 1 }))[0], "a");
+  });
+
+  it("weighted fusion follows the weights", () => {
+    const vector = [chunk("a", 0.9), chunk("b", 0.1)];
+    const keyword = [chunk("b", 0, 3), chunk("a", 0, 1)];
+    assert.deepEqual(ids(fuseResults(vector, keyword, { ...WEIGHTED, semanticWeight: 0.2, keywordWeight: 0.8 })), ["b", "a"]);
+    assert.deepEqual(ids(fuseResults(vector, keyword, { ...WEIGHTED, semanticWeight: 0.8, keywordWeight: 0.2 })), ["a", "b"]);
+  });
+
+  it("weighted fusion scores a list of equal scores as all 1", () => {
+    const fused = fuseResults([chunk("a", 0.4), chunk("b", 0.4)], [], WEIGHTED);
+    assert.deepEqual(fused.map((c) => c.combined_score), [0.5, 0.5]);
+  });
+
+  it("max keeps the stronger normalised signal", () => {
+    const fused = fuseResults([chunk("a", 0.9), chunk("b", 0.5), chunk("c", 0.1)], [chunk("c", 0, 9), chunk("a", 0, 1)], MAX);
+    assert.deepEqual(ids(fused), ["a", "c", "b"]);
+  });
+
+  it("labels each chunk with the searches that found it", () => {
+    const fused = fuseResults([chunk("a", 0.9), chunk("both", 0.8)], [chunk("both", 0, 2), chunk("k", 0, 1)], RRF);
+    const types = Object.fromEntries(fused.map((r) => [r.chunk_id, r.search_type]));
+    assert.deepEqual(types, { a: "semantic", both: "hybrid", k: "keyword" });
+  });
+
+  it("keeps the best similarity and keyword score of a chunk", () => {
+    const [both] = fuseResults([chunk("both", 0.7)], [chunk("both", 0, 3)], RRF);
+    assert.equal(both.similarity, 0.7);
+    assert.equal(both.keyword_score, 3);
+  });
+});
+
+describe("fuseVariantResults", () => {
+  it("is empty without result lists", () => {
+    assert.deepEqual(fuseVariantResults([], 60), []);
+    assert.deepEqual(fuseVariantResults([{ results: [] }, { results: [] }], 60), []);
+  });
+
+  it("keeps a single variant's order", () => {
+    assert.deepEqual(ids(fuseVariantResults([{ results: [chunk("a", 0.9), chunk("b", 0.8)] }], 60)), ["a", "b"]);
+  });
+
+  it("ranks chunks found by several variants first", () => {
+    const fused = fuseVariantResults(
+      [
+        { results: [chunk("a", 0.9), chunk("shared", 0.6)] },
+        { results: [chunk("b", 0.8), chunk("shared", 0.7)] },
+      ],
+      60
+    );
+    assert.deepEqual(ids(fused), ["shared", "a", "b"]);
+    assert.equal(fused[0].similarity, 0.7);
+  });
+
+  it("keeps the earlier variant's chunk first when two top hits tie", () => {
+    assert.deepEqual(ids(fuseVariantResults([{ results: [chunk("a", 0.5)] }, { results: [chunk("b", 0.9)] }], 60)), ["a", "b"]);
+  });
+
+  it("ignores HyDE passage similarity for chunks a query variant found", () => {
+    const fused = fuseVariantResults(
+      [
+        { results: [chunk("a", 0.5)] },
+        { results: [chunk("a", 0.95), chunk("p", 0.9)], passage: true },
+      ],
+      60
+    );
+    const similarity = Object.fromEntries(fused.map((r) => [r.chunk_id, r.similarity]));
+    assert.deepEqual(similarity, { a: 0.5, p: 0.9 });
+  });
+});
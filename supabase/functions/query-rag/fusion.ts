@@ -0,0 +1,115 @@
+// Fusion of separately retrieved vector and full-text rankings
+//
+// Strategies:
+//   rrf       Reciprocal Rank Fusion: sum of 1 / (k + rank) over both lists (same formula
+//             as public.rrf_score). Needs no score calibration, so it is the default.
+//   weighted  Min-max normalise each list's scores, then semanticWeight * vector +
+//             keywordWeight * keyword
+//   max       Normalised scores, keep the better of the two signals per chunk
+//   legacy    The original hybrid_search RPC with heuristic weights (single SQL call)
+
+import type { RetrievedChunk } from "./retrieval.ts";
+
+export type FusionStrategy = "rrf" | "weighted" | "max" | "legacy";
+
+export const FUSION_STRATEGIES: FusionStrategy[] = ["rrf", "weighted", "max", "legacy"];
+
+export function isFusionStrategy(value: unknown): value is FusionStrategy {
+  return FUSION_STRATEGIES.includes(value as FusionStrategy);
+}
+
+export interface FusionOptions {
+  strategy: Exclude<FusionStrategy, "legacy">;
+  semanticWeight: number;
+  keywordWeight: number;
+  rrfK: number;
+}
+
+// Scale scores to 0..1 within one result list (a single result scores 1)
+function normalise(results: RetrievedChunk[], score: (r: RetrievedChunk) => number): Map<string, number> {
+  const values = results.map(score);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return new Map(results.map((r, i) => [r.chunk_id, max === min ? 1 : (values[i] - min) / (max - min)]));
+}
+
+export function fuseResults(
+  vectorResults: RetrievedChunk[],
+  keywordResults: RetrievedChunk[],
+  options: FusionOptions
+): RetrievedChunk[] {
+  const vectorRank = new Map(vectorResults.map((r, i) => [r.chunk_id, i + 1]));
+  const keywordRank = new Map(keywordResults.map((r, i) => [r.chunk_id, i + 1]));
+  const vectorNorm = normalise(vectorResults, (r) => r.similarity);
+  const keywordNorm = normalise(keywordResults, (r) => r.keyword_score ?? 0);
+
+  const byId = new Map<string, RetrievedChunk>();
+  for (const r of [...vectorResults, ...keywordResults]) {
+    const existing = byId.get(r.chunk_id);
+    byId.set(r.chunk_id, {
+      ...(existing ?? r),
+      similarity: Math.max(existing?.similarity ?? 0, r.similarity ?? 0),
+      keyword_score: Math.max(existing?.keyword_score ?? 0, r.keyword_score ?? 0),
+    });
+  }
+
+  const fused = [...byId.values()].map((chunk) => {
+    const id = chunk.chunk_id;
+    const inVector = vectorRank.has(id);
+    const inKeyword = keywordRank.has(id);
+
+    let score: number;
+    switch (options.strategy) {
+      case "rrf":
+        score =
+          (inVector ? 1 / (options.rrfK + vectorRank.get(id)!) : 0) +
+          (inKeyword ? 1 / (options.rrfK + keywordRank.get(id)!) : 0);
+        break;
+      case "weighted":
+        score =
+          (vectorNorm.get(id) ?? 0) * options.semanticWeight +
+          (keywordNorm.get(id) ?? 0) * options.keywordWeight;
+        break;
+      case "max":
+        score = Math.max(vectorNorm.get(id) ?? 0, keywordNorm.get(id) ?? 0);
+        break;
+    }
+
+    return {
+      ...chunk,
+      combined_score: score,
+      search_type: inVector && inKeyword ? "hybrid" : inVector ? "semantic" : "keyword",
+    };
+  });
+
+  return fused.sort((a, b) => b.combined_score - a.combined_score);
+}
+
+// RRF over the result lists of one query's variants (variants.ts). Vector similarity of a
+// HyDE passage compares passage to passage and runs high, so it only counts for chunks no
+// query variant found.
+export function fuseVariantResults(lists: Array<{ results: RetrievedChunk[]; passage?: boolean }>, rrfK: number): RetrievedChunk[] {
+  const byId = new Map<string, { chunk: RetrievedChunk; score: number; querySimilarity?: number }>();
+
+  for (const { results, passage } of lists) {
+    results.forEach((r, i) => {
+      const entry = byId.get(r.chunk_id) ?? { chunk: r, score: 0 };
+      entry.score += 1 / (rrfK + i + 1);
+      entry.chunk = {
+        ...entry.chunk,
+        similarity: Math.max(entry.chunk.similarity ?? 0, r.similarity ?? 0),
+        keyword_score: Math.max(entry.chunk.keyword_score ?? 0, r.keyword_score ?? 0),
+      };
+      if (!passage) entry.querySimilarity = Math.max(entry.querySimilarity ?? 0, r.similarity ?? 0);
+      byId.set(r.chunk_id, entry);
+    });
+  }
+
+  return [...byId.values()]
+    .map(({ chunk, score, querySimilarity }) => ({
+      ...chunk,
+      similarity: querySimilarity ?? chunk.similarity,
+      combined_score: score,
+    }))
+    .sort((a, b) => b.combined_score - a.combined_score);
+}
@@ -4,7 +4,37 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { GoogleGenerativeAI } from "npm:@google/generative-ai@0.24.1";
+import { getLLMProvider, type LLMProvider } from "../_shared/providers/index.ts";
+import {
+  countEmbeddedChunks,
+  fetchChunkContents,
+  hybridSearch,
+  keywordSearch,
+  type RetrievedChunk,
+  vectorSearch,
+} from "./retrieval.ts";
+import { type Citation, resolveCitations } from "./citations.ts";
+import { formatContext, packContext, remapCitations, resolveContextSettings, restoreBlocks, sourceSpan, type CachedSource } from "./context.ts";
+import {
+  type AnswerConfidence,
+  NOT_FOUND_ANSWER,
+  resolveConfidenceSettings,
+  retrievalConfidence,
+  scoreAnswer,
+} from "./confidence.ts";
+import { diversifyChunks, resolveDiversitySettings } from "./diversity.ts";
+import { expandChunks, resolveExpansionSettings } from "./expansion.ts";
+import { faqSources, matchFaq, resolveFaqThreshold } from "./faq.ts";
+import { cacheFingerprint } from "./fingerprint.ts";
+import { fuseResults, fuseVariantResults } from "./fusion.ts";
+import { describeFilters, normalizeFilters, toRpcFilters } from "./filters.ts";
+import { answerFromTables, isAnalyticalQuestion, resolveTableQaMode, type TableAggregation } from "./tables.ts";
+import { type AnswerVerification, resolveVerificationSettings, verifyAnswer } from "./verification.ts";
+import { formatConversation, isFollowUp, MAX_HISTORY_TURNS, normalizeHistory, planQuery } from "./planner.ts";
+import { resolveRetrievalSettings } from "./options.ts";
+import { rerankChunks, resolveRerankSettings } from "./rerank.ts";
+import { singleToken, streamAnswerResponse } from "./stream.ts";
+import { queryVariants, resolveQueryExpansionSettings } from "./variants.ts";
 
 console.log("✅ query-rag initialized");
 
@@ -20,10 +50,31 @@ serve(async (req) => {
   }
 
   try {
-    const { question, customerMode, employeeMode } = await req.json()
-    console.log(`💬 Query: "${question}" (customerMode: ${customerMode}, employeeMode: ${employeeMode})`)
-
-    if (!question) {
+    const {
+      question,
+      customerMode,
+      employeeMode,
+      stream = false,
+      retrieval,
+      confidence: confidenceOptions,
+      verification: verificationOptions,
+      filters: rawFilters,
+      evaluation = false,
+      history: rawHistory,
+      conversationId = null,
+      // Re-warming an outdated cache entry: answer from scratch, save to the cache only
+      warmCache = false,
+      // Only report the current cache fingerprint (no question needed)
+      describeCache = false,
+    } = await req.json()
+    // Recent turns of the same thread (oldest first), bounded to MAX_HISTORY_TURNS
+    let history = normalizeHistory(rawHistory)
+    // Optional document/file type/tag/date restrictions, applied inside the retrieval RPCs
+    const filters = normalizeFilters(rawFilters)
+    const rpcFilters = toRpcFilters(filters)
+    console.log(`💬 Query: "${question}" (customerMode: ${customerMode}, employeeMode: ${employeeMode}, stream: ${stream}, evaluation: ${evaluation}, conversation: ${conversationId ?? "none"}, history: ${history.length} turn(s))`)
+
+    if (!question && !describeCache) {
       return new Response(
         JSON.stringify({ error: "Missing question" }),
         {
@@ -41,15 +92,24 @@ serve(async (req) => {
     console.log("🔐 Checking environment variables...");
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    const geminiKey = Deno.env.get("GEMINI_API_KEY");
 
     console.log("📋 Environment check:", {
       SUPABASE_URL: supabaseUrl ? `✅ ${supabaseUrl.substring(0, 30)}...` : "❌ MISSING",
       SUPABASE_SERVICE_ROLE_KEY: supabaseKey ? `✅ ${supabaseKey.substring(0, 10)}...` : "❌ MISSING",
-      GEMINI_API_KEY: geminiKey ? `✅ ${geminiKey.substring(0, 10)}...` : "❌ MISSING",
     });
 
-    if (!supabaseUrl || !supabaseKey || !geminiKey) {
+    let llm: LLMProvider;
+    try {
+      llm = getLLMProvider();
+    } catch (providerError) {
+      console.error("❌ LLM provider misconfigured:", (providerError as Error).message);
+      return new Response(
+        JSON.stringify({ error: `Server configuration error: ${(providerError as Error).message}. Check Edge Function secrets.` }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!supabaseUrl || !supabaseKey) {
       console.error("❌ Missing environment variables - Check Edge Function Settings → Secrets");
       return new Response(
         JSON.stringify({ error: "Server configuration error: missing environment variables. Check Edge Function secrets." }),
@@ -60,57 +120,168 @@ serve(async (req) => {
       );
     }
 
-    console.log("✅ All environment variables present");
+    console.log(`✅ All environment variables present (provider: ${llm.name}, embeddings: ${llm.embeddingModel}, answers: ${llm.generationModel})`);
     const supabase = createClient(supabaseUrl, supabaseKey);
-    const genAI = new GoogleGenerativeAI(geminiKey);
-
-    // STEP 0 — Check cache for similar queries
-    console.log("💾 Checking query cache...");
 
-    const embeddingModel = genAI.getGenerativeModel({
-      model: "models/text-embedding-004",
-    });
+    // Answers are cached per pipeline configuration (models, prompt, chunking, retrieval,
+    // confidence and verification)
+    const fingerprint = await cacheFingerprint(llm, retrieval, confidenceOptions, verificationOptions);
+    if (describeCache) {
+      return new Response(
+        JSON.stringify({ fingerprint: fingerprint.hash, config: fingerprint.config }),
+        { status: 200, headers: { "Content-Type": "application/json" } }
+      );
+    }
 
-    const embedResult = await embeddingModel.embedContent(question);
-    const questionEmbedding = embedResult.embedding.values;
-    
-    console.log(`📊 Embedding dimensions: ${questionEmbedding.length} (expected 768)`);
-    if (questionEmbedding.length !== 768) {
-      console.warn(`⚠️ WARNING: Embedding is ${questionEmbedding.length}D, not 768D!`);
-      // Pad or truncate to 768 dimensions
-      if (questionEmbedding.length < 768) {
-        const padding = new Array(768 - questionEmbedding.length).fill(0);
-        questionEmbedding.push(...padding);
-        console.log(`✅ Padded embedding from ${embedResult.embedding.values.length}D to 768D`);
+    // Callers that only send a conversation id get the thread's latest turns from chat_history
+    if (conversationId && !rawHistory) {
+      const { data: turns, error: turnsError } = await supabase
+        .from("chat_history")
+        .select("question, answer")
+        .eq("conversation_id", conversationId)
+        .order("created_at", { ascending: false })
+        .limit(MAX_HISTORY_TURNS);
+
+      if (turnsError) {
+        console.error("⚠️ Could not load conversation history:", turnsError.message);
       } else {
-        questionEmbedding.length = 768;
-        console.log(`✅ Truncated embedding to 768D`);
+        history = normalizeHistory((turns || []).reverse());
+        console.log(`🧵 Loaded ${history.length} turn(s) from conversation ${conversationId}`);
       }
     }
-    console.log(`✅ Final embedding dimensions: ${questionEmbedding.length}`);
-
-    // Search cache for similar queries
-    const { data: cachedResults } = await supabase.rpc('find_similar_cached_queries', {
-      query_embedding: questionEmbedding,
-      similarity_threshold: 0.85,
-      role_filter: role,
-      limit_count: 1
-    });
+
+    // STEP 0 — Follow-ups are condensed first so the cache is keyed on the standalone
+    // question; one the planner could not rewrite is never cached or served from cache
+    const followUp = isFollowUp(question, history);
+    const followUpPlan = followUp
+      ? await planQuery(llm, question, { mode: retrieval?.planner, history })
+      : null;
+    const cacheQuestion = followUpPlan?.method === "llm" ? followUpPlan.standalone : question;
+    // Filtered questions are answered from a subset of the documents, so they bypass the cache too
+    const skipCache = evaluation || filters !== null || (followUp && followUpPlan?.method !== "llm");
+    // Re-warming replaces the cached answer, so nothing is looked up
+    const skipLookup = skipCache || warmCache;
+    if (followUp) {
+      console.log(`🧵 Follow-up question condensed to: "${cacheQuestion}"${skipCache ? " (not cacheable)" : ""}`);
+    }
+    if (filters) {
+      console.log(`🏷️ Filters: ${describeFilters(filters)}`);
+    }
+
+    // The provider rejects embeddings that are not 768D, the size of the vector columns
+    const questionEmbedding = await llm.embed(cacheQuestion);
+    console.log(`✅ Question embedding dimensions: ${questionEmbedding.length}`);
+
+    // STEP 1 — Curated FAQ answers take precedence over cached and generated ones; they are
+    // skipped in the same cases as the cache
+    const faq = skipLookup ? null : await matchFaq(supabase, questionEmbedding, role, resolveFaqThreshold());
+
+    if (faq) {
+      console.log(`📌 FAQ match: "${faq.matched_question}" (similarity ${faq.similarity.toFixed(3)})`);
+      await supabase.rpc("increment_faq_hit", { p_faq_id: faq.id });
+
+      const sources = faqSources(faq);
+      const faqInfo = { id: faq.id, question: faq.question, similarity: faq.similarity.toFixed(3) };
+
+      if (conversationId && !customerMode) {
+        await supabase.from("chat_history").insert({
+          user_id: null,
+          conversation_id: conversationId,
+          role,
+          question,
+          answer: faq.answer,
+          sources: sources.map((s) => s.document_id),
+          metadata: { curated: true, faq: faqInfo },
+        });
+      }
+
+      if (stream) {
+        return streamAnswerResponse({
+          sources,
+          tokens: singleToken(faq.answer),
+          done: { curated: true, faq: faqInfo, citations: [], abstained: false },
+        });
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          answer: faq.answer,
+          sources,
+          citations: [],
+          abstained: false,
+          curated: true,
+          faq: faqInfo,
+        }),
+        { status: 200, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log("💾 Checking query cache...");
+
+    // Search cache for similar queries (evaluation runs always measure live retrieval);
+    // the similarity threshold and TTL are the role's settings in query_cache_settings
+    const { data: cachedResults } = skipLookup
+      ? { data: null }
+      : await supabase.rpc('find_similar_cached_queries', {
+          query_embedding: questionEmbedding,
+          role_filter: role,
+          limit_count: 1,
+          fingerprint_filter: fingerprint.hash
+        });
     
     if (cachedResults && cachedResults.length > 0) {
       const cached = cachedResults[0];
-      console.log(`✅ Cache hit! Similarity: ${cached.similarity.toFixed(3)}`);
+      console.log(`✅ Cache hit! Similarity: ${cached.similarity.toFixed(3)}${cached.curated ? " (curated answer)" : ""}`);
       
       // Increment hit count
       await supabase.rpc('increment_query_cache_hit', {
         cache_id: cached.id
       });
+
+      // Re-resolve the cached answer's [N] markers against its prompt blocks, rebuilt from the
+      // chunks as they are now (entries cached before citations existed have no chunk ids and get none)
+      const cachedSources: CachedSource[] = cached.sources || [];
+      const cachedChunkIds = cachedSources.flatMap((s) => (s.table ? [] : s.chunk_ids ?? (s.chunk_id ? [s.chunk_id] : [])));
+      const cachedChunkContents = await fetchChunkContents(supabase, [...new Set(cachedChunkIds)]).catch((chunkError) => {
+        console.error("⚠️ Could not load cited chunks:", (chunkError as Error).message);
+        return new Map<string, string>();
+      });
+      const cachedBlocks = restoreBlocks(cachedSources, cachedChunkContents);
+      const resolvedCache = resolveCitations(cached.answer, cachedBlocks);
+      const cachedAnswer = resolvedCache.answer;
+      // Citations into merged blocks point at the chunk holding the passage, as on a miss
+      const cachedCitations = remapCitations(resolvedCache.citations, cachedBlocks);
+
+      // Cached answers are still part of the thread
+      if (conversationId && !customerMode) {
+        await supabase.from("chat_history").insert({
+          user_id: null,
+          conversation_id: conversationId,
+          role,
+          question,
+          answer: cachedAnswer,
+          sources: [...new Set(cachedSources.map((s) => s.document_id))],
+          metadata: { cached: true, citations: cachedCitations },
+        });
+      }
+
+      // Only answers that passed the confidence check are cached, so hits never abstain
+      if (stream) {
+        return streamAnswerResponse({
+          sources: cachedSources,
+          tokens: singleToken(cachedAnswer),
+          done: { cached: true, cacheHitSimilarity: cached.similarity.toFixed(3), citations: cachedCitations, abstained: false },
+        });
+      }
       
       return new Response(
         JSON.stringify({
           success: true,
-          answer: cached.answer,
-          sources: cached.sources,
+          answer: cachedAnswer,
+          sources: cachedSources,
+          citations: cachedCitations,
+          abstained: false,
           cached: true,
           cacheHitSimilarity: cached.similarity.toFixed(3)
         }),
@@ -120,6 +291,12 @@ serve(async (req) => {
     
     console.log("❌ Cache miss - proceeding with full RAG pipeline...");
 
+    // Knowledge-base version the answer is built against: if the role's documents change
+    // while it is generated, it is saved already stale and never served
+    const { data: kbVersion } = skipCache
+      ? { data: null }
+      : await supabase.rpc('get_kb_version', { p_role: role });
+
     // STEP 2 — Get documents based on mode (MVP: all documents are accessible)
     let documentIds: string[] = [];
 
@@ -163,46 +340,11 @@ serve(async (req) => {
       );
     }
 
-    // STEP 3 — Fetch chunks + embeddings with proper limit
-    const { data: chunks } = await supabase
-      .from("chunks")
-      .select(
-        `
-      id,
-      content,
-      document_id,
-      documents(filename),
-      embeddings(embedding)
-    `
-      )
-      .in("document_id", documentIds)
-      .limit(1000); // Explicit limit to ensure we fetch all available chunks
+    // STEP 3 — Make sure the searchable documents actually have embeddings
+    const embeddedChunkCount = await countEmbeddedChunks(supabase, documentIds);
+    console.log(`📊 Embedded chunks in search space: ${embeddedChunkCount}`);
 
-    if (!chunks || chunks.length === 0) {
-      return new Response(
-        JSON.stringify({ error: "No processed chunks found." }),
-        { status: 404, headers: { "Content-Type": "application/json" } }
-      );
-    }
-
-    console.log(`🔍 Found ${chunks.length} chunks to search`);
-
-    // STEP 4 — Validate embeddings exist
-    let validChunks = 0;
-    let missingEmbeddingCount = 0;
-    
-    chunks.forEach((item: any) => {
-      if (item.embeddings && item.embeddings.length > 0) {
-        validChunks++;
-      } else {
-        missingEmbeddingCount++;
-        console.warn(`⚠️ Chunk ${item.id} missing embedding!`);
-      }
-    });
-    
-    console.log(`📊 Valid chunks with embeddings: ${validChunks}/${chunks.length} (${missingEmbeddingCount} missing)`);
-
-    if (validChunks === 0) {
+    if (embeddedChunkCount === 0) {
       return new Response(
         JSON.stringify({
           error: "No embeddings found for document chunks. Documents may not have been processed correctly.",
@@ -213,99 +355,115 @@ serve(async (req) => {
       );
     }
 
-    // STEP 5 — Analyze question: Semantic vs Keyword heavy
-    console.log(`💬 Analyzing question for search strategy...`);
-    const queryParts = parseMultiPartQuestion(question);
-    console.log(`📋 Found ${queryParts.length} question part(s): ${queryParts.map(p => `"${p.substring(0, 30)}..."`).join(', ')}`);
+    // STEP 4 — Plan the search queries and pick the retrieval strategy
+    console.log(`💬 Planning search queries...`);
+    const plan = followUpPlan ?? await planQuery(llm, question, { mode: retrieval?.planner, history });
+    const queryParts = plan.subQueries;
+    console.log(`📋 ${plan.method} planner: ${queryParts.length} sub-query(s): ${queryParts.map(p => `"${p.substring(0, 40)}"`).join(', ')}${plan.fallbackReason ? ` (${plan.fallbackReason})` : ''}`);
     
-    // Determine if question is more keyword or semantic heavy
-    const hasNumerics = /\d+/.test(question);  // Has numbers (quarterly reports, dates)
-    const hasQuotedTerms = /["'].*["']/.test(question);  // Has quoted strings
-    const isKeywordHeavy = hasNumerics || hasQuotedTerms || question.length < 20;
-    const semanticWeight = isKeywordHeavy ? 0.4 : 0.6;
-    const keywordWeight = isKeywordHeavy ? 0.6 : 0.4;
+    // Fusion strategy from the request or FUSION_STRATEGY; weights only apply to weighted/legacy
+    const settings = resolveRetrievalSettings(question, retrieval);
+    const { semanticWeight, keywordWeight } = settings;
     
-    console.log(`🔍 Search strategy: ${isKeywordHeavy ? 'keyword-heavy' : 'semantic-heavy'} (semantic: ${semanticWeight}, keyword: ${keywordWeight})`);
+    console.log(`🔍 Search strategy: ${settings.fusion} fusion (weights: ${settings.weighting} ${semanticWeight}/${keywordWeight}, rrfK: ${settings.rrfK}, limit: ${settings.limit})`);
 
-    // Log document distribution for debugging
-    const docTypes = chunks.reduce((acc: any, item: any) => {
-      const filename = item.documents?.filename ?? "Unknown";
-      acc[filename] = (acc[filename] || 0) + 1;
-      return acc;
-    }, {});
-    console.log(`📂 Documents in search space:`, Object.entries(docTypes).map(([name, count]) => `${name} (${count} chunks)`).join(", "));
+    const queryExpansionSettings = resolveQueryExpansionSettings({
+      mode: retrieval?.queryExpansion,
+      paraphrases: retrieval?.multiQueryCount,
+    });
+    if (queryExpansionSettings.mode !== "off") {
+      console.log(`🪄 Query variants: ${queryExpansionSettings.mode}${queryExpansionSettings.mode.includes("multi-query") ? ` (${queryExpansionSettings.paraphrases} paraphrases)` : ""}`);
+    }
 
-    let allHybridResults: any[] = [];
-    const processedParts = new Set<string>();
+    // One ranked list for a search text (vector + full-text, fused)
+    const searchText = async (part: string): Promise<RetrievedChunk[]> => {
+      // Generate embedding for semantic component
+      const partEmbedding = await llm.embed(part);
+
+      let partResults: RetrievedChunk[];
+      try {
+        if (settings.fusion === "legacy") {
+          partResults = await hybridSearch(
+            supabase,
+            part,
+            partEmbedding,
+            documentIds,
+            semanticWeight,
+            keywordWeight,
+            settings.limit,
+            rpcFilters
+          );
+        } else {
+          // Full-text failures (e.g. migration not applied) degrade to vector-only fusion
+          const [vectorResults, keywordResults] = await Promise.all([
+            vectorSearch(supabase, partEmbedding, documentIds, settings.limit, rpcFilters),
+            keywordSearch(supabase, part, documentIds, settings.limit, rpcFilters).catch((keywordError) => {
+              console.error(`⚠️ Keyword search failed for "${part}":`, (keywordError as Error).message);
+              return [] as RetrievedChunk[];
+            }),
+          ]);
+          console.log(`  → vector: ${vectorResults.length}, keyword: ${keywordResults.length}`);
+          partResults = fuseResults(vectorResults, keywordResults, {
+            strategy: settings.fusion,
+            semanticWeight,
+            keywordWeight,
+            rrfK: settings.rrfK,
+          });
+        }
+      } catch (searchError) {
+        console.error(`❌ ${settings.fusion} search failed for "${part}":`, searchError);
+        // Fallback to pgvector top-k search
+        console.log(`⚠️ Falling back to vector search for "${part}"...`);
+        const vectorResults = await vectorSearch(supabase, partEmbedding, documentIds, settings.limit, rpcFilters);
+        partResults = vectorResults.map((r) => ({ ...r, search_type: 'semantic-fallback' }));
+      }
+      return partResults;
+    };
 
-    // STEP 6 — Hybrid Search (Semantic + Keyword)
-    console.log(`🔄 Running hybrid search with semantic (${semanticWeight}) + keyword (${keywordWeight}) weights...`);
+    const allHybridResults: RetrievedChunk[] = [];
+    const processedParts = new Set<string>();
+    const generatedVariants: Array<{ query: string; paraphrases: string[]; hyde?: string }> = [];
 
+    // STEP 5 — Retrieve per question part, and per query variant when enabled (variants.ts)
     for (const part of queryParts) {
       if (processedParts.has(part.toLowerCase())) continue;
-      processedParts.has(part.toLowerCase()) ? null : processedParts.add(part.toLowerCase());
-
-      console.log(`🔍 Hybrid search for: "${part}"`);
-      
-      // Generate embedding for semantic component
-      const partEmbedResult = await embeddingModel.embedContent(part);
-      const partEmbedding = partEmbedResult.embedding.values;
-
-      // Call hybrid_search RPC function
-      const { data: hybridResults, error: hybridError } = await supabase.rpc('hybrid_search', {
-        p_question: part,
-        p_question_embedding: partEmbedding,
-        p_document_ids: documentIds,
-        p_semantic_weight: semanticWeight,
-        p_keyword_weight: keywordWeight,
-        p_limit: 15
-      });
+      processedParts.add(part.toLowerCase());
+
+      console.log(`🔍 ${settings.fusion} search for: "${part}"`);
+
+      const variants = await queryVariants(llm, part, queryExpansionSettings);
+      const lists: Array<{ results: RetrievedChunk[]; passage?: boolean }> = [];
+      for (const variant of variants) {
+        if (variant.kind === "hyde") {
+          // The hypothetical passage only makes sense as an embedding
+          const passageResults = await vectorSearch(supabase, await llm.embed(variant.text), documentIds, settings.limit, rpcFilters)
+            .catch((hydeError) => {
+              console.error(`⚠️ HyDE search failed for "${part}":`, (hydeError as Error).message);
+              return [] as RetrievedChunk[];
+            });
+          lists.push({ results: passageResults, passage: true });
+        } else {
+          lists.push({ results: await searchText(variant.text) });
+        }
+      }
+      if (variants.length > 1) {
+        console.log(`  → ${variants.length} variants: ${lists.map((l, i) => `${variants[i].kind} ${l.results.length}`).join(", ")}`);
+        generatedVariants.push({
+          query: part,
+          paraphrases: variants.filter((v) => v.kind === "paraphrase").map((v) => v.text),
+          ...(variants.some((v) => v.kind === "hyde") && { hyde: variants.find((v) => v.kind === "hyde")!.text }),
+        });
+      }
+      const partResults = lists.length === 1 ? lists[0].results : fuseVariantResults(lists, settings.rrfK);
 
-      if (hybridError) {
-        console.error(`❌ Hybrid search failed for "${part}":`, hybridError);
-        // Fallback to semantic search if hybrid fails
-        console.log(`⚠️ Falling back to semantic search for "${part}"...`);
-        const scoredChunks = chunks
-          .filter((item: any) => item.embeddings && item.embeddings.length > 0)
-          .map((item: any) => {
-            const rawEmbedding = item.embeddings[0].embedding;
-            const embeddingArray = typeof rawEmbedding === "string"
-              ? JSON.parse(rawEmbedding)
-              : rawEmbedding;
-            return {
-              chunk_id: item.id,
-              content: item.content,
-              document_id: item.document_id,
-              filename: item.documents?.filename ?? "Unknown",
-              combined_score: cosineSimilarity(partEmbedding, embeddingArray),
-              similarity: cosineSimilarity(partEmbedding, embeddingArray),
-              search_type: 'semantic-fallback'
-            };
-          })
-          .filter((item: any) => item.similarity >= 0.15)
-          .sort((a: any, b: any) => b.similarity - a.similarity)
-          .slice(0, 15);
-        allHybridResults.push(...scoredChunks);
-      } else if (hybridResults && hybridResults.length > 0) {
-        console.log(`  ✅ Found ${hybridResults.length} results (top score: ${hybridResults[0].combined_score?.toFixed(3)})`);
-        const resultsSummary = hybridResults.slice(0, 3).map((r: any) => 
+      if (partResults.length > 0) {
+        console.log(`  ✅ Found ${partResults.length} results (top score: ${partResults[0].combined_score?.toFixed(3)})`);
+        const resultsSummary = partResults.slice(0, 3).map((r) => 
           `${r.filename} (score: ${r.combined_score?.toFixed(3)}, sem: ${r.similarity?.toFixed(3)}, keyword: ${r.keyword_score?.toFixed(3)})`
         ).join('; ');
         console.log(`  📊 Top results: ${resultsSummary}`);
-        
-        // Map hybrid results back to expected format
-        const mappedResults = hybridResults.map((r: any) => ({
-          chunk_id: r.chunk_id,
-          content: r.content,
-          document_id: r.document_id,
-          filename: r.filename,
-          combined_score: r.combined_score,
-          similarity: r.similarity || 0,
-          keyword_score: r.keyword_score || 0,
-          search_type: 'hybrid'
-        }));
-        allHybridResults.push(...mappedResults);
       }
+      allHybridResults.push(...partResults.map((r) => ({ ...r, query_part: part })));
     }
 
     // Remove duplicates, keep highest combined score
@@ -328,33 +486,93 @@ serve(async (req) => {
       console.log(`  → Top score: ${topItem.combined_score?.toFixed(3)}`);
     }
     
-    const scored = uniqueHybrid;
+    // STEP 5a — Optional MMR diversification of the pool, so one long document cannot take
+    // every slot (see diversity.ts)
+    const diversitySettings = resolveDiversitySettings({
+      mode: retrieval?.diversity,
+      lambda: retrieval?.mmrLambda,
+      maxPerDocument: retrieval?.maxPerDocument,
+    });
+    let pool: RetrievedChunk[] = uniqueHybrid;
+    if (diversitySettings.mode !== "off") {
+      pool = await diversifyChunks(supabase, uniqueHybrid, diversitySettings);
+      const documentCount = new Set(pool.slice(0, 10).map((c) => c.document_id)).size;
+      console.log(`🌈 MMR (lambda ${diversitySettings.lambda}, max ${diversitySettings.maxPerDocument || "∞"} per document): kept ${pool.length}/${uniqueHybrid.length}, ${documentCount} document(s) in the top 10`);
+    }
+
+    // STEP 5b — Optional reranking of the merged candidate pool
+    const rerankSettings = resolveRerankSettings({ mode: retrieval?.rerank, topN: retrieval?.rerankTopN });
+    let scored: RetrievedChunk[] = pool;
+    if (rerankSettings.mode !== "off") {
+      console.log(`🏅 Reranking ${pool.length} candidates (${rerankSettings.mode}, top ${rerankSettings.topN})...`);
+      scored = await rerankChunks(llm, plan.standalone, pool, rerankSettings);
+      console.log(`  → Kept ${scored.length}: ${scored.slice(0, 3).map((c) => `${c.filename} (${c.rerank_score?.toFixed(2) ?? "n/a"})`).join("; ")}`);
+    }
+
+    // STEP 5c — Analytical questions over spreadsheets: exact aggregates over all rows of the
+    // matching tables go in front of the retrieved chunks (see tables.ts)
+    const tableQaMode = resolveTableQaMode(retrieval?.tableQa);
+    let tableAggregations: TableAggregation[] = [];
+    if (tableQaMode === "llm" && isAnalyticalQuestion(plan.standalone)) {
+      const computed = await answerFromTables(llm, supabase, plan.standalone, documentIds, rpcFilters);
+      if (computed.sources.length > 0) {
+        console.log(`🧮 Computed ${computed.sources.length} table aggregation(s): ${computed.aggregations.map((a) => a.query).join("; ")}`);
+        scored = [...computed.sources, ...scored];
+        tableAggregations = computed.aggregations;
+      }
+    }
+
+    // STEP 5d — Optionally add the chunks around every hit (neighbours or the hit's section)
+    const expansionSettings = resolveExpansionSettings({ mode: retrieval?.expansion, window: retrieval?.expansionWindow });
+    const candidates = await expandChunks(supabase, scored, expansionSettings);
+    if (candidates.length > scored.length) {
+      console.log(`🔭 Expansion (${expansionSettings.mode}) added ${candidates.length - scored.length} surrounding chunk(s)`);
+    }
+
+    // STEP 5e — Pack the ranked chunks into prompt blocks within the model's token budget:
+    // duplicates skipped, adjacent chunks merged, the rest dropped (see context.ts)
+    const contextSettings = resolveContextSettings(llm.generationModel, { tokenBudget: retrieval?.contextTokens });
+    const { blocks, report: contextReport } = packContext(candidates, contextSettings);
+    if (candidates.length > 0) {
+      console.log(`📦 Context: ${blocks.length} block(s) from ${candidates.length} chunks, ${contextReport.tokensUsed}/${contextReport.tokenBudget} tokens (${contextReport.merged} merged, ${contextReport.expanded} expanded, ${contextReport.duplicates} duplicate, ${contextReport.dropped.length} dropped)`);
+      if (contextReport.dropped.length > 0) {
+        console.log(`  → Dropped: ${contextReport.dropped.map((d) => `${d.filename} (${d.tokens} tokens)`).join("; ")}`);
+      }
+    }
+
+    // Retrieval half of the answer confidence (see confidence.ts)
+    const confidenceSettings = resolveConfidenceSettings(confidenceOptions);
+    const retrievalScore = retrievalConfidence(plan.standalone, blocks, rerankSettings.mode);
+    const verificationSettings = resolveVerificationSettings(verificationOptions);
 
-    if (scored.length === 0) {
+    if (blocks.length === 0) {
       return new Response(
         JSON.stringify({
           error: "No relevant information found in documents. Please try a different question or upload more documents.",
-          answer: "I could not find any relevant information to answer your question in the available documents.",
-          sources: []
+          answer: NOT_FOUND_ANSWER,
+          sources: [],
+          abstained: true,
+          confidence: { score: 0, retrieval: 0, groundedness: null, threshold: confidenceSettings.threshold, method: "retrieval" },
         }),
         { status: 200, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    // STEP 6 — Generate answer using Gemini with improved prompt
-    console.log("🤖 Generating answer...");
+    // STEP 6 — Generate answer with the configured LLM and improved prompt
+    console.log(`🤖 Generating answer with ${llm.generationModel}...`);
 
-    const answerModel = genAI.getGenerativeModel({
-      model: "gemini-2.5-flash",
-    });
+    // Build structured context with source info for transparency
+    const contextWithSources = formatContext(blocks);
 
-    const context = scored.map((c: any) => c.content).join("\n\n---\n\n");
+    // Prior turns help with wording and references, but facts must come from the context
+    const conversationSection = history.length > 0
+      ? `Earlier in this conversation (for reference only, do not treat as a source of facts):
+${formatConversation(history)}
 
-    // Build structured context with source info for transparency
-    const contextWithSources = scored
-      .map((c: any, i: number) => `[Source ${i + 1} - ${c.filename}]\n${c.content}`)
-      .join("\n\n---\n\n");
+`
+      : "";
 
+    // Changing this prompt? Bump PROMPT_VERSION (fingerprint.ts) so cached answers are regenerated
     const prompt = `You are a professional business assistant that answers questions using provided context.
 
 CRITICAL INSTRUCTIONS:
@@ -364,6 +582,8 @@ CRITICAL INSTRUCTIONS:
 4. Use PLAIN PROFESSIONAL TEXT ONLY - NO markdown, NO asterisks, NO special formatting
 5. Structure your answer clearly with line breaks between different parts
 6. Be concise, factual, and complete - address every part asked
+7. Cite your sources inline: put the source number in square brackets right after each claim, e.g. "Salaries are paid on the 25th of each month [1]." Use [1][3] when a claim relies on several sources. Only cite numbers of the sources listed below${tableAggregations.length > 0 ? `
+8. Sources that start with "Computed from sheet" hold exact aggregates over every row of a spreadsheet. Use their results for totals, averages and counts instead of adding up rows yourself, and cite them` : ""}
 
 FORMATTING RULES:
 - Do NOT use ** or ** for emphasis
@@ -373,106 +593,221 @@ FORMATTING RULES:
 - Use line breaks to separate sections
 - Keep formatting professional and simple
 
-Provided Context:
+${conversationSection}Provided Context:
 ${contextWithSources}
 
-Question: ${question}
+Question: ${plan.standalone}
 
 Answer (plain professional text, addressing ALL parts of the question):`;
 
-    const result = await answerModel.generateContent(prompt);
-    const answer = result.response.text();
-
-    console.log(`✅ Answer generated (${answer.length} chars)`);
-    console.log(`📝 Used ${scored.length} context chunks`);
-    console.log(`🎯 Covered ${queryParts.length} question parts`);
-
-    // STEP 7 — Save chat history (MVP: no user_id required)
-    const sourceDocumentIds = [...new Set(scored.map((c: any) => c.document_id))];
-
-    // Only save to chat history for business owner and employee modes (not customer)
-    if (!customerMode) {
-      await supabase.from("chat_history").insert({
-        user_id: null, // MVP: no user authentication
-        question,
-        answer,
-        sources: sourceDocumentIds,
-      });
-    }
-
-    // STEP 8 — Save to cache for future similar queries
-    console.log("💾 Saving answer to query cache...");
-    const sourcesData = scored.map((c: any) => ({
+    // Same order as the numbered sources in the prompt: citation [N] is sourcesData[N - 1]
+    const sourcesData = blocks.map((c: any) => ({
+      chunk_id: c.chunk_id,
       document_id: c.document_id,
       filename: c.filename,
       chunk_content: c.content.substring(0, 200) + "...",
       relevance_score: c.similarity,
+      // What a cache hit needs to rebuild the block (see restoreBlocks)
+      ...(c.table && { table: c.table, content: c.content }),
+      ...(c.parts.length > 1 && { span: sourceSpan(c), chunk_ids: c.parts.map((p: { chunk_id: string }) => p.chunk_id) }),
     }));
 
-    try {
-      console.log(`📦 Cache params:`, {
-        p_question: question.substring(0, 50),
-        embedding_dimensions: questionEmbedding.length,
-        embedding_type: typeof questionEmbedding,
-        embedding_is_array: Array.isArray(questionEmbedding),
-        p_role: role
-      });
+    // How this answer was retrieved; stored with the chat history row and returned to callers
+    const retrievalInfo = {
+      fusion: settings.fusion,
+      ...(settings.fusion === "rrf"
+        ? { rrfK: settings.rrfK }
+        : settings.fusion !== "max" && { semanticWeight, keywordWeight, weighting: settings.weighting }),
+      limit: settings.limit,
+      ...(queryExpansionSettings.mode !== "off" && { queryExpansion: queryExpansionSettings.mode, queryVariants: generatedVariants }),
+      ...(diversitySettings.mode !== "off" && {
+        diversity: { lambda: diversitySettings.lambda, maxPerDocument: diversitySettings.maxPerDocument },
+      }),
+      rerank: rerankSettings.mode,
+      ...(rerankSettings.mode !== "off" && { rerankTopN: rerankSettings.topN }),
+      expansion: expansionSettings.mode,
+      ...(expansionSettings.mode === "neighbours" && { expansionWindow: expansionSettings.window }),
+      chunks: blocks.length,
+      context: contextReport,
+      ...(filters && { filters }),
+      ...(tableAggregations.length > 0 && { tables: tableAggregations }),
+    };
+
+    // STEP 7/8 — Persist the finished answer (chat history + query cache)
+    const persistAnswer = async (
+      answer: string,
+      citations: Citation[],
+      confidence: AnswerConfidence,
+      abstained: boolean,
+      verification: AnswerVerification | null
+    ) => {
+      console.log(`✅ Answer generated (${answer.length} chars)`);
+      console.log(`📝 Used ${blocks.length} context blocks`);
+      console.log(`🎯 Covered ${queryParts.length} question parts`);
+
+      // STEP 7 — Save chat history (MVP: no user_id required)
+      const sourceDocumentIds = [...new Set(blocks.map((c: any) => c.document_id))];
+
+      // Only save to chat history for business owner and employee modes (not customer), and not when re-warming the cache
+      if (!customerMode && !warmCache) {
+        await supabase.from("chat_history").insert({
+          user_id: null, // MVP: no user authentication
+          conversation_id: conversationId,
+          role,
+          question,
+          answer,
+          sources: sourceDocumentIds,
+          metadata: { retrieval: retrievalInfo, plan, citations, confidence, abstained, verification },
+        });
+      }
 
-      console.log(`📊 First 5 embedding values: [${questionEmbedding.slice(0, 5).join(', ')}]`);
-      console.log(`📊 Last 5 embedding values: [${questionEmbedding.slice(-5).join(', ')}]`);
-
-      // IMPORTANT: Supabase expects embedding as array, converts to pgvector internally
-      const embeddingArray = Array.from(questionEmbedding); // Ensure it's a proper JS array
-      console.log(`✅ Prepared embedding array: ${embeddingArray.length} dimensions`);
-      console.log(`📝 Sources data:`, JSON.stringify(sourcesData).substring(0, 100));
-
-      const rpcParams = {
-        p_question: question,
-        p_question_embedding: embeddingArray,
-        p_answer: answer,
-        p_sources: sourcesData,  // Supabase will handle JSON conversion
-        p_role: role
-      };
+      // STEP 8 — Save to cache for future similar queries
+      if (skipCache) {
+        console.log("⏭️ Skipping query cache for unresolved follow-up or filtered question");
+        return;
+      }
+      // Not-found answers are not cached: the documents that answer them may be uploaded later
+      if (abstained) {
+        console.log("⏭️ Skipping query cache for abstained answer");
+        return;
+      }
+      // Cache hits carry no verdicts, so flagged answers would lose their flags
+      if (verification?.claims.some((claim) => claim.verdict !== "supported" && !claim.removed)) {
+        console.log("⏭️ Skipping query cache for answer with unverified claims");
+        return;
+      }
+      console.log("💾 Saving answer to query cache...");
+      try {
+        console.log(`📦 Cache params:`, {
+          p_question: cacheQuestion.substring(0, 50),
+          embedding_dimensions: questionEmbedding.length,
+          embedding_type: typeof questionEmbedding,
+          embedding_is_array: Array.isArray(questionEmbedding),
+          p_role: role
+        });
+
+        console.log(`📊 First 5 embedding values: [${questionEmbedding.slice(0, 5).join(', ')}]`);
+        console.log(`📊 Last 5 embedding values: [${questionEmbedding.slice(-5).join(', ')}]`);
+
+        // IMPORTANT: Supabase expects embedding as array, converts to pgvector internally
+        const embeddingArray = Array.from(questionEmbedding); // Ensure it's a proper JS array
+        console.log(`✅ Prepared embedding array: ${embeddingArray.length} dimensions`);
+        console.log(`📝 Sources data:`, JSON.stringify(sourcesData).substring(0, 100));
+
+        const rpcParams = {
+          p_question: cacheQuestion,
+          p_question_embedding: embeddingArray,
+          p_answer: answer,
+          p_sources: sourcesData,  // Supabase will handle JSON conversion
+          p_role: role,
+          // Deleting, replacing or re-sharing any of these documents drops the entry
+          p_document_ids: sourceDocumentIds,
+          p_kb_version: kbVersion ?? null,
+          p_fingerprint: fingerprint.hash,
+          p_fingerprint_config: fingerprint.config
+        };
       
-      console.log(`📤 Calling RPC with params:`, {
-        p_question_len: rpcParams.p_question.length,
-        p_question_embedding_len: rpcParams.p_question_embedding.length,
-        p_answer_len: rpcParams.p_answer.length,
-        p_sources_count: rpcParams.p_sources.length,
-        p_role: rpcParams.p_role
-      });
-
-      const { data: cacheResult, error: cacheErr } = await supabase.rpc('save_cached_query', rpcParams);
+        console.log(`📤 Calling RPC with params:`, {
+          p_question_len: rpcParams.p_question.length,
+          p_question_embedding_len: rpcParams.p_question_embedding.length,
+          p_answer_len: rpcParams.p_answer.length,
+          p_sources_count: rpcParams.p_sources.length,
+          p_role: rpcParams.p_role
+        });
+
+        const { data: cacheResult, error: cacheErr } = await supabase.rpc('save_cached_query', rpcParams);
       
-      console.log(`📥 RPC Response:`, { 
-        cacheResult, 
-        cacheErr,
-        hasError: !!cacheErr,
-        hasData: !!cacheResult,
-        dataLength: cacheResult?.length
-      });
+        console.log(`📥 RPC Response:`, { 
+          cacheResult, 
+          cacheErr,
+          hasError: !!cacheErr,
+          hasData: !!cacheResult,
+          dataLength: cacheResult?.length
+        });
+
+        if (cacheErr) {
+          console.error(`❌ Cache RPC error: ${cacheErr.message}`);
+          console.error(`   Error code:`, (cacheErr as any).code);
+          console.error(`   Full error object:`, cacheErr);
+          console.error(`   Embedding array length was: ${embeddingArray.length}`);
+        } else if (!cacheResult || cacheResult.length === 0) {
+          console.warn(`⚠️ Cache RPC returned empty result`);
+        } else {
+          console.log(`✅ Query cached successfully (id: ${cacheResult[0]?.id})`);
+        }
+      } catch (cacheError) {
+        console.error("❌ Cache exception:", (cacheError as Error)?.message);
+        console.error("   Full error:", cacheError);
+        // Don't fail the response if caching fails
+      }
+    };
+
+    // Validate the [N] markers and map them to chunks, optionally verify the claims, then
+    // score the answer and abstain below the confidence threshold; the result is what gets stored
+    const finishAnswer = async (rawAnswer: string) => {
+      let resolved = resolveCitations(rawAnswer, blocks);
+      console.log(`🔗 ${resolved.citations.length} citation(s) resolved`);
+
+      const verified = await verifyAnswer(llm, resolved.answer, blocks, verificationSettings);
+      const verification = verified?.verification ?? null;
+      if (verification) {
+        const unsupported = verification.claims.filter((claim) => claim.verdict === "unsupported").length;
+        console.log(`🧪 Verified ${verification.claims.length} claim(s) (${verification.method}): ${unsupported} unsupported${verification.action === "remove" && unsupported > 0 ? ", removed" : ""}`);
+        // Removing claims shifts the citation spans
+        if (verified!.answer !== resolved.answer) {
+          resolved = resolveCitations(verified!.answer, blocks);
+        }
+      }
 
-      if (cacheErr) {
-        console.error(`❌ Cache RPC error: ${cacheErr.message}`);
-        console.error(`   Error code:`, (cacheErr as any).code);
-        console.error(`   Full error object:`, cacheErr);
-        console.error(`   Embedding array length was: ${embeddingArray.length}`);
-      } else if (!cacheResult || cacheResult.length === 0) {
-        console.warn(`⚠️ Cache RPC returned empty result`);
-      } else {
-        console.log(`✅ Query cached successfully (id: ${cacheResult[0]?.id})`);
+      const confidence = await scoreAnswer(llm, plan.standalone, resolved.answer, contextWithSources, retrievalScore, confidenceSettings);
+      // Nothing left after removing unsupported claims counts as not found
+      const abstained = resolved.answer === "" || confidence.score < confidence.threshold;
+      console.log(`🎚️ Confidence ${confidence.score} (retrieval ${confidence.retrieval}, self-check ${confidence.groundedness ?? "n/a"}, threshold ${confidence.threshold})${abstained ? " → abstaining" : ""}`);
+
+      const answer = abstained ? NOT_FOUND_ANSWER : resolved.answer;
+      // Citations into merged blocks point at the chunk holding the passage
+      const citations = abstained ? [] : remapCitations(resolved.citations, blocks);
+
+      // Evaluation runs must not leave traces in chat history or the cache
+      if (!evaluation) {
+        await persistAnswer(answer, citations, confidence, abstained, abstained ? null : verification);
       }
-    } catch (cacheError) {
-      console.error("❌ Cache exception:", (cacheError as Error)?.message);
-      console.error("   Full error:", cacheError);
-      // Don't fail the response if caching fails
+      return { answer, citations, confidence, abstained, verification: abstained ? null : verification };
+    };
+
+    if (stream) {
+      console.log("📡 Streaming answer to client...");
+      // `done` carries the cleaned answer so clients can replace the raw streamed text
+      return streamAnswerResponse({
+        sources: sourcesData,
+        tokens: llm.generateStream(prompt),
+        onComplete: finishAnswer,
+        done: { cached: false, retrieval: retrievalInfo, plan },
+      });
     }
 
+    const { answer, citations, confidence, abstained, verification } = await finishAnswer(await llm.generate(prompt));
+
     return new Response(
       JSON.stringify({
         success: true,
         answer,
         sources: sourcesData,
+        citations,
+        confidence,
+        abstained,
+        verification,
+        retrieval: retrievalInfo,
+        plan,
+        // Full ranked retrieval with scores for the evaluation metrics
+        ...(evaluation && {
+          retrieved: scored.map((c: any) => ({
+            chunk_id: c.chunk_id,
+            document_id: c.document_id,
+            filename: c.filename,
+            score: c.rerank_score ?? c.combined_score,
+          })),
+        }),
       }),
       { status: 200, headers: { "Content-Type": "application/json" } }
     );
@@ -487,55 +822,3 @@ Answer (plain professional text, addressing ALL parts of the question):`;
     );
   }
 });
-
-// Parse multi-part questions into individual search queries
-function parseMultiPartQuestion(question: string): string[] {
-  // Split by common separators
-  const separators = [' and ', ' AND ', ' also ', ' ALSO ', '; ', ','];
-  let parts = [question];
-
-  for (const sep of separators) {
-    parts = parts.flatMap(part => part.split(sep));
-  }
-
-  // Clean and filter
-  return parts
-    .map(p => p.trim())
-    .filter(p => p.length > 3) // Ignore very short fragments
-    .map(p => {
-      // Remove question marks and extra whitespace
-      return p.replace(/^\s*\?+\s*|\s*\?+\s*$/g, '').trim();
-    })
-    .filter(p => p.length > 0);
-}
-
-// Cosine similarity helper with validation
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (!a || !b) {
-    console.warn('⚠️ Cosine similarity: One or both vectors undefined');
-    return 0;
-  }
-
-  if (a.length !== b.length) {
-    console.warn(`⚠️ Cosine similarity: Vector length mismatch (${a.length} vs ${b.length})`);
-    return 0;
-  }
-
-  let dot = 0,
-    normA = 0,
-    normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i] * b[i];
-    normA += a[i] ** 2;
-    normB += b[i] ** 2;
-  }
-
-  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-  if (denominator === 0) {
-    console.warn('⚠️ Cosine similarity: Zero denominator');
-    return 0;
-  }
-
-  return dot / denominator;
-}
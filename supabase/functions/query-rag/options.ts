@@ -0,0 +1,99 @@
+// Per-request retrieval settings for query-rag
+// Callers (the evaluation runner, debugging tools) may override the defaults; normal chat
+// requests omit `retrieval` and get FUSION_STRATEGY (rrf unless configured otherwise).
+// The question-based weights only matter for the "weighted" and "legacy" fusion strategies.
+
+import { type FusionStrategy, isFusionStrategy } from "./fusion.ts";
+
+export interface RetrievalOptions {
+  semanticWeight?: number;
+  keywordWeight?: number;
+  // Chunks requested from each hybrid search call
+  limit?: number;
+  // "rrf" | "weighted" | "max" | "legacy" (defaults to FUSION_STRATEGY)
+  fusion?: string;
+  // RRF damping constant (defaults to RRF_K, then 60)
+  rrfK?: number;
+  // Query planner: "llm" | "rules" (defaults to QUERY_PLANNER, then llm)
+  planner?: string;
+  // Query variants: "off" | "hyde" | "multi-query" | "hyde+multi-query" (defaults to QUERY_EXPANSION)
+  queryExpansion?: string;
+  // Paraphrases per query in the multi-query modes (defaults to MULTI_QUERY_COUNT, then 3)
+  multiQueryCount?: number;
+  // Pool diversification: "off" | "mmr" (defaults to DIVERSITY_MODE)
+  diversity?: string;
+  // MMR trade-off, 0..1 with 1 = relevance only (defaults to MMR_LAMBDA, then 0.5)
+  mmrLambda?: number;
+  // Chunks kept per document, 0 = no cap (defaults to MMR_MAX_PER_DOCUMENT)
+  maxPerDocument?: number;
+  // Reranking stage: "off" | "llm" | "cross-encoder" (defaults to RERANK_MODE)
+  rerank?: string;
+  // Chunks kept after reranking (defaults to RERANK_TOP_N)
+  rerankTopN?: number;
+  // Spreadsheet aggregation for analytical questions: "llm" | "off" (defaults to TABLE_QA)
+  tableQa?: string;
+  // Token budget for the answer context (defaults to CONTEXT_TOKEN_BUDGET, then per model)
+  contextTokens?: number;
+  // Surrounding chunks per hit: "off" | "neighbours" | "parent" (defaults to CONTEXT_EXPANSION)
+  expansion?: string;
+  // Neighbours on each side of a hit (defaults to CONTEXT_WINDOW, then 1)
+  expansionWindow?: number;
+}
+
+export interface RetrievalSettings {
+  semanticWeight: number;
+  keywordWeight: number;
+  limit: number;
+  weighting: "keyword-heavy" | "semantic-heavy" | "custom";
+  fusion: FusionStrategy;
+  rrfK: number;
+}
+
+// Hybrid weights chosen from the question when the caller sets none
+export const AUTO_WEIGHTS = {
+  "keyword-heavy": { semantic: 0.4, keyword: 0.6 },
+  "semantic-heavy": { semantic: 0.6, keyword: 0.4 },
+} as const;
+
+const DEFAULT_LIMIT = 15;
+const MAX_LIMIT = 50;
+const DEFAULT_RRF_K = 60;
+
+function clampWeight(value: unknown): number | undefined {
+  if (typeof value !== "number" || Number.isNaN(value)) return undefined;
+  return Math.min(1, Math.max(0, value));
+}
+
+export function resolveRetrievalSettings(question: string, overrides: RetrievalOptions = {}): RetrievalSettings {
+  // Numbers (quarterly reports, dates), quoted strings and very short questions favour keywords
+  const hasNumerics = /\d+/.test(question);
+  const hasQuotedTerms = /["'].*["']/.test(question);
+  const isKeywordHeavy = hasNumerics || hasQuotedTerms || question.length < 20;
+
+  const auto = isKeywordHeavy ? "keyword-heavy" : "semantic-heavy";
+  let semanticWeight: number = AUTO_WEIGHTS[auto].semantic;
+  let keywordWeight: number = AUTO_WEIGHTS[auto].keyword;
+  let weighting: RetrievalSettings["weighting"] = auto;
+
+  const semanticOverride = clampWeight(overrides.semanticWeight);
+  const keywordOverride = clampWeight(overrides.keywordWeight);
+  if (semanticOverride !== undefined || keywordOverride !== undefined) {
+    // A single override implies the other weight
+    semanticWeight = semanticOverride ?? 1 - (keywordOverride as number);
+    keywordWeight = keywordOverride ?? 1 - semanticOverride!;
+    weighting = "custom";
+  }
+
+  const limit =
+    typeof overrides.limit === "number" && overrides.limit > 0
+      ? Math.min(Math.floor(overrides.limit), MAX_LIMIT)
+      : DEFAULT_LIMIT;
+
+  const envFusion = Deno.env.get("FUSION_STRATEGY");
+  const fusion = isFusionStrategy(overrides.fusion) ? overrides.fusion : isFusionStrategy(envFusion) ? envFusion : "rrf";
+
+  const requestedK = typeof overrides.rrfK === "number" ? overrides.rrfK : Number(Deno.env.get("RRF_K"));
+  const rrfK = requestedK > 0 ? requestedK : DEFAULT_RRF_K;
+
+  return { semanticWeight, keywordWeight, limit, weighting, fusion, rrfK };
+}
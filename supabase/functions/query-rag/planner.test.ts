@@ -0,0 +1,224 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { LLMProvider } from "../_shared/providers/index.ts";
+import { stubEnv } from "../_shared/test-env.ts";
+import { isFollowUp, normalizeHistory, planQuery, resolvePlannerMode, ruleBasedPlan } from "./planner.ts";
+
+const env = stubEnv();
+
+afterEach(() => env.clear());
+
+const HISTORY = [{ question: "What was revenue in Q2?", answer: "Revenue was $1.2M." }];
+
+// LLM that answers the planning prompt with `reply`, recording the prompts it got
+function planner(reply: unknown) {
+  const prompts: string[] = [];
+  const llm = {
+    generate: (prompt: string) => {
+      prompts.push(prompt);
+      return reply instanceof Error ? Promise.reject(reply) : Promise.resolve(typeof reply === "string" ? reply : JSON.stringify(reply));
+    },
+  } as unknown as LLMProvider;
+  return { llm, prompts };
+}
+
+describe("ruleBasedPlan", () => {
+  it("keeps a single question whole, without the question mark", () => {
+    assert.deepEqual(ruleBasedPlan("What is the refund policy?"), ["What is the refund policy"]);
+  });
+
+  it("splits separate questions", () => {
+    assert.deepEqual(ruleBasedPlan("What is the refund policy? Who approves refunds?"), ["What is the refund policy", "Who approves refunds"]);
+  });
+
+  it("splits on semicolons", () => {
+    assert.deepEqual(ruleBasedPlan("Show the PTO policy; list the holidays"), ["Show the PTO policy", "list the holidays"]);
+  });
+
+  it("splits on and before a new question", () => {
+    assert.deepEqual(ruleBasedPlan("What was revenue in Q3 and how many staff did we have"), ["What was revenue in Q3", "how many staff did we have"]);
+  });
+
+  it("splits on a comma before a new question", () => {
+    assert.deepEqual(ruleBasedPlan("Who is the CFO, what is her email"), ["Who is the CFO", "what is her email"]);
+  });
+
+  it("keeps fixed phrases together", () => {
+    assert.deepEqual(ruleBasedPlan("Show the terms and conditions for returns"), ["Show the terms and conditions for returns"]);
+  });
+
+  it("drops repeated questions", () => {
+    assert.deepEqual(ruleBasedPlan("What is the refund policy? What is the refund policy?"), ["What is the refund policy"]);
+  });
+
+  it("caps the number of sub-queries at 4", () => {
+    assert.deepEqual(ruleBasedPlan("What is a1? What is b2? What is c3? What is d4? What is e5?"), [
+      "What is a1",
+      "What is b2",
+      "What is c3",
+      "What is d4",
+    ]);
+  });
+
+  it("falls back to the question when every fragment is too short", () => {
+    assert.deepEqual(ruleBasedPlan(" Q3? "), ["Q3?"]);
+  });
+});
+
+describe("resolvePlannerMode", () => {
+  it("defaults to llm", () => {
+    assert.equal(resolvePlannerMode(), "llm");
+  });
+
+  it("reads QUERY_PLANNER, and prefers the request override", () => {
+    env.set("QUERY_PLANNER", "rules");
+    assert.equal(resolvePlannerMode(), "rules");
+    assert.equal(resolvePlannerMode("llm"), "llm");
+  });
+
+  it("ignores unknown modes", () => {
+    env.set("QUERY_PLANNER", "agent");
+    assert.equal(resolvePlannerMode("regex"), "llm");
+  });
+});
+
+describe("planQuery", () => {
+  it("uses the rules in rules mode without calling the LLM", async () => {
+    const { llm, prompts } = planner({ sub_queries: ["unused"] });
+    const plan = await planQuery(llm, "What is PTO and who approves it?", { mode: "rules" });
+    assert.deepEqual(plan, { standalone: "What is PTO and who approves it?", subQueries: ["What is PTO", "who approves it"], method: "rules" });
+    assert.equal(prompts.length, 0);
+  });
+
+  it("follows QUERY_PLANNER unless the request sets a mode", async () => {
+    env.set("QUERY_PLANNER", "rules");
+    const { llm, prompts } = planner({ sub_queries: ["key performance indicators"] });
+    assert.equal((await planQuery(llm, "What are the KPIs?")).method, "rules");
+    assert.equal((await planQuery(llm, "What are the KPIs?", { mode: "llm" })).method, "llm");
+    assert.equal(prompts.length, 1);
+  });
+
+  it("skips the LLM for a simple question", async () => {
+    const { llm, prompts } = planner({ sub_queries: ["unused"] });
+    const plan = await planQuery(llm, "What is the refund policy?");
+    assert.equal(plan.method, "rules");
+    assert.equal(plan.fallbackReason, "simple question");
+    assert.equal(prompts.length, 0);
+  });
+
+  it("asks the LLM to decompose compound questions and expand acronyms", async () => {
+    const { llm } = planner({
+      standalone: "What is the PTO policy and who approves refunds?",
+      sub_queries: ["paid time off (PTO) policy", "who approves refunds", "paid time off (PTO) policy"],
+      expansions: { PTO: "paid time off" },
+    });
+    const plan = await planQuery(llm, "PTO policy and who approves refunds?");
+    assert.deepEqual(plan, {
+      standalone: "What is the PTO policy and who approves refunds?",
+      subQueries: ["paid time off (PTO) policy", "who approves refunds"],
+      method: "llm",
+      expansions: { PTO: "paid time off" },
+    });
+  });
+
+  it("reads a fenced reply and keeps the question when the LLM gives no standalone version", async () => {
+    const { llm } = planner("```json\n{\"sub_queries\": [\"paid time off policy\"]}\n```");
+    const plan = await planQuery(llm, "What is the PTO policy?");
+    assert.equal(plan.standalone, "What is the PTO policy?");
+    assert.deepEqual(plan.subQueries, ["paid time off policy"]);
+  });
+
+  it("caps the LLM's sub-queries at 4", async () => {
+    const { llm } = planner({ sub_queries: ["query one", "query two", "query three", "query four", "query five"] });
+    assert.equal((await planQuery(llm, "What are the KPIs?")).subQueries.length, 4);
+  });
+
+  it("falls back to the rules when the LLM returns no usable sub-queries", async () => {
+    const { llm } = planner({ standalone: "x", sub_queries: ["", "ok", 3] });
+    const plan = await planQuery(llm, "What is PTO and who approves it?");
+    assert.equal(plan.method, "rules");
+    assert.deepEqual(plan.subQueries, ["What is PTO", "who approves it"]);
+    assert.equal(plan.fallbackReason, "llm planner failed: planner returned no sub-queries");
+  });
+
+  it("falls back to the rules when the LLM call fails", async () => {
+    const { llm } = planner(new Error("quota exceeded"));
+    const plan = await planQuery(llm, "What are the KPIs?");
+    assert.equal(plan.method, "rules");
+    assert.equal(plan.fallbackReason, "llm planner failed: quota exceeded");
+  });
+
+  it("gives the LLM the conversation to rewrite a follow-up", async () => {
+    const { llm, prompts } = planner({ standalone: "What was revenue in Q3?", sub_queries: ["revenue in Q3"] });
+    const plan = await planQuery(llm, "What about Q3?", { history: HISTORY });
+    assert.equal(plan.standalone, "What was revenue in Q3?");
+    assert.match(prompts[0], /User: What was revenue in Q2\?\nAssistant: Revenue was \$1\.2M\./);
+  });
+
+  it("also searches the previous question for a follow-up the rules handle", async () => {
+    const plan = await planQuery(planner({}).llm, "What about Q3?", { mode: "rules", history: HISTORY });
+    assert.deepEqual(plan.subQueries, ["What about Q3", "What was revenue in Q2?"]);
+  });
+});
+
+describe("isFollowUp", () => {
+  const followUp = (question: string) => isFollowUp(question, HISTORY);
+
+  it("is never a follow-up without history", () => {
+    assert.equal(isFollowUp("What about last quarter?", []), false);
+  });
+
+  it("detects questions opening with a connector", () => {
+    assert.equal(followUp("What about last quarter?"), true);
+    assert.equal(followUp("And for Q3?"), true);
+  });
+
+  it("detects pronouns referring back", () => {
+    assert.equal(followUp("How much did it cost?"), true);
+    assert.equal(followUp("Can you break those numbers down?"), true);
+  });
+
+  it("detects this and that pointing at the previous answer", () => {
+    assert.equal(followUp("Why is that?"), true);
+    assert.equal(followUp("What does that mean?"), true);
+    assert.equal(followUp("Is this policy still valid?"), true);
+  });
+
+  it("ignores there, relative that and impersonal it", () => {
+    assert.equal(followUp("Is there a refund policy?"), false);
+    assert.equal(followUp("Is there a policy that covers damaged goods?"), false);
+    assert.equal(followUp("Is it possible to cancel an order?"), false);
+  });
+
+  it("ignores pronouns inside an if or when clause", () => {
+    assert.equal(followUp("Can customers return items if they are damaged?"), false);
+  });
+
+  it("ignores standalone questions", () => {
+    assert.equal(followUp("What is the vacation policy?"), false);
+  });
+});
+
+describe("normalizeHistory", () => {
+  it("drops malformed turns and keeps the 3 most recent ones", () => {
+    const turns = normalizeHistory([
+      { question: "one", answer: "1" },
+      { question: "", answer: "skipped" },
+      { question: "two", answer: 2 },
+      { question: " three ", answer: " 3 " },
+      { question: "four", answer: "4" },
+      { question: "five", answer: "5" },
+    ]);
+    assert.deepEqual(turns.map((turn) => turn.question), ["three", "four", "five"]);
+    assert.equal(turns[0].answer, "3");
+  });
+
+  it("cuts long answers to 500 characters", () => {
+    assert.equal(normalizeHistory([{ question: "q", answer: "x".repeat(900) }])[0].answer.length, 500);
+  });
+
+  it("ignores a body that is not a list", () => {
+    assert.deepEqual(normalizeHistory({ question: "one" }), []);
+    assert.deepEqual(normalizeHistory(undefined), []);
+  });
+});
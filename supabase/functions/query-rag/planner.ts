@@ -0,0 +1,189 @@
+// Query planning for query-rag
+// Turns the user's question into standalone search queries before retrieval:
+//   - decomposes compound questions into one sub-query per topic
+//   - expands acronyms and internal shorthand
+//   - rewrites vague follow-ups ("what about Q3?") using the conversation history
+// The LLM planner is used when the question looks like it needs it; the rule-based
+// planner is the fallback whenever the model is unavailable or returns junk.
+
+import type { LLMProvider } from "../_shared/providers/index.ts";
+
+export type PlannerMode = "llm" | "rules";
+
+export interface QueryPlan {
+  // Question rewritten to stand on its own (same as the input when no rewrite was needed)
+  standalone: string;
+  subQueries: string[];
+  method: PlannerMode;
+  expansions?: Record<string, string>;
+  // Why the LLM planner was skipped or rejected
+  fallbackReason?: string;
+}
+
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+}
+
+const MAX_SUB_QUERIES = 4;
+
+// Bounded slice of the conversation used for rewriting and for the answer prompt
+export const MAX_HISTORY_TURNS = 3;
+const MAX_TURN_ANSWER_CHARS = 500;
+
+const QUESTION_WORDS =
+  /^(what|when|where|who|whom|whose|which|why|how|is|are|was|were|do|does|did|can|could|should|will|would|list|show|give|tell|explain|describe|summari[sz]e)\b/i;
+
+// Follow-ups that only make sense with the previous turn: they open with a connector
+// ("and for Q3?") or refer back with a pronoun ("how much did it cost?", "explain that").
+// Standalone questions use the same words too, so "there" ("is there a refund policy?"),
+// "that"/"this" after a noun ("a policy that covers returns"), "it" before an adjective
+// ("is it possible to ...") and pronouns inside an if/when clause don't count.
+const FOLLOW_UP_OPENING = /^(and|also|what about|how about|same for|and for)\b/i;
+const FOLLOW_UP_PRONOUN =
+  /(?<!\b(if|when|once|unless|until|because|after|before)\s+)\b(its|they|them|those|these|it(?!\s+(possible|necessary|allowed|ok|okay|required|true|legal)\b))\b/i;
+const FOLLOW_UP_DEMONSTRATIVE =
+  /(^|\b(is|was|are|were|do|does|did|about|of|for|on|in|with|to|explain|mean|means|what|why|how)\s+)(this|that)\b/i;
+
+export function isPlannerMode(value: unknown): value is PlannerMode {
+  return value === "llm" || value === "rules";
+}
+
+// Keep only well-formed turns from the request body, newest last
+export function normalizeHistory(raw: unknown): ConversationTurn[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((turn): turn is ConversationTurn =>
+      typeof turn?.question === "string" && typeof turn?.answer === "string" && turn.question.trim().length > 0
+    )
+    .slice(-MAX_HISTORY_TURNS)
+    .map((turn) => ({
+      question: turn.question.trim(),
+      answer: turn.answer.trim().substring(0, MAX_TURN_ANSWER_CHARS),
+    }));
+}
+
+export function formatConversation(history: ConversationTurn[]): string {
+  return history.map((turn) => `User: ${turn.question}\nAssistant: ${turn.answer}`).join("\n\n");
+}
+
+// A follow-up leans on the previous turn ("what about last quarter?") and cannot be
+// searched or cached on its own
+export function isFollowUp(question: string, history: ConversationTurn[]): boolean {
+  if (history.length === 0) return false;
+  const trimmed = question.trim();
+  return FOLLOW_UP_OPENING.test(trimmed) || FOLLOW_UP_PRONOUN.test(trimmed) || FOLLOW_UP_DEMONSTRATIVE.test(trimmed);
+}
+
+// Rule-based decomposition: split on "?" / ";" and only split on "and", "also" and commas
+// when the next fragment starts a new question ("... and what is ..."), so phrases like
+// "terms and conditions for returns" stay intact.
+export function ruleBasedPlan(question: string): string[] {
+  const clean = (part: string) => part.replace(/^[\s,;]+|[\s?,;]+$/g, "").trim();
+
+  const sentences = question.split(/[?;]+/).map(clean).filter(Boolean);
+  const parts: string[] = [];
+
+  for (const sentence of sentences) {
+    // Capturing split keeps the connectors: [fragment, connector, fragment, ...]
+    const pieces = sentence.split(/(\s*,\s*(?:and\s+|also\s+)?|\s+and\s+(?:also\s+)?|\s+also\s+)/i);
+    let current = pieces[0];
+
+    for (let i = 2; i < pieces.length; i += 2) {
+      if (QUESTION_WORDS.test(pieces[i])) {
+        parts.push(current);
+        current = pieces[i];
+      } else {
+        // Not a new question: keep the connector ("terms and conditions")
+        current += pieces[i - 1] + pieces[i];
+      }
+    }
+    parts.push(current);
+  }
+
+  const unique = [...new Set(parts.map(clean).filter((p) => p.length > 3))];
+  return unique.length > 0 ? unique.slice(0, MAX_SUB_QUERIES) : [question.trim()];
+}
+
+// Only pay for an LLM call when rules are likely to get it wrong
+function needsLLMPlanning(question: string, history: ConversationTurn[]): string | null {
+  if (isFollowUp(question, history)) return "follow-up";
+  if (/\b[A-Z]{2,6}s?\b/.test(question)) return "acronym";
+  if (/\b(and|also)\b|[,;]|\?.+\?/i.test(question)) return "compound";
+  return null;
+}
+
+async function llmPlan(llm: LLMProvider, question: string, history: ConversationTurn[]): Promise<QueryPlan> {
+  const conversation = formatConversation(history);
+
+  const prompt = `You prepare search queries for a document retrieval system of a small business.
+
+${conversation ? `Conversation so far:\n${conversation}\n\n` : ""}Latest question: ${question}
+
+Tasks:
+1. Rewrite the latest question as a standalone question (resolve "it", "that", "what about ..." using the conversation).
+2. Split it into separate search queries, one per distinct information need (at most ${MAX_SUB_QUERIES}). Do NOT split fixed phrases such as "terms and conditions" or "profit and loss".
+3. Expand acronyms and abbreviations inside the queries when you are confident (e.g. "PTO" -> "paid time off (PTO)").
+
+Respond with JSON only:
+{"standalone": "...", "sub_queries": ["...", "..."], "expansions": {"PTO": "paid time off"}}`;
+
+  const raw = await llm.generate(prompt, { json: true, temperature: 0 });
+  const parsed = JSON.parse(raw.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+
+  const subQueries: string[] = Array.isArray(parsed.sub_queries)
+    ? parsed.sub_queries.filter((q: unknown): q is string => typeof q === "string" && q.trim().length > 3)
+    : [];
+  if (subQueries.length === 0) {
+    throw new Error("planner returned no sub-queries");
+  }
+
+  return {
+    standalone: typeof parsed.standalone === "string" && parsed.standalone.trim() ? parsed.standalone.trim() : question,
+    subQueries: [...new Set(subQueries.map((q) => q.trim()))].slice(0, MAX_SUB_QUERIES),
+    method: "llm",
+    expansions: parsed.expansions && typeof parsed.expansions === "object" ? parsed.expansions : undefined,
+  };
+}
+
+// Request override, then QUERY_PLANNER, then llm
+export function resolvePlannerMode(override?: unknown): PlannerMode {
+  const envMode = Deno.env.get("QUERY_PLANNER");
+  return isPlannerMode(override) ? override : isPlannerMode(envMode) ? envMode : "llm";
+}
+
+export async function planQuery(
+  llm: LLMProvider,
+  question: string,
+  options: { mode?: unknown; history?: ConversationTurn[] } = {}
+): Promise<QueryPlan> {
+  const history = options.history ?? [];
+  const mode = resolvePlannerMode(options.mode);
+
+  // Without a rewrite, a follow-up also searches with the previous question so the
+  // earlier topic ("revenue") still reaches retrieval
+  const rules = (fallbackReason?: string): QueryPlan => ({
+    standalone: question,
+    subQueries: isFollowUp(question, history)
+      ? [...ruleBasedPlan(question), history[history.length - 1].question].slice(0, MAX_SUB_QUERIES)
+      : ruleBasedPlan(question),
+    method: "rules",
+    ...(fallbackReason && { fallbackReason }),
+  });
+
+  if (mode === "rules") {
+    return rules();
+  }
+
+  const reason = needsLLMPlanning(question, history);
+  if (!reason) {
+    return rules("simple question");
+  }
+
+  try {
+    return await llmPlan(llm, question, history);
+  } catch (error) {
+    console.error(`⚠️ LLM query planning failed (${reason}), using rules:`, (error as Error).message);
+    return rules(`llm planner failed: ${(error as Error).message}`);
+  }
+}
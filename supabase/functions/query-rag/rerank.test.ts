@@ -0,0 +1,147 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { LLMProvider } from "../_shared/providers/index.ts";
+import { stubEnv } from "../_shared/test-env.ts";
+import { rerankChunks, resolveRerankSettings } from "./rerank.ts";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+const env = stubEnv();
+const realFetch = globalThis.fetch;
+
+afterEach(() => {
+  env.clear();
+  globalThis.fetch = realFetch;
+});
+
+function chunk(id: string, fields: Partial<RetrievedChunk> = {}): RetrievedChunk {
+  return { chunk_id: id, content: `Text of ${id}`, document_id: "doc", filename: "a.pdf", combined_score: 0, similarity: 0, search_type: "hybrid", ...fields };
+}
+
+// LLM that answers every reranking prompt with the given 1-based index/score pairs
+function judge(scores: (prompt: string) => Array<{ index: number; score: unknown }>) {
+  const prompts: string[] = [];
+  const llm = {
+    generate: (prompt: string) => {
+      prompts.push(prompt);
+      return Promise.resolve(JSON.stringify({ scores: scores(prompt) }));
+    },
+  } as unknown as LLMProvider;
+  return { llm, prompts };
+}
+
+function stubReranker(body: unknown, status = 200) {
+  const requests: Array<{ url: string; body: Record<string, unknown> }> = [];
+  globalThis.fetch = ((url: string, init: RequestInit) => {
+    requests.push({ url, body: JSON.parse(String(init.body)) });
+    return Promise.resolve(new Response(JSON.stringify(body), { status }));
+  }) as typeof fetch;
+  return requests;
+}
+
+const ids = (chunks: RetrievedChunk[]) => chunks.map((c) => c.chunk_id);
+
+describe("resolveRerankSettings", () => {
+  it("is off with the default top N without configuration", () => {
+    assert.deepEqual(resolveRerankSettings(), { mode: "off", topN: 8 });
+  });
+
+  it("reads RERANK_MODE and RERANK_TOP_N", () => {
+    env.set("RERANK_MODE", "cross-encoder");
+    env.set("RERANK_TOP_N", "5");
+    assert.deepEqual(resolveRerankSettings(), { mode: "cross-encoder", topN: 5 });
+  });
+
+  it("prefers request overrides and floors the top N", () => {
+    env.set("RERANK_MODE", "cross-encoder");
+    assert.deepEqual(resolveRerankSettings({ mode: "llm", topN: 3.7 }), { mode: "llm", topN: 3 });
+  });
+
+  it("ignores unknown modes and non-positive top N", () => {
+    env.set("RERANK_MODE", "bm25");
+    assert.deepEqual(resolveRerankSettings({ mode: "colbert", topN: 0 }), { mode: "off", topN: 8 });
+  });
+});
+
+describe("rerankChunks", () => {
+  const pool = [chunk("a"), chunk("b"), chunk("c")];
+
+  it("keeps the hybrid order when off", async () => {
+    const { llm, prompts } = judge(() => []);
+    assert.deepEqual(await rerankChunks(llm, "q", pool, { mode: "off", topN: 1 }), pool);
+    assert.equal(prompts.length, 0);
+  });
+
+  it("returns an empty pool without asking the reranker", async () => {
+    const { llm, prompts } = judge(() => []);
+    assert.deepEqual(await rerankChunks(llm, "q", [], { mode: "llm", topN: 3 }), []);
+    assert.equal(prompts.length, 0);
+  });
+
+  it("orders by the LLM's 1-based passage scores and keeps the top N", async () => {
+    const { llm } = judge(() => [{ index: 1, score: 2 }, { index: 2, score: 9 }, { index: 3, score: 5 }]);
+    const ranked = await rerankChunks(llm, "q", pool, { mode: "llm", topN: 2 });
+    assert.deepEqual(ids(ranked), ["b", "c"]);
+    assert.deepEqual(ranked.map((c) => c.rerank_score), [9, 5]);
+  });
+
+  it("scores passages the LLM skipped, or scored with garbage, as 0", async () => {
+    const { llm } = judge(() => [{ index: 3, score: "high" }, { index: 7, score: 10 }, { index: 2, score: 1 }]);
+    const ranked = await rerankChunks(llm, "q", pool, { mode: "llm", topN: 3 });
+    assert.deepEqual(ids(ranked), ["b", "a", "c"]);
+    assert.deepEqual(ranked.map((c) => c.rerank_score), [1, 0, 0]);
+  });
+
+  it("keeps the incoming order of tied scores", async () => {
+    const { llm } = judge(() => [{ index: 1, score: 4 }, { index: 2, score: 4 }, { index: 3, score: 4 }]);
+    assert.deepEqual(ids(await rerankChunks(llm, "q", pool, { mode: "llm", topN: 3 })), ["a", "b", "c"]);
+  });
+
+  it("judges long pools in batches of 20, numbering each batch from 1", async () => {
+    const many = Array.from({ length: 25 }, (_, i) => chunk(`c${i}`));
+    // Each batch scores its last passage highest
+    const { llm, prompts } = judge((prompt) => {
+      const count = prompt.match(/^\[\d+\]/gm)!.length;
+      return Array.from({ length: count }, (_, i) => ({ index: i + 1, score: i === count - 1 ? 10 : 1 }));
+    });
+    const ranked = await rerankChunks(llm, "q", many, { mode: "llm", topN: 2 });
+    assert.equal(prompts.length, 2);
+    assert.deepEqual(ids(ranked), ["c19", "c24"]);
+  });
+
+  it("keeps the best chunk of every question part ahead of higher-scored chunks", async () => {
+    const parts = [chunk("a", { query_part: "refunds" }), chunk("b", { query_part: "refunds" }), chunk("c", { query_part: "shipping" })];
+    const { llm } = judge(() => [{ index: 1, score: 9 }, { index: 2, score: 8 }, { index: 3, score: 1 }]);
+    assert.deepEqual(ids(await rerankChunks(llm, "q", parts, { mode: "llm", topN: 2 })), ["a", "c"]);
+  });
+
+  it("falls back to the hybrid order, trimmed to the top N, when the LLM returns no scores", async () => {
+    const { llm } = judge(() => []);
+    const ranked = await rerankChunks(llm, "q", pool, { mode: "llm", topN: 2 });
+    assert.deepEqual(ids(ranked), ["a", "b"]);
+    assert.equal(ranked[0].rerank_score, undefined);
+  });
+
+  it("uses the raw cross-encoder scores of a TEI response", async () => {
+    env.set("RERANK_URL", "http://reranker:8080/");
+    const requests = stubReranker([{ index: 2, score: 0.91 }, { index: 0, score: 0.12 }, { index: 1, score: -3.5 }]);
+    const ranked = await rerankChunks({} as LLMProvider, "refund window", pool, { mode: "cross-encoder", topN: 3 });
+    assert.deepEqual(ids(ranked), ["c", "a", "b"]);
+    assert.deepEqual(ranked.map((c) => c.rerank_score), [0.91, 0.12, -3.5]);
+    assert.equal(requests[0].url, "http://reranker:8080/rerank");
+    assert.equal(requests[0].body.query, "refund window");
+  });
+
+  it("reads Cohere-style relevance scores", async () => {
+    env.set("RERANK_URL", "http://reranker:8080");
+    stubReranker({ results: [{ index: 1, relevance_score: 0.8 }, { index: 0, relevance_score: 0.3 }] });
+    assert.deepEqual(ids(await rerankChunks({} as LLMProvider, "q", pool, { mode: "cross-encoder", topN: 2 })), ["b", "a"]);
+  });
+
+  it("falls back when the reranker fails or is not configured", async () => {
+    assert.deepEqual(ids(await rerankChunks({} as LLMProvider, "q", pool, { mode: "cross-encoder", topN: 2 })), ["a", "b"]);
+
+    env.set("RERANK_URL", "http://reranker:8080");
+    stubReranker({ error: "model loading" }, 503);
+    assert.deepEqual(ids(await rerankChunks({} as LLMProvider, "q", pool, { mode: "cross-encoder", topN: 2 })), ["a", "b"]);
+  });
+});
@@ -0,0 +1,164 @@
+// Optional reranking stage between hybrid search and answer generation
+// Rescores the merged candidate pool against the full question and keeps the top N,
+// so fewer (and better ordered) chunks reach the prompt.
+//
+// Modes:
+//   off            keep hybrid_search order (default)
+//   cross-encoder  POST to a local reranker (RERANK_URL) speaking the Text Embeddings
+//                  Inference /rerank API; Cohere/Jina-style `results` responses also work
+//   llm            ask the configured LLM provider for 0-10 relevance judgments
+
+import type { LLMProvider } from "../_shared/providers/index.ts";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+export type RerankMode = "off" | "llm" | "cross-encoder";
+
+export interface RerankSettings {
+  mode: RerankMode;
+  topN: number;
+}
+
+const RERANK_MODES: RerankMode[] = ["off", "llm", "cross-encoder"];
+const DEFAULT_TOP_N = 8;
+// Candidates judged per LLM call; longer lists degrade judgment quality
+const LLM_BATCH_SIZE = 20;
+// Characters of each chunk shown to the reranker
+const MAX_PASSAGE_CHARS = 1200;
+
+export function isRerankMode(value: unknown): value is RerankMode {
+  return RERANK_MODES.includes(value as RerankMode);
+}
+
+// Environment defaults (RERANK_MODE, RERANK_TOP_N), overridable per request
+export function resolveRerankSettings(overrides: { mode?: unknown; topN?: unknown } = {}): RerankSettings {
+  const envMode = Deno.env.get("RERANK_MODE");
+  const mode = isRerankMode(overrides.mode) ? overrides.mode : isRerankMode(envMode) ? envMode : "off";
+
+  const requestedTopN = typeof overrides.topN === "number" ? overrides.topN : Number(Deno.env.get("RERANK_TOP_N"));
+  const topN = requestedTopN > 0 ? Math.floor(requestedTopN) : DEFAULT_TOP_N;
+
+  return { mode, topN };
+}
+
+async function crossEncoderScores(question: string, passages: string[]): Promise<number[]> {
+  const baseUrl = Deno.env.get("RERANK_URL");
+  if (!baseUrl) {
+    throw new Error("RERANK_URL is not set for cross-encoder reranking");
+  }
+
+  const apiKey = Deno.env.get("RERANK_API_KEY");
+  const response = await fetch(`${baseUrl.replace(/\/$/, "")}/rerank`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      query: question,
+      texts: passages,
+      documents: passages,
+      model: Deno.env.get("RERANK_MODEL") || undefined,
+      truncate: true,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Reranker request failed (${response.status}): ${(await response.text()).substring(0, 200)}`);
+  }
+
+  const result = await response.json();
+  const items: Array<{ index: number; score?: number; relevance_score?: number }> = Array.isArray(result)
+    ? result
+    : result.results ?? [];
+
+  const scores = new Array(passages.length).fill(0);
+  for (const item of items) {
+    scores[item.index] = item.score ?? item.relevance_score ?? 0;
+  }
+  return scores;
+}
+
+async function llmScores(llm: LLMProvider, question: string, passages: string[]): Promise<number[]> {
+  const prompt = `You are ranking search results for a question-answering system.
+Rate how useful each passage is for answering the question, from 0 (irrelevant) to 10 (directly answers it).
+If the question has several parts, a passage that fully answers any one part deserves a high score.
+
+Question: ${question}
+
+Passages:
+${passages.map((p, i) => `[${i + 1}] ${p.replace(/\s+/g, " ")}`).join("\n\n")}
+
+Respond with JSON only: {"scores": [{"index": 1, "score": 7}, ...]} covering every passage.`;
+
+  const raw = await llm.generate(prompt, { json: true, temperature: 0 });
+  const parsed = JSON.parse(raw.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  const items: Array<{ index: number; score: number }> = parsed.scores ?? [];
+  if (items.length === 0) {
+    throw new Error("LLM returned no relevance scores");
+  }
+
+  const scores = new Array(passages.length).fill(0);
+  for (const item of items) {
+    const i = Number(item.index) - 1;
+    if (i >= 0 && i < passages.length) scores[i] = Number(item.score) || 0;
+  }
+  return scores;
+}
+
+// Keep the best chunk of every question part first, then fill up by rerank score,
+// so one dominant topic cannot push the other parts of a multi-part question out
+function selectTopN(ranked: RetrievedChunk[], topN: number): RetrievedChunk[] {
+  const selected = new Map<string, RetrievedChunk>();
+  const coveredParts = new Set<string>();
+
+  for (const chunk of ranked) {
+    if (selected.size >= topN) break;
+    if (chunk.query_part && !coveredParts.has(chunk.query_part)) {
+      coveredParts.add(chunk.query_part);
+      selected.set(chunk.chunk_id, chunk);
+    }
+  }
+
+  for (const chunk of ranked) {
+    if (selected.size >= topN) break;
+    selected.set(chunk.chunk_id, chunk);
+  }
+
+  return [...selected.values()].sort((a, b) => (b.rerank_score ?? 0) - (a.rerank_score ?? 0));
+}
+
+// Rerank candidates; on any reranker failure fall back to the incoming order (trimmed to top N)
+export async function rerankChunks(
+  llm: LLMProvider,
+  question: string,
+  candidates: RetrievedChunk[],
+  settings: RerankSettings
+): Promise<RetrievedChunk[]> {
+  if (settings.mode === "off" || candidates.length === 0) {
+    return candidates;
+  }
+
+  const passages = candidates.map((c) => c.content.substring(0, MAX_PASSAGE_CHARS));
+
+  try {
+    let scores: number[];
+    if (settings.mode === "cross-encoder") {
+      scores = await crossEncoderScores(question, passages);
+    } else {
+      const batches: Promise<number[]>[] = [];
+      for (let i = 0; i < passages.length; i += LLM_BATCH_SIZE) {
+        batches.push(llmScores(llm, question, passages.slice(i, i + LLM_BATCH_SIZE)));
+      }
+      scores = (await Promise.all(batches)).flat();
+    }
+
+    const ranked = candidates
+      .map((chunk, i) => ({ ...chunk, rerank_score: scores[i] }))
+      .sort((a, b) => b.rerank_score - a.rerank_score);
+
+    return selectTopN(ranked, settings.topN);
+  } catch (error) {
+    console.error(`⚠️ Reranking (${settings.mode}) failed, keeping hybrid order:`, (error as Error).message);
+    return candidates.slice(0, settings.topN);
+  }
+}
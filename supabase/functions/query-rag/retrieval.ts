@@ -0,0 +1,170 @@
+// Retrieval helpers for query-rag
+// All similarity search runs inside Postgres (match_chunks / hybrid_search) so the
+// cost of a query does not grow with the number of chunks in the knowledge base.
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface RetrievedChunk {
+  chunk_id: string;
+  content: string;
+  document_id: string;
+  chunk_index?: number;
+  filename: string;
+  combined_score: number;
+  similarity: number;
+  keyword_score?: number;
+  search_type: string;
+  // Question part that retrieved the chunk (multi-part questions)
+  query_part?: string;
+  // Set by the reranking stage
+  rerank_score?: number;
+  // Computed spreadsheet sources (tables.ts): sheet and the rows the aggregate covers
+  table?: { sheet: string; rows: number[] };
+  // Set by context expansion (expansion.ts): the hit a surrounding chunk was added for,
+  // and the hit's heading or sheet
+  expanded_from?: string;
+  section?: string;
+}
+
+// p_filters object for the retrieval RPCs (see filters.ts)
+export type RpcFilters = Record<string, unknown>;
+
+// Pure vector search: top-k nearest chunks from pgvector
+export async function vectorSearch(
+  supabase: SupabaseClient,
+  embedding: number[],
+  documentIds: string[],
+  limit = 15,
+  filters: RpcFilters = {},
+  similarityThreshold = 0.15
+): Promise<RetrievedChunk[]> {
+  const { data, error } = await supabase.rpc("match_chunks", {
+    p_query_embedding: embedding,
+    p_document_ids: documentIds,
+    p_match_count: limit,
+    p_similarity_threshold: similarityThreshold,
+    p_filters: filters,
+  });
+
+  if (error) {
+    throw new Error(`Vector search failed: ${error.message}`);
+  }
+
+  return (data || []).map((r: any) => ({
+    chunk_id: r.chunk_id,
+    content: r.content,
+    document_id: r.document_id,
+    chunk_index: r.chunk_index,
+    filename: r.filename ?? "Unknown",
+    combined_score: r.similarity,
+    similarity: r.similarity,
+    search_type: "semantic",
+  }));
+}
+
+// Full-text top-k search via the keyword_search RPC (any question term matches)
+export async function keywordSearch(
+  supabase: SupabaseClient,
+  question: string,
+  documentIds: string[],
+  limit = 15,
+  filters: RpcFilters = {}
+): Promise<RetrievedChunk[]> {
+  const { data, error } = await supabase.rpc("keyword_search", {
+    p_question: question,
+    p_document_ids: documentIds,
+    p_match_count: limit,
+    p_filters: filters,
+  });
+
+  if (error) {
+    throw new Error(`Keyword search failed: ${error.message}`);
+  }
+
+  return (data || []).map((r: any) => ({
+    chunk_id: r.chunk_id,
+    content: r.content,
+    document_id: r.document_id,
+    chunk_index: r.chunk_index,
+    filename: r.filename ?? "Unknown",
+    combined_score: r.keyword_score,
+    similarity: 0,
+    keyword_score: r.keyword_score,
+    search_type: "keyword",
+  }));
+}
+
+// Weighted semantic + keyword search via the hybrid_search RPC
+export async function hybridSearch(
+  supabase: SupabaseClient,
+  question: string,
+  embedding: number[],
+  documentIds: string[],
+  semanticWeight: number,
+  keywordWeight: number,
+  limit = 15,
+  filters: RpcFilters = {}
+): Promise<RetrievedChunk[]> {
+  const { data, error } = await supabase.rpc("hybrid_search", {
+    p_question: question,
+    p_question_embedding: embedding,
+    p_document_ids: documentIds,
+    p_semantic_weight: semanticWeight,
+    p_keyword_weight: keywordWeight,
+    p_limit: limit,
+    p_filters: filters,
+  });
+
+  if (error) {
+    throw new Error(`Hybrid search failed: ${error.message}`);
+  }
+
+  // hybrid_search returns `id` / `semantic_score`; normalise to the shared shape
+  return (data || []).map((r: any) => ({
+    chunk_id: r.id,
+    content: r.content,
+    document_id: r.document_id,
+    filename: r.filename ?? "Unknown",
+    combined_score: r.combined_score,
+    similarity: r.semantic_score || 0,
+    keyword_score: r.keyword_score || 0,
+    search_type: r.search_type ?? "hybrid",
+  }));
+}
+
+// Count embedded chunks for the given documents without transferring any vectors
+export async function countEmbeddedChunks(
+  supabase: SupabaseClient,
+  documentIds: string[]
+): Promise<number> {
+  const { count, error } = await supabase
+    .from("embeddings")
+    .select("id, chunks!inner(document_id)", { count: "exact", head: true })
+    .in("chunks.document_id", documentIds);
+
+  if (error) {
+    throw new Error(`Failed to count embeddings: ${error.message}`);
+  }
+
+  return count ?? 0;
+}
+
+// Current content of the given chunks (chunk id -> content); deleted chunks are absent
+export async function fetchChunkContents(
+  supabase: SupabaseClient,
+  chunkIds: string[]
+): Promise<Map<string, string>> {
+  if (chunkIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from("chunks")
+    .select("id, content")
+    .in("id", chunkIds);
+
+  if (error) {
+    throw new Error(`Failed to load chunks: ${error.message}`);
+  }
+
+  return new Map((data || []).map((r: any) => [r.id, r.content]));
+}
@@ -0,0 +1,69 @@
+// Server-sent event helpers for query-rag's streaming mode
+// Event order: `sources` once, `token` for every text delta, then `done` (or `error`)
+
+const encoder = new TextEncoder();
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+export function encodeEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+interface StreamAnswerOptions {
+  sources: unknown[];
+  tokens: AsyncIterable<string>;
+  // Runs once the full answer is known. Skipped when the client stops the stream early,
+  // so partial answers never reach chat history or the cache.
+  onComplete?: (answer: string) => Promise<Record<string, unknown> | void>;
+  done?: Record<string, unknown>;
+}
+
+export function streamAnswerResponse({ sources, tokens, onComplete, done = {} }: StreamAnswerOptions): Response {
+  let cancelled = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!cancelled) controller.enqueue(encodeEvent(event, data));
+      };
+
+      send("sources", { sources });
+
+      let answer = "";
+      try {
+        for await (const text of tokens) {
+          if (cancelled) break;
+          answer += text;
+          send("token", { text });
+        }
+
+        if (cancelled) {
+          console.log(`🛑 Stream stopped by client after ${answer.length} chars`);
+          return;
+        }
+
+        const extra = onComplete ? await onComplete(answer) : undefined;
+        send("done", { ...done, ...(extra || {}) });
+      } catch (error) {
+        console.error("❌ Streaming error:", error);
+        send("error", { error: (error as Error)?.message ?? "Unknown error" });
+      }
+
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(body, { status: 200, headers: SSE_HEADERS });
+}
+
+// Wrap an already-complete answer (e.g. a cache hit) so stream clients get the same events
+export async function* singleToken(text: string): AsyncIterable<string> {
+  yield text;
+}
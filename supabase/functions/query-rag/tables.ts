@@ -0,0 +1,311 @@
+// Structured answers over spreadsheet tables
+// Spreadsheets are also stored as typed tables (process-document/tables.ts). For analytical
+// questions (totals, averages, counts, extremes) the LLM turns the question into JSON
+// aggregation specs over those tables; aggregate_document_table validates and runs them
+// read-only over every row. Each result becomes a "computed" source in the prompt that lists
+// the rows it was computed from, so the answer can cite the aggregate instead of adding up
+// whichever rows happened to be retrieved.
+//
+// Modes (TABLE_QA):
+//   llm  plan aggregations with the configured provider for analytical questions (default)
+//   off  answer from the text chunks only
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { LLMProvider } from "../_shared/providers/index.ts";
+import type { RetrievedChunk, RpcFilters } from "./retrieval.ts";
+
+export type TableQaMode = "llm" | "off";
+
+export interface TableColumn {
+  key: string;
+  name: string;
+  type: "number" | "date" | "boolean" | "text";
+}
+
+interface TableInfo {
+  table_id: string;
+  document_id: string;
+  filename: string;
+  sheet_name: string;
+  columns: TableColumn[];
+  row_count: number;
+}
+
+export interface AggregationSpec {
+  aggregate: "sum" | "avg" | "min" | "max" | "count";
+  column?: string;
+  filters?: Array<{ column: string; op: string; value: unknown }>;
+  group_by?: string[];
+  order?: "asc" | "desc";
+  limit?: number;
+}
+
+interface AggregateRow {
+  group_values: Record<string, unknown>;
+  value: unknown;
+  row_count: number;
+  row_numbers: number[] | null;
+}
+
+// What was computed, for retrieval info and debugging
+export interface TableAggregation {
+  filename: string;
+  sheet: string;
+  query: string;
+  groups: number;
+  rows: number;
+}
+
+// Tables described to the planner
+const MAX_TABLES = 8;
+// Aggregations per question (multi-part questions)
+const MAX_QUERIES = 3;
+// Distinct values shown per text column so the planner can match the sheet's spelling
+const MAX_SAMPLE_VALUES = 8;
+const SAMPLE_ROWS = 100;
+// Rows listed in a computed source
+const MAX_CITED_ROWS = 20;
+// Groups listed in a computed source
+const MAX_GROUPS = 25;
+
+const ANALYTICAL_PATTERN =
+  /\b(?:total|sum|average|avg|mean|how many|how much|count|number of|max(?:imum)?|min(?:imum)?|highest|lowest|largest|smallest|biggest|top \d+|most|least|per|breakdown|aggregate)\b/i;
+
+export function resolveTableQaMode(override?: unknown): TableQaMode {
+  const isMode = (value: unknown): value is TableQaMode => value === "llm" || value === "off";
+  const envMode = Deno.env.get("TABLE_QA");
+  return isMode(override) ? override : isMode(envMode) ? envMode : "llm";
+}
+
+export function isAnalyticalQuestion(question: string): boolean {
+  return ANALYTICAL_PATTERN.test(question);
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "number") return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  if (value === null || value === undefined) return "(none)";
+  return String(value);
+}
+
+function columnName(table: TableInfo, key: string): string {
+  return table.columns.find((c) => c.key === key)?.name ?? key;
+}
+
+const OPERATORS: Record<string, string> = {
+  eq: "=", neq: "≠", gt: ">", gte: "≥", lt: "<", lte: "≤", contains: "contains", in: "in",
+};
+
+// e.g. SUM(Sales) where Region = West and Date ≥ 2023-04-01, grouped by Month
+function describeSpec(table: TableInfo, spec: AggregationSpec): string {
+  const target = spec.column ? `${spec.aggregate.toUpperCase()}(${columnName(table, spec.column)})` : "COUNT(rows)";
+  const conditions = (spec.filters || []).map((f) =>
+    `${columnName(table, f.column)} ${OPERATORS[f.op] ?? f.op} ${Array.isArray(f.value) ? f.value.join(", ") : formatValue(f.value)}`
+  );
+  const grouping = spec.group_by?.length ? `, grouped by ${spec.group_by.map((k) => columnName(table, k)).join(", ")}` : "";
+  return `${target}${conditions.length > 0 ? ` where ${conditions.join(" and ")}` : ""}${grouping}`;
+}
+
+async function sampleValues(supabase: SupabaseClient, table: TableInfo): Promise<Record<string, string[]>> {
+  const { data } = await supabase
+    .from("document_table_rows")
+    .select("data")
+    .eq("table_id", table.table_id)
+    .order("row_number")
+    .limit(SAMPLE_ROWS);
+
+  const samples: Record<string, string[]> = {};
+  for (const column of table.columns.filter((c) => c.type === "text")) {
+    const values = new Set<string>();
+    for (const row of data || []) {
+      const value = row.data?.[column.key];
+      if (typeof value === "string" && value.length <= 60) values.add(value);
+      if (values.size >= MAX_SAMPLE_VALUES) break;
+    }
+    samples[column.key] = [...values];
+  }
+  return samples;
+}
+
+async function planAggregations(
+  llm: LLMProvider,
+  question: string,
+  tables: TableInfo[],
+  samples: Record<string, string[]>[]
+): Promise<Array<{ table: TableInfo; spec: AggregationSpec }>> {
+  const schema = tables.map((table, i) => {
+    const columns = table.columns.map((c) => {
+      const values = samples[i][c.key];
+      return `  - ${c.key} (${c.type}) "${c.name}"${values?.length ? `, e.g. ${values.map((v) => JSON.stringify(v)).join(", ")}` : ""}`;
+    });
+    return `Table ${i + 1}: sheet "${table.sheet_name}" of ${table.filename} (${table.row_count} rows)\n${columns.join("\n")}`;
+  }).join("\n\n");
+
+  const prompt = `You translate questions into aggregations over spreadsheet tables.
+
+${schema}
+
+Question: ${question}
+
+If the question asks for a total, average, count, minimum, maximum or ranking that these tables can answer,
+respond with up to ${MAX_QUERIES} aggregations (one per part of the question). Otherwise respond with {"queries": []}.
+
+Each aggregation:
+{"table": 1, "aggregate": "sum" | "avg" | "min" | "max" | "count", "column": "<column key, omit for count>",
+ "filters": [{"column": "<column key>", "op": "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "contains" | "in", "value": ...}],
+ "group_by": ["<column key>"], "order": "desc" | "asc", "limit": 10}
+
+Rules:
+- Use only the column keys listed above; sum and avg need a number column
+- Dates are YYYY-MM-DD; express periods as ranges (Q2 2023 = gte 2023-04-01 and lte 2023-06-30)
+- Text matches ignore case; use "contains" when the exact spelling is unclear
+- Use group_by for "per X" / "by X" / "which X has the most" questions
+
+Respond with JSON only: {"queries": [...]}`;
+
+  const raw = await llm.generate(prompt, { json: true, temperature: 0 });
+  const parsed = JSON.parse(raw.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  const queries: Array<AggregationSpec & { table: number }> = Array.isArray(parsed.queries) ? parsed.queries : [];
+
+  return queries
+    .slice(0, MAX_QUERIES)
+    .filter((q) => Number.isInteger(q.table) && q.table >= 1 && q.table <= tables.length && typeof q.aggregate === "string")
+    .map(({ table, ...spec }) => ({ table: tables[table - 1], spec }));
+}
+
+// The chunk holding a table row, so the computed source opens the sheet at that row
+async function chunkForRow(supabase: SupabaseClient, table: TableInfo, rowNumber: number | undefined): Promise<string | null> {
+  const { data: sheetChunks } = await supabase
+    .from("chunks")
+    .select("id, chunk_index, metadata")
+    .eq("document_id", table.document_id)
+    .eq("metadata->>sheet", table.sheet_name)
+    .order("chunk_index");
+
+  const covering = (sheetChunks || []).find((c: any) =>
+    rowNumber !== undefined && c.metadata?.row_start <= rowNumber && rowNumber <= c.metadata?.row_end
+  );
+  if (covering || sheetChunks?.[0]) return (covering ?? sheetChunks![0]).id;
+
+  // Documents processed before chunk metadata existed
+  const { data: first } = await supabase
+    .from("chunks")
+    .select("id")
+    .eq("document_id", table.document_id)
+    .order("chunk_index")
+    .limit(1)
+    .maybeSingle();
+  return first?.id ?? null;
+}
+
+async function computedSource(
+  supabase: SupabaseClient,
+  table: TableInfo,
+  spec: AggregationSpec,
+  results: AggregateRow[]
+): Promise<RetrievedChunk | null> {
+  const rowNumbers = [...new Set(results.flatMap((r) => r.row_numbers || []))].sort((a, b) => a - b);
+  const matched = results.reduce((sum, r) => sum + r.row_count, 0);
+
+  const { data: rows } = rowNumbers.length > 0
+    ? await supabase
+      .from("document_table_rows")
+      .select("row_number, data")
+      .eq("table_id", table.table_id)
+      .in("row_number", rowNumbers.slice(0, MAX_CITED_ROWS))
+      .order("row_number")
+    : { data: [] };
+
+  const chunkId = await chunkForRow(supabase, table, rowNumbers[0]);
+  if (!chunkId) return null;
+
+  const grouped = (spec.group_by?.length ?? 0) > 0;
+  const resultLines = grouped
+    ? results.slice(0, MAX_GROUPS).map((r) =>
+      `${Object.entries(r.group_values).map(([k, v]) => `${columnName(table, k)}: ${formatValue(v)}`).join(", ")} → ${formatValue(r.value)} (${r.row_count} rows)`
+    )
+    : [`Result: ${formatValue(results[0]?.value)} (${results[0]?.row_count ?? 0} matching rows)`];
+
+  // Same "ROW n: Header: value" form as the sheet's text chunks
+  const rowLines = (rows || []).map((row: any) =>
+    `ROW ${row.row_number}: ${table.columns.map((c) => `${c.name}: ${formatValue(row.data?.[c.key] ?? "")}`).join(", ")}`
+  );
+
+  const content = [
+    `Computed from sheet "${table.sheet_name}" of ${table.filename} over all ${table.row_count} rows:`,
+    describeSpec(table, spec),
+    ...resultLines,
+    ...(rowLines.length > 0
+      ? [`Rows used${rowNumbers.length > rowLines.length ? ` (first ${rowLines.length} of ${matched})` : ""}:`, ...rowLines]
+      : []),
+  ].join("\n");
+
+  return {
+    chunk_id: chunkId,
+    content,
+    document_id: table.document_id,
+    filename: table.filename,
+    combined_score: 0,
+    similarity: 0,
+    search_type: "table",
+    table: { sheet: table.sheet_name, rows: rowNumbers },
+  };
+}
+
+// Computed sources for an analytical question; empty when there are no tables in scope,
+// the planner finds no aggregation, or every aggregation fails (the text chunks still answer)
+export async function answerFromTables(
+  llm: LLMProvider,
+  supabase: SupabaseClient,
+  question: string,
+  documentIds: string[],
+  filters: RpcFilters
+): Promise<{ sources: RetrievedChunk[]; aggregations: TableAggregation[] }> {
+  const empty = { sources: [], aggregations: [] };
+
+  const { data: matched, error } = await supabase.rpc("match_document_tables", {
+    p_document_ids: documentIds,
+    p_filters: filters,
+  });
+  if (error) {
+    console.error("⚠️ Listing spreadsheet tables failed:", error.message);
+    return empty;
+  }
+  const tables: TableInfo[] = (matched || []).slice(0, MAX_TABLES);
+  if (tables.length === 0) return empty;
+
+  let planned: Array<{ table: TableInfo; spec: AggregationSpec }>;
+  try {
+    const samples = await Promise.all(tables.map((table) => sampleValues(supabase, table)));
+    planned = await planAggregations(llm, question, tables, samples);
+  } catch (planError) {
+    console.error("⚠️ Planning table aggregations failed:", (planError as Error).message);
+    return empty;
+  }
+
+  const sources: RetrievedChunk[] = [];
+  const aggregations: TableAggregation[] = [];
+  for (const { table, spec } of planned) {
+    const { data: results, error: aggregateError } = await supabase.rpc("aggregate_document_table", {
+      p_table_id: table.table_id,
+      p_spec: spec,
+    });
+    if (aggregateError) {
+      console.error(`⚠️ Aggregation over "${table.sheet_name}" rejected: ${aggregateError.message}`);
+      continue;
+    }
+
+    const source = await computedSource(supabase, table, spec, results || []);
+    if (!source) continue;
+    sources.push(source);
+    aggregations.push({
+      filename: table.filename,
+      sheet: table.sheet_name,
+      query: describeSpec(table, spec),
+      groups: (results || []).length,
+      rows: (results || []).reduce((sum: number, r: AggregateRow) => sum + r.row_count, 0),
+    });
+  }
+
+  return { sources, aggregations };
+}
@@ -0,0 +1,119 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { LLMProvider } from "../_shared/providers/index.ts";
+import { stubEnv } from "../_shared/test-env.ts";
+import { queryVariants, resolveQueryExpansionSettings } from "./variants.ts";
+
+const env = stubEnv();
+
+afterEach(() => env.clear());
+
+function llmReplying(reply: unknown): LLMProvider {
+  return { generate: () => Promise.resolve(typeof reply === "string" ? reply : JSON.stringify(reply)) } as unknown as LLMProvider;
+}
+
+const QUERY = "refund window";
+const PASSAGE = "Customers may return any item within thirty days of delivery for a full refund to the original payment method.";
+
+describe("resolveQueryExpansionSettings", () => {
+  it("is off with 3 paraphrases without configuration", () => {
+    assert.deepEqual(resolveQueryExpansionSettings(), { mode: "off", paraphrases: 3 });
+  });
+
+  it("reads QUERY_EXPANSION and MULTI_QUERY_COUNT", () => {
+    env.set("QUERY_EXPANSION", "hyde+multi-query");
+    env.set("MULTI_QUERY_COUNT", "2");
+    assert.deepEqual(resolveQueryExpansionSettings(), { mode: "hyde+multi-query", paraphrases: 2 });
+  });
+
+  it("prefers request overrides and caps the paraphrases at 5", () => {
+    env.set("QUERY_EXPANSION", "hyde");
+    assert.deepEqual(resolveQueryExpansionSettings({ mode: "multi-query", paraphrases: 9 }), { mode: "multi-query", paraphrases: 5 });
+  });
+
+  it("ignores unknown modes and non-positive counts", () => {
+    assert.deepEqual(resolveQueryExpansionSettings({ mode: "rm3", paraphrases: 0 }), { mode: "off", paraphrases: 3 });
+  });
+});
+
+describe("queryVariants", () => {
+  it("is only the query when off, without calling the LLM", async () => {
+    const llm = { generate: () => assert.fail("LLM called") } as unknown as LLMProvider;
+    assert.deepEqual(await queryVariants(llm, QUERY, { mode: "off", paraphrases: 3 }), [{ text: QUERY, kind: "query" }]);
+  });
+
+  it("adds the paraphrases after the query", async () => {
+    const variants = await queryVariants(
+      llmReplying({ paraphrases: ["return period", "how long can I return an item"] }),
+      QUERY,
+      { mode: "multi-query", paraphrases: 3 }
+    );
+    assert.deepEqual(variants.map((v) => [v.kind, v.text]), [
+      ["query", QUERY],
+      ["paraphrase", "return period"],
+      ["paraphrase", "how long can I return an item"],
+    ]);
+  });
+
+  it("keeps at most the configured number of paraphrases", async () => {
+    const variants = await queryVariants(
+      llmReplying({ paraphrases: ["return period", "refund deadline", "money back time limit"] }),
+      QUERY,
+      { mode: "multi-query", paraphrases: 2 }
+    );
+    assert.deepEqual(variants.map((v) => v.text), [QUERY, "return period", "refund deadline"]);
+  });
+
+  it("drops repeats of the query and of each other, ignoring case and spacing", async () => {
+    const variants = await queryVariants(
+      llmReplying({ paraphrases: [" Refund Window ", "return period", "RETURN PERIOD", "return period "] }),
+      QUERY,
+      { mode: "multi-query", paraphrases: 3 }
+    );
+    assert.deepEqual(variants.map((v) => v.text), [QUERY, "return period"]);
+  });
+
+  it("drops paraphrases that are not text or too short to search", async () => {
+    const variants = await queryVariants(
+      llmReplying({ paraphrases: [42, null, "ok", "return period"] }),
+      QUERY,
+      { mode: "multi-query", paraphrases: 3 }
+    );
+    assert.deepEqual(variants.map((v) => v.text), [QUERY, "return period"]);
+  });
+
+  it("adds the hypothetical passage, cut to 150 words", async () => {
+    const long = Array.from({ length: 200 }, (_, i) => `word${i}`).join(" ");
+    const [, hyde] = await queryVariants(llmReplying({ passage: long }), QUERY, { mode: "hyde", paraphrases: 3 });
+    assert.equal(hyde.kind, "hyde");
+    assert.equal(hyde.text.split(" ").length, 150);
+  });
+
+  it("ignores a passage that is too short to be one", async () => {
+    assert.equal((await queryVariants(llmReplying({ passage: "Thirty days." }), QUERY, { mode: "hyde", paraphrases: 3 })).length, 1);
+  });
+
+  it("puts the paraphrases before the passage in the combined mode", async () => {
+    const variants = await queryVariants(
+      llmReplying(`\`\`\`json\n${JSON.stringify({ passage: PASSAGE, paraphrases: ["return period"] })}\n\`\`\``),
+      QUERY,
+      { mode: "hyde+multi-query", paraphrases: 3 }
+    );
+    assert.deepEqual(variants.map((v) => v.kind), ["query", "paraphrase", "hyde"]);
+  });
+
+  it("ignores the parts of the reply its mode did not ask for", async () => {
+    const variants = await queryVariants(
+      llmReplying({ passage: PASSAGE, paraphrases: ["return period"] }),
+      QUERY,
+      { mode: "hyde", paraphrases: 3 }
+    );
+    assert.deepEqual(variants.map((v) => v.kind), ["query", "hyde"]);
+  });
+
+  it("falls back to the query when the reply is not JSON", async () => {
+    assert.deepEqual(await queryVariants(llmReplying("Sure! Here are some rewordings"), QUERY, { mode: "multi-query", paraphrases: 3 }), [
+      { text: QUERY, kind: "query" },
+    ]);
+  });
+});
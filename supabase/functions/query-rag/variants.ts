@@ -0,0 +1,95 @@
+// Optional query variants for short or vague questions
+// A one-line question embeds poorly against long business documents. Each search query can
+// be complemented by
+//   hyde         a hypothetical answer passage (HyDE), embedded and matched by vector search
+//                only; it reads like the documents, but its facts are invented, so it is
+//                never shown or used as a keyword query
+//   multi-query  MULTI_QUERY_COUNT paraphrases, searched like the original query
+// Every variant gets its own result list; fusion.ts merges them with RRF.
+//
+// Modes (QUERY_EXPANSION): off (default) | hyde | multi-query | hyde+multi-query
+
+import type { LLMProvider } from "../_shared/providers/index.ts";
+
+export type QueryExpansionMode = "off" | "hyde" | "multi-query" | "hyde+multi-query";
+
+export interface QueryExpansionSettings {
+  mode: QueryExpansionMode;
+  // Paraphrases per query in the multi-query modes
+  paraphrases: number;
+}
+
+export interface QueryVariant {
+  text: string;
+  kind: "query" | "paraphrase" | "hyde";
+}
+
+const QUERY_EXPANSION_MODES: QueryExpansionMode[] = ["off", "hyde", "multi-query", "hyde+multi-query"];
+const DEFAULT_PARAPHRASES = 3;
+const MAX_PARAPHRASES = 5;
+const MAX_PASSAGE_WORDS = 150;
+
+export function isQueryExpansionMode(value: unknown): value is QueryExpansionMode {
+  return QUERY_EXPANSION_MODES.includes(value as QueryExpansionMode);
+}
+
+// Environment defaults (QUERY_EXPANSION, MULTI_QUERY_COUNT), overridable per request
+export function resolveQueryExpansionSettings(
+  overrides: { mode?: unknown; paraphrases?: unknown } = {}
+): QueryExpansionSettings {
+  const envMode = Deno.env.get("QUERY_EXPANSION");
+  const mode = isQueryExpansionMode(overrides.mode) ? overrides.mode : isQueryExpansionMode(envMode) ? envMode : "off";
+
+  const requested = typeof overrides.paraphrases === "number" ? overrides.paraphrases : Number(Deno.env.get("MULTI_QUERY_COUNT"));
+  const paraphrases = requested > 0 ? Math.min(MAX_PARAPHRASES, Math.floor(requested)) : DEFAULT_PARAPHRASES;
+
+  return { mode, paraphrases };
+}
+
+// The query itself plus the generated variants; only the query when generation fails
+export async function queryVariants(llm: LLMProvider, query: string, settings: QueryExpansionSettings): Promise<QueryVariant[]> {
+  const variants: QueryVariant[] = [{ text: query, kind: "query" }];
+  if (settings.mode === "off") return variants;
+
+  const hyde = settings.mode.includes("hyde");
+  const multiQuery = settings.mode.includes("multi-query");
+
+  const tasks = [
+    hyde && `"passage": a short passage (at most ${MAX_PASSAGE_WORDS} words) written as if taken from a company document that answers the query. Use the wording such a document would use; invent plausible details if needed.`,
+    multiQuery && `"paraphrases": ${settings.paraphrases} different rewordings of the query for a search engine: use synonyms and the terms a business document would use. Keep the meaning, do not add new questions.`,
+  ].filter(Boolean);
+
+  const prompt = `You help a document search system of a small business find relevant passages.
+
+Query: ${query}
+
+Write:
+${tasks.map((task, i) => `${i + 1}. ${task}`).join("\n")}
+
+Respond with JSON only:
+{${[hyde && `"passage": "..."`, multiQuery && `"paraphrases": ["...", "..."]`].filter(Boolean).join(", ")}}`;
+
+  try {
+    const raw = await llm.generate(prompt, { json: true, temperature: 0.3 });
+    const parsed = JSON.parse(raw.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+
+    if (multiQuery && Array.isArray(parsed.paraphrases)) {
+      const seen = new Set([query.trim().toLowerCase()]);
+      for (const paraphrase of parsed.paraphrases) {
+        if (typeof paraphrase !== "string" || paraphrase.trim().length < 4) continue;
+        if (seen.has(paraphrase.trim().toLowerCase())) continue;
+        seen.add(paraphrase.trim().toLowerCase());
+        variants.push({ text: paraphrase.trim(), kind: "paraphrase" });
+        if (variants.length > settings.paraphrases) break;
+      }
+    }
+    if (hyde && typeof parsed.passage === "string" && parsed.passage.trim().length > 20) {
+      const words = parsed.passage.trim().split(/\s+/);
+      variants.push({ text: words.slice(0, MAX_PASSAGE_WORDS).join(" "), kind: "hyde" });
+    }
+  } catch (error) {
+    console.error(`⚠️ Generating query variants (${settings.mode}) failed, searching the query only:`, (error as Error).message);
+  }
+
+  return variants;
+}
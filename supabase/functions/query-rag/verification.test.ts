@@ -0,0 +1,160 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { LLMProvider } from "../_shared/providers/index.ts";
+import { stubEnv } from "../_shared/test-env.ts";
+import type { RetrievedChunk } from "./retrieval.ts";
+import { resolveVerificationSettings, splitClaims, verifyAnswer } from "./verification.ts";
+
+const env = stubEnv();
+const realFetch = globalThis.fetch;
+
+afterEach(() => {
+  env.clear();
+  globalThis.fetch = realFetch;
+});
+
+function claimsOf(answer: string) {
+  const claims = splitClaims(answer);
+  for (const claim of claims) {
+    assert.equal(answer.slice(claim.start, claim.end), claim.text);
+  }
+  return claims.map((c) => [c.text, c.markers]);
+}
+
+function source(id: string, content: string): RetrievedChunk {
+  return { chunk_id: id, content, document_id: "doc", filename: "policy.pdf", combined_score: 0, similarity: 0, search_type: "hybrid" };
+}
+
+// LLM answering the verification prompt with 0-10 scores for claims 1..n
+function verifier(...scores: Array<number | null>): LLMProvider {
+  const verdicts = scores.flatMap((score, i) => (score === null ? [] : [{ index: i + 1, score }]));
+  return { generate: () => Promise.resolve(JSON.stringify({ verdicts })) } as unknown as LLMProvider;
+}
+
+const SOURCES = [source("a", "Refunds take 14 days."), source("b", "Shipping is free over $50.")];
+const ANSWER = "Refunds take 14 days [1]. Shipping is always free [2]. Store credit never expires.";
+
+describe("resolveVerificationSettings", () => {
+  it("is off and flags by default", () => {
+    assert.deepEqual(resolveVerificationSettings(), { mode: "off", action: "flag" });
+  });
+
+  it("reads VERIFY_MODE and VERIFY_ACTION, and prefers request overrides", () => {
+    env.set("VERIFY_MODE", "nli");
+    env.set("VERIFY_ACTION", "remove");
+    assert.deepEqual(resolveVerificationSettings(), { mode: "nli", action: "remove" });
+    assert.deepEqual(resolveVerificationSettings({ mode: "llm", action: "flag" }), { mode: "llm", action: "flag" });
+  });
+
+  it("ignores unknown values", () => {
+    env.set("VERIFY_MODE", "strict");
+    assert.deepEqual(resolveVerificationSettings({ mode: "always", action: "delete" }), { mode: "off", action: "flag" });
+  });
+});
+
+describe("splitClaims", () => {
+  it("is empty for an empty answer", () => {
+    assert.deepEqual(claimsOf(""), []);
+  });
+
+  it("splits sentences and keeps their markers", () => {
+    assert.deepEqual(claimsOf("Refunds take 14 days [1]. Shipping is free for orders over $50 [2][3]."), [
+      ["Refunds take 14 days [1].", [1]],
+      ["Shipping is free for orders over $50 [2][3].", [2, 3]],
+    ]);
+  });
+
+  it("keeps markers after the punctuation with the sentence", () => {
+    assert.deepEqual(claimsOf("Revenue grew by twelve percent. [1] Costs stayed flat this year."), [
+      ["Revenue grew by twelve percent. [1]", [1]],
+      ["Costs stayed flat this year.", []],
+    ]);
+  });
+
+  it("does not end a sentence at a decimal point", () => {
+    assert.deepEqual(claimsOf("Revenue was $1.2M in the third quarter [1]."), [["Revenue was $1.2M in the third quarter [1].", [1]]]);
+  });
+
+  it("makes every line a claim and skips list numbers and lead-ins", () => {
+    assert.deepEqual(claimsOf("Based on the policy:\n1. Refunds need the original receipt [1]\n2. Store credit never expires [2]"), [
+      ["Refunds need the original receipt [1]", [1]],
+      ["Store credit never expires [2]", [2]],
+    ]);
+  });
+
+  it("skips statements that something is missing", () => {
+    assert.deepEqual(claimsOf("The documents do not mention parking. Visitors must sign in at reception [1]."), [
+      ["Visitors must sign in at reception [1].", [1]],
+    ]);
+  });
+
+  it("skips fragments of fewer than three words", () => {
+    assert.deepEqual(claimsOf("Yes. Refunds take 14 days."), [["Refunds take 14 days.", []]]);
+  });
+});
+
+describe("verifyAnswer", () => {
+  it("does nothing when off", async () => {
+    assert.equal(await verifyAnswer(verifier(10), ANSWER, SOURCES, { mode: "off", action: "flag" }), null);
+  });
+
+  it("does nothing for an answer without claims", async () => {
+    assert.equal(await verifyAnswer(verifier(10), "Yes.", SOURCES, { mode: "llm", action: "flag" }), null);
+  });
+
+  it("flags claims scoring below 5 of 10 and keeps the answer", async () => {
+    const result = await verifyAnswer(verifier(9, 2, 5), ANSWER, SOURCES, { mode: "llm", action: "flag" });
+    assert.equal(result?.answer, ANSWER);
+    assert.deepEqual(result?.verification.claims.map((c) => [c.verdict, c.score]), [["supported", 0.9], ["unsupported", 0.2], ["supported", 0.5]]);
+  });
+
+  it("marks claims the verifier skipped as unknown", async () => {
+    const result = await verifyAnswer(verifier(9, null, 8), ANSWER, SOURCES, { mode: "llm", action: "flag" });
+    assert.deepEqual(result?.verification.claims.map((c) => c.verdict), ["supported", "unknown", "supported"]);
+  });
+
+  it("removes unsupported claims and moves the spans of the rest", async () => {
+    const result = await verifyAnswer(verifier(9, 2, 8), ANSWER, SOURCES, { mode: "llm", action: "remove" });
+    assert.equal(result?.answer, "Refunds take 14 days [1]. Store credit never expires.");
+    const [kept, removed, last] = result!.verification.claims;
+    assert.equal(result!.answer.slice(kept.answer_start, kept.answer_end), kept.text);
+    assert.equal(result!.answer.slice(last.answer_start, last.answer_end), last.text);
+    assert.deepEqual([removed.removed, removed.answer_start], [true, undefined]);
+  });
+
+  it("removes every claim when none is supported", async () => {
+    const result = await verifyAnswer(verifier(0, 0, 0), ANSWER, SOURCES, { mode: "llm", action: "remove" });
+    assert.equal(result?.answer, "");
+    assert.ok(result?.verification.claims.every((c) => c.removed));
+  });
+
+  it("leaves the answer unverified when the LLM gives no verdicts", async () => {
+    assert.equal(await verifyAnswer(verifier(), ANSWER, SOURCES, { mode: "llm", action: "remove" }), null);
+  });
+
+  it("checks claims against their cited sources with NLI, all sources when uncited", async () => {
+    env.set("VERIFY_NLI_URL", "http://nli:8080");
+    let inputs: string[][] = [];
+    globalThis.fetch = ((_url: string, init: RequestInit) => {
+      inputs = JSON.parse(String(init.body)).inputs;
+      const predictions = inputs.map(([premise, hypothesis]) => [
+        { label: "ENTAILMENT", score: premise.startsWith("Refunds") && hypothesis.startsWith("Refunds") ? 0.97 : 0.1 },
+        { label: "CONTRADICTION", score: 0.5 },
+      ]);
+      return Promise.resolve(new Response(JSON.stringify(predictions)));
+    }) as typeof fetch;
+
+    const result = await verifyAnswer(verifier(), ANSWER, SOURCES, { mode: "nli", action: "flag" });
+    assert.deepEqual(inputs.map(([premise, hypothesis]) => [premise.slice(0, 8), hypothesis]), [
+      ["Refunds ", "Refunds take 14 days."],
+      ["Shipping", "Shipping is always free."],
+      ["Refunds ", "Store credit never expires."],
+      ["Shipping", "Store credit never expires."],
+    ]);
+    assert.deepEqual(result?.verification.claims.map((c) => c.verdict), ["supported", "unsupported", "unsupported"]);
+  });
+
+  it("leaves the answer unverified when NLI is not configured", async () => {
+    assert.equal(await verifyAnswer(verifier(), ANSWER, SOURCES, { mode: "nli", action: "flag" }), null);
+  });
+});
@@ -0,0 +1,258 @@
+// Optional hallucination guard for query-rag answers
+// After generation the answer is split into claims (sentences) and every claim is checked
+// against the sources it cites (all sources in the prompt when it cites none).
+//
+// Modes:
+//   off  no verification (default)
+//   llm  one JSON call to the configured provider judging every claim
+//   nli  POST claim/source pairs to an NLI classifier (VERIFY_NLI_URL) speaking the Text
+//        Embeddings Inference /predict API; a claim is supported when a source entails it
+//
+// Actions for unsupported claims:
+//   flag    keep them in the answer; the verdicts let the UI grey them out (default)
+//   remove  drop them from the answer
+
+import type { LLMProvider } from "../_shared/providers/index.ts";
+import type { RetrievedChunk } from "./retrieval.ts";
+
+export type VerificationMode = "off" | "llm" | "nli";
+export type VerificationAction = "flag" | "remove";
+
+export interface VerificationOptions {
+  // "off" | "llm" | "nli" (defaults to VERIFY_MODE)
+  mode?: string;
+  // "flag" | "remove" (defaults to VERIFY_ACTION)
+  action?: string;
+}
+
+export interface VerificationSettings {
+  mode: VerificationMode;
+  action: VerificationAction;
+}
+
+export interface ClaimVerdict {
+  // Claim text as it appears in the answer (citation markers included)
+  text: string;
+  // Span in the returned answer; absent for claims that were removed
+  answer_start?: number;
+  answer_end?: number;
+  // Source numbers ([N]) the claim cites
+  markers: number[];
+  // "unknown" when the verifier gave no judgment for the claim
+  verdict: "supported" | "unsupported" | "unknown";
+  // Support score 0-1 (LLM judgment or entailment probability)
+  score: number | null;
+  removed?: boolean;
+}
+
+export interface AnswerVerification {
+  method: "llm" | "nli";
+  action: VerificationAction;
+  claims: ClaimVerdict[];
+}
+
+const VERIFICATION_MODES: VerificationMode[] = ["off", "llm", "nli"];
+// Score at which a claim counts as supported
+const SUPPORT_THRESHOLD = 0.5;
+// Characters of each source shown to the verifier
+const MAX_SOURCE_CHARS = 1500;
+// Sources an uncited claim is checked against with NLI
+const MAX_UNCITED_SOURCES = 5;
+// Sentences that only say something is missing are not factual claims
+const NOT_AVAILABLE = /\b(?:do(?:es)? not|don't|doesn't|cannot|could not) (?:have|find|contain|provide|mention)\b/i;
+
+export function resolveVerificationSettings(overrides: VerificationOptions = {}): VerificationSettings {
+  const isMode = (value: unknown): value is VerificationMode => VERIFICATION_MODES.includes(value as VerificationMode);
+  const isAction = (value: unknown): value is VerificationAction => value === "flag" || value === "remove";
+
+  const envMode = Deno.env.get("VERIFY_MODE");
+  const envAction = Deno.env.get("VERIFY_ACTION");
+  return {
+    mode: isMode(overrides.mode) ? overrides.mode : isMode(envMode) ? envMode : "off",
+    action: isAction(overrides.action) ? overrides.action : isAction(envAction) ? envAction : "flag",
+  };
+}
+
+interface Claim {
+  text: string;
+  start: number;
+  end: number;
+  markers: number[];
+}
+
+// Sentences (and lines) of the answer; a sentence ends at . ! or ? followed by whitespace,
+// with any citation markers right after the punctuation kept in the sentence
+export function splitClaims(answer: string): Claim[] {
+  const claims: Claim[] = [];
+  const boundary = /[.!?](?:\s*\[\d+\])*(?=\s|$)|\n/g;
+  let start = 0;
+
+  const push = (end: number) => {
+    const raw = answer.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const text = raw.trim();
+    // Skip list numbers ("1."), headings, lead-ins ("Based on the policy:") and other fragments
+    if ((text.match(/[a-zäöüß]{2,}/gi) || []).length >= 3 && !text.endsWith(":") && !NOT_AVAILABLE.test(text)) {
+      claims.push({
+        text,
+        start: start + leading,
+        end: start + leading + text.length,
+        markers: [...new Set([...text.matchAll(/\[(\d+)\]/g)].map((m) => Number(m[1])))],
+      });
+    }
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(answer)) !== null) {
+    const end = match.index + match[0].length;
+    push(end);
+    start = end;
+  }
+  push(answer.length);
+
+  return claims;
+}
+
+function withoutMarkers(text: string): string {
+  return text.replace(/\s*\[\d+\]/g, "").trim();
+}
+
+function evidenceFor(claim: Claim, chunks: RetrievedChunk[]): RetrievedChunk[] {
+  const cited = claim.markers.map((n) => chunks[n - 1]).filter(Boolean);
+  return cited.length > 0 ? cited : chunks.slice(0, MAX_UNCITED_SOURCES);
+}
+
+async function llmVerdicts(llm: LLMProvider, claims: Claim[], chunks: RetrievedChunk[]): Promise<(number | null)[]> {
+  const prompt = `You are verifying an answer produced by a document question-answering system.
+
+Sources:
+${chunks.map((c, i) => `[Source ${i + 1} - ${c.filename}]\n${c.content.substring(0, MAX_SOURCE_CHARS)}`).join("\n\n")}
+
+Claims from the answer:
+${claims.map((c, i) => `${i + 1}. ${withoutMarkers(c.text)} (cites: ${c.markers.length > 0 ? c.markers.join(", ") : "none"})`).join("\n")}
+
+For each claim, decide whether the sources it cites support it (any source, if it cites none).
+A claim is supported only if the sources state it or it follows directly from them.
+Score from 0 (contradicted or not in the sources) to 10 (stated in the sources).
+
+Respond with JSON only: {"verdicts": [{"index": 1, "score": 9}, ...]} covering every claim.`;
+
+  const raw = await llm.generate(prompt, { json: true, temperature: 0 });
+  const parsed = JSON.parse(raw.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  const items: Array<{ index: number; score: number }> = parsed.verdicts ?? [];
+  if (items.length === 0) {
+    throw new Error("LLM returned no claim verdicts");
+  }
+
+  const scores: (number | null)[] = new Array(claims.length).fill(null);
+  for (const item of items) {
+    const i = Number(item.index) - 1;
+    const score = Number(item.score);
+    if (i >= 0 && i < claims.length && Number.isFinite(score)) scores[i] = Math.min(1, Math.max(0, score / 10));
+  }
+  return scores;
+}
+
+async function nliVerdicts(claims: Claim[], chunks: RetrievedChunk[]): Promise<(number | null)[]> {
+  const baseUrl = Deno.env.get("VERIFY_NLI_URL");
+  if (!baseUrl) {
+    throw new Error("VERIFY_NLI_URL is not set for NLI verification");
+  }
+
+  // One (premise, hypothesis) pair per claim and source it is checked against
+  const pairs: Array<{ claim: number; premise: string; hypothesis: string }> = [];
+  claims.forEach((claim, i) => {
+    for (const chunk of evidenceFor(claim, chunks)) {
+      pairs.push({ claim: i, premise: chunk.content.substring(0, MAX_SOURCE_CHARS), hypothesis: withoutMarkers(claim.text) });
+    }
+  });
+
+  const apiKey = Deno.env.get("VERIFY_NLI_API_KEY");
+  const response = await fetch(`${baseUrl.replace(/\/$/, "")}/predict`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({ inputs: pairs.map((p) => [p.premise, p.hypothesis]), truncate: true }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`NLI request failed (${response.status}): ${(await response.text()).substring(0, 200)}`);
+  }
+
+  // One list of {label, score} per pair
+  const predictions: Array<Array<{ label: string; score: number }>> = await response.json();
+  const scores: (number | null)[] = new Array(claims.length).fill(null);
+  predictions.forEach((labels, i) => {
+    const entailment = labels.find((l) => /entail/i.test(l.label))?.score;
+    const pair = pairs[i];
+    if (pair && typeof entailment === "number") {
+      scores[pair.claim] = Math.max(scores[pair.claim] ?? 0, entailment);
+    }
+  });
+  return scores;
+}
+
+// Verify the answer's claims; returns null when verification is off or the verifier failed
+// (the answer is then used unverified). With action "remove" the returned answer no longer
+// contains the unsupported claims.
+export async function verifyAnswer(
+  llm: LLMProvider,
+  answer: string,
+  chunks: RetrievedChunk[],
+  settings: VerificationSettings
+): Promise<{ answer: string; verification: AnswerVerification } | null> {
+  if (settings.mode === "off") return null;
+
+  const claims = splitClaims(answer);
+  if (claims.length === 0) return null;
+
+  let scores: (number | null)[];
+  try {
+    scores = settings.mode === "nli"
+      ? await nliVerdicts(claims, chunks)
+      : await llmVerdicts(llm, claims, chunks);
+  } catch (error) {
+    console.error(`⚠️ Answer verification (${settings.mode}) failed, answer left unverified:`, (error as Error).message);
+    return null;
+  }
+
+  const verdicts: ClaimVerdict[] = claims.map((claim, i) => ({
+    text: claim.text,
+    answer_start: claim.start,
+    answer_end: claim.end,
+    markers: claim.markers,
+    verdict: scores[i] === null ? "unknown" : scores[i]! >= SUPPORT_THRESHOLD ? "supported" : "unsupported",
+    score: scores[i],
+  }));
+
+  if (settings.action === "flag") {
+    return { answer, verification: { method: settings.mode, action: "flag", claims: verdicts } };
+  }
+
+  // Cut the unsupported claims out and shift the spans of the remaining ones
+  let verified = "";
+  let cursor = 0;
+  for (const claim of verdicts) {
+    if (claim.verdict !== "unsupported") continue;
+    verified += answer.slice(cursor, claim.answer_start);
+    cursor = claim.answer_end!;
+  }
+  verified += answer.slice(cursor);
+  verified = verified.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").replace(/[ \t]{2,}/g, " ").trim();
+
+  let searchFrom = 0;
+  const kept = verdicts.map((claim): ClaimVerdict => {
+    if (claim.verdict === "unsupported") {
+      const { answer_start: _start, answer_end: _end, ...removed } = claim;
+      return { ...removed, removed: true };
+    }
+    const start = verified.indexOf(claim.text, searchFrom);
+    if (start === -1) return { ...claim, answer_start: undefined, answer_end: undefined };
+    searchFrom = start + claim.text.length;
+    return { ...claim, answer_start: start, answer_end: start + claim.text.length };
+  });
+
+  return { answer: verified, verification: { method: settings.mode, action: "remove", claims: kept } };
+}
@@ -0,0 +1,82 @@
+-- Migration: Database-side vector search for query-rag
+-- Purpose: Return the top-k most similar chunks directly from pgvector instead of
+-- pulling every chunk + embedding into the Edge Function (which capped out at 1000 rows)
+
+-- ============================================
+-- Top-k vector search over chunk embeddings
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.match_chunks(
+  p_query_embedding vector,
+  p_document_ids UUID[],
+  p_match_count INT DEFAULT 15,
+  p_similarity_threshold FLOAT DEFAULT 0.15
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  content TEXT,
+  document_id UUID,
+  chunk_index INT,
+  filename TEXT,
+  similarity FLOAT
+) AS $$
+BEGIN
+  -- Search more lists / graph neighbours than the defaults so the document filter
+  -- below doesn't starve the result set. Both settings are local to this transaction.
+  PERFORM set_config('ivfflat.probes', '10', true);
+  PERFORM set_config('hnsw.ef_search', '100', true);
+
+  RETURN QUERY
+  SELECT
+    nearest.chunk_id,
+    nearest.content,
+    nearest.document_id,
+    nearest.chunk_index,
+    nearest.filename,
+    nearest.similarity
+  FROM (
+    -- ORDER BY distance + LIMIT is what lets the planner use idx_embeddings_vector
+    SELECT
+      c.id AS chunk_id,
+      c.content,
+      c.document_id,
+      c.chunk_index,
+      d.filename,
+      1 - (e.embedding <=> p_query_embedding) AS similarity
+    FROM public.embeddings e
+    JOIN public.chunks c ON c.id = e.chunk_id
+    JOIN public.documents d ON d.id = c.document_id
+    WHERE c.document_id = ANY(p_document_ids)
+      AND e.embedding IS NOT NULL
+    ORDER BY e.embedding <=> p_query_embedding
+    LIMIT p_match_count
+  ) nearest
+  WHERE nearest.similarity >= p_similarity_threshold
+  ORDER BY nearest.similarity DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.match_chunks IS 'Top-k cosine similarity search over chunk embeddings, restricted to the given documents';
+
+-- ============================================
+-- OPTIONAL: Switch the embedding index to HNSW
+-- ============================================
+
+-- idx_embeddings_vector is an ivfflat index that was built on an empty table, so its
+-- lists are poorly trained. HNSW (pgvector >= 0.5.0) needs no training and gives better
+-- recall as the knowledge base grows. Run this manually to switch:
+--
+-- DROP INDEX IF EXISTS public.idx_embeddings_vector;
+-- CREATE INDEX idx_embeddings_vector_hnsw
+--   ON public.embeddings
+--   USING hnsw (embedding vector_cosine_ops)
+--   WITH (m = 16, ef_construction = 64);
+--
+-- To stay on ivfflat instead, rebuild it once data is loaded:
+-- REINDEX INDEX public.idx_embeddings_vector;
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'match_chunks migration completed successfully!' as status;
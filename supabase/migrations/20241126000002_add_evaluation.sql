@@ -0,0 +1,103 @@
+-- Migration: Retrieval evaluation suite
+-- Purpose: Store golden questions with their expected sources/facts, and the metrics of every
+-- evaluation run (recall@k, MRR, nDCG, faithfulness) so retrieval settings can be compared
+
+-- ============================================
+-- Golden questions
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.eval_questions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  question TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'business_owner' CHECK (role IN ('business_owner', 'employee', 'customer')),
+  -- Relevance judgements: chunk ids when known, otherwise whole documents
+  expected_document_ids UUID[] NOT NULL DEFAULT '{}',
+  expected_chunk_ids UUID[] NOT NULL DEFAULT '{}',
+  -- Short facts the answer must contain ("25th of each month", "420,000 EUR")
+  expected_facts TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_eval_questions_active
+  ON public.eval_questions(active);
+
+CREATE TRIGGER update_eval_questions_updated_at
+  BEFORE UPDATE ON public.eval_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Evaluation runs (one per configuration tried)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.eval_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  label TEXT,
+  -- Retrieval + chunking settings the run was executed with
+  config JSONB NOT NULL DEFAULT '{}',
+  k INT NOT NULL DEFAULT 5,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  -- Averages over all questions: { recall_at_k, mrr, ndcg, faithfulness }
+  metrics JSONB,
+  question_count INT NOT NULL DEFAULT 0,
+  error_message TEXT,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_eval_runs_started_at
+  ON public.eval_runs(started_at DESC);
+
+-- ============================================
+-- Per-question results
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.eval_results (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES public.eval_runs(id) ON DELETE CASCADE,
+  question_id UUID REFERENCES public.eval_questions(id) ON DELETE SET NULL,
+  -- Copied so results stay readable after the question is edited or deleted
+  question TEXT NOT NULL,
+  -- Ranked retrieval: [{ chunk_id, document_id, filename, score }]
+  retrieved JSONB NOT NULL DEFAULT '[]',
+  answer TEXT,
+  recall_at_k FLOAT,
+  mrr FLOAT,
+  ndcg FLOAT,
+  faithfulness FLOAT,
+  latency_ms INT,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_eval_results_run_id
+  ON public.eval_results(run_id);
+
+-- ============================================
+-- Disable RLS for evaluation tables (MVP)
+-- ============================================
+
+ALTER TABLE public.eval_questions DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.eval_runs DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.eval_results DISABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on eval_questions" ON public.eval_questions;
+CREATE POLICY "Allow all operations on eval_questions" ON public.eval_questions
+  FOR ALL USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow all operations on eval_runs" ON public.eval_runs;
+CREATE POLICY "Allow all operations on eval_runs" ON public.eval_runs
+  FOR ALL USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow all operations on eval_results" ON public.eval_results;
+CREATE POLICY "Allow all operations on eval_results" ON public.eval_results
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'Evaluation migration completed successfully!' as status;
@@ -0,0 +1,72 @@
+-- Migration: Standalone full-text retrieval for rank fusion
+-- Purpose: query-rag now runs vector search (match_chunks) and full-text search separately
+-- and fuses the two rankings (RRF by default), instead of hybrid_search's fixed weights.
+-- Also records the retrieval strategy used for every answer in chat_history.
+
+-- ============================================
+-- Full-text top-k search over chunks
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.keyword_search(
+  p_question TEXT,
+  p_document_ids UUID[],
+  p_match_count INT DEFAULT 15
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  content TEXT,
+  document_id UUID,
+  chunk_index INT,
+  filename TEXT,
+  keyword_score FLOAT
+) AS $$
+DECLARE
+  v_terms TEXT[];
+  v_query tsquery;
+BEGIN
+  -- OR the question's lexemes together: plainto_tsquery ANDs every word, which matches
+  -- almost nothing for long natural-language questions. ts_rank_cd still ranks chunks
+  -- containing more (and closer) terms higher.
+  v_terms := tsvector_to_array(to_tsvector('english', p_question));
+
+  IF v_terms IS NULL OR array_length(v_terms, 1) IS NULL THEN
+    RETURN;  -- Only stopwords: nothing to match
+  END IF;
+
+  v_query := to_tsquery('english', array_to_string(
+    ARRAY(SELECT quote_literal(term) FROM unnest(v_terms) AS term), ' | '
+  ));
+
+  RETURN QUERY
+  SELECT
+    c.id AS chunk_id,
+    c.content,
+    c.document_id,
+    c.chunk_index,
+    d.filename,
+    ts_rank_cd(to_tsvector('english', c.content), v_query, 32)::FLOAT AS keyword_score
+  FROM public.chunks c
+  JOIN public.documents d ON d.id = c.document_id
+  WHERE c.document_id = ANY(p_document_ids)
+    -- Same expression as idx_chunks_content_fts so the GIN index is used
+    AND to_tsvector('english', c.content) @@ v_query
+  ORDER BY keyword_score DESC
+  LIMIT p_match_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION public.keyword_search IS 'Top-k full-text search over chunks (any question term), restricted to the given documents';
+
+-- ============================================
+-- Record how each answer was retrieved
+-- ============================================
+
+-- e.g. { "retrieval": { "fusion": "rrf", "rrfK": 60, "rerank": { "mode": "off" } } }
+ALTER TABLE public.chat_history
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}';
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'Keyword search migration completed successfully!' as status;
@@ -0,0 +1,101 @@
+-- Migration: Conversation threads
+-- Purpose: chat_history rows were only grouped into "sessions" in the sidebar by a 30-minute
+-- time gap. Messages now belong to a conversation with its own title, role and pin state.
+
+-- ============================================
+-- Conversations
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.conversations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID, -- MVP: no user authentication
+  role TEXT NOT NULL DEFAULT 'business_owner' CHECK (role IN ('business_owner', 'employee', 'customer')),
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Time of the latest message (maintained by touch_conversation), used for ordering
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_role_updated_at
+  ON public.conversations(role, pinned DESC, updated_at DESC);
+
+-- ============================================
+-- Link messages to conversations
+-- ============================================
+
+ALTER TABLE public.chat_history
+  ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS role TEXT CHECK (role IN ('business_owner', 'employee', 'customer'));
+
+CREATE INDEX IF NOT EXISTS idx_chat_history_conversation_id
+  ON public.chat_history(conversation_id, created_at);
+
+-- ============================================
+-- Backfill: existing history becomes threads using the old 30-minute gap rule
+-- ============================================
+
+DO $$
+DECLARE
+  r RECORD;
+  v_conversation_id UUID;
+  v_last_at TIMESTAMPTZ;
+BEGIN
+  FOR r IN
+    SELECT id, question, created_at
+    FROM public.chat_history
+    WHERE conversation_id IS NULL
+    ORDER BY created_at
+  LOOP
+    IF v_conversation_id IS NULL OR r.created_at - v_last_at > INTERVAL '30 minutes' THEN
+      INSERT INTO public.conversations (role, title, created_at, updated_at)
+      VALUES ('business_owner', left(r.question, 80), r.created_at, r.created_at)
+      RETURNING id INTO v_conversation_id;
+    END IF;
+
+    UPDATE public.chat_history
+    SET conversation_id = v_conversation_id, role = COALESCE(role, 'business_owner')
+    WHERE id = r.id;
+
+    UPDATE public.conversations SET updated_at = r.created_at WHERE id = v_conversation_id;
+    v_last_at := r.created_at;
+  END LOOP;
+END $$;
+
+-- ============================================
+-- Keep conversations.updated_at at the latest message
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.touch_conversation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.conversation_id IS NOT NULL THEN
+    UPDATE public.conversations
+    SET updated_at = COALESCE(NEW.created_at, NOW())
+    WHERE id = NEW.conversation_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_conversation_on_message ON public.chat_history;
+CREATE TRIGGER touch_conversation_on_message
+  AFTER INSERT ON public.chat_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_conversation();
+
+-- ============================================
+-- Disable RLS for conversations (MVP)
+-- ============================================
+
+ALTER TABLE public.conversations DISABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on conversations" ON public.conversations;
+CREATE POLICY "Allow all operations on conversations" ON public.conversations
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'Conversations migration completed successfully!' as status;
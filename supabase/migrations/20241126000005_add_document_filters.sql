@@ -0,0 +1,253 @@
+-- Migration: Metadata filters for retrieval
+-- Purpose: Let queries be restricted to specific documents, file types, tags and
+-- upload/effective date ranges. Documents get tags and an effective date, and the
+-- retrieval RPCs take an optional p_filters JSONB that is applied next to the
+-- role-based p_document_ids:
+--   { "document_ids": [...], "file_types": [...], "tags": [...],
+--     "uploaded_from": "2023-01-01", "uploaded_to": "2023-12-31",
+--     "effective_from": "2023-01-01", "effective_to": "2023-12-31" }
+-- Every key is optional; tags match when a document has any of them, dates are inclusive.
+
+-- ============================================
+-- Document tags and effective date
+-- ============================================
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+  -- Date the content applies from (e.g. a handbook's edition), set by the uploader
+  ADD COLUMN IF NOT EXISTS effective_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_documents_tags ON public.documents USING gin(tags);
+CREATE INDEX IF NOT EXISTS idx_documents_effective_date ON public.documents(effective_date);
+
+-- ============================================
+-- Filter predicate shared by the retrieval RPCs
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.document_matches_filters(
+  p_document public.documents,
+  p_filters JSONB
+)
+RETURNS BOOLEAN AS $$
+  SELECT
+    (NOT (p_filters ? 'document_ids')
+      OR p_document.id = ANY(ARRAY(SELECT jsonb_array_elements_text(p_filters->'document_ids'))::UUID[]))
+    AND (NOT (p_filters ? 'file_types')
+      OR p_document.file_type = ANY(ARRAY(SELECT jsonb_array_elements_text(p_filters->'file_types'))))
+    AND (NOT (p_filters ? 'tags')
+      OR p_document.tags && ARRAY(SELECT jsonb_array_elements_text(p_filters->'tags')))
+    AND (NOT (p_filters ? 'uploaded_from')
+      OR p_document.created_at::DATE >= (p_filters->>'uploaded_from')::DATE)
+    AND (NOT (p_filters ? 'uploaded_to')
+      OR p_document.created_at::DATE <= (p_filters->>'uploaded_to')::DATE)
+    -- Documents without an effective date never match an effective-date range
+    AND (NOT (p_filters ? 'effective_from')
+      OR p_document.effective_date >= (p_filters->>'effective_from')::DATE)
+    AND (NOT (p_filters ? 'effective_to')
+      OR p_document.effective_date <= (p_filters->>'effective_to')::DATE);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION public.document_matches_filters IS 'True when the document satisfies every key of a retrieval filter object';
+
+-- ============================================
+-- Retrieval RPCs with p_filters
+-- ============================================
+
+-- The old signatures are dropped so calls without p_filters are not ambiguous
+DROP FUNCTION IF EXISTS public.match_chunks(vector, UUID[], INT, FLOAT);
+DROP FUNCTION IF EXISTS public.keyword_search(TEXT, UUID[], INT);
+DROP FUNCTION IF EXISTS public.hybrid_search(TEXT, vector, UUID[], FLOAT, FLOAT, INT);
+
+CREATE OR REPLACE FUNCTION public.match_chunks(
+  p_query_embedding vector,
+  p_document_ids UUID[],
+  p_match_count INT DEFAULT 15,
+  p_similarity_threshold FLOAT DEFAULT 0.15,
+  p_filters JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  content TEXT,
+  document_id UUID,
+  chunk_index INT,
+  filename TEXT,
+  similarity FLOAT
+) AS $$
+BEGIN
+  -- Search more lists / graph neighbours than the defaults so the document filter
+  -- below doesn't starve the result set. Both settings are local to this transaction.
+  PERFORM set_config('ivfflat.probes', '10', true);
+  PERFORM set_config('hnsw.ef_search', '100', true);
+
+  RETURN QUERY
+  SELECT
+    nearest.chunk_id,
+    nearest.content,
+    nearest.document_id,
+    nearest.chunk_index,
+    nearest.filename,
+    nearest.similarity
+  FROM (
+    -- ORDER BY distance + LIMIT is what lets the planner use idx_embeddings_vector
+    SELECT
+      c.id AS chunk_id,
+      c.content,
+      c.document_id,
+      c.chunk_index,
+      d.filename,
+      1 - (e.embedding <=> p_query_embedding) AS similarity
+    FROM public.embeddings e
+    JOIN public.chunks c ON c.id = e.chunk_id
+    JOIN public.documents d ON d.id = c.document_id
+    WHERE c.document_id = ANY(p_document_ids)
+      AND public.document_matches_filters(d, COALESCE(p_filters, '{}'))
+      AND e.embedding IS NOT NULL
+    ORDER BY e.embedding <=> p_query_embedding
+    LIMIT p_match_count
+  ) nearest
+  WHERE nearest.similarity >= p_similarity_threshold
+  ORDER BY nearest.similarity DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.match_chunks IS 'Top-k cosine similarity search over chunk embeddings, restricted to the given documents and filters';
+
+CREATE OR REPLACE FUNCTION public.keyword_search(
+  p_question TEXT,
+  p_document_ids UUID[],
+  p_match_count INT DEFAULT 15,
+  p_filters JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  content TEXT,
+  document_id UUID,
+  chunk_index INT,
+  filename TEXT,
+  keyword_score FLOAT
+) AS $$
+DECLARE
+  v_terms TEXT[];
+  v_query tsquery;
+BEGIN
+  -- OR the question's lexemes together (see 20241126000003_add_keyword_search.sql)
+  v_terms := tsvector_to_array(to_tsvector('english', p_question));
+
+  IF v_terms IS NULL OR array_length(v_terms, 1) IS NULL THEN
+    RETURN;  -- Only stopwords: nothing to match
+  END IF;
+
+  v_query := to_tsquery('english', array_to_string(
+    ARRAY(SELECT quote_literal(term) FROM unnest(v_terms) AS term), ' | '
+  ));
+
+  RETURN QUERY
+  SELECT
+    c.id AS chunk_id,
+    c.content,
+    c.document_id,
+    c.chunk_index,
+    d.filename,
+    ts_rank_cd(to_tsvector('english', c.content), v_query, 32)::FLOAT AS keyword_score
+  FROM public.chunks c
+  JOIN public.documents d ON d.id = c.document_id
+  WHERE c.document_id = ANY(p_document_ids)
+    AND public.document_matches_filters(d, COALESCE(p_filters, '{}'))
+    -- Same expression as idx_chunks_content_fts so the GIN index is used
+    AND to_tsvector('english', c.content) @@ v_query
+  ORDER BY keyword_score DESC
+  LIMIT p_match_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION public.keyword_search IS 'Top-k full-text search over chunks (any question term), restricted to the given documents and filters';
+
+CREATE OR REPLACE FUNCTION public.hybrid_search(
+  p_question TEXT,
+  p_question_embedding vector,
+  p_document_ids UUID[],
+  p_semantic_weight FLOAT DEFAULT 0.6,
+  p_keyword_weight FLOAT DEFAULT 0.4,
+  p_limit INT DEFAULT 20,
+  p_filters JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  document_id UUID,
+  filename TEXT,
+  semantic_score FLOAT,
+  keyword_score FLOAT,
+  combined_score FLOAT,
+  search_type TEXT
+) AS $$
+DECLARE
+  v_query tsquery := plainto_tsquery('english', p_question);
+  v_document_ids UUID[];
+BEGIN
+  -- Apply the filters once; both searches below only see the remaining documents
+  SELECT ARRAY_AGG(d.id) INTO v_document_ids
+  FROM public.documents d
+  WHERE d.id = ANY(p_document_ids)
+    AND public.document_matches_filters(d, COALESCE(p_filters, '{}'));
+
+  RETURN QUERY
+  WITH semantic_results AS (
+    SELECT
+      c.id,
+      c.content,
+      c.document_id,
+      d.filename,
+      1 - (e.embedding <=> p_question_embedding) as semantic_score
+    FROM public.chunks c
+    JOIN public.documents d ON c.document_id = d.id
+    LEFT JOIN public.embeddings e ON c.id = e.chunk_id
+    WHERE c.document_id = ANY(v_document_ids)
+      AND e.embedding IS NOT NULL
+      AND 1 - (e.embedding <=> p_question_embedding) > 0.2  -- Only strong matches
+  ),
+  keyword_results AS (
+    SELECT
+      c.id,
+      c.content,
+      c.document_id,
+      d.filename,
+      LEAST(1.0, ts_rank(to_tsvector('english', c.content), v_query) * 2.0) as keyword_score
+    FROM public.chunks c
+    JOIN public.documents d ON c.document_id = d.id
+    WHERE c.document_id = ANY(v_document_ids)
+      AND to_tsvector('english', c.content) @@ v_query
+  ),
+  combined_results AS (
+    -- Deduplicate by chunk id, weighting both scores
+    SELECT
+      COALESCE(s.id, k.id) as id,
+      COALESCE(s.content, k.content) as content,
+      COALESCE(s.document_id, k.document_id) as document_id,
+      COALESCE(s.filename, k.filename) as filename,
+      COALESCE(s.semantic_score, 0.0)::FLOAT as semantic_score,
+      COALESCE(k.keyword_score, 0.0)::FLOAT as keyword_score,
+      (COALESCE(s.semantic_score, 0.0) * p_semantic_weight +
+       COALESCE(k.keyword_score, 0.0) * p_keyword_weight)::FLOAT as combined_score,
+      CASE
+        WHEN s.id IS NOT NULL AND k.id IS NOT NULL THEN 'hybrid'
+        WHEN s.id IS NOT NULL THEN 'semantic'
+        ELSE 'keyword'
+      END as search_type
+    FROM semantic_results s
+    FULL OUTER JOIN keyword_results k ON s.id = k.id
+  )
+  SELECT *
+  FROM combined_results
+  ORDER BY combined_score DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.hybrid_search IS 'Weighted semantic + keyword search (legacy fusion), restricted to the given documents and filters';
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'Document filters migration completed successfully!' as status;
@@ -0,0 +1,248 @@
+-- Migration: Spreadsheet tables for structured question answering
+-- Purpose: process-document stores every spreadsheet sheet as a typed table next to its
+-- text chunks, so analytical questions ("total sales in Q2 2023 for region West") can be
+-- answered by an aggregation over all rows instead of whichever rows made it into the
+-- top retrieved chunks. query-rag never sends SQL: it sends a JSON aggregation spec that
+-- aggregate_document_table validates against the table's columns and runs read-only.
+
+-- ============================================
+-- Tables and rows
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.document_tables (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  sheet_name TEXT NOT NULL,
+  -- [{ "key": "sales", "name": "Sales", "type": "number" | "date" | "boolean" | "text" }, ...]
+  columns JSONB NOT NULL,
+  row_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (document_id, sheet_name)
+);
+
+CREATE TABLE IF NOT EXISTS public.document_table_rows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  table_id UUID NOT NULL REFERENCES public.document_tables(id) ON DELETE CASCADE,
+  -- Same numbering as the "ROW n" lines of the sheet's text chunks (header row excluded)
+  row_number INT NOT NULL,
+  -- Column key -> typed value (numbers as JSON numbers, dates as YYYY-MM-DD, empty cells null)
+  data JSONB NOT NULL,
+  UNIQUE (table_id, row_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_tables_document_id ON public.document_tables(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_table_rows_data ON public.document_table_rows USING gin(data);
+
+-- ============================================
+-- Disable RLS for spreadsheet tables (MVP)
+-- ============================================
+
+ALTER TABLE public.document_tables DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_table_rows DISABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on document_tables" ON public.document_tables;
+CREATE POLICY "Allow all operations on document_tables" ON public.document_tables
+  FOR ALL USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow all operations on document_table_rows" ON public.document_table_rows;
+CREATE POLICY "Allow all operations on document_table_rows" ON public.document_table_rows
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- ============================================
+-- Tables in the search space
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.match_document_tables(
+  p_document_ids UUID[],
+  p_filters JSONB DEFAULT '{}'
+)
+RETURNS TABLE (
+  table_id UUID,
+  document_id UUID,
+  filename TEXT,
+  sheet_name TEXT,
+  columns JSONB,
+  row_count INT
+) AS $$
+  SELECT t.id, t.document_id, d.filename, t.sheet_name, t.columns, t.row_count
+  FROM public.document_tables t
+  JOIN public.documents d ON d.id = t.document_id
+  WHERE t.document_id = ANY(p_document_ids)
+    AND public.document_matches_filters(d, COALESCE(p_filters, '{}'))
+    AND t.row_count > 0
+  ORDER BY d.filename, t.sheet_name;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION public.match_document_tables IS 'Spreadsheet tables of the given documents that pass the retrieval filters';
+
+-- ============================================
+-- Safe aggregation
+-- ============================================
+
+-- Typed SQL expression for a column of r.data; raises for unknown columns so the
+-- spec can only reference columns that exist
+CREATE OR REPLACE FUNCTION public.document_table_column_expr(
+  p_columns JSONB,
+  p_key TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_type TEXT;
+BEGIN
+  SELECT c->>'type' INTO v_type
+  FROM jsonb_array_elements(p_columns) AS c
+  WHERE c->>'key' = p_key;
+
+  IF v_type IS NULL THEN
+    RAISE EXCEPTION 'Unknown column: %', p_key;
+  END IF;
+
+  RETURN CASE v_type
+    WHEN 'number' THEN format('(r.data->>%L)::NUMERIC', p_key)
+    WHEN 'date' THEN format('(r.data->>%L)::DATE', p_key)
+    ELSE format('(r.data->>%L)', p_key)
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Runs one aggregation over a spreadsheet table. The spec is JSON, never SQL:
+--   { "aggregate": "sum" | "avg" | "min" | "max" | "count",
+--     "column": "sales",                        -- not needed for count
+--     "filters": [{ "column": "region", "op": "eq", "value": "West" }, ...],
+--     "group_by": ["region"],                   -- up to 3 columns
+--     "order": "desc" | "asc", "limit": 50 }
+-- Filter ops: eq, neq, gt, gte, lt, lte, contains (text), in (value is an array).
+-- Text comparisons ignore case. Column keys are checked against document_tables.columns
+-- and every value is quoted as a literal; the function is STABLE, so Postgres rejects any
+-- data modification inside it. Returns one row per group with the rows that fed it.
+CREATE OR REPLACE FUNCTION public.aggregate_document_table(
+  p_table_id UUID,
+  p_spec JSONB
+)
+RETURNS TABLE (
+  group_values JSONB,
+  value JSONB,
+  row_count INT,
+  row_numbers INT[]
+) AS $$
+DECLARE
+  v_columns JSONB;
+  v_aggregate TEXT := lower(COALESCE(p_spec->>'aggregate', 'count'));
+  v_value_expr TEXT;
+  v_where TEXT := '';
+  v_group_select TEXT := '''{}''::JSONB';  -- no grouping: one row with empty group values
+  v_group_by TEXT := '';
+  v_filter JSONB;
+  v_key TEXT;
+  v_expr TEXT;
+  v_is_text BOOLEAN;
+  v_op TEXT;
+  v_operator TEXT;
+  v_literal TEXT;
+  v_limit INT := LEAST(GREATEST(COALESCE((p_spec->>'limit')::INT, 50), 1), 200);
+  v_order TEXT := CASE WHEN lower(p_spec->>'order') = 'asc' THEN 'ASC' ELSE 'DESC' END;
+BEGIN
+  SELECT t.columns INTO v_columns FROM public.document_tables t WHERE t.id = p_table_id;
+  IF v_columns IS NULL THEN
+    RAISE EXCEPTION 'Unknown table: %', p_table_id;
+  END IF;
+
+  -- Aggregate expression
+  IF v_aggregate NOT IN ('sum', 'avg', 'min', 'max', 'count') THEN
+    RAISE EXCEPTION 'Unsupported aggregate: %', v_aggregate;
+  END IF;
+
+  IF p_spec ? 'column' AND p_spec->>'column' IS NOT NULL THEN
+    v_expr := public.document_table_column_expr(v_columns, p_spec->>'column');
+    IF v_aggregate IN ('sum', 'avg') AND v_expr NOT LIKE '%::NUMERIC' THEN
+      RAISE EXCEPTION '% needs a numeric column', v_aggregate;
+    END IF;
+    v_value_expr := format('%s(%s)', upper(v_aggregate), v_expr);
+  ELSIF v_aggregate = 'count' THEN
+    v_value_expr := 'COUNT(*)';
+  ELSE
+    RAISE EXCEPTION '% needs a column', v_aggregate;
+  END IF;
+
+  -- Filters
+  FOR v_filter IN SELECT * FROM jsonb_array_elements(COALESCE(p_spec->'filters', '[]'::JSONB))
+  LOOP
+    v_expr := public.document_table_column_expr(v_columns, v_filter->>'column');
+    v_is_text := v_expr NOT LIKE '%::NUMERIC' AND v_expr NOT LIKE '%::DATE';
+    v_op := lower(COALESCE(v_filter->>'op', 'eq'));
+
+    IF v_op = 'in' THEN
+      IF jsonb_typeof(v_filter->'value') <> 'array' THEN
+        RAISE EXCEPTION 'Filter op "in" needs an array value';
+      END IF;
+      v_where := v_where || CASE WHEN v_is_text
+        THEN format(' AND lower(%s) IN (SELECT lower(v) FROM jsonb_array_elements_text(%L::JSONB) v)', v_expr, v_filter->'value')
+        ELSE format(' AND %s IN (SELECT v::%s FROM jsonb_array_elements_text(%L::JSONB) v)',
+          v_expr, CASE WHEN v_expr LIKE '%::DATE' THEN 'DATE' ELSE 'NUMERIC' END, v_filter->'value')
+      END;
+      CONTINUE;
+    END IF;
+
+    IF v_op = 'contains' THEN
+      v_where := v_where || format(' AND (%s)::TEXT ILIKE %L', v_expr,
+        '%' || replace(replace(replace(v_filter->>'value', '\', '\\'), '%', '\%'), '_', '\_') || '%');
+      CONTINUE;
+    END IF;
+
+    v_operator := CASE v_op
+      WHEN 'eq' THEN '='
+      WHEN 'neq' THEN '<>'
+      WHEN 'gt' THEN '>'
+      WHEN 'gte' THEN '>='
+      WHEN 'lt' THEN '<'
+      WHEN 'lte' THEN '<='
+    END;
+    IF v_operator IS NULL THEN
+      RAISE EXCEPTION 'Unsupported filter op: %', v_op;
+    END IF;
+
+    v_literal := CASE
+      WHEN v_expr LIKE '%::NUMERIC' THEN format('%L::NUMERIC', v_filter->>'value')
+      WHEN v_expr LIKE '%::DATE' THEN format('%L::DATE', v_filter->>'value')
+      ELSE format('lower(%L)', v_filter->>'value')
+    END;
+    IF v_is_text THEN
+      v_expr := format('lower(%s)', v_expr);
+    END IF;
+
+    v_where := v_where || format(' AND %s %s %s', v_expr, v_operator, v_literal);
+  END LOOP;
+
+  -- Grouping
+  IF jsonb_array_length(COALESCE(p_spec->'group_by', '[]'::JSONB)) > 3 THEN
+    RAISE EXCEPTION 'At most 3 group_by columns are supported';
+  END IF;
+
+  FOR v_key IN SELECT * FROM jsonb_array_elements_text(COALESCE(p_spec->'group_by', '[]'::JSONB))
+  LOOP
+    v_expr := public.document_table_column_expr(v_columns, v_key);
+    v_group_select := CASE WHEN v_group_by = ''
+      THEN format('jsonb_build_object(%L, %s)', v_key, v_expr)
+      ELSE format('%s || jsonb_build_object(%L, %s)', v_group_select, v_key, v_expr)
+    END;
+    v_group_by := v_group_by || CASE WHEN v_group_by = '' THEN ' GROUP BY ' ELSE ', ' END || v_expr;
+  END LOOP;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT %s, to_jsonb(%s), COUNT(*)::INT, (ARRAY_AGG(r.row_number ORDER BY r.row_number))[1:200]
+     FROM public.document_table_rows r
+     WHERE r.table_id = %L%s%s
+     ORDER BY 2 %s NULLS LAST
+     LIMIT %s',
+    v_group_select, v_value_expr, p_table_id, v_where, v_group_by, v_order, v_limit
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION public.aggregate_document_table IS 'Read-only aggregation over a spreadsheet table from a validated JSON spec';
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'Spreadsheet tables migration completed successfully!' as status;
@@ -0,0 +1,247 @@
+-- Migration: Invalidate cached answers when documents change
+-- Purpose: query_cache answers quote documents, but deleting a document, replacing it or
+-- changing who may see it never touched the cache, so a customer could be served an answer
+-- quoting a deleted or now-private document.
+--   - every cache entry records the ids of the documents its answer used (document_ids)
+--   - deleting a document, changing its permissions or taking it out of / back into the
+--     searchable set ('completed') deletes the entries that used it
+--   - each role has a knowledge-base version, bumped by the same changes for every role that
+--     could (or now can) see the document; entries are stamped with the version they were
+--     answered against and only served while it is current, so an answer given before a
+--     relevant document was added or unhidden is not served either
+
+-- ============================================
+-- Knowledge-base version per role
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.knowledge_base_versions (
+  role TEXT PRIMARY KEY CHECK (role IN ('business_owner', 'employee', 'customer')),
+  version BIGINT NOT NULL DEFAULT 1,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO public.knowledge_base_versions (role)
+VALUES ('business_owner'), ('employee'), ('customer')
+ON CONFLICT (role) DO NOTHING;
+
+-- Disable RLS (MVP)
+ALTER TABLE public.knowledge_base_versions DISABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on knowledge_base_versions" ON public.knowledge_base_versions;
+CREATE POLICY "Allow all operations on knowledge_base_versions" ON public.knowledge_base_versions
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION public.get_kb_version(p_role TEXT)
+RETURNS BIGINT AS $$
+  SELECT COALESCE((SELECT version FROM public.knowledge_base_versions WHERE role = p_role), 0);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE public.knowledge_base_versions IS 'Version of the searchable document set per role; cached answers are only served for the current version';
+
+-- ============================================
+-- Cache entries linked to their documents
+-- ============================================
+
+ALTER TABLE public.query_cache
+  ADD COLUMN IF NOT EXISTS document_ids UUID[] NOT NULL DEFAULT '{}',
+  -- Entries cached before versioning (0) are never served again
+  ADD COLUMN IF NOT EXISTS kb_version BIGINT NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_query_cache_document_ids ON public.query_cache USING gin(document_ids);
+
+-- Link existing entries through the document ids in their sources
+UPDATE public.query_cache qc
+SET document_ids = ARRAY(
+  SELECT DISTINCT (source->>'document_id')::UUID
+  FROM jsonb_array_elements(qc.sources) AS source
+  WHERE source->>'document_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+)
+WHERE jsonb_typeof(qc.sources) = 'array';
+
+-- ============================================
+-- Roles that can retrieve a document
+-- ============================================
+
+-- Mirrors the document selection in query-rag: business owners search every completed
+-- document, employees and customers the completed documents shared with them
+CREATE OR REPLACE FUNCTION public.document_search_roles(p_document public.documents)
+RETURNS TEXT[] AS $$
+  SELECT CASE WHEN p_document.status = 'completed' THEN
+    ARRAY['business_owner']
+      || CASE WHEN p_document.accessible_by_employees THEN ARRAY['employee'] ELSE ARRAY[]::TEXT[] END
+      || CASE WHEN p_document.accessible_by_customers THEN ARRAY['customer'] ELSE ARRAY[]::TEXT[] END
+  ELSE ARRAY[]::TEXT[] END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- Invalidation trigger on documents
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.invalidate_document_cache()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_document_id UUID;
+  v_roles_before TEXT[] := ARRAY[]::TEXT[];
+  v_roles_after TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_document_id := OLD.id;
+    v_roles_before := public.document_search_roles(OLD);
+  ELSE
+    v_document_id := NEW.id;
+    v_roles_after := public.document_search_roles(NEW);
+    IF TG_OP = 'UPDATE' THEN
+      v_roles_before := public.document_search_roles(OLD);
+    END IF;
+  END IF;
+
+  -- Updates that do not change who can retrieve the document (progress statuses, tags,
+  -- descriptions) or its file leave the cache alone
+  IF TG_OP = 'UPDATE'
+    AND v_roles_before = v_roles_after
+    AND NEW.storage_path IS NOT DISTINCT FROM OLD.storage_path THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    DELETE FROM public.query_cache WHERE document_ids @> ARRAY[v_document_id];
+  END IF;
+
+  UPDATE public.knowledge_base_versions
+  SET version = version + 1,
+      updated_at = NOW()
+  WHERE role = ANY(v_roles_before || v_roles_after);
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invalidate_document_cache ON public.documents;
+CREATE TRIGGER invalidate_document_cache
+  AFTER INSERT OR UPDATE OR DELETE ON public.documents
+  FOR EACH ROW EXECUTE FUNCTION public.invalidate_document_cache();
+
+-- ============================================
+-- Cache RPCs with document ids and versions
+-- ============================================
+
+-- Only entries answered against the role's current knowledge base, all of whose documents
+-- the role can still retrieve
+CREATE OR REPLACE FUNCTION public.find_similar_cached_queries(
+  query_embedding vector,
+  similarity_threshold FLOAT DEFAULT 0.85,
+  role_filter TEXT DEFAULT 'business_owner',
+  limit_count INT DEFAULT 1
+)
+RETURNS TABLE (
+  id UUID,
+  question TEXT,
+  answer TEXT,
+  sources JSONB,
+  similarity FLOAT8,
+  hit_count INT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    qc.id,
+    qc.question,
+    qc.answer,
+    qc.sources,
+    1 - (qc.question_embedding <=> query_embedding) as similarity,
+    qc.hit_count
+  FROM public.query_cache qc
+  WHERE qc.role = role_filter
+    AND qc.kb_version = public.get_kb_version(role_filter)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(qc.document_ids) AS used(document_id)
+      LEFT JOIN public.documents d ON d.id = used.document_id
+      WHERE d.id IS NULL OR NOT (role_filter = ANY(public.document_search_roles(d)))
+    )
+    AND 1 - (qc.question_embedding <=> query_embedding) >= similarity_threshold
+  ORDER BY similarity DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The old signature is dropped so calls without the new parameters are not ambiguous
+DROP FUNCTION IF EXISTS public.save_cached_query(TEXT, vector, TEXT, JSONB, TEXT) CASCADE;
+
+-- p_kb_version is the version read before retrieval: an answer whose documents changed while
+-- it was generated is stored as already stale. Without it the current version is used;
+-- without p_document_ids they are taken from p_sources.
+CREATE FUNCTION public.save_cached_query(
+  p_question TEXT,
+  p_question_embedding vector,
+  p_answer TEXT,
+  p_sources JSONB,
+  p_role TEXT,
+  p_document_ids UUID[] DEFAULT NULL,
+  p_kb_version BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_id UUID;
+  v_created_at TIMESTAMPTZ;
+  v_document_ids UUID[];
+BEGIN
+  v_document_ids := COALESCE(p_document_ids, ARRAY(
+    SELECT DISTINCT (source->>'document_id')::UUID
+    FROM jsonb_array_elements(COALESCE(p_sources, '[]'::JSONB)) AS source
+    WHERE source ? 'document_id'
+  ));
+
+  INSERT INTO public.query_cache (
+    question,
+    question_embedding,
+    answer,
+    sources,
+    role,
+    document_ids,
+    kb_version,
+    hit_count,
+    last_hit_at,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    p_question,
+    p_question_embedding,
+    p_answer,
+    COALESCE(p_sources, '[]'::JSONB),
+    p_role,
+    v_document_ids,
+    COALESCE(p_kb_version, public.get_kb_version(p_role)),
+    1,
+    NOW(),
+    NOW(),
+    NOW()
+  )
+  ON CONFLICT (question, role)
+  DO UPDATE SET
+    hit_count = query_cache.hit_count + 1,
+    last_hit_at = NOW(),
+    updated_at = NOW(),
+    answer = p_answer,
+    question_embedding = p_question_embedding,
+    sources = COALESCE(p_sources, '[]'::JSONB),
+    document_ids = EXCLUDED.document_ids,
+    kb_version = EXCLUDED.kb_version
+  RETURNING query_cache.id, query_cache.created_at INTO v_id, v_created_at;
+
+  id := v_id;
+  created_at := v_created_at;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'Cache invalidation migration completed successfully!' as status;
+SELECT role, version FROM public.knowledge_base_versions ORDER BY role;
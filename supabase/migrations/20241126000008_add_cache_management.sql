@@ -0,0 +1,195 @@
+-- Migration: Query cache management
+-- Purpose: Admin console for query_cache (/admin/cache)
+--   - per-role cache settings: the similarity a question needs to reuse a cached answer
+--     (was hard-coded to 0.85 in query-rag) and a TTL in days (NULL = never expires)
+--   - curated entries: answers edited by an admin. They are kept when a newer answer to the
+--     same question is generated, do not expire and are not made stale by knowledge-base
+--     version bumps; they are still deleted with the documents they cite.
+--   - pinned entries: never expire and win over unpinned matches
+
+-- ============================================
+-- Per-role cache settings
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.query_cache_settings (
+  role TEXT PRIMARY KEY CHECK (role IN ('business_owner', 'employee', 'customer')),
+  similarity_threshold FLOAT NOT NULL DEFAULT 0.85 CHECK (similarity_threshold > 0 AND similarity_threshold <= 1),
+  ttl_days INT CHECK (ttl_days IS NULL OR ttl_days > 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO public.query_cache_settings (role)
+VALUES ('business_owner'), ('employee'), ('customer')
+ON CONFLICT (role) DO NOTHING;
+
+CREATE TRIGGER update_query_cache_settings_updated_at
+  BEFORE UPDATE ON public.query_cache_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Disable RLS (MVP)
+ALTER TABLE public.query_cache_settings DISABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on query_cache_settings" ON public.query_cache_settings;
+CREATE POLICY "Allow all operations on query_cache_settings" ON public.query_cache_settings
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- ============================================
+-- Curated and pinned entries
+-- ============================================
+
+ALTER TABLE public.query_cache
+  ADD COLUMN IF NOT EXISTS curated BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT false,
+  -- When the answer was last written (the TTL counts from here); updated_at also moves on
+  -- every cache hit
+  ADD COLUMN IF NOT EXISTS answered_at TIMESTAMPTZ;
+
+UPDATE public.query_cache SET answered_at = created_at WHERE answered_at IS NULL;
+
+ALTER TABLE public.query_cache ALTER COLUMN answered_at SET DEFAULT NOW();
+
+-- ============================================
+-- Cache lookup with per-role threshold and TTL
+-- ============================================
+
+-- similarity_threshold now defaults to the role's setting; the return type gains curated
+DROP FUNCTION IF EXISTS public.find_similar_cached_queries(vector, FLOAT, TEXT, INT);
+
+CREATE FUNCTION public.find_similar_cached_queries(
+  query_embedding vector,
+  similarity_threshold FLOAT DEFAULT NULL,
+  role_filter TEXT DEFAULT 'business_owner',
+  limit_count INT DEFAULT 1
+)
+RETURNS TABLE (
+  id UUID,
+  question TEXT,
+  answer TEXT,
+  sources JSONB,
+  similarity FLOAT8,
+  hit_count INT,
+  curated BOOLEAN
+) AS $$
+DECLARE
+  v_threshold FLOAT;
+  v_ttl_days INT;
+BEGIN
+  SELECT s.similarity_threshold, s.ttl_days INTO v_threshold, v_ttl_days
+  FROM public.query_cache_settings s
+  WHERE s.role = role_filter;
+
+  RETURN QUERY
+  SELECT
+    qc.id,
+    qc.question,
+    qc.answer,
+    qc.sources,
+    1 - (qc.question_embedding <=> query_embedding) as similarity,
+    qc.hit_count,
+    qc.curated
+  FROM public.query_cache qc
+  WHERE qc.role = role_filter
+    AND (qc.curated OR qc.kb_version = public.get_kb_version(role_filter))
+    AND (qc.curated OR qc.pinned OR v_ttl_days IS NULL OR qc.answered_at > NOW() - make_interval(days => v_ttl_days))
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(qc.document_ids) AS used(document_id)
+      LEFT JOIN public.documents d ON d.id = used.document_id
+      WHERE d.id IS NULL OR NOT (role_filter = ANY(public.document_search_roles(d)))
+    )
+    AND 1 - (qc.question_embedding <=> query_embedding) >= COALESCE(similarity_threshold, v_threshold, 0.85)
+  ORDER BY qc.pinned DESC, similarity DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Saving never overwrites a curated answer
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.save_cached_query(
+  p_question TEXT,
+  p_question_embedding vector,
+  p_answer TEXT,
+  p_sources JSONB,
+  p_role TEXT,
+  p_document_ids UUID[] DEFAULT NULL,
+  p_kb_version BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_id UUID;
+  v_created_at TIMESTAMPTZ;
+  v_document_ids UUID[];
+BEGIN
+  v_document_ids := COALESCE(p_document_ids, ARRAY(
+    SELECT DISTINCT (source->>'document_id')::UUID
+    FROM jsonb_array_elements(COALESCE(p_sources, '[]'::JSONB)) AS source
+    WHERE source ? 'document_id'
+  ));
+
+  INSERT INTO public.query_cache (
+    question,
+    question_embedding,
+    answer,
+    sources,
+    role,
+    document_ids,
+    kb_version,
+    hit_count,
+    last_hit_at,
+    answered_at,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    p_question,
+    p_question_embedding,
+    p_answer,
+    COALESCE(p_sources, '[]'::JSONB),
+    p_role,
+    v_document_ids,
+    COALESCE(p_kb_version, public.get_kb_version(p_role)),
+    1,
+    NOW(),
+    NOW(),
+    NOW(),
+    NOW()
+  )
+  ON CONFLICT (question, role)
+  DO UPDATE SET
+    hit_count = query_cache.hit_count + 1,
+    last_hit_at = NOW(),
+    answered_at = NOW(),
+    updated_at = NOW(),
+    answer = p_answer,
+    question_embedding = p_question_embedding,
+    sources = COALESCE(p_sources, '[]'::JSONB),
+    document_ids = EXCLUDED.document_ids,
+    kb_version = EXCLUDED.kb_version
+  WHERE NOT query_cache.curated
+  RETURNING query_cache.id, query_cache.created_at INTO v_id, v_created_at;
+
+  -- A curated entry for the question was kept
+  IF v_id IS NULL THEN
+    SELECT qc.id, qc.created_at INTO v_id, v_created_at
+    FROM public.query_cache qc
+    WHERE qc.question = p_question AND qc.role = p_role;
+  END IF;
+
+  id := v_id;
+  created_at := v_created_at;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'Query cache management migration completed successfully!' as status;
+SELECT role, similarity_threshold, ttl_days FROM public.query_cache_settings ORDER BY role;
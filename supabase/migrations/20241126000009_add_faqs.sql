@@ -0,0 +1,147 @@
+-- Migration: Curated FAQ answers
+-- Purpose: Business owners control the exact wording of answers to common questions
+-- (refund policy, opening hours, ...). An FAQ has a canonical question, question variants,
+-- a canonical answer, linked source documents and role visibility. query-rag matches the
+-- question against every variant before the query cache and the RAG pipeline, and returns
+-- the FAQ answer flagged as curated.
+
+-- ============================================
+-- FAQs
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.faqs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  question TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  -- Documents the answer is based on, listed as its sources (when visible to the asking role)
+  source_document_ids UUID[] NOT NULL DEFAULT '{}',
+  accessible_by_business_owners BOOLEAN NOT NULL DEFAULT true,
+  accessible_by_employees BOOLEAN NOT NULL DEFAULT true,
+  accessible_by_customers BOOLEAN NOT NULL DEFAULT true,
+  active BOOLEAN NOT NULL DEFAULT true,
+  hit_count INT NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_faqs_active ON public.faqs(active);
+
+CREATE TRIGGER update_faqs_updated_at
+  BEFORE UPDATE ON public.faqs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Question variants (the canonical question is one of them)
+-- ============================================
+
+-- Few enough rows for an exact scan, so there is no vector index
+CREATE TABLE IF NOT EXISTS public.faq_variants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  faq_id UUID NOT NULL REFERENCES public.faqs(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  embedding vector(768),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_faq_variants_faq_id ON public.faq_variants(faq_id);
+
+-- ============================================
+-- Disable RLS for FAQ tables (MVP)
+-- ============================================
+
+ALTER TABLE public.faqs DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.faq_variants DISABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on faqs" ON public.faqs;
+CREATE POLICY "Allow all operations on faqs" ON public.faqs
+  FOR ALL USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow all operations on faq_variants" ON public.faq_variants;
+CREATE POLICY "Allow all operations on faq_variants" ON public.faq_variants
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- ============================================
+-- Matching
+-- ============================================
+
+-- Best active FAQ visible to the role, by its closest variant. documents lists the linked
+-- documents the role can currently search: [{ document_id, filename, preview }]
+CREATE OR REPLACE FUNCTION public.match_faq(
+  query_embedding vector,
+  role_filter TEXT DEFAULT 'business_owner',
+  similarity_threshold FLOAT DEFAULT 0.85,
+  limit_count INT DEFAULT 1
+)
+RETURNS TABLE (
+  id UUID,
+  question TEXT,
+  answer TEXT,
+  matched_question TEXT,
+  similarity FLOAT8,
+  documents JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    best.id,
+    best.question,
+    best.answer,
+    best.matched_question,
+    best.similarity,
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'document_id', d.id,
+        'filename', d.filename,
+        'preview', (
+          SELECT left(c.content, 300) FROM public.chunks c
+          WHERE c.document_id = d.id
+          ORDER BY c.chunk_index
+          LIMIT 1
+        )
+      )), '[]'::JSONB)
+      FROM public.documents d
+      WHERE d.id = ANY(best.source_document_ids)
+        AND role_filter = ANY(public.document_search_roles(d))
+    ) AS documents
+  FROM (
+    SELECT DISTINCT ON (f.id)
+      f.id,
+      f.question,
+      f.answer,
+      f.source_document_ids,
+      v.question AS matched_question,
+      1 - (v.embedding <=> query_embedding) AS similarity
+    FROM public.faqs f
+    JOIN public.faq_variants v ON v.faq_id = f.id
+    WHERE f.active
+      AND v.embedding IS NOT NULL
+      AND CASE role_filter
+        WHEN 'customer' THEN f.accessible_by_customers
+        WHEN 'employee' THEN f.accessible_by_employees
+        ELSE f.accessible_by_business_owners
+      END
+    ORDER BY f.id, v.embedding <=> query_embedding
+  ) best
+  WHERE best.similarity >= similarity_threshold
+  ORDER BY best.similarity DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.increment_faq_hit(p_faq_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.faqs
+  SET hit_count = hit_count + 1,
+      last_hit_at = NOW()
+  WHERE id = p_faq_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'FAQ migration completed successfully!' as status;
@@ -0,0 +1,176 @@
+-- Migration: Cache fingerprints
+-- Purpose: Cached answers were keyed only on the question embedding and role, so after a
+-- prompt change, a model swap or retuned retrieval the old answers kept being served.
+-- query-rag now sends a fingerprint of its configuration (models, prompt version, chunking,
+-- retrieval settings) with every lookup and save; lookups only match entries with the same
+-- fingerprint. Curated answers are written by an admin, not the pipeline, and match under
+-- any fingerprint. The cache console (/admin/cache) purges or re-warms outdated entries.
+
+-- ============================================
+-- Fingerprint columns
+-- ============================================
+
+ALTER TABLE public.query_cache
+  -- Entries cached before fingerprints (NULL) are outdated
+  ADD COLUMN IF NOT EXISTS fingerprint TEXT,
+  -- The configuration the fingerprint was computed from, for comparing in the console
+  ADD COLUMN IF NOT EXISTS fingerprint_config JSONB NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_query_cache_fingerprint ON public.query_cache(fingerprint);
+
+-- ============================================
+-- Cache lookup by fingerprint
+-- ============================================
+
+DROP FUNCTION IF EXISTS public.find_similar_cached_queries(vector, FLOAT, TEXT, INT);
+
+CREATE FUNCTION public.find_similar_cached_queries(
+  query_embedding vector,
+  similarity_threshold FLOAT DEFAULT NULL,
+  role_filter TEXT DEFAULT 'business_owner',
+  limit_count INT DEFAULT 1,
+  -- NULL matches any fingerprint
+  fingerprint_filter TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  question TEXT,
+  answer TEXT,
+  sources JSONB,
+  similarity FLOAT8,
+  hit_count INT,
+  curated BOOLEAN
+) AS $$
+DECLARE
+  v_threshold FLOAT;
+  v_ttl_days INT;
+BEGIN
+  SELECT s.similarity_threshold, s.ttl_days INTO v_threshold, v_ttl_days
+  FROM public.query_cache_settings s
+  WHERE s.role = role_filter;
+
+  RETURN QUERY
+  SELECT
+    qc.id,
+    qc.question,
+    qc.answer,
+    qc.sources,
+    1 - (qc.question_embedding <=> query_embedding) as similarity,
+    qc.hit_count,
+    qc.curated
+  FROM public.query_cache qc
+  WHERE qc.role = role_filter
+    AND (qc.curated OR fingerprint_filter IS NULL OR qc.fingerprint = fingerprint_filter)
+    AND (qc.curated OR qc.kb_version = public.get_kb_version(role_filter))
+    AND (qc.curated OR qc.pinned OR v_ttl_days IS NULL OR qc.answered_at > NOW() - make_interval(days => v_ttl_days))
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(qc.document_ids) AS used(document_id)
+      LEFT JOIN public.documents d ON d.id = used.document_id
+      WHERE d.id IS NULL OR NOT (role_filter = ANY(public.document_search_roles(d)))
+    )
+    AND 1 - (qc.question_embedding <=> query_embedding) >= COALESCE(similarity_threshold, v_threshold, 0.85)
+  ORDER BY qc.pinned DESC, similarity DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Saving with the fingerprint
+-- ============================================
+
+DROP FUNCTION IF EXISTS public.save_cached_query(TEXT, vector, TEXT, JSONB, TEXT, UUID[], BIGINT);
+
+CREATE FUNCTION public.save_cached_query(
+  p_question TEXT,
+  p_question_embedding vector,
+  p_answer TEXT,
+  p_sources JSONB,
+  p_role TEXT,
+  p_document_ids UUID[] DEFAULT NULL,
+  p_kb_version BIGINT DEFAULT NULL,
+  p_fingerprint TEXT DEFAULT NULL,
+  p_fingerprint_config JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_id UUID;
+  v_created_at TIMESTAMPTZ;
+  v_document_ids UUID[];
+BEGIN
+  v_document_ids := COALESCE(p_document_ids, ARRAY(
+    SELECT DISTINCT (source->>'document_id')::UUID
+    FROM jsonb_array_elements(COALESCE(p_sources, '[]'::JSONB)) AS source
+    WHERE source ? 'document_id'
+  ));
+
+  INSERT INTO public.query_cache (
+    question,
+    question_embedding,
+    answer,
+    sources,
+    role,
+    document_ids,
+    kb_version,
+    fingerprint,
+    fingerprint_config,
+    hit_count,
+    last_hit_at,
+    answered_at,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    p_question,
+    p_question_embedding,
+    p_answer,
+    COALESCE(p_sources, '[]'::JSONB),
+    p_role,
+    v_document_ids,
+    COALESCE(p_kb_version, public.get_kb_version(p_role)),
+    p_fingerprint,
+    COALESCE(p_fingerprint_config, '{}'::JSONB),
+    1,
+    NOW(),
+    NOW(),
+    NOW(),
+    NOW()
+  )
+  ON CONFLICT (question, role)
+  DO UPDATE SET
+    hit_count = query_cache.hit_count + 1,
+    last_hit_at = NOW(),
+    answered_at = NOW(),
+    updated_at = NOW(),
+    answer = p_answer,
+    question_embedding = p_question_embedding,
+    sources = COALESCE(p_sources, '[]'::JSONB),
+    document_ids = EXCLUDED.document_ids,
+    kb_version = EXCLUDED.kb_version,
+    fingerprint = EXCLUDED.fingerprint,
+    fingerprint_config = EXCLUDED.fingerprint_config
+  WHERE NOT query_cache.curated
+  RETURNING query_cache.id, query_cache.created_at INTO v_id, v_created_at;
+
+  -- A curated entry for the question was kept
+  IF v_id IS NULL THEN
+    SELECT qc.id, qc.created_at INTO v_id, v_created_at
+    FROM public.query_cache qc
+    WHERE qc.question = p_question AND qc.role = p_role;
+  END IF;
+
+  id := v_id;
+  created_at := v_created_at;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'Cache fingerprint migration completed successfully!' as status;
+SELECT fingerprint, COUNT(*) AS entries FROM public.query_cache GROUP BY fingerprint;
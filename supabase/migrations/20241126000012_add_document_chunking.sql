@@ -0,0 +1,39 @@
+-- Migration: Chunking settings per document and fact recall
+-- Purpose: Evaluation runs recorded CHUNK_SIZE / CHUNK_OVERLAP from the Next.js environment,
+-- which says nothing about how the corpus was actually chunked by process-document. The chunk
+-- stage now stores its settings on each document and runs record the settings of the
+-- documents they searched. The "faithfulness" metric only ever measured how many expected
+-- facts the answer states, so it is renamed to fact recall.
+
+-- ============================================
+-- Chunking settings
+-- ============================================
+
+-- { size, overlap } used by the chunk stage; NULL for documents chunked before this migration
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS chunking JSONB;
+
+-- ============================================
+-- Rename faithfulness to fact recall
+-- ============================================
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'eval_results' AND column_name = 'faithfulness'
+  ) THEN
+    ALTER TABLE public.eval_results RENAME COLUMN faithfulness TO fact_recall;
+  END IF;
+END $$;
+
+UPDATE public.eval_runs
+SET metrics = (metrics - 'faithfulness') || jsonb_build_object('fact_recall', metrics->'faithfulness')
+WHERE metrics ? 'faithfulness';
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'Document chunking migration completed successfully!' as status;
+SELECT chunking, COUNT(*) AS documents FROM public.documents GROUP BY chunking;
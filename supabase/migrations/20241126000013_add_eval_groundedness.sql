@@ -0,0 +1,19 @@
+-- Migration: Groundedness metric for evaluation runs
+-- Purpose: Fact recall only measures how many expected facts an answer states, not whether
+-- the rest of it is backed by the sources. Evaluation runs now verify every answer's claims
+-- against the sources they cite (claim verification, VERIFY_MODE) and record the share judged
+-- supported as groundedness, next to fact recall.
+
+-- ============================================
+-- Groundedness
+-- ============================================
+
+-- Share of the answer's claims judged supported; NULL when the answer was not verified
+ALTER TABLE public.eval_results
+  ADD COLUMN IF NOT EXISTS groundedness FLOAT;
+
+-- ============================================
+-- Verification
+-- ============================================
+
+SELECT 'Evaluation groundedness migration completed successfully!' as status;